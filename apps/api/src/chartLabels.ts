@@ -0,0 +1,80 @@
+export const ASTRO_SIGN_ELEMENT: Record<string, string> = {
+  Aries: "fire",
+  Leo: "fire",
+  Sagittarius: "fire",
+  Taurus: "earth",
+  Virgo: "earth",
+  Capricorn: "earth",
+  Gemini: "air",
+  Libra: "air",
+  Aquarius: "air",
+  Cancer: "water",
+  Scorpio: "water",
+  Pisces: "water",
+};
+
+export const CHINESE_TRINES: Record<string, string> = {
+  Rat: "inventors",
+  Dragon: "inventors",
+  Monkey: "inventors",
+  Ox: "builders",
+  Snake: "builders",
+  Rooster: "builders",
+  Tiger: "rebels",
+  Horse: "rebels",
+  Dog: "rebels",
+  Rabbit: "heart",
+  Goat: "heart",
+  Pig: "heart",
+};
+
+export const ASTRO_SIGN_SV: Record<string, string> = {
+  Aries: "Väduren",
+  Taurus: "Oxen",
+  Gemini: "Tvillingarna",
+  Cancer: "Kräftan",
+  Leo: "Lejonet",
+  Virgo: "Jungfrun",
+  Libra: "Vågen",
+  Scorpio: "Skorpionen",
+  Sagittarius: "Skytten",
+  Capricorn: "Stenbocken",
+  Aquarius: "Vattumannen",
+  Pisces: "Fiskarna",
+};
+
+export const CHINESE_ZODIAC_SV: Record<string, string> = {
+  Rat: "Råttan",
+  Ox: "Oxen",
+  Tiger: "Tigern",
+  Rabbit: "Kaninen",
+  Dragon: "Draken",
+  Snake: "Ormen",
+  Horse: "Hästen",
+  Goat: "Geten",
+  Monkey: "Apen",
+  Rooster: "Tuppen",
+  Dog: "Hunden",
+  Pig: "Grisen",
+};
+
+export const HUMAN_DESIGN_SV: Record<string, string> = {
+  Projector: "Projektor",
+  Generator: "Generator",
+  "Manifesting Generator": "Manifesting Generator",
+  Manifestor: "Manifestor",
+  Reflector: "Reflektor",
+  "Emotional Authority": "Emotionell auktoritet",
+  "Sacral Authority": "Sakral auktoritet",
+  "Splenic Authority": "Mjältautoritet",
+  "Ego Authority": "Ego-auktoritet",
+  "Self Projected Authority": "Självprojicerad auktoritet",
+  "Mental Authority": "Mental auktoritet",
+  "Lunar Authority": "Lunar auktoritet",
+  "Wait for the Invitation": "Vänta på inbjudan",
+  "Wait to Respond": "Vänta på respons",
+  "Inform before acting": "Informera före handling",
+  "Wait a Lunar Cycle": "Vänta en måncykel",
+  "Single Definition": "Single Definition",
+  "Split Definition": "Split Definition",
+};
@@ -0,0 +1,44 @@
+import { createAdapter } from "@socket.io/redis-adapter";
+import type { Server } from "socket.io";
+import { getRedis } from "./redis";
+
+const url = (process.env.REDIS_URL || "").trim();
+const connectTimeoutMs = Number(process.env.REDIS_ADAPTER_TIMEOUT_MS || 10_000);
+
+let attached = false;
+
+// With Redis every API replica shares the Socket.IO adapter: a broadcast to a
+// room reaches its sockets on all replicas, and serverSideEmit reaches the
+// other replicas. Without REDIS_URL the API runs as a single replica.
+// Only Silent Disco keeps its replicas in step this way. A match lives in the
+// memory of one replica, so matches still need a single API replica.
+export const attachRedisAdapter = async (io: Server): Promise<void> => {
+  if (!url) return;
+  const connect = async () => {
+    const pubClient = await getRedis();
+    const subClient = pubClient.duplicate();
+    subClient.on("error", (err) => {
+      console.error("[redis] adapter error:", err?.message || err);
+    });
+    await subClient.connect();
+    return { pubClient, subClient };
+  };
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new Error("Redis adapter connect timed out")), connectTimeoutMs);
+  });
+  try {
+    const { pubClient, subClient } = await Promise.race([connect(), timeout]);
+    io.adapter(createAdapter(pubClient, subClient));
+    attached = true;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Whether io.serverSideEmit reaches other replicas.
+export const isRedisAdapterAttached = () => attached;
+
+// Whether fetchSockets sees every socket: with the shared adapter, or when
+// this is the only replica.
+export const seesAllReplicas = () => !url || attached;
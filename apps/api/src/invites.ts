@@ -0,0 +1,80 @@
+import { randomInt, randomUUID } from "node:crypto";
+import { readLinkSecret, signLinkToken, verifyLinkToken } from "./linkTokens";
+
+// Invites for matches. Every match gets a short code when it is created, typed
+// or shared like a Silent Disco room code. The host can also hand out signed
+// invite links: a token that expires and lets a limited number of players in.
+// Knowing the match id alone is not enough to take a seat. The links are signed
+// like Silent Disco's join links (linkTokens.ts).
+
+type InviteTokenPayload = {
+  type: "match_invite";
+  matchId: string;
+  seats: number;
+};
+
+export type VerifiedInvite = { ok: true; inviteId: string; matchId: string; seats: number; expiresAt: number };
+
+export const INVITE_CODE_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+export const INVITE_CODE_LENGTH = 6;
+export const INVITE_TOKEN_MIN_TTL_SECONDS = 60;
+export const INVITE_TOKEN_MAX_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const INVITE_TOKEN_TTL_SECONDS = Math.min(
+  INVITE_TOKEN_MAX_TTL_SECONDS,
+  Math.max(INVITE_TOKEN_MIN_TTL_SECONDS, Number(process.env.MATCH_INVITE_TTL_SECONDS || 24 * 60 * 60))
+);
+
+const inviteSecret = readLinkSecret("MATCH_INVITE_SECRET", "match-invite-dev");
+
+export const normalizeInviteCode = (value: unknown): string =>
+  String(value ?? "")
+    .trim()
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, "")
+    .slice(0, INVITE_CODE_LENGTH);
+
+// `isTaken` only sees live matches; the unique index on matches.invite_code
+// catches the rest.
+export const generateInviteCode = (isTaken: (code: string) => boolean): string => {
+  for (let i = 0; i < 80; i += 1) {
+    let candidate = "";
+    for (let j = 0; j < INVITE_CODE_LENGTH; j += 1) {
+      candidate += INVITE_CODE_CHARS[randomInt(INVITE_CODE_CHARS.length)];
+    }
+    if (!isTaken(candidate)) return candidate;
+  }
+  return randomUUID().replace(/-/g, "").toUpperCase().slice(0, INVITE_CODE_LENGTH);
+};
+
+export const signInviteToken = (
+  matchId: string,
+  seats: number,
+  ttlSeconds?: number
+): { inviteId: string; token: string; expiresAt: number } => {
+  const ttl = Math.min(
+    INVITE_TOKEN_MAX_TTL_SECONDS,
+    Math.max(INVITE_TOKEN_MIN_TTL_SECONDS, Math.trunc(ttlSeconds ?? INVITE_TOKEN_TTL_SECONDS))
+  );
+  const inviteId = randomUUID();
+  const payload: InviteTokenPayload = { type: "match_invite", matchId, seats };
+  const token = signLinkToken(payload, inviteSecret, ttl, inviteId);
+  return { inviteId, token, expiresAt: Date.now() + ttl * 1000 };
+};
+
+// `expectedMatchId` is omitted when the token is what tells us the match.
+export const verifyInviteToken = (
+  token: string,
+  expectedMatchId?: string
+): VerifiedInvite | { ok: false; error: string } => {
+  const checked = verifyLinkToken(token, inviteSecret);
+  if (!checked.ok) return { ok: false, error: checked.expired ? "invite_token_expired" : "invite_token_invalid" };
+  const payload = checked.claims;
+  const matchId = String(payload.matchId || "");
+  const seats = Math.trunc(Number(payload.seats));
+  if (payload.type !== "match_invite" || !matchId || !payload.jti || !(seats >= 1)) {
+    return { ok: false, error: "invite_token_invalid" };
+  }
+  if (expectedMatchId && matchId !== expectedMatchId) return { ok: false, error: "invite_token_match_mismatch" };
+  return { ok: true, inviteId: String(payload.jti), matchId, seats, expiresAt: Number(payload.exp) * 1000 };
+};
@@ -0,0 +1,39 @@
+import { randomUUID } from "node:crypto";
+import jwt from "jsonwebtoken";
+
+// Signed links that let someone in: Silent Disco join links and match invites.
+// HS256 tokens with an expiry; each kind has its own secret and checks its own
+// claims on top of these.
+
+export type LinkTokenCheck = { ok: true; claims: Record<string, unknown> } | { ok: false; expired: boolean };
+
+// Without the env var a secret is made per process, so links only work until a
+// restart and only on the replica that made them.
+export const readLinkSecret = (envName: string, devPrefix: string): string => {
+  const fromEnv = String(process.env[envName] || "").trim();
+  if (fromEnv) return fromEnv;
+  return `${devPrefix}-${randomUUID()}`;
+};
+
+export const signLinkToken = (
+  payload: Record<string, unknown>,
+  secret: string,
+  ttlSeconds: number,
+  tokenId?: string
+): string =>
+  jwt.sign(payload, secret, {
+    algorithm: "HS256",
+    expiresIn: ttlSeconds,
+    ...(tokenId ? { jwtid: tokenId } : {}),
+  });
+
+export const verifyLinkToken = (token: string, secret: string): LinkTokenCheck => {
+  try {
+    const decoded = jwt.verify(token, secret, { algorithms: ["HS256"] });
+    if (!decoded || typeof decoded !== "object") return { ok: false, expired: false };
+    return { ok: true, claims: decoded as Record<string, unknown> };
+  } catch (err) {
+    const name = String((err as { name?: string })?.name || "");
+    return { ok: false, expired: name === "TokenExpiredError" };
+  }
+};
@@ -1,4 +1,4 @@
-import type { ClientEvent, LedgerEntry, Match, MatchPlayer, MatchStatus, Stage } from "../../packages/shared/events";
+import type { ClientEvent, LedgerEntry, Match, MatchPlayer, MatchStatus, Stage, StageState } from "../../packages/shared/events";
 import {
   appendEvent,
   saveRedisState,
@@ -9,13 +9,23 @@ import {
 } from "./persistence";
 
 export type RuntimeLike = {
-  orchestrator: { getContext(): { match: Match; players: MatchPlayer[]; stage: Stage; status: MatchStatus } };
+  orchestrator: {
+    getContext(): {
+      match: Match;
+      players: MatchPlayer[];
+      stage: Stage;
+      status: MatchStatus;
+      ledger: LedgerEntry[];
+      stageState: StageState | null;
+    };
+  };
   ready: Set<string>;
-  ledger: LedgerEntry[];
-  yatzySubmissions: Map<string, number>;
   yatzyMatchId: string | null;
+  yatzySeats: Record<string, string> | null;
   hostUserId: string;
-  blackjack: any;
+  identities: Map<string, { authUserId: string | null; displayName: string }>;
+  musicPlaylist: PersistedMatchState["musicPlaylist"];
+  seed: string;
   seq: number;
 };
 
@@ -23,7 +33,10 @@ export const snapshotOnTypes = new Set([
   "MATCH_CREATED",
   "MATCH_JOINED",
   "MATCH_LEFT",
-  "READY_CHECK_PASSED",
+  "PLAYER_DISCONNECTED",
+  "PLAYER_RECONNECTED",
+  "PLAYER_SEAT_EXPIRED",
+  "MATCH_CANCELLED",
   "STAGE_STARTED",
   "STAGE_COMPLETED",
   "LEDGER_ENTRY_APPLIED",
@@ -32,7 +45,21 @@ export const snapshotOnTypes = new Set([
   "YATZY_MATCH_CREATED",
   "BJ_ROUND_STARTED",
   "BJ_HAND_STATE",
+  "BJ_SHOE_STATE",
+  "BJ_SIT_OUT",
   "BJ_ROUND_COMPLETED",
+  "ROULETTE_RESOLVED",
+  "TRIVIA_QUESTION_RESOLVED",
+  "DICE_FIRST_ROLL",
+  "DICE_ROLL_RESOLVED",
+  "MUSIC_PLAYLIST_UPDATED",
+  "MUSIC_ROUND_RESOLVED",
+  "HOLDEM_HAND_STARTED",
+  "HOLDEM_ACTION_APPLIED",
+  "HOLDEM_HAND_COMPLETED",
+  "CHICKEN_DARE_CHOSEN",
+  "CHICKEN_ROUND_SETTLED",
+  "MATCH_COMPLETED",
 ]);
 
 export const buildPersistedState = (runtime: RuntimeLike): PersistedMatchState => {
@@ -43,27 +70,36 @@ export const buildPersistedState = (runtime: RuntimeLike): PersistedMatchState =
     stage: ctx.stage,
     status: ctx.status,
     readyUserIds: Array.from(runtime.ready),
-    ledger: runtime.ledger,
-    yatzySubmissions: Array.from(runtime.yatzySubmissions.entries()),
+    ledger: ctx.ledger,
     yatzyMatchId: runtime.yatzyMatchId,
+    yatzySeats: runtime.yatzySeats,
     hostUserId: runtime.hostUserId,
-    blackjack: runtime.blackjack ?? null,
+    identities: Array.from(runtime.identities.entries()),
+    musicPlaylist: runtime.musicPlaylist,
+    stageState: ctx.stageState,
+    seed: runtime.seed,
     seq: runtime.seq,
   };
 };
 
+// Client events are replay inputs: `ts` is the server receive time the
+// orchestrator runs the event at (see MatchOrchestrator.beginInput).
 export const persistClientEvent = async (runtime: RuntimeLike, event: ClientEvent, userId: string) => {
   const seq = runtime.seq + 1;
   runtime.seq = seq;
+  const ts = Date.now();
+  // Invite tokens are credentials; the log only needs that someone joined.
+  const { inviteToken: _inviteToken, ...stored } = event as ClientEvent & { inviteToken?: string };
   await safeDb(() =>
     appendEvent({
       matchId: runtime.orchestrator.getContext().match.id,
       seq,
       type: event.type,
-      payload: { source: "client", userId, ...event },
+      payload: { source: "client", userId, ...stored, ts },
     })
   );
   await safeRedis(() => saveRedisState(buildPersistedState(runtime)));
+  return { seq, ts };
 };
 
 export const persistServerEvent = async (
@@ -93,6 +129,7 @@ export const persistServerEvent = async (
   }
 
   await safeRedis(() => saveRedisState(buildPersistedState(runtime)));
+  return seq;
 };
 
 export const saveSnapshotNow = async (runtime: RuntimeLike) => {
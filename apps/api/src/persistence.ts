@@ -1,4 +1,12 @@
-import type { LedgerEntry, Match, MatchPlayer, MatchStatus, Stage } from "../../packages/shared/events";
+import type {
+  LedgerEntry,
+  Match,
+  MatchPlayer,
+  MatchResults,
+  MatchStatus,
+  Stage,
+  StageState,
+} from "../../packages/shared/events";
 import pool from "./db/pool";
 import { getRedis } from "./db/redis";
 
@@ -9,10 +17,18 @@ export type PersistedMatchState = {
   status: MatchStatus;
   readyUserIds: string[];
   ledger: LedgerEntry[];
-  yatzySubmissions: Array<[string, number]>;
+  // Snapshots from before Yatzy and blackjack moved into the stage state.
+  yatzySubmissions?: Array<[string, number]>;
+  blackjack?: unknown;
   yatzyMatchId: string | null;
+  // Yatzy seat -> player id; missing in snapshots from before seat binding.
+  yatzySeats?: Record<string, string> | null;
   hostUserId: string;
-  blackjack?: unknown;
+  identities?: Array<[string, { authUserId: string | null; displayName: string }]>;
+  musicPlaylist?: Array<{ mediaId: string; mimeType: string | null; title: string; artist: string; clipStartMs: number }>;
+  stageState?: StageState | null;
+  // Secret RNG seed, also recorded as MATCH_SEEDED in match_events.
+  seed?: string | null;
   seq: number;
 };
 
@@ -21,11 +37,75 @@ const redisTtlSec = Number(process.env.REDIS_MATCH_TTL_SEC || 21_600);
 
 export const upsertMatchRow = async (match: Match): Promise<void> => {
   const sql = `
-    INSERT INTO matches (match_id, mode, status, created_at, updated_at)
-    VALUES ($1, $2, $3, to_timestamp($4 / 1000.0), NOW())
+    INSERT INTO matches (match_id, mode, status, stage_plan, blackjack_rules, invite_code, max_players, buy_in,
+      prize_payout_table, created_at, updated_at)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, to_timestamp($10 / 1000.0), NOW())
     ON CONFLICT (match_id)
-    DO UPDATE SET mode = EXCLUDED.mode, status = EXCLUDED.status, updated_at = NOW()`;
-  await pool.query(sql, [match.id, match.mode, match.status, match.createdAt]);
+    DO UPDATE SET mode = EXCLUDED.mode, status = EXCLUDED.status, stage_plan = EXCLUDED.stage_plan,
+      blackjack_rules = EXCLUDED.blackjack_rules, invite_code = EXCLUDED.invite_code,
+      max_players = EXCLUDED.max_players, buy_in = EXCLUDED.buy_in,
+      prize_payout_table = EXCLUDED.prize_payout_table, updated_at = NOW()`;
+  const stagePlan = match.stagePlan ? JSON.stringify(match.stagePlan) : null;
+  const blackjackRules = match.blackjackRules ? JSON.stringify(match.blackjackRules) : null;
+  await pool.query(sql, [
+    match.id,
+    match.mode,
+    match.status,
+    stagePlan,
+    blackjackRules,
+    match.inviteCode ?? null,
+    match.maxPlayers ?? null,
+    match.buyIn ?? null,
+    match.prizePayoutTable ?? null,
+    match.createdAt,
+  ]);
+};
+
+export const loadMatchIdByInviteCode = async (inviteCode: string): Promise<string | null> => {
+  const sql = `
+    SELECT match_id
+    FROM matches
+    WHERE invite_code = $1`;
+  const res = await pool.query(sql, [inviteCode]);
+  if (!res.rowCount) return null;
+  return String(res.rows[0].match_id);
+};
+
+// Replaces the binding; a match can be pointed at another Yatzy match in the lobby.
+export const saveYatzySeatBindings = async (
+  matchId: string,
+  yatzyMatchId: string,
+  seats: Record<string, string>
+): Promise<void> => {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await client.query(`DELETE FROM yatzy_seat_bindings WHERE match_id = $1 OR yatzy_match_id = $2`, [matchId, yatzyMatchId]);
+    for (const [seat, userId] of Object.entries(seats)) {
+      await client.query(
+        `INSERT INTO yatzy_seat_bindings (yatzy_match_id, seat, match_id, user_id)
+         VALUES ($1, $2, $3, $4)`,
+        [yatzyMatchId, seat, matchId, userId]
+      );
+    }
+    await client.query("COMMIT");
+  } catch (err) {
+    await client.query("ROLLBACK").catch(() => undefined);
+    throw err;
+  } finally {
+    client.release();
+  }
+};
+
+export const loadMatchIdByYatzyMatchId = async (yatzyMatchId: string): Promise<string | null> => {
+  const sql = `
+    SELECT match_id
+    FROM yatzy_seat_bindings
+    WHERE yatzy_match_id = $1
+    LIMIT 1`;
+  const res = await pool.query(sql, [yatzyMatchId]);
+  if (!res.rowCount) return null;
+  return String(res.rows[0].match_id);
 };
 
 export const updateMatchStatus = async (matchId: string, status: MatchStatus): Promise<void> => {
@@ -36,6 +116,15 @@ export const updateMatchStatus = async (matchId: string, status: MatchStatus): P
   await pool.query(sql, [matchId, status]);
 };
 
+export const saveMatchResults = async (results: MatchResults): Promise<void> => {
+  const sql = `
+    INSERT INTO match_results (match_id, results_json, completed_at)
+    VALUES ($1, $2, to_timestamp($3 / 1000.0))
+    ON CONFLICT (match_id)
+    DO UPDATE SET results_json = EXCLUDED.results_json, completed_at = EXCLUDED.completed_at`;
+  await pool.query(sql, [results.matchId, results, results.completedAt]);
+};
+
 export const appendEvent = async (params: {
   matchId: string;
   seq: number;
@@ -85,6 +174,16 @@ export const loadSnapshotFromDb = async (matchId: string): Promise<PersistedMatc
   return res.rows[0].state_json as PersistedMatchState;
 };
 
+export const loadSnapshotsFromDb = async (matchId: string): Promise<PersistedMatchState[]> => {
+  const sql = `
+    SELECT state_json
+    FROM match_snapshots
+    WHERE match_id = $1
+    ORDER BY seq ASC`;
+  const res = await pool.query(sql, [matchId]);
+  return res.rows.map((row) => row.state_json as PersistedMatchState);
+};
+
 export const loadEventsAfterSeq = async (matchId: string, seq: number): Promise<Array<{ seq: number; type: string; payload: any }>> => {
   const sql = `
     SELECT seq, type, payload
@@ -0,0 +1,90 @@
+import { createHash } from "node:crypto";
+
+// Presence for match players. A player is a person, not a socket: every tab
+// they have open is a socket of the same player, and they only go offline when
+// the last one closes. Their seat is then held for a reconnect window, so a
+// network blip or a reload does not cost them the match.
+
+export const DEFAULT_RECONNECT_WINDOW_MS = 60_000;
+
+const SESSION_TOKEN_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+
+const shortHash = (value: string) => createHash("sha256").update(value).digest("hex").slice(0, 20);
+
+// The public player id. An Authentik user is the same player in every browser;
+// anyone else sends the session token the web client keeps in localStorage.
+// Events only ever carry a hash, so a seat cannot be claimed from the log.
+// With neither, the socket is a player of its own.
+export const resolvePlayerId = (params: { authUid: string | null; sessionToken: unknown; socketId: string }): string => {
+  if (params.authUid) return `u:${shortHash(`authentik:${params.authUid}`)}`;
+  if (typeof params.sessionToken === "string" && SESSION_TOKEN_PATTERN.test(params.sessionToken)) {
+    return `s:${shortHash(`session:${params.sessionToken}`)}`;
+  }
+  return params.socketId;
+};
+
+export const createPresenceTracker = () => {
+  const socketsByUser = new Map<string, Set<string>>();
+  // Held seats by `${matchId}:${userId}`.
+  const seats = new Map<string, { deadline: number; timer: ReturnType<typeof setTimeout> }>();
+
+  const seatKey = (matchId: string, userId: string) => `${matchId}:${userId}`;
+
+  // True if this is the player's first open socket.
+  const connect = (userId: string, socketId: string): boolean => {
+    const sockets = socketsByUser.get(userId) ?? new Set<string>();
+    sockets.add(socketId);
+    socketsByUser.set(userId, sockets);
+    return sockets.size === 1;
+  };
+
+  // True if that was the player's last open socket.
+  const disconnect = (userId: string, socketId: string): boolean => {
+    const sockets = socketsByUser.get(userId);
+    if (!sockets) return false;
+    sockets.delete(socketId);
+    if (sockets.size) return false;
+    socketsByUser.delete(userId);
+    return true;
+  };
+
+  const isOnline = (userId: string): boolean => socketsByUser.has(userId);
+
+  const socketCount = (userId: string): number => socketsByUser.get(userId)?.size ?? 0;
+
+  // Holds the seat until `deadline`; `onExpire` runs if nobody released it by then.
+  const holdSeat = (matchId: string, userId: string, deadline: number, onExpire: () => void) => {
+    releaseSeat(matchId, userId);
+    const key = seatKey(matchId, userId);
+    const timer = setTimeout(() => {
+      seats.delete(key);
+      onExpire();
+    }, Math.max(0, deadline - Date.now()));
+    seats.set(key, { deadline, timer });
+  };
+
+  // True if the seat was still held.
+  const releaseSeat = (matchId: string, userId: string): boolean => {
+    const key = seatKey(matchId, userId);
+    const seat = seats.get(key);
+    if (!seat) return false;
+    clearTimeout(seat.timer);
+    seats.delete(key);
+    return true;
+  };
+
+  const getSeatDeadline = (matchId: string, userId: string): number | null =>
+    seats.get(seatKey(matchId, userId))?.deadline ?? null;
+
+  const releaseMatch = (matchId: string) => {
+    for (const [key, seat] of seats.entries()) {
+      if (!key.startsWith(`${matchId}:`)) continue;
+      clearTimeout(seat.timer);
+      seats.delete(key);
+    }
+  };
+
+  return { connect, disconnect, isOnline, socketCount, holdSeat, releaseSeat, getSeatDeadline, releaseMatch };
+};
+
+export type PresenceTracker = ReturnType<typeof createPresenceTracker>;
@@ -0,0 +1,309 @@
+import { ClientEventSchema } from "../../../packages/shared/schemas";
+import type { ClientEvent, Match } from "../../../packages/shared/events";
+import {
+  MatchOrchestrator,
+  type OrchestratorContext,
+  type OrchestratorOptions,
+} from "../../../packages/game-engine/orchestrator";
+import type { MusicTrack } from "../../../packages/game-engine/music";
+import type { TriviaPool } from "../../../packages/game-engine/trivia";
+import type { PersistedMatchState } from "./persistence";
+
+// A match is rebuilt from match_events alone. Inputs are the client events plus
+// the few server events that carry something the client did not send: the
+// seed, joins and leaves, presence changes, the match start, fetched data and
+// expired timers. Everything else in the log is output and is regenerated by
+// the orchestrator.
+
+export type StoredMatchEvent = { seq: number; type: string; payload: any };
+
+// Yatzy totals by player id, received before the YATZY stage started.
+export type PendingYatzyScores = { yatzyMatchId: string; scores: Record<string, number> };
+
+// A buy-in held in escrow, by player id.
+export type EscrowedBuyIn = { authUserId: string; amount: number };
+
+export type ReplayedMatch = {
+  orchestrator: MatchOrchestrator;
+  seed: string | null;
+  hostUserId: string;
+  readyUserIds: string[];
+  yatzyMatchId: string | null;
+  yatzySeats: Record<string, string> | null;
+  yatzyPendingScores: PendingYatzyScores | null;
+  musicPlaylist: MusicTrack[];
+  triviaPool: TriviaPool | null;
+  // Seats taken per invite token id.
+  inviteUses: Record<string, number>;
+  escrow: Record<string, EscrowedBuyIn>;
+  // Buy-ins refunded so far, per player id.
+  escrowRefunds: Record<string, number>;
+  potSettled: boolean;
+  seq: number;
+};
+
+export type MatchReplay = {
+  apply: (event: StoredMatchEvent) => void;
+  current: () => ReplayedMatch | null;
+};
+
+export const createMatchReplay = (options: OrchestratorOptions = {}): MatchReplay => {
+  let seed: string | null = null;
+  let hostUserId = "";
+  let orchestrator: MatchOrchestrator | null = null;
+  const ready = new Set<string>();
+  let yatzyMatchId: string | null = null;
+  let yatzySeats: Record<string, string> | null = null;
+  let yatzyPendingScores: PendingYatzyScores | null = null;
+  let musicPlaylist: MusicTrack[] = [];
+  let triviaPool: TriviaPool | null = null;
+  const inviteUses: Record<string, number> = {};
+  const escrow: Record<string, EscrowedBuyIn> = {};
+  const escrowRefunds: Record<string, number> = {};
+  let potSettled = false;
+  let seq = 0;
+
+  const applyClient = (ev: StoredMatchEvent) => {
+    const { source: _source, userId, ts, ...raw } = ev.payload ?? {};
+    const parsed = ClientEventSchema.safeParse(raw);
+    if (!parsed.success || typeof userId !== "string") return;
+    const event = parsed.data as ClientEvent;
+    if (event.type === "MATCH_CREATE") {
+      hostUserId = userId;
+      return;
+    }
+    if (!orchestrator) return;
+    // Counted by READY_CONFIRMED, written once it was accepted. Logs from
+    // before that only have this, and without a buy-in it was always
+    // accepted for a seated player.
+    if (event.type === "READY_CHECK_CONFIRM") {
+      const ctx = orchestrator.getContext();
+      if (!ctx.match.buyIn && ctx.players.some((p) => p.userId === userId)) ready.add(userId);
+      return;
+    }
+    // Lobby, Yatzy API and playlist events are no-ops in the orchestrator; their
+    // effect comes from the server events recorded next to them.
+    orchestrator.beginInput(ev.seq, Number(ts));
+    orchestrator.handleClientEvent(event, userId);
+  };
+
+  const applyServer = (ev: StoredMatchEvent) => {
+    const payload = ev.payload ?? {};
+    if (ev.type === "MATCH_SEEDED") {
+      seed = String(payload.seed);
+      return;
+    }
+    if (ev.type === "MATCH_CREATED") {
+      const match = payload.match as Match;
+      const ctx: OrchestratorContext = {
+        match: { ...match },
+        players: [],
+        stage: "LOBBY",
+        status: match.status,
+        ledger: [],
+        stageState: null,
+      };
+      orchestrator = new MatchOrchestrator(ctx, { ...options, seed });
+      return;
+    }
+    if (!orchestrator) return;
+    switch (ev.type) {
+      case "MATCH_JOINED":
+        orchestrator.addPlayer(payload.userId, payload.isBot === true);
+        if (payload.isBot === true) ready.add(payload.userId);
+        if (typeof payload.inviteId === "string") inviteUses[payload.inviteId] = (inviteUses[payload.inviteId] ?? 0) + 1;
+        return;
+      case "MATCH_LEFT":
+        if (orchestrator.removePlayer(payload.userId)) ready.delete(payload.userId);
+        else orchestrator.markDisconnected(payload.userId);
+        return;
+      case "PLAYER_DISCONNECTED":
+        orchestrator.markDisconnected(payload.userId);
+        return;
+      case "PLAYER_RECONNECTED":
+        orchestrator.markReconnected(payload.userId);
+        return;
+      case "PLAYER_SEAT_EXPIRED":
+        orchestrator.beginInput(ev.seq, payload.ts);
+        orchestrator.expireSeat(payload.userId, payload.action);
+        return;
+      case "YATZY_MATCH_SET":
+      case "YATZY_MATCH_CREATED":
+        yatzyMatchId = payload.yatzyMatchId;
+        yatzySeats = payload.seats ?? null;
+        yatzyPendingScores = null;
+        return;
+      case "YATZY_SCORES_RECEIVED":
+        yatzyPendingScores = { yatzyMatchId: payload.yatzyMatchId, scores: payload.scores };
+        return;
+      case "TRIVIA_POOL_SET":
+        triviaPool = payload.pool;
+        orchestrator.setTriviaPool(payload.pool);
+        return;
+      case "MUSIC_TRACKS_SET":
+        musicPlaylist = payload.tracks;
+        orchestrator.setMusicPlaylist(payload.tracks);
+        return;
+      case "READY_CONFIRMED":
+        ready.add(payload.userId);
+        return;
+      case "READY_CHECK_PASSED":
+        orchestrator.beginInput(ev.seq, payload.ts);
+        orchestrator.startMatch();
+        return;
+      case "MATCH_CANCELLED":
+        orchestrator.beginInput(ev.seq, payload.ts);
+        orchestrator.cancelMatch();
+        return;
+      // The wallet side of buy-ins; no game state, but recovery needs to know
+      // what is still in escrow.
+      case "SPUX_ESCROWED":
+        escrow[payload.userId] = { authUserId: payload.authUserId, amount: payload.amount };
+        return;
+      case "SPUX_REFUNDED":
+        for (const userId of payload.userIds as string[]) {
+          delete escrow[userId];
+          escrowRefunds[userId] = (escrowRefunds[userId] ?? 0) + 1;
+        }
+        return;
+      case "MATCH_PAYOUTS":
+        if (payload.refunded !== true) potSettled = true;
+        return;
+      case "YATZY_SCORES_SET":
+        yatzyPendingScores = null;
+        orchestrator.beginInput(ev.seq, payload.ts);
+        orchestrator.importYatzyScores(payload.yatzyMatchId, payload.scores);
+        return;
+      case "STAGE_DEADLINE":
+        orchestrator.beginInput(ev.seq, payload.ts);
+        orchestrator.handleDeadline();
+        return;
+      default:
+        return;
+    }
+  };
+
+  return {
+    apply: (ev) => {
+      if (ev.payload?.source === "client") applyClient(ev);
+      else applyServer(ev);
+      seq = ev.seq;
+    },
+    current: () =>
+      orchestrator && {
+        orchestrator,
+        seed,
+        hostUserId,
+        readyUserIds: Array.from(ready),
+        yatzyMatchId,
+        yatzySeats,
+        yatzyPendingScores,
+        musicPlaylist,
+        triviaPool,
+        inviteUses: { ...inviteUses },
+        escrow: { ...escrow },
+        escrowRefunds: { ...escrowRefunds },
+        potSettled,
+        seq,
+      },
+  };
+};
+
+export const replayMatchEvents = (events: StoredMatchEvent[], options: OrchestratorOptions = {}): ReplayedMatch | null => {
+  const replay = createMatchReplay(options);
+  for (const ev of events) replay.apply(ev);
+  return replay.current();
+};
+
+// ---- Consistency check ----------------------------------------------------
+
+// Fields that must come out of the replay exactly as the server stored them.
+// Identities come from auth headers and are not part of the game state.
+const CHECKED_FIELDS = [
+  "match",
+  "players",
+  "stage",
+  "status",
+  "readyUserIds",
+  "ledger",
+  "stageState",
+  "yatzyMatchId",
+  "hostUserId",
+  "musicPlaylist",
+] as const;
+
+export type ReplayMismatch = { seq: number; field: string; path: string };
+
+export type ReplayCheck = {
+  matchId: string;
+  events: number;
+  snapshotsChecked: number;
+  mismatches: ReplayMismatch[];
+};
+
+const toSnapshotView = (replayed: ReplayedMatch) => {
+  const ctx = replayed.orchestrator.getContext();
+  return {
+    match: ctx.match,
+    players: ctx.players,
+    stage: ctx.stage,
+    status: ctx.status,
+    readyUserIds: [...replayed.readyUserIds].sort(),
+    ledger: ctx.ledger,
+    stageState: ctx.stageState,
+    yatzyMatchId: replayed.yatzyMatchId,
+    hostUserId: replayed.hostUserId,
+    musicPlaylist: replayed.musicPlaylist,
+  };
+};
+
+// JSONB reorders keys and JSON drops undefined, so both sides go through JSON
+// and objects are compared key by key.
+const normalize = (value: unknown): unknown => (value === undefined ? undefined : JSON.parse(JSON.stringify(value)));
+
+const findDifference = (a: unknown, b: unknown, path: string): string | null => {
+  if (a === b) return null;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return path;
+  if (Array.isArray(a) !== Array.isArray(b)) return path;
+  if (Array.isArray(a) && Array.isArray(b) && a.length !== b.length) return `${path}.length`;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const key of keys) {
+    const diff = findDifference((a as any)[key], (b as any)[key], `${path}.${key}`);
+    if (diff) return diff;
+  }
+  return null;
+};
+
+// Replays the log and compares the state at every snapshot's seq. Only paths
+// are reported, never values: stage state holds decks and hole cards.
+export const checkMatchReplay = (
+  matchId: string,
+  events: StoredMatchEvent[],
+  snapshots: PersistedMatchState[],
+  options: OrchestratorOptions = {}
+): ReplayCheck => {
+  const replay = createMatchReplay(options);
+  const ordered = [...snapshots].sort((a, b) => a.seq - b.seq);
+  const mismatches: ReplayMismatch[] = [];
+  let snapshotsChecked = 0;
+  let next = 0;
+  for (const snapshot of ordered) {
+    while (next < events.length && events[next].seq <= snapshot.seq) {
+      replay.apply(events[next]);
+      next += 1;
+    }
+    const replayed = replay.current();
+    if (!replayed) {
+      mismatches.push({ seq: snapshot.seq, field: "match", path: "match" });
+      continue;
+    }
+    snapshotsChecked += 1;
+    const view = toSnapshotView(replayed);
+    const stored = { ...snapshot, readyUserIds: [...(snapshot.readyUserIds ?? [])].sort() };
+    for (const field of CHECKED_FIELDS) {
+      const path = findDifference(normalize(view[field]), normalize(stored[field] ?? null), field);
+      if (path) mismatches.push({ seq: snapshot.seq, field, path });
+    }
+  }
+  return { matchId, events: events.length, snapshotsChecked, mismatches };
+};
@@ -3,20 +3,63 @@ import http from "node:http";
 import fs from "node:fs/promises";
 import path from "node:path";
 import { Server } from "socket.io";
-import { randomUUID } from "node:crypto";
+import { randomBytes, randomUUID } from "node:crypto";
 import { createRequire } from "node:module";
 import sharp from "sharp";
 import nodemailer from "nodemailer";
 import { ClientEventSchema } from "../../../packages/shared/schemas";
-import { MatchOrchestrator } from "../../../packages/game-engine/orchestrator";
-import type { ClientEvent, LedgerEntry, Match, MatchMode, MatchPlayer, MatchStatus, Stage } from "../../../packages/shared/events";
+import { isClientEventAllowed } from "../../../packages/shared/guards";
+import {
+  MAX_PLAYERS,
+  MatchOrchestrator,
+  type OrchestratorContext,
+  type OrchestratorEvent,
+} from "../../../packages/game-engine/orchestrator";
+import { DICE_MAX_BET_FRACTION as DEFAULT_DICE_MAX_BET_FRACTION } from "../../../packages/game-engine/dice";
+import { YATZY_HIGH_SCORE as DEFAULT_YATZY_HIGH_SCORE } from "../../../packages/game-engine/results";
+import { getChickenDaresForSeat } from "../../../packages/game-engine/chickenRun";
+import { buildStagePlan, getStagePlan } from "../../../packages/game-engine/stagePlan";
+import { DEFAULT_PRIZE_PAYOUT_TABLE, computePrizePayouts } from "../../../packages/game-engine/prizePool";
+import {
+  SPUTNIK_DISPLAY_NAME,
+  SPUTNIK_USER_ID,
+  planSputnikAction,
+} from "../../../packages/game-engine/sputnik";
+import {
+  BJ_DECKS as DEFAULT_BJ_DECKS,
+  BJ_MAX_DECKS,
+  BJ_PENETRATION as DEFAULT_BJ_PENETRATION,
+  buildBlackjackRules,
+  buildShuffledShoe,
+  getBlackjackRules,
+  type BlackjackState,
+} from "../../../packages/game-engine/blackjack";
+import { rollDie } from "../../../packages/game-engine/dice";
+import { fairFloat, fairRng, hashFairSeed, type FairKind } from "../../../packages/game-engine/fairness";
+import { getPocketColor, pocketFromDraw } from "../../../packages/game-engine/roulette";
+import type { MusicTrack } from "../../../packages/game-engine/music";
+import type {
+  BlackjackRules,
+  ClientEvent,
+  Match,
+  MatchMode,
+  MatchResults,
+  PrizePayoutTable,
+  SeatExpiryAction,
+  Stage,
+} from "../../../packages/shared/events";
 import {
   loadEventsAfterSeq,
+  loadMatchIdByInviteCode,
+  loadMatchIdByYatzyMatchId,
   loadRedisState,
   loadSnapshotFromDb,
+  loadSnapshotsFromDb,
   safeDb,
   safeDbValue,
   safeRedisValue,
+  saveMatchResults,
+  saveYatzySeatBindings,
   upsertMatchRow,
   updateMatchStatus,
   type PersistedMatchState,
@@ -27,145 +70,107 @@ import {
   saveSnapshotNow,
   saveRedisOnly,
 } from "./persist";
+import { checkMatchReplay, replayMatchEvents, type EscrowedBuyIn, type PendingYatzyScores } from "./replay";
+import { DEFAULT_RECONNECT_WINDOW_MS, createPresenceTracker, resolvePlayerId } from "./presence";
+import { generateInviteCode, normalizeInviteCode, signInviteToken, verifyInviteToken } from "./invites";
+import {
+  bindYatzySeats,
+  getYatzyWebhookSecret,
+  mapYatzyScores,
+  readRawBody,
+  verifyYatzyWebhook,
+} from "./yatzy";
+import {
+  adjustSpux,
+  creditMatchBonuses,
+  escrowBuyIn,
+  getSpuxBalance,
+  grantOnboardingSpux,
+  listSpuxHistory,
+  payOutPrizePool,
+  refundBuyIns,
+} from "./wallet";
 import pool from "./db/pool";
 import { getRedis } from "./db/redis";
+import { attachRedisAdapter } from "./db/socketAdapter";
 import { computeBirthChart, type ProfileRow } from "./astro";
 import { computeProfileInsights } from "./insights";
 import { drawDailyTarotCard, getTarotCardByNumber, getTarotMajorArcana } from "./tarot";
+import { ASTRO_SIGN_ELEMENT, ASTRO_SIGN_SV, CHINESE_TRINES, CHINESE_ZODIAC_SV, HUMAN_DESIGN_SV } from "./chartLabels";
 import { createSilentDiscoManager } from "./silentDisco";
+import { getTriviaBankPool } from "./triviaBank";
+import { buildProfileTriviaQuestions, PROFILE_TRIVIA_CATEGORY } from "./triviaGenerator";
 
 type MatchRuntime = {
   orchestrator: MatchOrchestrator;
   ready: Set<string>;
-  ledger: LedgerEntry[];
-  yatzySubmissions: Map<string, number>;
   yatzyMatchId: string | null;
+  // Yatzy seat -> player id, fixed when the Yatzy match is created or set.
+  yatzySeats: Record<string, string> | null;
+  // Scores from the completion webhook that came before the YATZY stage.
+  yatzyPendingScores: PendingYatzyScores | null;
   hostUserId: string;
   hostAuthHeaders: Record<string, string>;
+  identities: Map<string, MatchIdentity>;
+  musicPlaylist: MusicTrack[];
   yatzyAuthToken: string | null;
-  blackjack: BlackjackState | null;
+  // Secret RNG seed for the match, see MatchOrchestrator.beginInput.
+  seed: string;
+  stageTimer: ReturnType<typeof setTimeout> | null;
+  // Seats taken per invite token id (MATCH_JOINED.inviteId).
+  inviteUses: Map<string, number>;
+  // Buy-ins held for the prize pool, by player id, and how often each
+  // player's was refunded (SPUX_ESCROWED, SPUX_REFUNDED).
+  escrow: Map<string, EscrowedBuyIn>;
+  escrowRefunds: Map<string, number>;
+  potSettled: boolean;
+  // Armed while a payout or refund that failed is waiting for its next try.
+  spuxRetryTimer: ReturnType<typeof setTimeout> | null;
   seq: number;
 };
 
-const matches = new Map<string, MatchRuntime>();
-
-type BjSideBetChoice = "UNDER" | "OVER";
-type BjHandStatus = "ACTIVE" | "STAND" | "BUST" | "BLACKJACK" | "DONE";
-type BjHandResult = "WIN" | "LOSE" | "PUSH" | "BLACKJACK";
-type BjRoundStatus = "BETTING" | "PLAYER_ACTION" | "DEALER_ACTION" | "RESOLVED";
-
-type BjCard = {
-  rank: string;
-  suit: string;
-};
-
-type BjHand = {
-  spot: number;
-  cards: BjCard[];
-  bet: number;
-  status: BjHandStatus;
-  isSplit: boolean;
-  fromSplitAces: boolean;
-  sideBet: BjSideBetChoice | null;
-  sideResult?: "WIN" | "LOSE" | "PUSH";
-  result?: BjHandResult;
-};
-
-type BjPlayerState = {
-  userId: string;
-  hands: BjHand[];
-  placedBet: boolean;
-  committed: number;
-};
-
-type BjRoundState = {
-  round: number;
-  status: BjRoundStatus;
-  deck: BjCard[];
-  dealer: BjHand;
-  players: Record<string, BjPlayerState>;
-};
-
-type BlackjackState = {
-  round: number;
-  roundsTotal: number;
-  status: "IN_PROGRESS" | "DONE";
-  roundState: BjRoundState | null;
-};
-
-const BJ_MIN_BET = 10;
-const BJ_MAX_BET = 100;
-const BJ_MAX_SPOTS = 7;
-const BJ_ROUNDS = 10;
-const BJ_SIDE_BET_PAYOUT = 1;
-const BJ_BLACKJACK_PAYOUT = 1;
-
-const bjRanks = ["A", "2", "3", "4", "5", "6", "7", "8", "9", "10", "J", "Q", "K"] as const;
-const bjSuits = ["S", "H", "D", "C"] as const;
-
-const buildDeck = (): BjCard[] => {
-  const deck: BjCard[] = [];
-  for (const suit of bjSuits) {
-    for (const rank of bjRanks) {
-      deck.push({ rank, suit });
-    }
-  }
-  return deck;
+type MatchIdentity = {
+  authUserId: string | null;
+  displayName: string;
 };
 
-const shuffleDeck = (deck: BjCard[]) => {
-  for (let i = deck.length - 1; i > 0; i -= 1) {
-    const j = Math.floor(Math.random() * (i + 1));
-    const temp = deck[i];
-    deck[i] = deck[j];
-    deck[j] = temp;
-  }
+const DICE_MAX_BET_FRACTION = Math.min(
+  1,
+  Math.max(0, Number(process.env.DICE_MAX_BET_FRACTION || DEFAULT_DICE_MAX_BET_FRACTION))
+);
+const YATZY_HIGH_SCORE = Number(process.env.YATZY_HIGH_SCORE || DEFAULT_YATZY_HIGH_SCORE);
+const YATZY_WEBHOOK_URL = String(process.env.YATZY_WEBHOOK_URL || "").trim();
+// Clamped to 1-8 decks and 50-90 % penetration by the engine.
+const BJ_DECKS = Number(process.env.BJ_DECKS || DEFAULT_BJ_DECKS);
+const BJ_PENETRATION = Number(process.env.BJ_PENETRATION || DEFAULT_BJ_PENETRATION);
+const orchestratorOptions = {
+  diceMaxBetFraction: DICE_MAX_BET_FRACTION,
+  yatzyHighScore: YATZY_HIGH_SCORE,
+  blackjackDecks: Number.isFinite(BJ_DECKS) ? BJ_DECKS : DEFAULT_BJ_DECKS,
+  blackjackPenetration: Number.isFinite(BJ_PENETRATION) ? BJ_PENETRATION : DEFAULT_BJ_PENETRATION,
 };
 
-const drawCard = (deck: BjCard[]): BjCard => {
-  if (!deck.length) {
-    deck.push(...buildDeck());
-    shuffleDeck(deck);
-  }
-  return deck.pop() as BjCard;
-};
+const matches = new Map<string, MatchRuntime>();
 
-const cardValue = (card: BjCard): number => {
-  if (card.rank === "A") return 11;
-  if (card.rank === "K" || card.rank === "Q" || card.rank === "J") return 10;
-  return Number(card.rank);
-};
+// How long a dropped player's seat is held, and what happens to it after.
+const RECONNECT_WINDOW_MS = Math.max(0, Number(process.env.RECONNECT_WINDOW_MS || DEFAULT_RECONNECT_WINDOW_MS));
+const SEAT_EXPIRY_ACTION: SeatExpiryAction = process.env.SEAT_EXPIRY_ACTION === "FORFEIT" ? "FORFEIT" : "BOT";
+const presence = createPresenceTracker();
 
-const computeHandValue = (cards: BjCard[]): { total: number; soft: boolean; blackjack: boolean } => {
-  let total = 0;
-  let aces = 0;
-  for (const card of cards) {
-    if (card.rank === "A") aces += 1;
-    total += cardValue(card);
-  }
-  while (total > 21 && aces > 0) {
-    total -= 10;
-    aces -= 1;
-  }
-  const soft = aces > 0;
-  const blackjack = cards.length === 2 && total === 21;
-  return { total, soft, blackjack };
-};
+// Authentik uids allowed to adjust Spux balances by hand.
+const SPUX_ADMIN_UIDS = new Set(
+  String(process.env.SPUX_ADMIN_UIDS || "")
+    .split(",")
+    .map((uid) => uid.trim())
+    .filter(Boolean)
+);
 
-const shouldDealerHit = (cards: BjCard[]): boolean => {
-  const { total } = computeHandValue(cards);
-  return total < 17;
-};
+// How long a failed payout or refund waits before the next try.
+const SPUX_RETRY_MS = Math.max(1_000, Number(process.env.SPUX_RETRY_MS || 30_000));
 
-const makeDealerHand = (): BjHand => ({
-  spot: 0,
-  cards: [],
-  bet: 0,
-  status: "ACTIVE",
-  isSplit: false,
-  fromSplitAces: false,
-  sideBet: null,
-});
+// Handled by the server itself (the scores come from the Yatzy API), with the
+// same guards as the orchestrator's stages.
+const SERVER_STAGE_EVENTS = new Set<ClientEvent["type"]>(["YATZY_IMPORT"]);
 
 const parseJsonBody = async (req: http.IncomingMessage, maxBytes = 1_000_000): Promise<any> => {
   return new Promise((resolve, reject) => {
@@ -1583,87 +1588,6 @@ const canAccessProfilePayload = async (authUserId: string, requestedId: string):
   return areAcceptedFriends(authUserId, requestedId);
 };
 
-const ASTRO_SIGN_ELEMENT: Record<string, string> = {
-  Aries: "fire",
-  Leo: "fire",
-  Sagittarius: "fire",
-  Taurus: "earth",
-  Virgo: "earth",
-  Capricorn: "earth",
-  Gemini: "air",
-  Libra: "air",
-  Aquarius: "air",
-  Cancer: "water",
-  Scorpio: "water",
-  Pisces: "water",
-};
-
-const CHINESE_TRINES: Record<string, string> = {
-  Rat: "inventors",
-  Dragon: "inventors",
-  Monkey: "inventors",
-  Ox: "builders",
-  Snake: "builders",
-  Rooster: "builders",
-  Tiger: "rebels",
-  Horse: "rebels",
-  Dog: "rebels",
-  Rabbit: "heart",
-  Goat: "heart",
-  Pig: "heart",
-};
-
-const ASTRO_SIGN_SV: Record<string, string> = {
-  Aries: "Väduren",
-  Taurus: "Oxen",
-  Gemini: "Tvillingarna",
-  Cancer: "Kräftan",
-  Leo: "Lejonet",
-  Virgo: "Jungfrun",
-  Libra: "Vågen",
-  Scorpio: "Skorpionen",
-  Sagittarius: "Skytten",
-  Capricorn: "Stenbocken",
-  Aquarius: "Vattumannen",
-  Pisces: "Fiskarna",
-};
-
-const CHINESE_ZODIAC_SV: Record<string, string> = {
-  Rat: "Råttan",
-  Ox: "Oxen",
-  Tiger: "Tigern",
-  Rabbit: "Kaninen",
-  Dragon: "Draken",
-  Snake: "Ormen",
-  Horse: "Hästen",
-  Goat: "Geten",
-  Monkey: "Apen",
-  Rooster: "Tuppen",
-  Dog: "Hunden",
-  Pig: "Grisen",
-};
-
-const HUMAN_DESIGN_SV: Record<string, string> = {
-  Projector: "Projektor",
-  Generator: "Generator",
-  "Manifesting Generator": "Manifesting Generator",
-  Manifestor: "Manifestor",
-  Reflector: "Reflektor",
-  "Emotional Authority": "Emotionell auktoritet",
-  "Sacral Authority": "Sakral auktoritet",
-  "Splenic Authority": "Mjältautoritet",
-  "Ego Authority": "Ego-auktoritet",
-  "Self Projected Authority": "Självprojicerad auktoritet",
-  "Mental Authority": "Mental auktoritet",
-  "Lunar Authority": "Lunar auktoritet",
-  "Wait for the Invitation": "Vänta på inbjudan",
-  "Wait to Respond": "Vänta på respons",
-  "Inform before acting": "Informera före handling",
-  "Wait a Lunar Cycle": "Vänta en måncykel",
-  "Single Definition": "Single Definition",
-  "Split Definition": "Split Definition",
-};
-
 const SIGN_TONE: Record<string, { sv: string; en: string }> = {
   Aries: { sv: "rak, snabb och modig", en: "direct, quick, and brave" },
   Taurus: { sv: "jordnära, stadig och sensuell", en: "grounded, steady, and sensual" },
@@ -3211,6 +3135,22 @@ const requestOracleReply = async (payload: {
   return reply;
 };
 
+// Redoes a revealed draw from its seed. The shoe is listed in draw order,
+// burn card first; the engine deals from the end of the shuffled shoe.
+const verifyFairSeed = (kind: FairKind, seed: string, seedHash: string, decks: number) => {
+  const hashMatches = hashFairSeed(seed) === seedHash.toLowerCase();
+  if (kind === "BLACKJACK") {
+    const shoe = buildShuffledShoe(decks, fairRng({ seed, seedHash, nonce: 0 })).reverse();
+    return { hashMatches, kind, decks, shoe: shoe.map((card) => `${card.rank}${card.suit}`) };
+  }
+  if (kind === "ROULETTE") {
+    const pocket = pocketFromDraw(fairFloat(seed, 0));
+    return { hashMatches, kind, pocket, color: getPocketColor(pocket) };
+  }
+  const draw = fairRng({ seed, seedHash, nonce: 0 });
+  return { hashMatches, kind, firstDie: rollDie(draw), secondDie: rollDie(draw) };
+};
+
 const server = http.createServer((req, res) => {
   if (req.url === "/health") {
     res.writeHead(200, { "content-type": "application/json" });
@@ -3267,6 +3207,170 @@ const server = http.createServer((req, res) => {
   if (silentDisco.handleHttpRequest(req, res)) {
     return;
   }
+  // Anyone may check a revealed seed; nothing here touches match state.
+  if (req.url?.startsWith("/api/fairness/verify") && req.method === "GET") {
+    const requestUrl = new URL(req.url, "http://localhost");
+    const kind = String(requestUrl.searchParams.get("kind") || "").toUpperCase();
+    const seed = String(requestUrl.searchParams.get("seed") || "").trim();
+    const seedHash = String(requestUrl.searchParams.get("seedHash") || "").trim();
+    const decks = Math.trunc(Number(requestUrl.searchParams.get("decks") || 1));
+    if (
+      (kind !== "BLACKJACK" && kind !== "ROULETTE" && kind !== "DICE") ||
+      !seed ||
+      !seedHash ||
+      !(decks >= 1 && decks <= BJ_MAX_DECKS)
+    ) {
+      res.writeHead(400, { "content-type": "application/json" });
+      res.end(JSON.stringify({ ok: false, error: "invalid_request" }));
+      return;
+    }
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({ ok: true, ...verifyFairSeed(kind, seed, seedHash, decks) }));
+    return;
+  }
+  // Turns an invite code or link into the match to join. Neither the code nor
+  // the token is used up here; MATCH_JOIN checks them again.
+  if (req.url?.startsWith("/api/invites/resolve") && req.method === "GET") {
+    const requestUrl = new URL(req.url, "http://localhost");
+    const inviteCode = normalizeInviteCode(requestUrl.searchParams.get("code"));
+    const token = String(requestUrl.searchParams.get("token") || "").trim();
+    if (!inviteCode && !token) {
+      res.writeHead(400, { "content-type": "application/json" });
+      res.end(JSON.stringify({ ok: false, error: "missing_invite" }));
+      return;
+    }
+    (async () => {
+      const invite = token ? verifyInviteToken(token) : null;
+      if (invite && !invite.ok) {
+        res.writeHead(400, { "content-type": "application/json" });
+        res.end(JSON.stringify(invite));
+        return;
+      }
+      const matchId = invite ? invite.matchId : await findMatchIdByInviteCode(inviteCode);
+      const runtime = matchId ? getMatchRuntime(matchId) ?? (await recoverMatch(matchId)) : null;
+      if (!runtime || (!invite && runtime.orchestrator.getContext().match.inviteCode !== inviteCode)) {
+        res.writeHead(404, { "content-type": "application/json" });
+        res.end(JSON.stringify({ ok: false, error: "invite_not_found" }));
+        return;
+      }
+      const ctx = runtime.orchestrator.getContext();
+      const host = runtime.identities.get(runtime.hostUserId);
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(
+        JSON.stringify({
+          ok: true,
+          matchId: ctx.match.id,
+          // A token is the invite on its own; the code stays with the host.
+          inviteCode: invite ? null : inviteCode,
+          mode: ctx.match.mode,
+          status: ctx.status,
+          hostDisplayName: host?.displayName ?? null,
+          playerCount: ctx.players.length,
+          maxPlayers: runtime.orchestrator.getMaxPlayers(),
+          ...(invite
+            ? { seatsLeft: Math.max(0, invite.seats - (runtime.inviteUses.get(invite.inviteId) ?? 0)), expiresAt: invite.expiresAt }
+            : {}),
+        })
+      );
+    })().catch((err) => {
+      res.writeHead(500, { "content-type": "application/json" });
+      res.end(JSON.stringify({ ok: false, error: "db_error", details: String(err) }));
+    });
+    return;
+  }
+  // The Yatzy service posts here when a Yatzy match is over. Anything but a
+  // bad request answers 200, so deliveries that are no longer needed are not
+  // retried.
+  if (req.url?.startsWith("/api/yatzy/webhook") && req.method === "POST") {
+    const secret = getYatzyWebhookSecret();
+    if (!secret) {
+      res.writeHead(503, { "content-type": "application/json" });
+      res.end(JSON.stringify({ ok: false, error: "yatzy_webhook_disabled" }));
+      return;
+    }
+    (async () => {
+      const body = await readRawBody(req);
+      const verified = verifyYatzyWebhook({
+        secret,
+        body,
+        timestamp: req.headers["x-yatzy-timestamp"],
+        signature: req.headers["x-yatzy-signature"],
+      });
+      if (!verified.ok) {
+        res.writeHead(401, { "content-type": "application/json" });
+        res.end(JSON.stringify(verified));
+        return;
+      }
+      const { yatzyMatchId, scores } = verified.completion;
+      const matchId = await findMatchIdByYatzyMatchId(yatzyMatchId);
+      const runtime = matchId ? getMatchRuntime(matchId) ?? (await recoverMatch(matchId)) : null;
+      if (!matchId || !runtime) {
+        res.writeHead(404, { "content-type": "application/json" });
+        res.end(JSON.stringify({ ok: false, error: "yatzy_match_unknown" }));
+        return;
+      }
+      let outcome = "imported";
+      await withMatchLock(matchId, async () => {
+        if (runtime.yatzyMatchId !== yatzyMatchId) {
+          outcome = "yatzy_match_replaced";
+          return;
+        }
+        const byUser = mapYatzyScores(scores, getYatzySeats(runtime));
+        const ctx = runtime.orchestrator.getContext();
+        if (ctx.status === "RUNNING" && ctx.stage === "YATZY") {
+          const imported = await applyYatzyScores(runtime, matchId, yatzyMatchId, byUser);
+          if (!imported.ok) {
+            outcome = imported.error;
+            return;
+          }
+          await emitMatchState(matchId, runtime);
+          return;
+        }
+        const plan = getStagePlan(ctx.match);
+        const yatzyAhead =
+          (ctx.status === "CREATED" || ctx.status === "RUNNING") && plan.indexOf(ctx.stage) < plan.indexOf("YATZY");
+        if (!yatzyAhead) {
+          outcome = "yatzy_already_scored";
+          return;
+        }
+        runtime.yatzyPendingScores = { yatzyMatchId, scores: byUser };
+        await persistServerEvent(runtime, matchId, "YATZY_SCORES_RECEIVED", { matchId, yatzyMatchId, scores: byUser });
+        outcome = "pending";
+      });
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify({ ok: true, matchId, outcome }));
+    })().catch((err) => {
+      const tooLarge = String((err as Error)?.message || "") === "payload_too_large";
+      res.writeHead(tooLarge ? 413 : 500, { "content-type": "application/json" });
+      res.end(JSON.stringify(tooLarge ? { ok: false, error: "payload_too_large" } : { ok: false, error: "db_error", details: String(err) }));
+    });
+    return;
+  }
+  // Replays match_events and compares the result with every stored snapshot.
+  if (req.url?.startsWith("/api/matches/") && req.url.endsWith("/replay-check") && req.method === "GET") {
+    if (!getUserIdFromReq(req)) {
+      res.writeHead(401, { "content-type": "application/json" });
+      res.end(JSON.stringify({ ok: false, error: "unauthorized" }));
+      return;
+    }
+    const matchId = decodeURIComponent(req.url.split("/")[3] || "");
+    (async () => {
+      const events = await loadEventsAfterSeq(matchId, 0);
+      if (!events.length) {
+        res.writeHead(404, { "content-type": "application/json" });
+        res.end(JSON.stringify({ ok: false, error: "match_not_found" }));
+        return;
+      }
+      const snapshots = await loadSnapshotsFromDb(matchId);
+      const check = checkMatchReplay(matchId, events, snapshots, orchestratorOptions);
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify({ ok: check.mismatches.length === 0, ...check }));
+    })().catch((err) => {
+      res.writeHead(500, { "content-type": "application/json" });
+      res.end(JSON.stringify({ ok: false, error: "db_error", details: String(err) }));
+    });
+    return;
+  }
   if (req.url === "/api/profile" && req.method === "GET") {
     const authHeaders = getAuthentikHeaders(req.headers as Record<string, unknown>);
     const userId = authHeaders["x-authentik-uid"] ?? null;
@@ -3647,6 +3751,9 @@ const server = http.createServer((req, res) => {
           [userId, granted.grants_tier || "member", Boolean(granted.grants_ai), code]
         );
         const membership = await getMembershipRow(userId);
+        await safeDb(async () => {
+          await grantOnboardingSpux(userId);
+        });
         res.writeHead(200, { "content-type": "application/json" });
         res.end(JSON.stringify({ ok: true, membership, redeemed: code }));
       } catch (err) {
@@ -3656,6 +3763,97 @@ const server = http.createServer((req, res) => {
     })();
     return;
   }
+  // Members get their onboarding Spux the first time they look, if the redeem
+  // did not already grant it.
+  if (req.url === "/api/spux/wallet" && req.method === "GET") {
+    const authHeaders = getAuthentikHeaders(req.headers as Record<string, unknown>);
+    const userId = authHeaders["x-authentik-uid"] ?? null;
+    if (!userId) {
+      res.writeHead(401, { "content-type": "application/json" });
+      res.end(JSON.stringify({ ok: false, error: "unauthorized" }));
+      return;
+    }
+    (async () => {
+      try {
+        const membership = await syncMembershipIdentity(userId, authHeaders);
+        if (membership?.active) await grantOnboardingSpux(userId);
+        const balance = await getSpuxBalance(userId);
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(JSON.stringify({ ok: true, balance, isAdmin: SPUX_ADMIN_UIDS.has(userId) }));
+      } catch (err) {
+        res.writeHead(500, { "content-type": "application/json" });
+        res.end(JSON.stringify({ ok: false, error: "spux_wallet_failed", details: String(err) }));
+      }
+    })();
+    return;
+  }
+  if (req.url?.startsWith("/api/spux/history") && req.method === "GET") {
+    const userId = getUserIdFromReq(req);
+    if (!userId) {
+      res.writeHead(401, { "content-type": "application/json" });
+      res.end(JSON.stringify({ ok: false, error: "unauthorized" }));
+      return;
+    }
+    const requestUrl = new URL(req.url, "http://localhost");
+    const limit = Math.min(100, Math.max(1, Math.trunc(Number(requestUrl.searchParams.get("limit") || 50))));
+    const before = Math.trunc(Number(requestUrl.searchParams.get("before") || 0)) || null;
+    listSpuxHistory(userId, { limit, before })
+      .then((entries) => {
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(
+          JSON.stringify({
+            ok: true,
+            entries,
+            nextBefore: entries.length === limit ? entries[entries.length - 1].entryId : null,
+          })
+        );
+      })
+      .catch((err) => {
+        res.writeHead(500, { "content-type": "application/json" });
+        res.end(JSON.stringify({ ok: false, error: "spux_history_failed", details: String(err) }));
+      });
+    return;
+  }
+  // Admin only. The client picks the idempotency key, so a retried request
+  // adjusts once.
+  if (req.url === "/api/spux/adjust" && req.method === "POST") {
+    const adminUserId = getUserIdFromReq(req);
+    if (!adminUserId) {
+      res.writeHead(401, { "content-type": "application/json" });
+      res.end(JSON.stringify({ ok: false, error: "unauthorized" }));
+      return;
+    }
+    if (!SPUX_ADMIN_UIDS.has(adminUserId)) {
+      res.writeHead(403, { "content-type": "application/json" });
+      res.end(JSON.stringify({ ok: false, error: "spux_admin_required" }));
+      return;
+    }
+    (async () => {
+      const body = await parseJsonBody(req);
+      const userId = sanitizeAccountValue(body?.userId, 128);
+      const amount = Number(body?.amount);
+      const memo = String(body?.memo || "").trim().slice(0, 500);
+      const idempotencyKey = String(body?.idempotencyKey || "").trim().slice(0, 200);
+      if (!userId || !Number.isSafeInteger(amount) || amount === 0 || !memo || !idempotencyKey) {
+        res.writeHead(400, { "content-type": "application/json" });
+        res.end(JSON.stringify({ ok: false, error: "invalid_payload" }));
+        return;
+      }
+      const result = await adjustSpux({ authUserId: userId, amount, memo, createdBy: adminUserId, idempotencyKey });
+      if (!result.ok) {
+        res.writeHead(result.error === "spux_insufficient_funds" ? 409 : 400, { "content-type": "application/json" });
+        res.end(JSON.stringify(result));
+        return;
+      }
+      const balance = await getSpuxBalance(userId);
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify({ ...result, balance }));
+    })().catch((err) => {
+      res.writeHead(500, { "content-type": "application/json" });
+      res.end(JSON.stringify({ ok: false, error: "spux_adjust_failed", details: String(err) }));
+    });
+    return;
+  }
   if (req.url === "/api/friends" && req.method === "GET") {
     const locale = getRequestLocale(req);
     const authHeaders = getAuthentikHeaders(req.headers as Record<string, unknown>);
@@ -4777,11 +4975,12 @@ const emitEvent = async (
   matchId: string,
   type: string,
   payload: unknown,
-  options?: { persist?: boolean }
+  options?: { persist?: boolean; to?: string }
 ) => {
-  io.to(matchId).emit("event", { type, payload });
-  if (options?.persist === false) return;
+  io.to(options?.to ?? matchId).emit("event", { type, payload });
   const runtime = getMatchRuntime(matchId);
+  if (runtime) scheduleSputnik(runtime, matchId);
+  if (options?.persist === false) return;
   if (!runtime) return;
   await persistServerEvent(runtime, matchId, type, payload);
 };
@@ -4791,13 +4990,38 @@ const emitMatchState = async (matchId: string, runtime: MatchRuntime) => {
   await emitEvent(matchId, "MATCH_STATE", {
     matchId,
     mode: ctx.match.mode,
-    players: ctx.players.map((p) => ({ userId: p.userId, stack: p.stack })),
+    players: ctx.players.map((p) => ({
+      userId: p.userId,
+      stack: p.stack,
+      isConnected: p.isConnected,
+      botControlled: p.botControlled === true,
+      forfeited: p.forfeited === true,
+      reconnectDeadline: presence.getSeatDeadline(matchId, p.userId),
+    })),
     readyUserIds: Array.from(runtime.ready),
     stage: ctx.stage,
     status: ctx.status,
     hostUserId: runtime.hostUserId,
     yatzyMatchId: runtime.yatzyMatchId,
-    blackjackRound: runtime.blackjack?.roundState?.round ?? null,
+    yatzySeats: runtime.yatzySeats,
+    blackjackRound:
+      ctx.stageState?.stage === "BLACKJACK"
+        ? ((ctx.stageState.stateJson as BlackjackState | null)?.roundState?.round ?? null)
+        : null,
+    blackjackSittingOut:
+      ctx.stageState?.stage === "BLACKJACK" ? ((ctx.stageState.stateJson as BlackjackState | null)?.sittingOut ?? []) : [],
+    stagePlan: getStagePlan(ctx.match),
+    blackjackRules: getBlackjackRules(ctx.match),
+    inviteCode: ctx.match.inviteCode ?? null,
+    maxPlayers: runtime.orchestrator.getMaxPlayers(),
+    buyIn: ctx.match.buyIn ?? 0,
+    prizePayoutTable: ctx.match.prizePayoutTable ?? null,
+    pot: getPotEscrow(runtime).reduce((sum, [, e]) => sum + e.amount, 0),
+    paidUserIds: getPotEscrow(runtime).map(([userId]) => userId),
+    chickenDares:
+      ctx.match.mode === "CHICKEN_RUN"
+        ? Object.fromEntries(ctx.players.map((p, index) => [p.userId, getChickenDaresForSeat(index)]))
+        : null,
   }, { persist: false });
   await saveRedisOnly(runtime);
 };
@@ -4806,407 +5030,443 @@ const getMatchRuntime = (matchId: string): MatchRuntime | null => {
   return matches.get(matchId) ?? null;
 };
 
-const applyServerEventToState = (
-  state: PersistedMatchState,
+// Inputs for one match are applied one at a time, in the order they got their
+// seq, so the live state is exactly what a replay of match_events produces.
+const matchLocks = new Map<string, Promise<void>>();
+
+const withMatchLock = (matchId: string, fn: () => Promise<void>): Promise<void> => {
+  const previous = matchLocks.get(matchId) ?? Promise.resolve();
+  const run = previous.then(fn, fn);
+  const tail = run.catch(() => undefined);
+  matchLocks.set(matchId, tail);
+  void tail.then(() => {
+    if (matchLocks.get(matchId) === tail) matchLocks.delete(matchId);
+  });
+  return run;
+};
+
+// Server-side inputs (the match start, fetched data, expired timers) go into
+// the event log like client events, then the orchestrator runs at their seq/ts.
+// Only READY_CHECK_PASSED is broadcast; the rest never leaves the server.
+const recordInput = async (
+  runtime: MatchRuntime,
+  matchId: string,
   type: string,
-  payload: any
-): PersistedMatchState => {
-  const next = { ...state, players: [...state.players], ledger: [...state.ledger] };
-  switch (type) {
-    case "MATCH_CREATED":
-      if (payload?.match) next.match = payload.match;
-      return next;
-    case "MATCH_JOINED":
-      if (payload?.userId && !next.players.some((p) => p.userId === payload.userId)) {
-        next.players.push({
-          matchId: next.match.id,
-          userId: payload.userId,
-          seat: next.players.length + 1,
-          stack: 0,
-          isConnected: true,
-          isBot: false,
-        });
-      }
-      return next;
-    case "MATCH_LEFT":
-      if (payload?.userId) {
-        const p = next.players.find((pl) => pl.userId === payload.userId);
-        if (p) p.isConnected = false;
-      }
-      return next;
-    case "READY_CHECK_PASSED":
-      next.status = "RUNNING";
-      next.match = { ...next.match, status: "RUNNING" };
-      return next;
-    case "STAGE_STARTED":
-      if (payload?.stage) next.stage = payload.stage;
-      return next;
-    case "LEDGER_ENTRY_APPLIED":
-      if (payload?.entry) {
-        next.ledger.push(payload.entry);
-        const p = next.players.find((pl) => pl.userId === payload.entry.userId);
-        if (p) p.stack += payload.entry.delta;
-      }
-      return next;
-    case "STACK_UPDATED":
-      if (payload?.userId && typeof payload?.stack === "number") {
-        const p = next.players.find((pl) => pl.userId === payload.userId);
-        if (p) p.stack = payload.stack;
-      }
-      return next;
-    case "YATZY_MATCH_SET":
-    case "YATZY_MATCH_CREATED":
-      if (payload?.yatzyMatchId) next.yatzyMatchId = payload.yatzyMatchId;
-      return next;
-    default:
-      return next;
-  }
+  payload: Record<string, unknown>,
+  options?: { broadcast?: boolean }
+) => {
+  const ts = Date.now();
+  const data = { matchId, ...payload, ts };
+  if (options?.broadcast) io.to(matchId).emit("event", { type, payload: data });
+  const seq = await persistServerEvent(runtime, matchId, type, data);
+  runtime.orchestrator.beginInput(seq, ts);
 };
 
+const createOrchestrator = (ctx: OrchestratorContext, seed: string) =>
+  new MatchOrchestrator(ctx, { ...orchestratorOptions, seed });
+
+// match_events is the source of truth: the match is replayed from its first
+// event. Redis or the latest snapshot only add what is not game state (player
+// identities), or stand in when the event log is unavailable.
 const recoverMatch = async (matchId: string): Promise<MatchRuntime | null> => {
-  let state: PersistedMatchState | null = null;
-  state = await safeRedisValue(() => loadRedisState(matchId), null);
-  if (!state) {
-    state = await safeDbValue(() => loadSnapshotFromDb(matchId), null);
+  let cached: PersistedMatchState | null = await safeRedisValue(() => loadRedisState(matchId), null);
+  if (!cached) {
+    cached = await safeDbValue(() => loadSnapshotFromDb(matchId), null);
   }
-  if (!state) return null;
-
-  const events = await safeDbValue(() => loadEventsAfterSeq(matchId, state!.seq), []);
-  let rebuilt = state;
-  for (const ev of events as Array<{ seq: number; type: string; payload: any }>) {
-    if (ev?.payload?.source !== "server") {
-      rebuilt = { ...rebuilt, seq: ev.seq };
-      continue;
+  const events = await safeDbValue(() => loadEventsAfterSeq(matchId, 0), []);
+  const replayed = replayMatchEvents(events, orchestratorOptions);
+  if (!replayed && !cached) return null;
+
+  let runtime: MatchRuntime;
+  if (replayed) {
+    const ctx = replayed.orchestrator.getContext();
+    runtime = {
+      orchestrator: replayed.orchestrator,
+      ready: new Set(replayed.readyUserIds),
+      yatzyMatchId: replayed.yatzyMatchId,
+      yatzySeats: replayed.yatzySeats,
+      yatzyPendingScores: replayed.yatzyPendingScores,
+      hostUserId: replayed.hostUserId,
+      hostAuthHeaders: {},
+      identities: new Map(cached?.identities ?? []),
+      musicPlaylist: replayed.musicPlaylist,
+      yatzyAuthToken: null,
+      seed: replayed.seed ?? cached?.seed ?? randomBytes(32).toString("hex"),
+      stageTimer: null,
+      inviteUses: new Map(Object.entries(replayed.inviteUses)),
+      escrow: new Map(Object.entries(replayed.escrow)),
+      escrowRefunds: new Map(Object.entries(replayed.escrowRefunds)),
+      potSettled: replayed.potSettled,
+      spuxRetryTimer: null,
+      seq: replayed.seq,
+    };
+    if (ctx.players.some((p) => p.userId === SPUTNIK_USER_ID)) {
+      runtime.identities.set(SPUTNIK_USER_ID, { authUserId: null, displayName: SPUTNIK_DISPLAY_NAME });
     }
-    const serverPayload = { ...ev.payload };
-    delete serverPayload.source;
-    rebuilt = applyServerEventToState(rebuilt, ev.type, serverPayload);
-    rebuilt.seq = ev.seq;
+  } else {
+    const state = cached!;
+    const musicPlaylist = state.musicPlaylist ?? [];
+    const seed = state.seed ?? randomBytes(32).toString("hex");
+    const orchestrator = createOrchestrator(
+      {
+        match: state.match,
+        players: state.players,
+        stage: state.stage,
+        status: state.status,
+        ledger: state.ledger,
+        stageState: state.stageState ?? null,
+      },
+      seed
+    );
+    orchestrator.setMusicPlaylist(musicPlaylist);
+    runtime = {
+      orchestrator,
+      ready: new Set(state.readyUserIds),
+      yatzyMatchId: state.yatzyMatchId,
+      yatzySeats: state.yatzySeats ?? null,
+      yatzyPendingScores: null,
+      hostUserId: state.hostUserId,
+      hostAuthHeaders: {},
+      identities: new Map(state.identities ?? []),
+      musicPlaylist,
+      yatzyAuthToken: null,
+      seed,
+      stageTimer: null,
+      inviteUses: new Map(),
+      escrow: new Map(),
+      escrowRefunds: new Map(),
+      potSettled: false,
+      spuxRetryTimer: null,
+      seq: state.seq,
+    };
   }
-
-  const ctx = {
-    match: rebuilt.match,
-    players: rebuilt.players,
-    stage: rebuilt.stage,
-    status: rebuilt.status,
-  };
-  const orchestrator = new MatchOrchestrator(ctx);
-  const runtime: MatchRuntime = {
-    orchestrator,
-    ready: new Set(rebuilt.readyUserIds),
-    ledger: rebuilt.ledger,
-    yatzySubmissions: new Map(rebuilt.yatzySubmissions),
-    yatzyMatchId: rebuilt.yatzyMatchId,
-    hostUserId: rebuilt.hostUserId,
-    hostAuthHeaders: {},
-    yatzyAuthToken: null,
-    blackjack: rebuilt.blackjack ?? null,
-    seq: rebuilt.seq,
-  };
   matches.set(matchId, runtime);
   await saveSnapshotNow(runtime);
+  // Money that moved too late for the last run.
+  await settleOwedSpux(runtime, matchId);
+  await applyPendingYatzyScores(runtime, matchId);
+  if (!replayed?.triviaPool && runtime.orchestrator.getContext().status === "RUNNING") {
+    await prepareTriviaPool(runtime, matchId);
+  }
+  scheduleStageDeadline(runtime, matchId);
+  scheduleSputnik(runtime, matchId);
   return runtime;
 };
 
-const createPlayer = (matchId: string, userId: string, seat: number): MatchPlayer => ({
-  matchId,
-  userId,
-  seat,
-  stack: 0,
-  isConnected: true,
-  isBot: false,
-});
-
-const createMatch = (mode: MatchMode, userId: string): { match: Match; runtime: MatchRuntime } => {
+// The host joins right after MATCH_CREATED, like everyone else.
+const createMatch = (
+  mode: MatchMode,
+  userId: string,
+  stagePlan: Stage[],
+  blackjackRules: BlackjackRules,
+  settings: { maxPlayers: number; buyIn: number; prizePayoutTable: PrizePayoutTable }
+): { match: Match; runtime: MatchRuntime } => {
   const matchId = randomUUID();
   const match: Match = {
     id: matchId,
     mode,
     status: "CREATED",
     createdAt: Date.now(),
+    stagePlan,
+    blackjackRules,
+    inviteCode: generateInviteCode((code) => findLiveMatchIdByInviteCode(code) !== null),
+    maxPlayers: settings.maxPlayers,
+    ...(settings.buyIn > 0 ? { buyIn: settings.buyIn, prizePayoutTable: settings.prizePayoutTable } : {}),
+  };
+  const ctx: OrchestratorContext = {
+    match,
+    players: [],
+    stage: "LOBBY",
+    status: "CREATED",
+    ledger: [],
+    stageState: null,
   };
-  const players: MatchPlayer[] = [createPlayer(matchId, userId, 1)];
-  const ctx = { match, players, stage: "LOBBY" as Stage, status: "CREATED" as MatchStatus };
-  const orchestrator = new MatchOrchestrator(ctx);
+  const seed = randomBytes(32).toString("hex");
   const runtime: MatchRuntime = {
-    orchestrator,
+    orchestrator: createOrchestrator(ctx, seed),
     ready: new Set(),
-    ledger: [],
-    yatzySubmissions: new Map(),
     yatzyMatchId: null,
+    yatzySeats: null,
+    yatzyPendingScores: null,
     hostUserId: userId,
     hostAuthHeaders: {},
+    identities: new Map(),
+    musicPlaylist: [],
     yatzyAuthToken: null,
-    blackjack: null,
+    seed,
+    stageTimer: null,
+    inviteUses: new Map(),
+    escrow: new Map(),
+    escrowRefunds: new Map(),
+    potSettled: false,
+    spuxRetryTimer: null,
     seq: 0,
   };
   matches.set(matchId, runtime);
   return { match, runtime };
 };
 
-const joinMatch = (runtime: MatchRuntime, matchId: string, userId: string) => {
-  const ctx = runtime.orchestrator.getContext();
-  if (ctx.players.some((p) => p.userId === userId)) return;
-  if (ctx.players.length >= 6) return;
-  const seat = ctx.players.length + 1;
-  ctx.players.push(createPlayer(matchId, userId, seat));
+const findLiveMatchIdByInviteCode = (inviteCode: string): string | null => {
+  for (const [matchId, runtime] of matches.entries()) {
+    if (runtime.orchestrator.getContext().match.inviteCode === inviteCode) return matchId;
+  }
+  return null;
 };
 
-const setMatchStatus = (runtime: MatchRuntime, status: MatchStatus) => {
-  const ctx = runtime.orchestrator.getContext();
-  ctx.status = status;
-  ctx.match.status = status;
-  safeDb(() => updateMatchStatus(ctx.match.id, status));
+const findMatchIdByInviteCode = async (inviteCode: string): Promise<string | null> =>
+  findLiveMatchIdByInviteCode(inviteCode) ?? (await safeDbValue(() => loadMatchIdByInviteCode(inviteCode), null));
+
+// A new seat needs the match's invite code or a valid invite token with seats
+// left. Matches from before invite codes only need the id.
+const checkMatchInvite = (
+  runtime: MatchRuntime,
+  event: Extract<ClientEvent, { type: "MATCH_JOIN" }>
+): { ok: true; inviteId: string | null } | { ok: false; error: string } => {
+  const { match } = runtime.orchestrator.getContext();
+  if (event.inviteToken) {
+    const invite = verifyInviteToken(event.inviteToken, match.id);
+    if (!invite.ok) return invite;
+    if ((runtime.inviteUses.get(invite.inviteId) ?? 0) >= invite.seats) return { ok: false, error: "invite_token_used_up" };
+    return { ok: true, inviteId: invite.inviteId };
+  }
+  if (!match.inviteCode) return { ok: true, inviteId: null };
+  if (!event.inviteCode) return { ok: false, error: "invite_required" };
+  if (normalizeInviteCode(event.inviteCode) !== match.inviteCode) return { ok: false, error: "invite_code_invalid" };
+  return { ok: true, inviteId: null };
 };
 
-const applyLedgerEntry = async (runtime: MatchRuntime, entry: LedgerEntry) => {
-  const ctx = runtime.orchestrator.getContext();
-  const player = ctx.players.find((p) => p.userId === entry.userId);
-  if (!player) return;
-  player.stack += entry.delta;
-  runtime.ledger.push(entry);
-  await emitEvent(entry.matchId, "LEDGER_ENTRY_APPLIED", { entry });
-  await emitEvent(entry.matchId, "STACK_UPDATED", { matchId: entry.matchId, userId: entry.userId, stack: player.stack });
-};
+const identityFromHeaders = (userId: string, headers: Record<string, string>): MatchIdentity => ({
+  authUserId: headers["x-authentik-uid"] ?? null,
+  displayName: headers["x-authentik-name"] || headers["x-authentik-username"] || userId,
+});
 
-const applyAbsoluteStack = async (runtime: MatchRuntime, matchId: string, userId: string, stack: number, stage: Stage, reason: string) => {
-  const ctx = runtime.orchestrator.getContext();
-  const player = ctx.players.find((p) => p.userId === userId);
-  if (!player) return;
-  const delta = stack - player.stack;
-  await applyLedgerEntry(runtime, {
-    matchId,
-    userId,
-    stage,
-    delta,
-    reason,
-    ts: Date.now(),
-  });
+const loadLatestInsights = async (authUserId: string) => {
+  const result = await pool.query(
+    `SELECT summary_json
+     FROM profile_insights
+     WHERE user_id = $1
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [authUserId]
+  );
+  return result.rowCount ? result.rows[0] : null;
 };
 
-const getBjPlayer = (runtime: MatchRuntime, userId: string): BjPlayerState | null => {
-  const bj = runtime.blackjack;
-  if (!bj?.roundState) return null;
-  return bj.roundState.players[userId] ?? null;
+// Trivia board pool for this match: the shipped/local banks plus personal
+// questions generated from the players' own charts.
+const prepareTriviaPool = async (runtime: MatchRuntime, matchId: string) => {
+  const bankPool = await getTriviaBankPool();
+  const ctx = runtime.orchestrator.getContext();
+  const profilePlayers = await Promise.all(
+    ctx.players.map(async (p) => {
+      const identity = runtime.identities.get(p.userId);
+      const authUserId = identity?.authUserId ?? null;
+      return {
+        userId: p.userId,
+        displayName: identity?.displayName || p.userId,
+        insights: authUserId ? await safeDbValue(() => loadLatestInsights(authUserId), null) : null,
+      };
+    })
+  );
+  const personal = buildProfileTriviaQuestions(profilePlayers, Math.random);
+  const triviaPool = {
+    categories: personal.length ? [...bankPool.categories, PROFILE_TRIVIA_CATEGORY] : bankPool.categories,
+    questions: [...bankPool.questions, ...personal],
+  };
+  // Banks change and insights are regenerated; the log keeps the pool as played.
+  await recordInput(runtime, matchId, "TRIVIA_POOL_SET", { pool: triviaPool });
+  runtime.orchestrator.setTriviaPool(triviaPool);
 };
 
-const getBjRound = (runtime: MatchRuntime): BjRoundState | null => {
-  return runtime.blackjack?.roundState ?? null;
+// The orchestrator moves the status itself (startMatch, RESULTS); this keeps
+// the matches row in step.
+const syncMatchStatus = (runtime: MatchRuntime) => {
+  const { match } = runtime.orchestrator.getContext();
+  safeDb(() => updateMatchStatus(match.id, match.status));
 };
 
-const createBjState = (): BlackjackState => ({
-  round: 0,
-  roundsTotal: BJ_ROUNDS,
-  status: "IN_PROGRESS",
-  roundState: null,
-});
+// ---- Buy-ins -------------------------------------------------------------
 
-const emitBjHandState = async (
+// Paid at the ready-check, from the player's own wallet into the match's
+// escrow. Guests have no wallet and cannot play for Spux.
+const escrowPlayerBuyIn = async (
+  runtime: MatchRuntime,
   matchId: string,
-  round: number,
   userId: string,
-  hand: BjHand,
-  roundStatus: BjRoundStatus,
-  options?: { handIndex?: number }
-) => {
-  const isDealer = userId === "dealer";
-  const hideHole = isDealer && roundStatus !== "DEALER_ACTION" && roundStatus !== "RESOLVED";
-  const visibleCards = hideHole && hand.cards.length > 1 ? [hand.cards[0]] : hand.cards;
-  const { total } = computeHandValue(visibleCards);
-  const payload = {
-    matchId,
-    round,
-    spot: hand.spot,
-    userId,
-    handIndex: options?.handIndex ?? 0,
-    state: {
-      cards: visibleCards.map((c) => ({ rank: c.rank, suit: c.suit })),
-      total,
-      status: hand.status,
-      bet: hand.bet,
-      result: hand.result,
-      sideBet: hand.sideBet,
-      sideResult: hand.sideResult,
-      hidden: hideHole ? Math.max(hand.cards.length - 1, 0) : 0,
-    },
-  };
-  await emitEvent(matchId, "BJ_HAND_STATE", payload);
+  amount: number
+): Promise<{ ok: true } | { ok: false; error: string }> => {
+  const authUserId = runtime.identities.get(userId)?.authUserId ?? null;
+  if (!authUserId) return { ok: false, error: "spux_wallet_required" };
+  const attempt = runtime.escrowRefunds.get(userId) ?? 0;
+  const res = await safeDbValue(() => escrowBuyIn({ matchId, authUserId, amount, attempt }), null);
+  if (!res) return { ok: false, error: "spux_wallet_unavailable" };
+  if (!res.ok) return res;
+  runtime.escrow.set(userId, { authUserId, amount });
+  await persistServerEvent(runtime, matchId, "SPUX_ESCROWED", { matchId, userId, authUserId, amount });
+  return { ok: true };
 };
 
-const emitBjRoundStarted = async (matchId: string, round: number) => {
-  await emitEvent(matchId, "BJ_ROUND_STARTED", { matchId, round, ts: Date.now() });
+// Every seated player has confirmed, and with a buy-in every human has paid.
+const isReadyToStart = (runtime: MatchRuntime) => {
+  const { match, players } = runtime.orchestrator.getContext();
+  return players.every(
+    (p) => runtime.ready.has(p.userId) && (p.isBot || !match.buyIn || runtime.escrow.has(p.userId))
+  );
 };
 
-const emitBjRoundCompleted = async (matchId: string, round: number) => {
-  await emitEvent(matchId, "BJ_ROUND_COMPLETED", { matchId, round, ts: Date.now() });
+// Buy-ins of the players still seated: the pot. A player who left the lobby
+// is out of it even while their refund is pending.
+const getPotEscrow = (runtime: MatchRuntime): Array<[string, EscrowedBuyIn]> => {
+  const seated = new Set(runtime.orchestrator.getContext().players.map((p) => p.userId));
+  return Array.from(runtime.escrow.entries()).filter(([userId]) => seated.has(userId));
 };
 
-const startBlackjackRound = async (runtime: MatchRuntime, matchId: string) => {
-  if (!runtime.blackjack) runtime.blackjack = createBjState();
-  const bj = runtime.blackjack;
-  if (bj.status !== "IN_PROGRESS") return;
-  if (bj.round >= bj.roundsTotal) {
-    bj.status = "DONE";
-    return;
-  }
-  const ctx = runtime.orchestrator.getContext();
-  const deck = buildDeck();
-  shuffleDeck(deck);
-  const players: Record<string, BjPlayerState> = {};
-  for (const p of ctx.players) {
-    players[p.userId] = {
-      userId: p.userId,
-      hands: [],
-      placedBet: false,
-      committed: 0,
-    };
-  }
-  const roundState: BjRoundState = {
-    round: bj.round + 1,
-    status: "BETTING",
-    deck,
-    dealer: makeDealerHand(),
-    players,
-  };
-  bj.round = roundState.round;
-  bj.roundState = roundState;
-  await emitBjRoundStarted(matchId, roundState.round);
-  await emitBjHandState(matchId, roundState.round, "dealer", roundState.dealer, roundState.status);
+// Everything in a cancelled match, otherwise the buy-ins of players who left
+// the lobby. They stay in escrow until the refund goes through.
+const getOwedRefunds = (runtime: MatchRuntime): string[] => {
+  if (runtime.orchestrator.getContext().status === "CANCELLED") return Array.from(runtime.escrow.keys());
+  const seated = new Set(getPotEscrow(runtime).map(([userId]) => userId));
+  return Array.from(runtime.escrow.keys()).filter((userId) => !seated.has(userId));
 };
 
-const computeSideBetResult = (total: number, choice: BjSideBetChoice): "WIN" | "LOSE" | "PUSH" => {
-  if (total === 13) return "PUSH";
-  if (choice === "UNDER") return total < 13 ? "WIN" : "LOSE";
-  return total > 13 ? "WIN" : "LOSE";
+// A wallet transaction that failed is told to the room and tried again later,
+// until it goes through (or the process restarts and recovery picks it up).
+const failSpuxSettlement = (runtime: MatchRuntime, matchId: string, error: string, reason: string) => {
+  // eslint-disable-next-line no-console
+  console.error(`[spux] ${error}`, matchId, reason);
+  io.to(matchId).emit("error", { error, matchId });
+  if (runtime.spuxRetryTimer) return;
+  runtime.spuxRetryTimer = setTimeout(() => {
+    runtime.spuxRetryTimer = null;
+    void withMatchLock(matchId, async () => {
+      await settleOwedSpux(runtime, matchId);
+      await emitMatchState(matchId, runtime);
+    });
+  }, SPUX_RETRY_MS);
 };
 
-const dealInitialHands = async (runtime: MatchRuntime, matchId: string) => {
-  const roundState = getBjRound(runtime);
-  if (!roundState) return;
-  roundState.status = "PLAYER_ACTION";
-  const { dealer, deck } = roundState;
-
-  for (const player of Object.values(roundState.players)) {
-    for (const hand of player.hands) {
-      hand.cards.push(drawCard(deck));
-      hand.cards.push(drawCard(deck));
-      const { total, blackjack } = computeHandValue(hand.cards);
-      if (hand.sideBet) {
-        hand.sideResult = computeSideBetResult(total, hand.sideBet);
-      }
-      if (blackjack) {
-        hand.status = "BLACKJACK";
-        hand.result = "BLACKJACK";
-      } else {
-        hand.status = "ACTIVE";
-      }
-    }
-  }
-
-  dealer.cards.push(drawCard(deck));
-  dealer.cards.push(drawCard(deck));
-  const dealerValue = computeHandValue(dealer.cards);
-  const dealerBlackjack = dealerValue.blackjack;
-
-  for (const player of Object.values(roundState.players)) {
-    player.hands.forEach((hand, index) => {
-      void emitBjHandState(matchId, roundState.round, player.userId, hand, roundState.status, { handIndex: index });
-    });
+// Everyone's on cancel, one player's when they leave the lobby.
+const refundEscrow = async (runtime: MatchRuntime, matchId: string, userIds: string[]) => {
+  const held = userIds.filter((userId) => runtime.escrow.has(userId));
+  if (!held.length) return;
+  const attempts = held.map((userId) => `${userId}:${runtime.escrowRefunds.get(userId) ?? 0}`);
+  const refunds = held.map((userId) => ({ userId, ...runtime.escrow.get(userId)! }));
+  const res = await safeDbValue(
+    () =>
+      refundBuyIns({
+        matchId,
+        idempotencyKey: `refund:${attempts.join(",")}`,
+        refunds: refunds.map((r) => ({ authUserId: r.authUserId, amount: r.amount })),
+      }),
+    null
+  );
+  if (!res?.ok) {
+    failSpuxSettlement(runtime, matchId, "spux_refund_failed", res && !res.ok ? res.error : "db_error");
+    return;
   }
-  await emitBjHandState(matchId, roundState.round, "dealer", dealer, roundState.status);
-
-  const anyActive = Object.values(roundState.players).some((p) => p.hands.some((h) => h.status === "ACTIVE"));
-  if (!anyActive || dealerBlackjack) {
-    await resolveBjRound(runtime, matchId);
+  for (const userId of held) {
+    runtime.escrow.delete(userId);
+    runtime.escrowRefunds.set(userId, (runtime.escrowRefunds.get(userId) ?? 0) + 1);
   }
+  await persistServerEvent(runtime, matchId, "SPUX_REFUNDED", { matchId, userIds: held });
+  await emitEvent(matchId, "MATCH_PAYOUTS", {
+    matchId,
+    pot: refunds.reduce((sum, r) => sum + r.amount, 0),
+    payouts: refunds.map((r) => ({ userId: r.userId, amount: r.amount })),
+    refunded: true,
+  });
 };
 
-const resolveBjHand = (hand: BjHand, dealerCards: BjCard[]): BjHandResult => {
-  const handValue = computeHandValue(hand.cards);
-  const dealerValue = computeHandValue(dealerCards);
-  if (handValue.total > 21) return "LOSE";
-  if (dealerValue.total > 21) return handValue.blackjack ? "BLACKJACK" : "WIN";
-  if (handValue.blackjack && !dealerValue.blackjack) return "BLACKJACK";
-  if (dealerValue.blackjack && !handValue.blackjack) return "LOSE";
-  if (handValue.total > dealerValue.total) return "WIN";
-  if (handValue.total < dealerValue.total) return "LOSE";
-  if (handValue.total === 20) return "PUSH";
-  if (handValue.total >= 17 && handValue.total <= 19) return "LOSE";
-  if (handValue.total === 21) return handValue.blackjack ? "BLACKJACK" : "PUSH";
-  return "PUSH";
+// The pot goes out in one wallet transaction after MATCH_COMPLETED.
+const settlePrizePool = async (runtime: MatchRuntime, matchId: string, results: MatchResults) => {
+  const escrow = new Map(getPotEscrow(runtime));
+  if (runtime.potSettled || !escrow.size) return;
+  const { match } = runtime.orchestrator.getContext();
+  const pot = Array.from(escrow.values()).reduce((sum, e) => sum + e.amount, 0);
+  const payouts = computePrizePayouts({
+    pot,
+    standings: results.standings,
+    paidUserIds: Array.from(escrow.keys()),
+    table: match.prizePayoutTable ?? DEFAULT_PRIZE_PAYOUT_TABLE,
+  });
+  const res = await safeDbValue(
+    () =>
+      payOutPrizePool({
+        matchId,
+        pot,
+        payouts: payouts.map((p) => ({ authUserId: escrow.get(p.userId)!.authUserId, amount: p.amount })),
+      }),
+    null
+  );
+  if (!res?.ok) {
+    failSpuxSettlement(runtime, matchId, "spux_payout_failed", res && !res.ok ? res.error : "db_error");
+    return;
+  }
+  runtime.potSettled = true;
+  await emitEvent(matchId, "MATCH_PAYOUTS", { matchId, pot, payouts, refunded: false });
 };
 
-const resolveBjRound = async (runtime: MatchRuntime, matchId: string) => {
-  const roundState = getBjRound(runtime);
-  if (!roundState) return;
-  roundState.status = "DEALER_ACTION";
-  const dealer = roundState.dealer;
-  while (shouldDealerHit(dealer.cards)) {
-    dealer.cards.push(drawCard(roundState.deck));
+// Whatever the match still owes: the pot once it is over, and refunds.
+const settleOwedSpux = async (runtime: MatchRuntime, matchId: string) => {
+  const ctx = runtime.orchestrator.getContext();
+  if (ctx.status === "COMPLETED" && ctx.stageState?.stage === "RESULTS") {
+    await settlePrizePool(runtime, matchId, ctx.stageState.stateJson as MatchResults);
   }
-  roundState.status = "RESOLVED";
-  await emitBjHandState(matchId, roundState.round, "dealer", dealer, roundState.status);
-
-  for (const player of Object.values(roundState.players)) {
-    let deltaTotal = 0;
-    for (const [index, hand] of player.hands.entries()) {
-      const result = resolveBjHand(hand, dealer.cards);
-      hand.result = result;
-      if (hand.status === "ACTIVE") hand.status = "DONE";
-      let delta = 0;
-      if (result === "BLACKJACK") delta += Math.round(hand.bet * BJ_BLACKJACK_PAYOUT);
-      if (result === "WIN") delta += hand.bet;
-      if (result === "LOSE") delta -= hand.bet;
-      if (hand.sideBet && hand.sideResult) {
-        if (hand.sideResult === "WIN") delta += Math.round(hand.bet * BJ_SIDE_BET_PAYOUT);
-        if (hand.sideResult === "LOSE") delta -= hand.bet;
-      }
-      deltaTotal += delta;
-      await emitBjHandState(matchId, roundState.round, player.userId, hand, roundState.status, { handIndex: index });
+  await refundEscrow(runtime, matchId, getOwedRefunds(runtime));
+};
+
+// RESULTS is the last stage: close the match before the results go out.
+const completeMatch = async (runtime: MatchRuntime, results: MatchResults) => {
+  dropBotTurns(results.matchId, () => true);
+  presence.releaseMatch(results.matchId);
+  syncMatchStatus(runtime);
+  await safeDb(() => saveMatchResults(results));
+  await safeDb(() => creditMatchBonuses(results, (playerId) => runtime.identities.get(playerId)?.authUserId ?? null));
+};
+
+const emitOrchestratorEvents = async (runtime: MatchRuntime, matchId: string, events: OrchestratorEvent[]) => {
+  for (const ev of events) {
+    if (ev.type === "MATCH_COMPLETED") {
+      await completeMatch(runtime, (ev.payload as { results: MatchResults }).results);
     }
-    if (deltaTotal !== 0) {
-      await applyLedgerEntry(runtime, {
-        matchId,
-        userId: player.userId,
-        stage: "BLACKJACK",
-        delta: deltaTotal,
-        reason: `blackjack_round_${roundState.round}`,
-        ts: Date.now(),
-      });
+    await emitEvent(matchId, ev.type, ev.payload, ev.to ? { to: ev.to } : undefined);
+    if (ev.type === "MATCH_COMPLETED") {
+      await settlePrizePool(runtime, matchId, (ev.payload as { results: MatchResults }).results);
     }
   }
-
-  await emitBjRoundCompleted(matchId, roundState.round);
-  if (runtime.blackjack && runtime.blackjack.round < runtime.blackjack.roundsTotal) {
-    await startBlackjackRound(runtime, matchId);
-  } else if (runtime.blackjack) {
-    runtime.blackjack.status = "DONE";
+  if (events.some((ev) => ev.type === "STAGE_STARTED" && (ev.payload as { stage?: Stage }).stage === "YATZY")) {
+    await applyPendingYatzyScores(runtime, matchId);
   }
+  scheduleStageDeadline(runtime, matchId);
 };
 
-const tryAdvanceBjRound = async (runtime: MatchRuntime, matchId: string) => {
-  const roundState = getBjRound(runtime);
-  if (!roundState) return;
-  if (roundState.status !== "PLAYER_ACTION") return;
-  const anyActive = Object.values(roundState.players).some((p) => p.hands.some((h) => h.status === "ACTIVE"));
-  if (!anyActive) {
-    await resolveBjRound(runtime, matchId);
-  }
+// One timer per match, always armed for the orchestrator's earliest deadline.
+const scheduleStageDeadline = (runtime: MatchRuntime, matchId: string) => {
+  if (runtime.stageTimer) clearTimeout(runtime.stageTimer);
+  runtime.stageTimer = null;
+  const deadline = runtime.orchestrator.getNextDeadline();
+  if (deadline === null) return;
+  runtime.stageTimer = setTimeout(() => {
+    runtime.stageTimer = null;
+    void withMatchLock(matchId, async () => {
+      await recordInput(runtime, matchId, "STAGE_DEADLINE", {});
+      const res = runtime.orchestrator.handleDeadline();
+      if (res.ok && res.events.length) {
+        await emitOrchestratorEvents(runtime, matchId, res.events);
+        await emitMatchState(matchId, runtime);
+      } else if ((runtime.orchestrator.getNextDeadline() ?? 0) > Date.now()) {
+        scheduleStageDeadline(runtime, matchId);
+      }
+    });
+  }, Math.max(0, deadline - Date.now()));
 };
 
-const seatOrder = ["P1", "P2", "P3", "P4", "P5", "P6"] as const;
+// Matches from before seat binding map the seats in the current join order.
+const getYatzySeats = (runtime: MatchRuntime) =>
+  runtime.yatzySeats ?? bindYatzySeats(runtime.orchestrator.getContext().players.map((p) => p.userId));
 
-const getSeatMapByJoinOrder = (runtime: MatchRuntime) => {
-  const ctx = runtime.orchestrator.getContext();
-  const m = new Map<string, string>();
-  ctx.players.forEach((p, i) => {
-    const seat = seatOrder[i];
-    if (seat) m.set(seat, p.userId);
-  });
-  return m;
-};
-
-const importYatzyScores = async (runtime: MatchRuntime, matchId: string, yatzyMatchId: string) => {
+// Final totals by userId. A fallback for when the completion webhook never came.
+const fetchYatzyScores = async (runtime: MatchRuntime, yatzyMatchId: string): Promise<Record<string, number>> => {
   const apiUrl = (process.env.YATZY_API_URL || "").trim();
   if (!apiUrl) {
     throw new Error("YATZY_API_URL missing");
@@ -5221,19 +5481,7 @@ const importYatzyScores = async (runtime: MatchRuntime, matchId: string, yatzyMa
     throw new Error(`Yatzy API error ${res.status}`);
   }
   const data = await res.json();
-  const scores = Array.isArray(data?.scores) ? data.scores : [];
-  const totals = new Map<string, number>();
-  for (const s of scores) {
-    const seat = String(s.seat || "").toUpperCase();
-    const score = Number(s.score || 0);
-    totals.set(seat, (totals.get(seat) || 0) + (Number.isFinite(score) ? score : 0));
-  }
-
-  const seatMap = getSeatMapByJoinOrder(runtime);
-  for (const [seat, userId] of seatMap.entries()) {
-    const total = totals.get(seat) || 0;
-    await applyAbsoluteStack(runtime, matchId, userId, total * 10, "YATZY", `yatzy_import:${yatzyMatchId}`);
-  }
+  return mapYatzyScores(Array.isArray(data?.scores) ? data.scores : [], getYatzySeats(runtime));
 };
 
 const createYatzyMatch = async (runtime: MatchRuntime, playerCount: number) => {
@@ -5251,7 +5499,12 @@ const createYatzyMatch = async (runtime: MatchRuntime, playerCount: number) => {
       Authorization: `Bearer ${token}`,
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({ playerCount: count, actionId: randomUUID() }),
+    body: JSON.stringify({
+      playerCount: count,
+      actionId: randomUUID(),
+      // Where the Yatzy service posts the final scores (POST /api/yatzy/webhook).
+      ...(YATZY_WEBHOOK_URL ? { webhookUrl: YATZY_WEBHOOK_URL } : {}),
+    }),
   });
   if (!res.ok) {
     const body = await res.text().catch(() => "");
@@ -5282,6 +5535,7 @@ const getAuthentikHeaders = (headers: Record<string, unknown>): Record<string, s
 };
 
 const silentDisco = createSilentDiscoManager({
+  io,
   parseJsonBody,
   getAuthentikHeaders,
 });
@@ -5311,356 +5565,514 @@ const getYatzyToken = async (runtime: MatchRuntime, apiUrl: string): Promise<str
   return data.token as string;
 };
 
-io.on("connection", (socket) => {
-  const userId = socket.id;
-  // eslint-disable-next-line no-console
-  console.log("socket connected", socket.id, socket.handshake.address, socket.handshake.headers.origin);
-  const authHeaders = getAuthentikHeaders(socket.handshake.headers as Record<string, unknown>);
-  silentDisco.bindSocketConnection(io, socket, authHeaders);
-  socket.emit("event", {
-    type: "AUTH_DEBUG",
-    payload: {
-      hasAuthentik: !!authHeaders["x-authentik-uid"],
-      headers: Object.keys(authHeaders),
-    },
-  });
+// The webhook finds the match through the bindings table, the log keeps them
+// for replay (YATZY_MATCH_SET/CREATED.seats).
+const bindYatzyMatch = async (runtime: MatchRuntime, matchId: string, yatzyMatchId: string) => {
+  const seats = bindYatzySeats(runtime.orchestrator.getContext().players.map((p) => p.userId));
+  runtime.yatzyMatchId = yatzyMatchId;
+  runtime.yatzySeats = seats;
+  runtime.yatzyPendingScores = null;
+  await safeDb(() => saveYatzySeatBindings(matchId, yatzyMatchId, seats));
+  return seats;
+};
 
-  socket.on("event", async (rawPayload) => {
-    // eslint-disable-next-line no-console
-    console.log("incoming event", rawPayload);
-    const parsed = ClientEventSchema.safeParse(rawPayload);
-    if (!parsed.success) {
-      socket.emit("error", { error: "invalid_payload", details: parsed.error.flatten() });
-      return;
+const findMatchIdByYatzyMatchId = async (yatzyMatchId: string): Promise<string | null> => {
+  for (const [matchId, runtime] of matches.entries()) {
+    if (runtime.yatzyMatchId === yatzyMatchId) return matchId;
+  }
+  return safeDbValue(() => loadMatchIdByYatzyMatchId(yatzyMatchId), null);
+};
+
+// Scores by userId into the YATZY stage, which then moves on by itself.
+const applyYatzyScores = async (
+  runtime: MatchRuntime,
+  matchId: string,
+  yatzyMatchId: string,
+  scores: Record<string, number>
+) => {
+  await recordInput(runtime, matchId, "YATZY_SCORES_SET", { yatzyMatchId, scores });
+  const res = runtime.orchestrator.importYatzyScores(yatzyMatchId, scores);
+  if (res.ok) await emitOrchestratorEvents(runtime, matchId, res.events);
+  return res;
+};
+
+// Scores that arrived before the stage are imported as soon as it starts.
+const applyPendingYatzyScores = async (runtime: MatchRuntime, matchId: string) => {
+  const pending = runtime.yatzyPendingScores;
+  const ctx = runtime.orchestrator.getContext();
+  if (!pending || ctx.status !== "RUNNING" || ctx.stage !== "YATZY") return;
+  runtime.yatzyPendingScores = null;
+  await applyYatzyScores(runtime, matchId, pending.yatzyMatchId, pending.scores);
+};
+
+// Sputnik itself, or Sputnik playing a seat whose owner is gone.
+const botActor = (userId: string): ClientActor => ({
+  userId,
+  authHeaders: {},
+  emit: (_event, payload) => console.warn(`[sputnik] rejected for ${userId}:`, payload),
+  join: () => undefined,
+  leave: () => undefined,
+});
+
+// Per `${matchId}:${userId}` bot seat: the decision Sputnik last planned, and
+// its timer until it is sent.
+const sputnikTurns = new Map<string, { key: string; timer: ReturnType<typeof setTimeout> | null }>();
+
+const dropBotTurns = (matchId: string, shouldDrop: (userId: string) => boolean) => {
+  const prefix = `${matchId}:`;
+  for (const [key, turn] of sputnikTurns.entries()) {
+    if (!key.startsWith(prefix) || !shouldDrop(key.slice(prefix.length))) continue;
+    if (turn.timer) clearTimeout(turn.timer);
+    sputnikTurns.delete(key);
+  }
+};
+
+const joinSputnik = async (runtime: MatchRuntime, matchId: string) => {
+  if (!runtime.orchestrator.addPlayer(SPUTNIK_USER_ID, true)) return;
+  runtime.ready.add(SPUTNIK_USER_ID);
+  runtime.identities.set(SPUTNIK_USER_ID, { authUserId: null, displayName: SPUTNIK_DISPLAY_NAME });
+  await emitEvent(matchId, "MATCH_JOINED", { matchId, userId: SPUTNIK_USER_ID, isBot: true });
+};
+
+// Called after every emitted event. Re-plans from the current state and keeps
+// one timer per bot seat (Sputnik's own and every taken-over one); a plan with
+// the same key is never sent twice.
+const scheduleSputnik = (runtime: MatchRuntime, matchId: string) => {
+  const ctx = runtime.orchestrator.getContext();
+  const botSeats = ctx.status === "RUNNING" ? ctx.players.filter((p) => p.isBot || p.botControlled) : [];
+  // A player who came back plays their own seat again.
+  dropBotTurns(matchId, (userId) => !botSeats.some((p) => p.userId === userId));
+  for (const seat of botSeats) {
+    const turnKey = `${matchId}:${seat.userId}`;
+    // Sputnik sees the same stage state as the server; its plans only pick
+    // which client event to send.
+    const plan = planSputnikAction(ctx, seat.userId, Math.random, Date.now());
+    const pending = sputnikTurns.get(turnKey);
+    if (pending && plan?.key === pending.key) continue;
+    if (pending?.timer) {
+      // Planned but not sent yet, and the state moved on: drop it.
+      clearTimeout(pending.timer);
+      sputnikTurns.delete(turnKey);
     }
+    if (!plan) continue;
+    const turn = {
+      key: plan.key,
+      timer: setTimeout(() => {
+        turn.timer = null;
+        void handleClientEvent(plan.event, botActor(seat.userId));
+      }, plan.delayMs) as ReturnType<typeof setTimeout> | null,
+    };
+    sputnikTurns.set(turnKey, turn);
+  }
+};
+
+// Who sent a client event: a player's socket, or Sputnik going through the
+// exact same path.
+type ClientActor = {
+  userId: string;
+  authHeaders: Record<string, string>;
+  emit: (event: "error", payload: unknown) => void;
+  join: (room: string) => void;
+  leave: (room: string) => void;
+};
+
+const handleClientEvent = async (rawPayload: unknown, actor: ClientActor) => {
+  const { userId, authHeaders } = actor;
+  // eslint-disable-next-line no-console
+  console.log("incoming event", rawPayload);
+  const parsed = ClientEventSchema.safeParse(rawPayload);
+  if (!parsed.success) {
+    actor.emit("error", { error: "invalid_payload", details: parsed.error.flatten() });
+    return;
+  }
 
-    const event = parsed.data as ClientEvent;
+  const event = parsed.data as ClientEvent;
 
-    if (event.type === "MATCH_CREATE") {
-      const { match, runtime } = createMatch(event.mode, userId);
+  if (event.type === "MATCH_CREATE") {
+    const plan = buildStagePlan({ mode: event.mode, stages: event.stages, intermissions: event.intermissions });
+    if (!plan.ok) {
+      actor.emit("error", { error: plan.error });
+      return;
+    }
+    const { match, runtime } = createMatch(event.mode, userId, plan.plan, buildBlackjackRules(event.blackjackRules), {
+      maxPlayers: event.maxPlayers ?? MAX_PLAYERS,
+      buyIn: event.buyIn ?? 0,
+      prizePayoutTable: event.prizePayoutTable ?? DEFAULT_PRIZE_PAYOUT_TABLE,
+    });
+    await withMatchLock(match.id, async () => {
       await safeDb(() => upsertMatchRow(match));
-      await saveSnapshotNow(runtime);
       await persistClientEvent(runtime, event, userId);
-      socket.join(match.id);
+      // Persisted only; revealed nowhere before the match is over.
+      await persistServerEvent(runtime, match.id, "MATCH_SEEDED", { matchId: match.id, seed: runtime.seed });
+      actor.join(match.id);
       await emitEvent(match.id, "MATCH_CREATED", { match });
+      runtime.orchestrator.addPlayer(userId);
       await emitEvent(match.id, "MATCH_JOINED", { matchId: match.id, userId });
-      runtime.hostAuthHeaders = getAuthentikHeaders(socket.handshake.headers as Record<string, unknown>);
+      runtime.hostAuthHeaders = authHeaders;
+      runtime.identities.set(userId, identityFromHeaders(userId, authHeaders));
       await emitMatchState(match.id, runtime);
+    });
+    return;
+  }
+
+  if ("matchId" in event) {
+    await withMatchLock(event.matchId, () => handleMatchEvent(event, actor));
+  }
+};
+
+const handleMatchEvent = async (event: Extract<ClientEvent, { matchId: string }>, actor: ClientActor) => {
+  const { userId, authHeaders } = actor;
+  let runtime = getMatchRuntime(event.matchId);
+  if (!runtime) {
+    runtime = await recoverMatch(event.matchId);
+  }
+  if (!runtime) {
+    actor.emit("error", { error: "match_not_found" });
+    return;
+  }
+
+  const input = await persistClientEvent(runtime, event, userId);
+  runtime.orchestrator.beginInput(input.seq, input.ts);
+
+  if (event.type === "MATCH_JOIN") {
+    // Joining a match you already sit in is a reconnect (e.g. after a restart
+    // of the server, when the match was not in memory at connect time).
+    if (runtime.orchestrator.getContext().players.some((p) => p.userId === userId)) {
+      actor.join(event.matchId);
+      runtime.identities.set(userId, identityFromHeaders(userId, authHeaders));
+      await reconnectPlayer(runtime, event.matchId, userId);
+      return;
+    }
+    const joinError = runtime.orchestrator.getJoinError(userId);
+    if (joinError) {
+      actor.emit("error", { error: joinError });
+      return;
+    }
+    const invite = checkMatchInvite(runtime, event);
+    if (!invite.ok) {
+      actor.emit("error", { error: invite.error });
       return;
     }
+    actor.join(event.matchId);
+    runtime.identities.set(userId, identityFromHeaders(userId, authHeaders));
+    runtime.orchestrator.addPlayer(userId);
+    if (invite.inviteId) runtime.inviteUses.set(invite.inviteId, (runtime.inviteUses.get(invite.inviteId) ?? 0) + 1);
+    await emitEvent(event.matchId, "MATCH_JOINED", {
+      matchId: event.matchId,
+      userId,
+      ...(invite.inviteId ? { inviteId: invite.inviteId } : {}),
+    });
+    await emitMatchState(event.matchId, runtime);
+    return;
+  }
 
-    if ("matchId" in event) {
-      let runtime = getMatchRuntime(event.matchId);
-      if (!runtime) {
-        runtime = await recoverMatch(event.matchId);
-      }
-      if (!runtime) {
-        socket.emit("error", { error: "match_not_found" });
-        return;
-      }
+  if (event.type === "MATCH_CANCEL") {
+    if (userId !== runtime.hostUserId) {
+      actor.emit("error", { error: "only_host_can_cancel" });
+      return;
+    }
+    if (runtime.orchestrator.getContext().status !== "CREATED") {
+      actor.emit("error", { error: "match_already_started" });
+      return;
+    }
+    await recordInput(runtime, event.matchId, "MATCH_CANCELLED", {}, { broadcast: true });
+    runtime.orchestrator.cancelMatch();
+    syncMatchStatus(runtime);
+    dropBotTurns(event.matchId, () => true);
+    presence.releaseMatch(event.matchId);
+    await refundEscrow(runtime, event.matchId, Array.from(runtime.escrow.keys()));
+    await emitMatchState(event.matchId, runtime);
+    return;
+  }
 
-      await persistClientEvent(runtime, event, userId);
+  // The link goes to the host's own tabs only; whoever holds it takes a seat.
+  if (event.type === "MATCH_INVITE_CREATE") {
+    const ctx = runtime.orchestrator.getContext();
+    if (userId !== runtime.hostUserId) {
+      actor.emit("error", { error: "only_host_can_invite" });
+      return;
+    }
+    const freeSeats = runtime.orchestrator.getMaxPlayers() - ctx.players.length;
+    if (ctx.status !== "CREATED" || freeSeats <= 0) {
+      actor.emit("error", { error: ctx.status !== "CREATED" ? "match_already_started" : "match_full" });
+      return;
+    }
+    const seats = Math.min(event.seats ?? freeSeats, freeSeats);
+    const { token, expiresAt } = signInviteToken(event.matchId, seats, event.ttlSeconds);
+    await emitEvent(
+      event.matchId,
+      "MATCH_INVITE",
+      { matchId: event.matchId, inviteCode: ctx.match.inviteCode ?? null, token, seats, expiresAt },
+      { persist: false, to: userId }
+    );
+    return;
+  }
 
-      if (event.type === "MATCH_JOIN") {
-        joinMatch(runtime, event.matchId, userId);
-        socket.join(event.matchId);
-        await emitEvent(event.matchId, "MATCH_JOINED", { matchId: event.matchId, userId });
-        await emitMatchState(event.matchId, runtime);
-        return;
-      }
+  // Quitting: no reconnect window, a running match goes straight to the bot.
+  // Leaving the lobby gives the buy-in and the seat back (replay.ts does the
+  // same on MATCH_LEFT).
+  if (event.type === "MATCH_LEAVE") {
+    if (runtime.orchestrator.getContext().status === "CREATED") {
+      await refundEscrow(runtime, event.matchId, [userId]);
+    }
+    actor.leave(event.matchId);
+    presence.releaseSeat(event.matchId, userId);
+    if (runtime.orchestrator.removePlayer(userId)) runtime.ready.delete(userId);
+    else runtime.orchestrator.markDisconnected(userId);
+    await emitEvent(event.matchId, "MATCH_LEFT", { matchId: event.matchId, userId });
+    await expireSeat(runtime, event.matchId, userId);
+    await emitMatchState(event.matchId, runtime);
+    return;
+  }
 
-      if (event.type === "MATCH_LEAVE") {
-        socket.leave(event.matchId);
-        await emitEvent(event.matchId, "MATCH_LEFT", { matchId: event.matchId, userId });
-        await emitMatchState(event.matchId, runtime);
+  if (event.type === "READY_CHECK_CONFIRM") {
+    if (!runtime.orchestrator.getContext().players.some((p) => p.userId === userId)) {
+      actor.emit("error", { error: "not_in_match" });
+      return;
+    }
+    const buyIn = runtime.orchestrator.getContext().match.buyIn ?? 0;
+    if (buyIn > 0 && runtime.orchestrator.getContext().status === "CREATED" && !runtime.escrow.has(userId)) {
+      const escrowed = await escrowPlayerBuyIn(runtime, event.matchId, userId, buyIn);
+      if (!escrowed.ok) {
+        actor.emit("error", { error: escrowed.error });
         return;
       }
-
-      if (event.type === "READY_CHECK_CONFIRM") {
-        runtime.ready.add(userId);
-        const ctx = runtime.orchestrator.getContext();
-        await emitMatchState(event.matchId, runtime);
-        if (runtime.ready.size >= ctx.players.length) {
-          await emitEvent(event.matchId, "READY_CHECK_PASSED", { matchId: event.matchId });
-          setMatchStatus(runtime, "RUNNING");
-          const nextStage = ctx.match.mode === "BLACKJACK_ONLY" ? "BLACKJACK" : "YATZY";
-          const started = runtime.orchestrator.startStage(nextStage);
-          if (started.ok) {
-            for (const ev of started.events) {
-              await emitEvent(event.matchId, ev.type, ev.payload);
-            }
-          }
-          if (nextStage === "BLACKJACK") {
-            await startBlackjackRound(runtime, event.matchId);
-          }
-          await safeDb(() => upsertMatchRow(runtime.orchestrator.getContext().match));
-        }
-        return;
+    }
+    // The client event is logged before the buy-in; this one says it counted.
+    runtime.ready.add(userId);
+    await persistServerEvent(runtime, event.matchId, "READY_CONFIRMED", { matchId: event.matchId, userId });
+    const ctx = runtime.orchestrator.getContext();
+    await emitMatchState(event.matchId, runtime);
+    if (ctx.status === "CREATED" && isReadyToStart(runtime)) {
+      // README: a lone human gets Sputnik as opponent.
+      if (ctx.players.length === 1 && !ctx.players[0].isBot) {
+        await joinSputnik(runtime, event.matchId);
       }
-
-      if (event.type === "YATZY_SUBMIT") {
-        runtime.yatzySubmissions.set(userId, event.score);
-        const ctx = runtime.orchestrator.getContext();
-        if (runtime.yatzySubmissions.size >= ctx.players.length) {
-          for (const p of ctx.players) {
-            const score = runtime.yatzySubmissions.get(p.userId) || 0;
-            await applyAbsoluteStack(runtime, event.matchId, p.userId, score * 10, "YATZY", "yatzy_submit");
-          }
-          await emitEvent(event.matchId, "STAGE_COMPLETED", { matchId: event.matchId, stage: "YATZY", ts: Date.now() });
-          const started = runtime.orchestrator.startStage("BLACKJACK");
-          if (started.ok) {
-            for (const ev of started.events) await emitEvent(event.matchId, ev.type, ev.payload);
-          }
-          await startBlackjackRound(runtime, event.matchId);
-        }
-        return;
+      await prepareTriviaPool(runtime, event.matchId);
+      await recordInput(runtime, event.matchId, "READY_CHECK_PASSED", {}, { broadcast: true });
+      const started = runtime.orchestrator.startMatch();
+      syncMatchStatus(runtime);
+      if (started.ok) {
+        await emitOrchestratorEvents(runtime, event.matchId, started.events);
       }
+      await safeDb(() => upsertMatchRow(runtime.orchestrator.getContext().match));
+    }
+    return;
+  }
 
-      if (event.type === "YATZY_IMPORT") {
-        try {
-          await importYatzyScores(runtime, event.matchId, event.yatzyMatchId);
-          await emitEvent(event.matchId, "YATZY_IMPORTED", { matchId: event.matchId, yatzyMatchId: event.yatzyMatchId });
-          await emitEvent(event.matchId, "STAGE_COMPLETED", { matchId: event.matchId, stage: "YATZY", ts: Date.now() });
-          const started = runtime.orchestrator.startStage("BLACKJACK");
-          if (started.ok) {
-            for (const ev of started.events) await emitEvent(event.matchId, ev.type, ev.payload);
-          }
-          await startBlackjackRound(runtime, event.matchId);
-        } catch (e) {
-          socket.emit("error", { error: "yatzy_import_failed", details: String(e) });
-        }
-        return;
-      }
+  if (SERVER_STAGE_EVENTS.has(event.type)) {
+    const ctx = runtime.orchestrator.getContext();
+    if (!isClientEventAllowed({ event, stage: ctx.stage, status: ctx.status, stagePlan: getStagePlan(ctx.match) })) {
+      actor.emit("error", { error: "event_not_allowed" });
+      return;
+    }
+  }
 
-      if (event.type === "YATZY_MATCH_SET") {
-        if (userId !== runtime.hostUserId) {
-          socket.emit("error", { error: "only_host_can_set_yatzy_match" });
-          return;
-        }
-        runtime.yatzyMatchId = event.yatzyMatchId;
-        await emitEvent(event.matchId, "YATZY_MATCH_SET", {
-          matchId: event.matchId,
-          yatzyMatchId: event.yatzyMatchId,
-        });
-        await emitMatchState(event.matchId, runtime);
-        return;
-      }
+  if (event.type === "YATZY_IMPORT") {
+    let scores: Record<string, number>;
+    try {
+      scores = await fetchYatzyScores(runtime, event.yatzyMatchId);
+    } catch (e) {
+      actor.emit("error", { error: "yatzy_import_failed", details: String(e) });
+      return;
+    }
+    const res = await applyYatzyScores(runtime, event.matchId, event.yatzyMatchId, scores);
+    if (!res.ok) {
+      actor.emit("error", { error: res.error });
+      return;
+    }
+    await emitMatchState(event.matchId, runtime);
+    return;
+  }
 
-      if (event.type === "YATZY_CREATE") {
-        if (userId !== runtime.hostUserId) {
-          socket.emit("error", { error: "only_host_can_set_yatzy_match" });
-          return;
-        }
-        try {
-          const ctx = runtime.orchestrator.getContext();
-          const yatzyMatchId = await createYatzyMatch(runtime, ctx.players.length);
-          runtime.yatzyMatchId = yatzyMatchId;
-          await emitEvent(event.matchId, "YATZY_MATCH_CREATED", {
-            matchId: event.matchId,
-            yatzyMatchId,
-          });
-          await emitMatchState(event.matchId, runtime);
-        } catch (e) {
-          socket.emit("error", { error: "yatzy_create_failed", details: String(e) });
-        }
-        return;
-      }
+  if (event.type === "YATZY_MATCH_SET") {
+    if (userId !== runtime.hostUserId) {
+      actor.emit("error", { error: "only_host_can_set_yatzy_match" });
+      return;
+    }
+    const seats = await bindYatzyMatch(runtime, event.matchId, event.yatzyMatchId);
+    await emitEvent(event.matchId, "YATZY_MATCH_SET", {
+      matchId: event.matchId,
+      yatzyMatchId: event.yatzyMatchId,
+      seats,
+    });
+    await emitMatchState(event.matchId, runtime);
+    return;
+  }
 
-      if (event.type === "BJ_BET_PLACED") {
-        const roundState = getBjRound(runtime);
-        if (!roundState || roundState.round !== event.round) {
-          socket.emit("error", { error: "bj_round_mismatch" });
-          return;
-        }
-        if (roundState.status !== "BETTING") {
-          socket.emit("error", { error: "bj_not_accepting_bets" });
-          return;
-        }
-        const player = getBjPlayer(runtime, userId);
-        if (!player) {
-          socket.emit("error", { error: "bj_player_missing" });
-          return;
-        }
-        if (player.placedBet) {
-          socket.emit("error", { error: "bj_already_bet" });
-          return;
-        }
-        const spots = Array.from(new Set(event.spots)).slice(0, BJ_MAX_SPOTS);
-        const bet = Math.trunc(event.bet);
-        if (!Number.isFinite(bet) || bet < BJ_MIN_BET || bet > BJ_MAX_BET) {
-          socket.emit("error", { error: "bj_invalid_bet" });
-          return;
-        }
-        const sideBets = new Map<number, BjSideBetChoice>();
-        if (Array.isArray((event as any).sideBets)) {
-          for (const sb of (event as any).sideBets) {
-            const spot = Number(sb?.spot);
-            const choice = sb?.choice as BjSideBetChoice;
-            if (Number.isFinite(spot) && (choice === "UNDER" || choice === "OVER")) {
-              sideBets.set(spot, choice);
-            }
-          }
-        }
-        const ctx = runtime.orchestrator.getContext();
-        const stack = ctx.players.find((p) => p.userId === userId)?.stack ?? 0;
-        const totalBet = spots.length * bet;
-        if (totalBet + player.committed > stack) {
-          socket.emit("error", { error: "bj_insufficient_stack" });
-          return;
-        }
-        player.hands = spots.map((spot) => ({
-          spot,
-          cards: [],
-          bet,
-          status: "ACTIVE",
-          isSplit: false,
-          fromSplitAces: false,
-          sideBet: sideBets.get(spot) ?? null,
-        }));
-        player.placedBet = true;
-        player.committed += totalBet;
-
-        if (Object.values(roundState.players).every((p) => p.placedBet)) {
-          await dealInitialHands(runtime, event.matchId);
-        }
+  if (event.type === "YATZY_CREATE") {
+    if (userId !== runtime.hostUserId) {
+      actor.emit("error", { error: "only_host_can_set_yatzy_match" });
+      return;
+    }
+    try {
+      const ctx = runtime.orchestrator.getContext();
+      const yatzyMatchId = await createYatzyMatch(runtime, ctx.players.length);
+      const seats = await bindYatzyMatch(runtime, event.matchId, yatzyMatchId);
+      await emitEvent(event.matchId, "YATZY_MATCH_CREATED", {
+        matchId: event.matchId,
+        yatzyMatchId,
+        seats,
+      });
+      await emitMatchState(event.matchId, runtime);
+    } catch (e) {
+      actor.emit("error", { error: "yatzy_create_failed", details: String(e) });
+    }
+    return;
+  }
+
+  if (event.type === "MUSIC_PLAYLIST_SET") {
+    if (userId !== runtime.hostUserId) {
+      actor.emit("error", { error: "only_host_can_set_music_playlist" });
+      return;
+    }
+    const ctx = runtime.orchestrator.getContext();
+    if (!isClientEventAllowed({ event, stage: ctx.stage, status: ctx.status })) {
+      actor.emit("error", { error: "event_not_allowed" });
+      return;
+    }
+    const tracks: MusicTrack[] = [];
+    for (const track of event.tracks) {
+      const media = silentDisco.getMediaAsset(track.mediaId);
+      if (!media) {
+        actor.emit("error", { error: "music_media_not_found", mediaId: track.mediaId });
         return;
       }
+      tracks.push({
+        mediaId: media.id,
+        mimeType: media.mimeType,
+        title: track.title.trim(),
+        artist: track.artist.trim(),
+        clipStartMs: track.clipStartMs ?? 0,
+      });
+    }
+    // Media can be deleted later; the log keeps the tracks as they were picked.
+    await recordInput(runtime, event.matchId, "MUSIC_TRACKS_SET", { tracks });
+    runtime.musicPlaylist = tracks;
+    runtime.orchestrator.setMusicPlaylist(tracks);
+    // Titles stay on the server, players only learn how many clips there are.
+    await emitEvent(event.matchId, "MUSIC_PLAYLIST_UPDATED", { matchId: event.matchId, trackCount: tracks.length });
+    return;
+  }
 
-      if (event.type === "BJ_HAND_ACTION") {
-        const roundState = getBjRound(runtime);
-        if (!roundState || roundState.round !== event.round) {
-          socket.emit("error", { error: "bj_round_mismatch" });
-          return;
-        }
-        if (roundState.status !== "PLAYER_ACTION") {
-          socket.emit("error", { error: "bj_not_accepting_actions" });
-          return;
-        }
-        const player = getBjPlayer(runtime, userId);
-        if (!player) {
-          socket.emit("error", { error: "bj_player_missing" });
-          return;
-        }
-        const handIndex =
-          typeof (event as any).handIndex === "number"
-            ? Math.max(0, Math.trunc((event as any).handIndex))
-            : -1;
-        const hand =
-          handIndex >= 0
-            ? player.hands[handIndex]
-            : player.hands.find((h) => h.spot === event.spot && h.status === "ACTIVE");
-        if (!hand || hand.status !== "ACTIVE") {
-          socket.emit("error", { error: "bj_hand_not_active" });
-          return;
-        }
-        const deck = roundState.deck;
-        const ctx = runtime.orchestrator.getContext();
-        const stack = ctx.players.find((p) => p.userId === userId)?.stack ?? 0;
-
-        if (event.action === "HIT") {
-          hand.cards.push(drawCard(deck));
-          const value = computeHandValue(hand.cards);
-          if (value.total > 21) {
-            hand.status = "BUST";
-          } else if (value.total === 21) {
-            hand.status = "DONE";
-          }
-        }
+  const res = runtime.orchestrator.handleClientEvent(event, userId);
+  if (!res.ok) {
+    actor.emit("error", { error: res.error });
+    return;
+  }
 
-        if (event.action === "STAND") {
-          hand.status = "DONE";
-        }
+  await emitOrchestratorEvents(runtime, event.matchId, res.events);
+  if (res.events.length) {
+    await emitMatchState(event.matchId, runtime);
+  }
+};
 
-        if (event.action === "DOUBLE") {
-          if (hand.cards.length !== 2 || hand.fromSplitAces) {
-            socket.emit("error", { error: "bj_cannot_double" });
-            return;
-          }
-          if (player.committed + hand.bet > stack) {
-            socket.emit("error", { error: "bj_insufficient_stack" });
-            return;
-          }
-          player.committed += hand.bet;
-          hand.bet += hand.bet;
-          hand.cards.push(drawCard(deck));
-          const value = computeHandValue(hand.cards);
-          hand.status = value.total > 21 ? "BUST" : "DONE";
-        }
+// ---- Presence ---------------------------------------------------------------
 
-        if (event.action === "SPLIT") {
-          if (hand.cards.length !== 2) {
-            socket.emit("error", { error: "bj_cannot_split" });
-            return;
-          }
-          if (hand.cards[0].rank !== hand.cards[1].rank) {
-            socket.emit("error", { error: "bj_cannot_split" });
-            return;
-          }
-          if (player.committed + hand.bet > stack) {
-            socket.emit("error", { error: "bj_insufficient_stack" });
-            return;
-          }
-          player.committed += hand.bet;
-          const [first, second] = hand.cards;
-          hand.cards = [first];
-          const splitAces = first.rank === "A";
-          hand.isSplit = true;
-          hand.fromSplitAces = splitAces;
-          const newHand: BjHand = {
-            spot: hand.spot,
-            cards: [second],
-            bet: hand.bet,
-            status: "ACTIVE",
-            isSplit: true,
-            fromSplitAces: splitAces,
-            sideBet: null,
-          };
-          const insertIndex = handIndex >= 0 ? handIndex + 1 : player.hands.length;
-          player.hands.splice(insertIndex, 0, newHand);
-          hand.cards.push(drawCard(deck));
-          newHand.cards.push(drawCard(deck));
-          if (splitAces) {
-            hand.status = "DONE";
-            newHand.status = "DONE";
-          }
-        }
+// Back on any socket: the seat is the player's again, bot or not.
+const reconnectPlayer = async (runtime: MatchRuntime, matchId: string, userId: string) => {
+  const player = runtime.orchestrator.getContext().players.find((p) => p.userId === userId);
+  if (!player) return;
+  presence.releaseSeat(matchId, userId);
+  if (!player.isConnected || player.botControlled) {
+    await recordInput(runtime, matchId, "PLAYER_RECONNECTED", { userId }, { broadcast: true });
+    runtime.orchestrator.markReconnected(userId);
+  }
+  await emitMatchState(matchId, runtime);
+};
 
-        player.hands.forEach((h, index) => {
-          void emitBjHandState(event.matchId, roundState.round, player.userId, h, roundState.status, { handIndex: index });
-        });
+// The player's last socket closed. In a running match the seat is held for
+// RECONNECT_WINDOW_MS; in the lobby they are only shown as offline.
+const disconnectPlayer = async (runtime: MatchRuntime, matchId: string, userId: string) => {
+  const ctx = runtime.orchestrator.getContext();
+  const player = ctx.players.find((p) => p.userId === userId);
+  // Back already, on another tab, while this waited for the lock.
+  if (!player || presence.isOnline(userId)) return;
+  const holdSeat = ctx.status === "RUNNING" && !player.botControlled;
+  const reconnectDeadline = holdSeat ? Date.now() + RECONNECT_WINDOW_MS : null;
+  await recordInput(runtime, matchId, "PLAYER_DISCONNECTED", { userId, reconnectDeadline }, { broadcast: true });
+  runtime.orchestrator.markDisconnected(userId);
+  if (reconnectDeadline !== null) {
+    presence.holdSeat(matchId, userId, reconnectDeadline, () => {
+      void withMatchLock(matchId, () => expireSeat(runtime, matchId, userId));
+    });
+  }
+  await emitMatchState(matchId, runtime);
+};
 
-        await tryAdvanceBjRound(runtime, event.matchId);
-        return;
-      }
+const expireSeat = async (runtime: MatchRuntime, matchId: string, userId: string) => {
+  const ctx = runtime.orchestrator.getContext();
+  const player = ctx.players.find((p) => p.userId === userId);
+  if (!player || player.isConnected || player.botControlled || ctx.status !== "RUNNING") return;
+  await recordInput(runtime, matchId, "PLAYER_SEAT_EXPIRED", { userId, action: SEAT_EXPIRY_ACTION }, { broadcast: true });
+  const res = runtime.orchestrator.expireSeat(userId, SEAT_EXPIRY_ACTION);
+  if (res.ok) await emitOrchestratorEvents(runtime, matchId, res.events);
+  await emitMatchState(matchId, runtime);
+};
 
-      const res = runtime.orchestrator.handleClientEvent(event, userId);
-      if (!res.ok) {
-        socket.emit("error", { error: res.error });
-        return;
-      }
+const matchesOf = (userId: string) =>
+  Array.from(matches.entries()).filter(([, runtime]) =>
+    runtime.orchestrator.getContext().players.some((p) => p.userId === userId)
+  );
 
-      for (const ev of res.events) {
-        await emitEvent(event.matchId, ev.type, ev.payload);
-      }
-    }
+io.on("connection", (socket) => {
+  // eslint-disable-next-line no-console
+  console.log("socket connected", socket.id, socket.handshake.address, socket.handshake.headers.origin);
+  const authHeaders = getAuthentikHeaders(socket.handshake.headers as Record<string, unknown>);
+  const userId = resolvePlayerId({
+    authUid: authHeaders["x-authentik-uid"] ?? null,
+    sessionToken: socket.handshake.auth?.sessionId,
+    socketId: socket.id,
   });
+  silentDisco.bindSocketConnection(socket, authHeaders);
+  socket.emit("event", {
+    type: "AUTH_DEBUG",
+    payload: {
+      hasAuthentik: !!authHeaders["x-authentik-uid"],
+      headers: Object.keys(authHeaders),
+    },
+  });
+  // Private events (`to: userId`) reach every tab of the player.
+  void socket.join(userId);
+  presence.connect(userId, socket.id);
+  socket.emit("event", { type: "SESSION_READY", payload: { userId, tabs: presence.socketCount(userId) } });
+  for (const [matchId, runtime] of matchesOf(userId)) {
+    void socket.join(matchId);
+    void withMatchLock(matchId, () => reconnectPlayer(runtime, matchId, userId));
+  }
+
+  const actor: ClientActor = {
+    userId,
+    authHeaders,
+    emit: (event, payload) => socket.emit(event, payload),
+    join: (room) => void socket.join(room),
+    leave: (room) => void socket.leave(room),
+  };
+
+  socket.on("event", (rawPayload) => handleClientEvent(rawPayload, actor));
 
   socket.on("disconnect", () => {
     // eslint-disable-next-line no-console
     console.log("socket disconnected", socket.id);
-    for (const [matchId, runtime] of matches.entries()) {
-      const ctx = runtime.orchestrator.getContext();
-      const player = ctx.players.find((p) => p.userId === userId);
-      if (player) {
-        player.isConnected = false;
-        emitEvent(matchId, "MATCH_LEFT", { matchId, userId });
-      }
+    // Other tabs still open: nothing changes for the match.
+    if (!presence.disconnect(userId, socket.id)) return;
+    for (const [matchId, runtime] of matchesOf(userId)) {
+      void withMatchLock(matchId, () => disconnectPlayer(runtime, matchId, userId));
     }
   });
 });
 
 const PORT = process.env.PORT ? Number(process.env.PORT) : 3001;
-server.listen(PORT, () => {
-  // eslint-disable-next-line no-console
-  console.log(`chkn api listening on :${PORT}`);
-});
+// The adapter goes in before the first socket connects; without Redis this
+// replica runs on its own. Matches are kept in this process only, see
+// db/socketAdapter.ts.
+void attachRedisAdapter(io)
+  .catch((err) => {
+    console.error("[redis] adapter error:", err?.message || err);
+  })
+  .finally(() => {
+    server.listen(PORT, () => {
+      // eslint-disable-next-line no-console
+      console.log(`chkn api listening on :${PORT}`);
+    });
+  });
@@ -2,9 +2,34 @@ import fs from "node:fs";
 import fsPromises from "node:fs/promises";
 import path from "node:path";
 import { randomUUID } from "node:crypto";
-import jwt from "jsonwebtoken";
 import type http from "node:http";
 import type { Server, Socket } from "socket.io";
+import {
+  COVER_FILE_NAME,
+  HLS_PLAYLIST_NAME,
+  isHlsFileName,
+  processUploadedAudio,
+  processedFileMime,
+} from "./silentDiscoMedia";
+import {
+  claimSilentDiscoAdvance,
+  deleteSilentDiscoMedia,
+  deleteSilentDiscoMember,
+  deleteSilentDiscoMembers,
+  deleteSilentDiscoPlaylist,
+  deleteSilentDiscoRoom,
+  loadSilentDiscoMedia,
+  loadSilentDiscoMembers,
+  loadSilentDiscoPlaylists,
+  loadSilentDiscoRooms,
+  saveSilentDiscoMedia,
+  saveSilentDiscoMember,
+  saveSilentDiscoPlaylist,
+  saveSilentDiscoRoom,
+} from "./silentDiscoStore";
+import { safeDb, safeDbValue, safeRedis, safeRedisValue } from "./persistence";
+import { readLinkSecret, signLinkToken, verifyLinkToken } from "./linkTokens";
+import { isRedisAdapterAttached, seesAllReplicas } from "./db/socketAdapter";
 
 type AuthHeaders = Record<string, string>;
 
@@ -19,71 +44,163 @@ type SourceKind = "upload" | "stream" | "spotify" | "soundcloud";
 
 type LinkRole = "listener" | "host";
 
+type RepeatMode = "off" | "all" | "one";
+
 type SilentDiscoSource = {
   kind: SourceKind;
   title: string;
   url: string;
   mimeType: string | null;
   mediaId: string | null;
+  // From the upload's tags and processing; null for links.
+  artist: string | null;
+  coverUrl: string | null;
+  hlsUrl: string | null;
   setByUserId: string;
 };
 
-type MediaAsset = {
+export type MediaAsset = {
   id: string;
   filePath: string;
   mimeType: string;
   originalName: string;
   sizeBytes: number;
+  // Read from the file by ffprobe, else measured by the uploading browser;
+  // null if neither could tell.
+  durationMs: number | null;
+  title: string | null;
+  artist: string | null;
+  album: string | null;
+  coverPath: string | null;
+  hlsDir: string | null;
+  // False when stored as uploaded (no ffmpeg).
+  transcoded: boolean;
   uploadedByUserId: string;
   createdAt: number;
 };
 
-type SilentDiscoRoom = {
-  roomCode: string;
-  hostUserId: string;
-  hostDisplayName: string;
+// A track in a room's queue. Without a known duration the room cannot move on
+// by itself when it ends; the host skips.
+type QueueItem = {
+  itemId: string;
+  source: SilentDiscoSource;
+  durationMs: number | null;
+  addedByUserId: string;
+};
+
+// A listener's wish for the queue, until the host approves or rejects it.
+type TrackSuggestion = {
+  suggestionId: string;
+  source: SilentDiscoSource;
+  durationMs: number | null;
+  suggestedByUserId: string;
+  suggestedByDisplayName: string;
+  createdAtMs: number;
+};
+
+type PlaylistTrack = { source: SilentDiscoSource; durationMs: number | null };
+
+// Saved queues, per user. They outlive rooms.
+export type Playlist = {
+  playlistId: string;
+  ownerUserId: string;
+  name: string;
+  tracks: PlaylistTrack[];
+  createdAtMs: number;
+  updatedAtMs: number;
+};
+
+// The colour of the headphones; also the channel's id.
+type ChannelColor = "red" | "blue" | "green";
+
+// One of a room's channels: its own DJ, queue and playback clock. Without a
+// DJ the room host plays it.
+type SilentDiscoChannel = {
+  channelId: ChannelColor;
+  djUserId: string | null;
+  djDisplayName: string | null;
   source: SilentDiscoSource | null;
+  // Length of `source`, when known.
+  durationMs: number | null;
   playing: boolean;
   positionMs: number;
   updatedAtMs: number;
+  queue: QueueItem[];
+  // The queue item in `source`; null for a source set outside the queue.
+  currentItemId: string | null;
+  repeat: RepeatMode;
+  suggestions: TrackSuggestion[];
+};
+
+type SilentDiscoRoom = {
+  roomCode: string;
+  hostUserId: string;
+  hostDisplayName: string;
+  channels: SilentDiscoChannel[];
   lastTouchedAtMs: number;
+  // Raised on every change, with the replica that made it; see isNewerRoom.
+  version: number;
+  versionWriter: string;
   members: Map<string, Identity>;
+  // The channel each member socket listens to.
+  memberChannels: Map<string, ChannelColor>;
+};
+
+type ChannelSnapshot = Omit<SilentDiscoChannel, "updatedAtMs"> & {
+  listenerCount: number;
+  listenerUserCount: number;
 };
 
 type RoomSnapshot = {
   roomCode: string;
   hostUserId: string;
   hostDisplayName: string;
-  source: SilentDiscoSource | null;
-  playing: boolean;
-  positionMs: number;
+  channels: ChannelSnapshot[];
   serverNowMs: number;
   listenerCount: number;
   listenerUserCount: number;
-  listeners: Array<{ userId: string; displayName: string }>;
+  listeners: Array<{ userId: string; displayName: string; channelId: ChannelColor }>;
 };
 
 type ManagerDeps = {
+  io: Server;
   parseJsonBody: (req: http.IncomingMessage, maxBytes?: number) => Promise<any>;
   getAuthentikHeaders: (headers: Record<string, unknown>) => AuthHeaders;
 };
 
-type PersistedRoom = {
+// Suggestions are not kept; they are only asked for while people listen.
+type PersistedChannel = Omit<SilentDiscoChannel, "suggestions">;
+
+export type PersistedRoom = {
   roomCode: string;
   hostUserId: string;
   hostDisplayName: string;
-  source: SilentDiscoSource | null;
-  playing: boolean;
-  positionMs: number;
-  updatedAtMs: number;
+  channels: PersistedChannel[];
   lastTouchedAtMs: number;
+  version: number;
+  versionWriter: string;
 };
 
+// A socket in a room, on this replica or another.
+export type PersistedMember = Identity & { socketId: string; channelId: ChannelColor };
+
+// What a replica sends the others after changing a room: all of it, with the
+// suggestions that are not written to Postgres. The members only count for a
+// replica that has no copy of the room yet; after that each one comes in a
+// member sync of its own.
+type LiveRoom = Omit<PersistedRoom, "channels"> & {
+  channels: SilentDiscoChannel[];
+  members: PersistedMember[];
+};
+
+// `.silent-disco-state.json`, where state was kept before Postgres. Imported
+// once into an empty database.
 type PersistedState = {
   version: number;
   savedAt: number;
   rooms: PersistedRoom[];
   media: MediaAsset[];
+  playlists: Playlist[];
 };
 
 type JoinTokenPayload = {
@@ -97,11 +214,22 @@ const ROOM_CODE_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
 const ROOM_CODE_LENGTH = 6;
 const MAX_ROOMS = 400;
 const MAX_ROOM_POSITION_MS = 12 * 60 * 60 * 1000;
-const SILENT_DISCO_STATE_VERSION = 1;
+const CHANNEL_COLORS: ChannelColor[] = ["red", "blue", "green"];
+const MAX_QUEUE_ITEMS = 200;
+const MAX_ROOM_SUGGESTIONS = 50;
+const MAX_PENDING_SUGGESTIONS_PER_USER = 3;
+const MAX_PLAYLISTS_PER_USER = 50;
+const MAX_PLAYLIST_NAME_LENGTH = 80;
+// A restart within this far into the track; further back goes to the previous one.
+const PREVIOUS_TRACK_RESTART_MS = 3000;
 const SILENT_DISCO_ROOM_IDLE_TTL_MS = Math.max(
   10 * 60 * 1000,
   Number(process.env.SILENT_DISCO_ROOM_IDLE_TTL_MS || 24 * 60 * 60 * 1000)
 );
+// Who is in a room is kept in Redis as long as an idle room is kept.
+const SILENT_DISCO_MEMBERS_TTL_SEC = Math.ceil(SILENT_DISCO_ROOM_IDLE_TTL_MS / 1000);
+// How long a replica holds the turn to move a channel to its next track.
+const SILENT_DISCO_ADVANCE_CLAIM_TTL_MS = 15_000;
 const SILENT_DISCO_MEDIA_IDLE_TTL_MS = Math.max(
   10 * 60 * 1000,
   Number(process.env.SILENT_DISCO_MEDIA_IDLE_TTL_MS || 7 * 24 * 60 * 60 * 1000)
@@ -110,10 +238,6 @@ const SILENT_DISCO_CLEANUP_INTERVAL_MS = Math.max(
   60_000,
   Number(process.env.SILENT_DISCO_CLEANUP_INTERVAL_MS || 10 * 60 * 1000)
 );
-const SILENT_DISCO_PERSIST_DEBOUNCE_MS = Math.max(
-  100,
-  Number(process.env.SILENT_DISCO_PERSIST_DEBOUNCE_MS || 350)
-);
 
 const SILENT_DISCO_UPLOAD_PAYLOAD_MAX_BYTES = Math.max(
   8_000_000,
@@ -128,6 +252,8 @@ const SILENT_DISCO_LINK_TTL_SECONDS = Math.max(
   Number(process.env.SILENT_DISCO_LINK_TTL_SECONDS || 12 * 60 * 60)
 );
 const silentDiscoMediaDir = path.resolve(process.cwd(), ".silent-disco-media");
+// Version 1 had no queues or playlists, version 2 one channel per room with
+// its playback on the room itself; all three versions import.
 const silentDiscoStateFile = path.resolve(process.cwd(), ".silent-disco-state.json");
 
 const extensionToMime: Record<string, string> = {
@@ -204,6 +330,51 @@ const extractMediaIdFromPath = (value: string): string => {
   return decodeURIComponent(rest.split("/")[0] || "").trim();
 };
 
+const parseDurationMs = (value: unknown): number | null => {
+  const n = Math.trunc(Number(value));
+  if (!Number.isFinite(n) || n < 1000 || n > MAX_ROOM_POSITION_MS) return null;
+  return n;
+};
+
+const normalizeRepeatMode = (value: unknown): RepeatMode | null => {
+  const mode = String(value ?? "").trim().toLowerCase();
+  return mode === "off" || mode === "all" || mode === "one" ? mode : null;
+};
+
+const normalizeChannelColor = (value: unknown): ChannelColor | null => {
+  const color = String(value ?? "").trim().toLowerCase();
+  return CHANNEL_COLORS.find((c) => c === color) ?? null;
+};
+
+const createChannel = (channelId: ChannelColor): SilentDiscoChannel => ({
+  channelId,
+  djUserId: null,
+  djDisplayName: null,
+  source: null,
+  durationMs: null,
+  playing: false,
+  positionMs: 0,
+  updatedAtMs: Date.now(),
+  queue: [],
+  currentItemId: null,
+  repeat: "off",
+  suggestions: [],
+});
+
+const normalizePlaylistName = (value: unknown): string =>
+  String(value ?? "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_PLAYLIST_NAME_LENGTH);
+
+const shuffleInPlace = <T>(items: T[]): T[] => {
+  for (let i = items.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+};
+
 const parseBase64Payload = (value: unknown): string => {
   const raw = String(value ?? "").trim();
   if (!raw) return "";
@@ -230,6 +401,17 @@ const buildIdentityFromHeaders = (headers: AuthHeaders): Identity | null => {
   };
 };
 
+const mediaUrl = (mediaId: string) => `/api/silent-disco/media/${encodeURIComponent(mediaId)}`;
+
+// What an upload source says about its media beyond the file itself.
+const uploadSourceDetails = (asset: MediaAsset) => ({
+  artist: asset.artist,
+  coverUrl: asset.coverPath ? `${mediaUrl(asset.id)}/${COVER_FILE_NAME}` : null,
+  hlsUrl: asset.hlsDir ? `${mediaUrl(asset.id)}/hls/${HLS_PLAYLIST_NAME}` : null,
+});
+
+const linkSourceDetails = { artist: null, coverUrl: null, hlsUrl: null };
+
 const parsePersistedSource = (value: any, mediaLookup: Map<string, MediaAsset>): SilentDiscoSource | null => {
   if (!value || typeof value !== "object") return null;
   const kind = String(value.kind || "").trim().toLowerCase() as SourceKind;
@@ -246,12 +428,14 @@ const parsePersistedSource = (value: any, mediaLookup: Map<string, MediaAsset>):
     const uploadPath = normalizeUploadUrlPath(url);
     const mediaId = extractMediaIdFromPath(uploadPath);
     if (!uploadPath || !mediaId || !mediaLookup.has(mediaId)) return null;
+    const asset = mediaLookup.get(mediaId)!;
     return {
       kind,
       title,
       url: uploadPath,
-      mimeType,
+      mimeType: asset.mimeType,
       mediaId,
+      ...uploadSourceDetails(asset),
       setByUserId,
     };
   }
@@ -264,10 +448,227 @@ const parsePersistedSource = (value: any, mediaLookup: Map<string, MediaAsset>):
     url: absolute,
     mimeType,
     mediaId: null,
+    ...linkSourceDetails,
     setByUserId,
   };
 };
 
+const parsePersistedQueueItem = (value: any, mediaLookup: Map<string, MediaAsset>): QueueItem | null => {
+  const itemId = String(value?.itemId || "").trim();
+  const source = parsePersistedSource(value?.source, mediaLookup);
+  if (!itemId || !source) return null;
+  return {
+    itemId,
+    source,
+    durationMs: parseDurationMs(value?.durationMs),
+    addedByUserId: String(value?.addedByUserId || source.setByUserId),
+  };
+};
+
+const parsePersistedSuggestion = (value: any, mediaLookup: Map<string, MediaAsset>): TrackSuggestion | null => {
+  const suggestionId = String(value?.suggestionId || "").trim();
+  const source = parsePersistedSource(value?.source, mediaLookup);
+  const suggestedByUserId = String(value?.suggestedByUserId || "").trim();
+  if (!suggestionId || !source || !suggestedByUserId) return null;
+  const createdAtMs = Number(value?.createdAtMs || Date.now());
+  return {
+    suggestionId,
+    source,
+    durationMs: parseDurationMs(value?.durationMs),
+    suggestedByUserId,
+    suggestedByDisplayName: String(value?.suggestedByDisplayName || suggestedByUserId),
+    createdAtMs: Number.isFinite(createdAtMs) ? createdAtMs : Date.now(),
+  };
+};
+
+// Also reads a version 2 room, whose single channel was the room itself.
+// Suggestions are only there in a room from another replica.
+const parsePersistedChannel = (
+  value: any,
+  channelId: ChannelColor,
+  mediaLookup: Map<string, MediaAsset>
+): SilentDiscoChannel => {
+  const source = parsePersistedSource(value?.source, mediaLookup);
+  const updatedAtMs = Number(value?.updatedAtMs || Date.now());
+  const queue = (Array.isArray(value?.queue) ? value.queue : [])
+    .map((item: unknown) => parsePersistedQueueItem(item, mediaLookup))
+    .filter((item: QueueItem | null): item is QueueItem => item !== null)
+    .slice(0, MAX_QUEUE_ITEMS);
+  const currentItemId = String(value?.currentItemId || "").trim();
+  const djUserId = String(value?.djUserId || "").trim() || null;
+  return {
+    channelId,
+    djUserId,
+    djDisplayName: djUserId ? String(value?.djDisplayName || djUserId).trim() || djUserId : null,
+    source,
+    durationMs: source ? parseDurationMs(value?.durationMs) : null,
+    playing: Boolean(value?.playing && source),
+    positionMs: clampPositionMs(value?.positionMs || 0),
+    updatedAtMs: Number.isFinite(updatedAtMs) ? updatedAtMs : Date.now(),
+    queue,
+    currentItemId: queue.some((item: QueueItem) => item.itemId === currentItemId) ? currentItemId : null,
+    repeat: normalizeRepeatMode(value?.repeat) ?? "off",
+    suggestions: (Array.isArray(value?.suggestions) ? value.suggestions : [])
+      .map((suggestion: unknown) => parsePersistedSuggestion(suggestion, mediaLookup))
+      .filter((suggestion: TrackSuggestion | null): suggestion is TrackSuggestion => suggestion !== null)
+      .slice(0, MAX_ROOM_SUGGESTIONS),
+  };
+};
+
+const parsePersistedPlaylist = (value: any, mediaLookup: Map<string, MediaAsset>): Playlist | null => {
+  const playlistId = String(value?.playlistId || "").trim();
+  const ownerUserId = String(value?.ownerUserId || "").trim();
+  const name = normalizePlaylistName(value?.name);
+  if (!playlistId || !ownerUserId || !name) return null;
+  const tracks: PlaylistTrack[] = [];
+  for (const track of Array.isArray(value?.tracks) ? value.tracks : []) {
+    const source = parsePersistedSource(track?.source, mediaLookup);
+    if (source) tracks.push({ source, durationMs: parseDurationMs(track?.durationMs) });
+  }
+  const createdAtMs = Number(value?.createdAtMs || Date.now());
+  const updatedAtMs = Number(value?.updatedAtMs || createdAtMs);
+  return {
+    playlistId,
+    ownerUserId,
+    name,
+    tracks: tracks.slice(0, MAX_QUEUE_ITEMS),
+    createdAtMs: Number.isFinite(createdAtMs) ? createdAtMs : Date.now(),
+    updatedAtMs: Number.isFinite(updatedAtMs) ? updatedAtMs : Date.now(),
+  };
+};
+
+// Uploads whose file is gone (another disk, cleaned up by hand) are dropped.
+const parsePersistedMedia = (value: any): MediaAsset | null => {
+  const id = String(value?.id || "").trim();
+  const filePath = String(value?.filePath || "").trim();
+  const mimeType = normalizeMimeType(value?.mimeType);
+  const uploadedByUserId = String(value?.uploadedByUserId || "").trim();
+  if (!id || !filePath || !mimeType || !uploadedByUserId) return null;
+  if (!fs.existsSync(filePath)) return null;
+
+  const readText = (key: string) => String(value?.[key] || "").trim().slice(0, 140) || null;
+  const existingPath = (key: string) => {
+    const candidate = String(value?.[key] || "").trim();
+    return candidate && fs.existsSync(candidate) ? candidate : null;
+  };
+  const createdAt = Number(value?.createdAt || Date.now());
+  return {
+    id,
+    filePath,
+    mimeType,
+    originalName: sanitizeFileName(value?.originalName || "track"),
+    sizeBytes: Math.max(0, Number(value?.sizeBytes || 0)),
+    durationMs: parseDurationMs(value?.durationMs),
+    title: readText("title"),
+    artist: readText("artist"),
+    album: readText("album"),
+    coverPath: existingPath("coverPath"),
+    hlsDir: existingPath("hlsDir"),
+    transcoded: value?.transcoded === true,
+    uploadedByUserId,
+    createdAt: Number.isFinite(createdAt) ? createdAt : Date.now(),
+  };
+};
+
+// Without members; a live room from another replica brings its own.
+const parsePersistedRoom = (value: any, mediaLookup: Map<string, MediaAsset>): SilentDiscoRoom | null => {
+  const roomCode = normalizeRoomCode(value?.roomCode);
+  const hostUserId = String(value?.hostUserId || "").trim();
+  const hostDisplayName = String(value?.hostDisplayName || hostUserId).trim() || hostUserId;
+  if (!roomCode || !hostUserId) return null;
+
+  const lastTouchedRaw = Number(value?.lastTouchedAtMs || value?.updatedAtMs || Date.now());
+  const version = Math.trunc(Number(value?.version) || 0);
+  const channels: SilentDiscoChannel[] = [];
+  if (Array.isArray(value?.channels)) {
+    for (const channel of value.channels) {
+      const channelId = normalizeChannelColor(channel?.channelId);
+      if (!channelId || channels.some((c) => c.channelId === channelId)) continue;
+      channels.push(parsePersistedChannel(channel, channelId, mediaLookup));
+    }
+  } else {
+    channels.push(parsePersistedChannel(value, CHANNEL_COLORS[0], mediaLookup));
+  }
+  if (!channels.length) return null;
+
+  return {
+    roomCode,
+    hostUserId,
+    hostDisplayName,
+    channels,
+    lastTouchedAtMs: Number.isFinite(lastTouchedRaw) ? lastTouchedRaw : Date.now(),
+    version: version > 0 ? version : 0,
+    versionWriter: String(value?.versionWriter || ""),
+    members: new Map(),
+    memberChannels: new Map(),
+  };
+};
+
+const parsePersistedMember = (value: any): PersistedMember | null => {
+  const socketId = String(value?.socketId || "").trim();
+  const userId = String(value?.userId || "").trim();
+  const channelId = normalizeChannelColor(value?.channelId);
+  if (!socketId || !userId || !channelId) return null;
+  return {
+    socketId,
+    userId,
+    username: value?.username ? String(value.username) : null,
+    displayName: String(value?.displayName || userId),
+    email: value?.email ? String(value.email) : null,
+    channelId,
+  };
+};
+
+// A member on a channel the room no longer has listens to the first one.
+const addPersistedMembers = (room: SilentDiscoRoom, values: unknown[]) => {
+  for (const value of values) {
+    const member = parsePersistedMember(value);
+    if (!member) continue;
+    const { socketId, channelId, ...identity } = member;
+    room.members.set(socketId, identity);
+    room.memberChannels.set(
+      socketId,
+      room.channels.some((c) => c.channelId === channelId) ? channelId : room.channels[0].channelId
+    );
+  }
+};
+
+const serializeRoom = (room: SilentDiscoRoom): PersistedRoom => ({
+  roomCode: room.roomCode,
+  hostUserId: room.hostUserId,
+  hostDisplayName: room.hostDisplayName,
+  channels: room.channels.map(({ suggestions: _suggestions, ...channel }) => ({
+    ...channel,
+    positionMs: clampPositionMs(channel.positionMs),
+    updatedAtMs: Number(channel.updatedAtMs || Date.now()),
+  })),
+  lastTouchedAtMs: Number(room.lastTouchedAtMs || Date.now()),
+  version: room.version,
+  versionWriter: room.versionWriter,
+});
+
+const serializeMember = (room: SilentDiscoRoom, socketId: string): PersistedMember | null => {
+  const identity = room.members.get(socketId);
+  return identity ? { ...identity, socketId, channelId: memberChannelId(room, socketId) } : null;
+};
+
+const serializeMembers = (room: SilentDiscoRoom): PersistedMember[] =>
+  Array.from(room.members.keys())
+    .map((socketId) => serializeMember(room, socketId))
+    .filter((member): member is PersistedMember => member !== null);
+
+const serializeLiveRoom = (room: SilentDiscoRoom): LiveRoom => ({
+  ...serializeRoom(room),
+  channels: room.channels,
+  members: serializeMembers(room),
+});
+
+// Two replicas that change a room at once both raise its version by one; the
+// writer id decides between them, the same way on every replica and in
+// Postgres, so they all end up with the same room.
+const isNewerRoom = (room: Pick<SilentDiscoRoom, "version" | "versionWriter">, than: SilentDiscoRoom) =>
+  room.version > than.version || (room.version === than.version && room.versionWriter > than.versionWriter);
+
 const roomChannel = (roomCode: string) => `silent_disco:${roomCode}`;
 
 const respondJson = (res: http.ServerResponse, statusCode: number, payload: unknown): void => {
@@ -325,22 +726,40 @@ const collectUniqueListeners = (
   return listeners;
 };
 
-const estimateCurrentPositionMs = (room: SilentDiscoRoom, nowMs = Date.now()): number => {
-  if (!room.playing) return clampPositionMs(room.positionMs);
-  const elapsed = Math.max(0, nowMs - room.updatedAtMs);
-  return clampPositionMs(room.positionMs + elapsed);
+const estimateCurrentPositionMs = (channel: SilentDiscoChannel, nowMs = Date.now()): number => {
+  if (!channel.playing) return clampPositionMs(channel.positionMs);
+  const elapsed = Math.max(0, nowMs - channel.updatedAtMs);
+  return clampPositionMs(channel.positionMs + elapsed);
 };
 
+const memberChannelId = (room: SilentDiscoRoom, socketId: string): ChannelColor =>
+  room.memberChannels.get(socketId) ?? room.channels[0].channelId;
+
+// A user with several tabs on different channels is listed once, on the
+// channel of their first tab, but counted as a listener on each.
 const roomSnapshot = (room: SilentDiscoRoom): RoomSnapshot => {
   const serverNowMs = Date.now();
-  const listeners = collectUniqueListeners(room.members.values());
+  const members = Array.from(room.members.entries());
+  const membersOn = (channelId: ChannelColor) =>
+    members.filter(([socketId]) => memberChannelId(room, socketId) === channelId).map(([, identity]) => identity);
+  const listeners = collectUniqueListeners(room.members.values()).map((listener) => ({
+    ...listener,
+    channelId: memberChannelId(room, members.find(([, identity]) => identity.userId === listener.userId)![0]),
+  }));
   return {
     roomCode: room.roomCode,
     hostUserId: room.hostUserId,
     hostDisplayName: room.hostDisplayName,
-    source: room.source,
-    playing: room.playing,
-    positionMs: estimateCurrentPositionMs(room, serverNowMs),
+    channels: room.channels.map((channel) => {
+      const { updatedAtMs: _updatedAtMs, ...fields } = channel;
+      const channelMembers = membersOn(channel.channelId);
+      return {
+        ...fields,
+        positionMs: estimateCurrentPositionMs(channel, serverNowMs),
+        listenerCount: channelMembers.length,
+        listenerUserCount: collectUniqueListeners(channelMembers).length,
+      };
+    }),
     serverNowMs,
     listenerCount: room.members.size,
     listenerUserCount: listeners.length,
@@ -348,165 +767,397 @@ const roomSnapshot = (room: SilentDiscoRoom): RoomSnapshot => {
   };
 };
 
-export const createSilentDiscoManager = ({ parseJsonBody, getAuthentikHeaders }: ManagerDeps) => {
+export const createSilentDiscoManager = ({ io, parseJsonBody, getAuthentikHeaders }: ManagerDeps) => {
   const rooms = new Map<string, SilentDiscoRoom>();
   const mediaAssets = new Map<string, MediaAsset>();
+  const playlists = new Map<string, Playlist>();
   const socketToRoom = new Map<string, string>();
+  // Fires when the current track of a playing channel runs out; keyed by
+  // room and channel. Every replica arms one, the first to claim the turn
+  // moves the channel on.
+  const advanceTimers = new Map<string, NodeJS.Timeout>();
+  // Signs the room versions this replica writes.
+  const replicaId = randomUUID();
 
-  const linkSecret = (() => {
-    const fromEnv = String(process.env.SILENT_DISCO_LINK_SECRET || "").trim();
-    if (fromEnv) return fromEnv;
-    return `silent-disco-dev-${randomUUID()}`;
-  })();
-
-  let persistTimer: NodeJS.Timeout | null = null;
+  const linkSecret = readLinkSecret("SILENT_DISCO_LINK_SECRET", "silent-disco-dev");
 
   const markRoomTouched = (room: SilentDiscoRoom) => {
     room.lastTouchedAtMs = Date.now();
   };
 
+  // Every change goes out through here, so this is also where the advance
+  // timers follow play, pause, seek and track changes.
   const emitRoomState = (io: Server, room: SilentDiscoRoom) => {
     io.to(roomChannel(room.roomCode)).emit("silent_disco:state", { room: roomSnapshot(room) });
+    for (const channel of room.channels) scheduleAdvance(io, room, channel);
   };
 
-  const serializeState = (): PersistedState => {
-    const persistedRooms: PersistedRoom[] = Array.from(rooms.values()).map((room) => ({
-      roomCode: room.roomCode,
-      hostUserId: room.hostUserId,
-      hostDisplayName: room.hostDisplayName,
-      source: room.source,
-      playing: room.playing,
-      positionMs: clampPositionMs(room.positionMs),
-      updatedAtMs: Number(room.updatedAtMs || Date.now()),
-      lastTouchedAtMs: Number(room.lastTouchedAtMs || Date.now()),
-    }));
+  const advanceTimerKey = (roomCode: string, channelId: ChannelColor) => `${roomCode}:${channelId}`;
 
-    const persistedMedia: MediaAsset[] = Array.from(mediaAssets.values());
+  const clearAdvanceTimer = (roomCode: string, channelId: ChannelColor) => {
+    const key = advanceTimerKey(roomCode, channelId);
+    const timer = advanceTimers.get(key);
+    if (timer) clearTimeout(timer);
+    advanceTimers.delete(key);
+  };
 
-    return {
-      version: SILENT_DISCO_STATE_VERSION,
-      savedAt: Date.now(),
-      rooms: persistedRooms,
-      media: persistedMedia,
-    };
+  const clearRoomAdvanceTimers = (room: SilentDiscoRoom) => {
+    for (const channel of room.channels) clearAdvanceTimer(room.roomCode, channel.channelId);
   };
 
-  const persistStateNow = async (): Promise<void> => {
-    try {
-      const payload = JSON.stringify(serializeState(), null, 2);
-      await fsPromises.mkdir(path.dirname(silentDiscoStateFile), { recursive: true });
-      const tempPath = `${silentDiscoStateFile}.tmp`;
-      await fsPromises.writeFile(tempPath, payload, "utf8");
-      await fsPromises.rename(tempPath, silentDiscoStateFile);
-    } catch {
-      // Keep runtime alive even if persistence fails.
+  const loadQueueItem = (channel: SilentDiscoChannel, item: QueueItem | null, playing: boolean) => {
+    channel.currentItemId = item?.itemId ?? null;
+    channel.source = item?.source ?? null;
+    channel.durationMs = item?.durationMs ?? null;
+    channel.positionMs = 0;
+    channel.playing = Boolean(item) && playing;
+    channel.updatedAtMs = Date.now();
+  };
+
+  // The item after (or before) the current one. A source set outside the
+  // queue is followed by the start of the queue.
+  const neighbourQueueItem = (channel: SilentDiscoChannel, step: 1 | -1, wrap: boolean): QueueItem | null => {
+    const count = channel.queue.length;
+    if (!count) return null;
+    const index = channel.queue.findIndex((item) => item.itemId === channel.currentItemId);
+    if (index < 0) return step > 0 ? channel.queue[0] : null;
+    const next = index + step;
+    if (next >= 0 && next < count) return channel.queue[next];
+    return wrap ? channel.queue[(next + count) % count] : null;
+  };
+
+  const finishCurrentTrack = (channel: SilentDiscoChannel) => {
+    if (channel.repeat === "one" && channel.source) {
+      channel.positionMs = 0;
+      channel.updatedAtMs = Date.now();
+      return;
+    }
+    const next = neighbourQueueItem(channel, 1, channel.repeat === "all");
+    if (next) {
+      loadQueueItem(channel, next, true);
+      return;
     }
+    channel.playing = false;
+    channel.positionMs = 0;
+    channel.updatedAtMs = Date.now();
+  };
+
+  // A replica that lost the claim tries again once it runs out, in case the
+  // winner went down before moving the channel on.
+  const scheduleAdvance = (io: Server, room: SilentDiscoRoom, channel: SilentDiscoChannel, minDelayMs = 0) => {
+    clearAdvanceTimer(room.roomCode, channel.channelId);
+    if (!channel.playing || !channel.durationMs) return;
+    const remainingMs = Math.max(minDelayMs, channel.durationMs - estimateCurrentPositionMs(channel));
+    const isCurrent = () =>
+      rooms.get(room.roomCode) === room && room.channels.includes(channel) && channel.playing && !!channel.durationMs;
+    const timer = setTimeout(() => {
+      advanceTimers.delete(advanceTimerKey(room.roomCode, channel.channelId));
+      if (!isCurrent()) return;
+      void claimAdvance(room, channel).then((claimed) => {
+        if (!isCurrent()) return;
+        if (!claimed) {
+          scheduleAdvance(io, room, channel, SILENT_DISCO_ADVANCE_CLAIM_TTL_MS);
+          return;
+        }
+        finishCurrentTrack(channel);
+        markRoomTouched(room);
+        emitRoomState(io, room);
+        saveRoom(room);
+      });
+    }, remainingMs);
+    timer.unref?.();
+    advanceTimers.set(advanceTimerKey(room.roomCode, channel.channelId), timer);
+  };
+
+  // Writes for one row run in order, each with the state as it is by then,
+  // so a slow write never lands after a newer one.
+  const writeQueues = new Map<string, Promise<void>>();
+  const queueWrite = (key: string, write: () => Promise<void>): Promise<void> => {
+    const run = (writeQueues.get(key) ?? Promise.resolve()).then(write);
+    writeQueues.set(key, run);
+    void run.finally(() => {
+      if (writeQueues.get(key) === run) writeQueues.delete(key);
+    });
+    return run;
+  };
+
+  // The other replicas keep their copies up to date from these; a single
+  // replica has no one to tell.
+  const syncReplicas = (event: string, payload: unknown) => {
+    if (isRedisAdapterAttached()) io.serverSideEmit(event, payload);
+  };
+
+  // One replica per track end: the turn is named by the room version, which
+  // is the same on every replica that has caught up. A single replica, or one
+  // that cannot reach Redis, takes it; two that both do end up in a tie that
+  // isNewerRoom settles.
+  const claimAdvance = (room: SilentDiscoRoom, channel: SilentDiscoChannel): Promise<boolean> => {
+    if (!isRedisAdapterAttached()) return Promise.resolve(true);
+    const turn = `${room.roomCode}:${channel.channelId}:${room.version}:${room.versionWriter}`;
+    return safeRedisValue(() => claimSilentDiscoAdvance(turn, SILENT_DISCO_ADVANCE_CLAIM_TTL_MS), true);
+  };
+
+  const saveRoom = (room: SilentDiscoRoom) => {
+    room.version += 1;
+    room.versionWriter = replicaId;
+    void queueWrite(`room:${room.roomCode}`, async () => {
+      // Replaced by a newer copy from another replica, which saves it.
+      if (rooms.get(room.roomCode) !== room) return;
+      await safeDb(() => saveSilentDiscoRoom(serializeRoom(room)));
+    });
+    syncReplicas("silent_disco:room_sync", { roomCode: room.roomCode, room: serializeLiveRoom(room) });
+  };
+
+  const removeRoom = (room: SilentDiscoRoom) => {
+    rooms.delete(room.roomCode);
+    clearRoomAdvanceTimers(room);
+    void queueWrite(`room:${room.roomCode}`, async () => {
+      await safeDb(() => deleteSilentDiscoRoom(room.roomCode));
+      await safeRedis(() => deleteSilentDiscoMembers(room.roomCode));
+    });
+    syncReplicas("silent_disco:room_sync", { roomCode: room.roomCode, room: null });
+  };
+
+  // After a socket joins, switches channel or leaves. Only this member goes
+  // to the other replicas, so two joins at once on different replicas both stay.
+  const saveMembership = (room: SilentDiscoRoom, socketId: string) => {
+    const member = serializeMember(room, socketId);
+    void queueWrite(`member:${socketId}`, () =>
+      member
+        ? safeRedis(() => saveSilentDiscoMember(room.roomCode, member, SILENT_DISCO_MEMBERS_TTL_SEC))
+        : safeRedis(() => deleteSilentDiscoMember(room.roomCode, socketId))
+    );
+    syncReplicas("silent_disco:member_sync", { roomCode: room.roomCode, socketId, member });
+  };
+
+  const saveMedia = (asset: MediaAsset): Promise<void> => {
+    syncReplicas("silent_disco:media_sync", { mediaId: asset.id, media: asset });
+    return queueWrite(`media:${asset.id}`, () => safeDb(() => saveSilentDiscoMedia(asset)));
   };
 
-  const persistStateSoon = () => {
-    if (persistTimer) clearTimeout(persistTimer);
-    persistTimer = setTimeout(() => {
-      persistTimer = null;
-      void persistStateNow();
-    }, SILENT_DISCO_PERSIST_DEBOUNCE_MS);
-    persistTimer.unref?.();
+  const removeMedia = (asset: MediaAsset) => {
+    mediaAssets.delete(asset.id);
+    void queueWrite(`media:${asset.id}`, () => safeDb(() => deleteSilentDiscoMedia(asset.id)));
+    syncReplicas("silent_disco:media_sync", { mediaId: asset.id, media: null });
+  };
+
+  const savePlaylist = (playlist: Playlist) => {
+    void queueWrite(`playlist:${playlist.playlistId}`, () => safeDb(() => saveSilentDiscoPlaylist(playlist)));
+    syncReplicas("silent_disco:playlist_sync", { playlistId: playlist.playlistId, playlist });
+  };
+
+  const removePlaylist = (playlist: Playlist) => {
+    playlists.delete(playlist.playlistId);
+    void queueWrite(`playlist:${playlist.playlistId}`, () => safeDb(() => deleteSilentDiscoPlaylist(playlist.playlistId)));
+    syncReplicas("silent_disco:playlist_sync", { playlistId: playlist.playlistId, playlist: null });
+  };
+
+  // Changes made on another replica. A copy older than ours is dropped; the
+  // members stay as we have them. When it wins a tie with a change of ours,
+  // our listeners may have got ours last, so they get the room again.
+  io.on("silent_disco:room_sync", (payload) => {
+    const roomCode = normalizeRoomCode(payload?.roomCode);
+    const current = rooms.get(roomCode);
+    const room = payload?.room ? parsePersistedRoom(payload.room, mediaAssets) : null;
+    if (!room) {
+      if (current) clearRoomAdvanceTimers(current);
+      rooms.delete(roomCode);
+      return;
+    }
+    if (current && !isNewerRoom(room, current)) return;
+    if (current) clearRoomAdvanceTimers(current);
+    addPersistedMembers(
+      room,
+      current ? serializeMembers(current) : Array.isArray(payload.room.members) ? payload.room.members : []
+    );
+    rooms.set(room.roomCode, room);
+    // The old copy's timers are cleared, or give up once they see it is gone.
+    for (const channel of room.channels) scheduleAdvance(io, room, channel);
+    if (current?.version === room.version) {
+      io.to(roomChannel(room.roomCode)).emit("silent_disco:state", { room: roomSnapshot(room) });
+    }
+  });
+
+  io.on("silent_disco:member_sync", (payload) => {
+    const room = rooms.get(normalizeRoomCode(payload?.roomCode));
+    if (!room) return;
+    if (payload?.member) {
+      addPersistedMembers(room, [payload.member]);
+      return;
+    }
+    const socketId = String(payload?.socketId || "");
+    room.members.delete(socketId);
+    room.memberChannels.delete(socketId);
+  });
+
+  io.on("silent_disco:media_sync", (payload) => {
+    const asset = payload?.media ? parsePersistedMedia(payload.media) : null;
+    if (asset) mediaAssets.set(asset.id, asset);
+    else mediaAssets.delete(String(payload?.mediaId || ""));
+  });
+
+  io.on("silent_disco:playlist_sync", (payload) => {
+    const playlist = payload?.playlist ? parsePersistedPlaylist(payload.playlist, mediaAssets) : null;
+    if (playlist) playlists.set(playlist.playlistId, playlist);
+    else playlists.delete(String(payload?.playlistId || ""));
+  });
+
+  // A socket left the room: on leave, on disconnect, or with its replica.
+  const dropMember = (io: Server, room: SilentDiscoRoom, socketId: string) => {
+    room.members.delete(socketId);
+    room.memberChannels.delete(socketId);
+    saveMembership(room, socketId);
+    markRoomTouched(room);
+
+    if (room.members.size === 0) {
+      for (const channel of room.channels) {
+        channel.positionMs = estimateCurrentPositionMs(channel);
+        channel.playing = false;
+        channel.updatedAtMs = Date.now();
+      }
+      clearRoomAdvanceTimers(room);
+      saveRoom(room);
+      return;
+    }
+
+    const hostStillInRoom = Array.from(room.members.values()).some((member) => member.userId === room.hostUserId);
+    if (!hostStillInRoom) {
+      const nextHost = room.members.values().next().value as Identity | undefined;
+      if (nextHost) {
+        room.hostUserId = nextHost.userId;
+        room.hostDisplayName = normalizeDisplayName(nextHost);
+      }
+    }
+
+    emitRoomState(io, room);
+    saveRoom(room);
+  };
+
+  // Members whose replica went down never disconnected. Only those that were
+  // members before asking, so a socket joining meanwhile stays.
+  const pruneDetachedMembers = async (): Promise<void> => {
+    if (!seesAllReplicas()) return;
+    for (const room of Array.from(rooms.values())) {
+      const memberIds = Array.from(room.members.keys());
+      if (!memberIds.length) continue;
+      let connected: Set<string>;
+      try {
+        const sockets = await io.in(roomChannel(room.roomCode)).fetchSockets();
+        connected = new Set(sockets.map((socket) => socket.id));
+      } catch {
+        continue;
+      }
+      if (rooms.get(room.roomCode) !== room) continue;
+      for (const socketId of memberIds) {
+        if (connected.has(socketId) || !room.members.has(socketId)) continue;
+        socketToRoom.delete(socketId);
+        dropMember(io, room, socketId);
+      }
+    }
   };
 
   const cleanupStaleData = async (force = false): Promise<void> => {
+    await pruneDetachedMembers();
     const now = Date.now();
-    let changed = false;
 
-    for (const [roomCode, room] of rooms.entries()) {
+    for (const room of Array.from(rooms.values())) {
       if (!force && room.members.size > 0) continue;
-      if (now - room.lastTouchedAtMs > SILENT_DISCO_ROOM_IDLE_TTL_MS) {
-        rooms.delete(roomCode);
-        changed = true;
-      }
+      if (now - room.lastTouchedAtMs > SILENT_DISCO_ROOM_IDLE_TTL_MS) removeRoom(room);
     }
 
     const referencedMediaIds = new Set<string>();
+    const referenceSource = (source: SilentDiscoSource | null) => {
+      if (source?.kind === "upload" && source.mediaId) referencedMediaIds.add(source.mediaId);
+    };
     for (const room of rooms.values()) {
-      if (room.source?.kind === "upload" && room.source.mediaId) {
-        referencedMediaIds.add(room.source.mediaId);
+      for (const channel of room.channels) {
+        referenceSource(channel.source);
+        for (const item of channel.queue) referenceSource(item.source);
+        for (const suggestion of channel.suggestions) referenceSource(suggestion.source);
       }
     }
+    for (const playlist of playlists.values()) {
+      for (const track of playlist.tracks) referenceSource(track.source);
+    }
 
-    for (const [mediaId, media] of mediaAssets.entries()) {
-      const isReferenced = referencedMediaIds.has(mediaId);
+    for (const media of Array.from(mediaAssets.values())) {
+      const isReferenced = referencedMediaIds.has(media.id);
       const tooOld = now - media.createdAt > SILENT_DISCO_MEDIA_IDLE_TTL_MS;
       if (!isReferenced && tooOld) {
-        mediaAssets.delete(mediaId);
-        changed = true;
+        removeMedia(media);
         try {
-          await fsPromises.unlink(media.filePath);
+          await fsPromises.rm(media.filePath, { force: true });
+          if (media.coverPath) await fsPromises.rm(media.coverPath, { force: true });
+          if (media.hlsDir) await fsPromises.rm(media.hlsDir, { recursive: true, force: true });
         } catch {
           // Ignore stale file deletion issues.
         }
       }
     }
+  };
+
+  // Adds what is not here yet: a socket may have created or joined a room
+  // while the database was being read. Returns the rooms added.
+  const applyPersistedState = (state: { media?: unknown; rooms?: unknown; playlists?: unknown }): SilentDiscoRoom[] => {
+    for (const value of Array.isArray(state.media) ? state.media : []) {
+      const asset = parsePersistedMedia(value);
+      if (asset && !mediaAssets.has(asset.id)) mediaAssets.set(asset.id, asset);
+    }
 
-    if (changed) persistStateSoon();
+    const added: SilentDiscoRoom[] = [];
+    for (const value of Array.isArray(state.rooms) ? state.rooms : []) {
+      const room = parsePersistedRoom(value, mediaAssets);
+      if (!room || rooms.has(room.roomCode)) continue;
+      rooms.set(room.roomCode, room);
+      added.push(room);
+    }
+
+    for (const value of Array.isArray(state.playlists) ? state.playlists : []) {
+      const playlist = parsePersistedPlaylist(value, mediaAssets);
+      if (playlist && !playlists.has(playlist.playlistId)) playlists.set(playlist.playlistId, playlist);
+    }
+    return added;
   };
 
-  const hydratePersistedState = () => {
+  // Once, into an empty database; the file is then renamed so it is not
+  // imported again.
+  const importStateFile = async (): Promise<void> => {
+    let parsed: Partial<PersistedState> | null = null;
     try {
       if (!fs.existsSync(silentDiscoStateFile)) return;
-      const raw = fs.readFileSync(silentDiscoStateFile, "utf8");
-      if (!raw.trim()) return;
-      const parsed = JSON.parse(raw) as Partial<PersistedState>;
-      if (!parsed || typeof parsed !== "object") return;
-
-      const parsedMedia = Array.isArray(parsed.media) ? parsed.media : [];
-      for (const value of parsedMedia) {
-        const id = String((value as any)?.id || "").trim();
-        const filePath = String((value as any)?.filePath || "").trim();
-        const mimeType = normalizeMimeType((value as any)?.mimeType);
-        const originalName = sanitizeFileName((value as any)?.originalName || "track");
-        const sizeBytes = Math.max(0, Number((value as any)?.sizeBytes || 0));
-        const uploadedByUserId = String((value as any)?.uploadedByUserId || "").trim();
-        const createdAt = Number((value as any)?.createdAt || Date.now());
-
-        if (!id || !filePath || !mimeType || !uploadedByUserId) continue;
-        if (!fs.existsSync(filePath)) continue;
-
-        mediaAssets.set(id, {
-          id,
-          filePath,
-          mimeType,
-          originalName,
-          sizeBytes,
-          uploadedByUserId,
-          createdAt: Number.isFinite(createdAt) ? createdAt : Date.now(),
-        });
-      }
-
-      const parsedRooms = Array.isArray(parsed.rooms) ? parsed.rooms : [];
-      for (const value of parsedRooms) {
-        const roomCode = normalizeRoomCode((value as any)?.roomCode);
-        const hostUserId = String((value as any)?.hostUserId || "").trim();
-        const hostDisplayName = String((value as any)?.hostDisplayName || hostUserId).trim() || hostUserId;
-        if (!roomCode || !hostUserId) continue;
-
-        const source = parsePersistedSource((value as any)?.source, mediaAssets);
-        const playing = Boolean((value as any)?.playing && source);
-        const positionMs = clampPositionMs((value as any)?.positionMs || 0);
-        const updatedAtMsRaw = Number((value as any)?.updatedAtMs || Date.now());
-        const lastTouchedRaw = Number((value as any)?.lastTouchedAtMs || updatedAtMsRaw || Date.now());
-
-        rooms.set(roomCode, {
-          roomCode,
-          hostUserId,
-          hostDisplayName,
-          source,
-          playing,
-          positionMs,
-          updatedAtMs: Number.isFinite(updatedAtMsRaw) ? updatedAtMsRaw : Date.now(),
-          lastTouchedAtMs: Number.isFinite(lastTouchedRaw) ? lastTouchedRaw : Date.now(),
-          members: new Map(),
-        });
-      }
+      parsed = JSON.parse(await fsPromises.readFile(silentDiscoStateFile, "utf8"));
     } catch {
-      // Ignore corrupt persistence state and continue with an empty runtime.
+      // A corrupt file is left where it is; start empty.
+    }
+    if (!parsed || typeof parsed !== "object") return;
+
+    const added = applyPersistedState(parsed);
+    try {
+      for (const asset of mediaAssets.values()) await saveSilentDiscoMedia(asset);
+      for (const room of added) await saveSilentDiscoRoom(serializeRoom(room));
+      for (const playlist of playlists.values()) await saveSilentDiscoPlaylist(playlist);
+      await fsPromises.rename(silentDiscoStateFile, `${silentDiscoStateFile}.imported`);
+      console.log(`[silent-disco] imported ${added.length} rooms from ${path.basename(silentDiscoStateFile)}`);
+    } catch (err) {
+      console.error("[db] persist error:", (err as Error)?.message || err);
+    }
+  };
+
+  const hydratePersistedState = async (): Promise<void> => {
+    const [media, roomValues, playlistValues] = await Promise.all([
+      safeDbValue(() => loadSilentDiscoMedia(), null),
+      safeDbValue(() => loadSilentDiscoRooms(), null),
+      safeDbValue(() => loadSilentDiscoPlaylists(), null),
+    ]);
+    if (!media || !roomValues || !playlistValues) return;
+    if (!media.length && !roomValues.length && !playlistValues.length) {
+      await importStateFile();
+      return;
+    }
+
+    const added = applyPersistedState({ media, rooms: roomValues, playlists: playlistValues });
+    for (const room of added) {
+      addPersistedMembers(room, await safeRedisValue(() => loadSilentDiscoMembers(room.roomCode), []));
     }
   };
 
@@ -536,53 +1187,40 @@ export const createSilentDiscoManager = ({ parseJsonBody, getAuthentikHeaders }:
       role,
       ...(role === "host" ? { hostUserId } : {}),
     };
-    return jwt.sign(payload, linkSecret, {
-      algorithm: "HS256",
-      expiresIn: SILENT_DISCO_LINK_TTL_SECONDS,
-    });
+    return signLinkToken(payload, linkSecret, SILENT_DISCO_LINK_TTL_SECONDS);
   };
 
   const verifyJoinToken = (
     token: string,
     expectedRoomCode: string
   ): { ok: true; role: LinkRole; hostUserId: string | null } | { ok: false; error: string } => {
-    try {
-      const decoded = jwt.verify(token, linkSecret, {
-        algorithms: ["HS256"],
-      });
-      if (!decoded || typeof decoded !== "object") {
-        return { ok: false, error: "join_token_invalid" };
-      }
-
-      const payload = decoded as Record<string, unknown>;
-      const tokenType = String(payload.type || "").trim();
-      if (tokenType !== "silent_disco_join") {
-        return { ok: false, error: "join_token_invalid" };
-      }
+    const checked = verifyLinkToken(token, linkSecret);
+    if (!checked.ok) {
+      return { ok: false, error: checked.expired ? "join_token_expired" : "join_token_invalid" };
+    }
 
-      const tokenRoomCode = normalizeRoomCode(payload.roomCode);
-      if (!tokenRoomCode || tokenRoomCode !== expectedRoomCode) {
-        return { ok: false, error: "join_token_room_mismatch" };
-      }
+    const payload = checked.claims;
+    const tokenType = String(payload.type || "").trim();
+    if (tokenType !== "silent_disco_join") {
+      return { ok: false, error: "join_token_invalid" };
+    }
 
-      const role = normalizeRole(payload.role);
-      const hostUserId = role === "host" ? String(payload.hostUserId || "").trim() : "";
-      if (role === "host" && !hostUserId) {
-        return { ok: false, error: "join_token_invalid" };
-      }
+    const tokenRoomCode = normalizeRoomCode(payload.roomCode);
+    if (!tokenRoomCode || tokenRoomCode !== expectedRoomCode) {
+      return { ok: false, error: "join_token_room_mismatch" };
+    }
 
-      return {
-        ok: true,
-        role,
-        hostUserId: hostUserId || null,
-      };
-    } catch (err) {
-      const name = String((err as { name?: string })?.name || "");
-      if (name === "TokenExpiredError") {
-        return { ok: false, error: "join_token_expired" };
-      }
+    const role = normalizeRole(payload.role);
+    const hostUserId = role === "host" ? String(payload.hostUserId || "").trim() : "";
+    if (role === "host" && !hostUserId) {
       return { ok: false, error: "join_token_invalid" };
     }
+
+    return {
+      ok: true,
+      role,
+      hostUserId: hostUserId || null,
+    };
   };
 
   const ensureHostOwnership = (socket: Socket, identity: Identity | null, room: SilentDiscoRoom): boolean => {
@@ -597,6 +1235,24 @@ export const createSilentDiscoManager = ({ parseJsonBody, getAuthentikHeaders }:
     return true;
   };
 
+  // The room host runs every channel; a DJ only their own.
+  const ensureChannelControl = (
+    socket: Socket,
+    identity: Identity | null,
+    room: SilentDiscoRoom,
+    channel: SilentDiscoChannel
+  ): boolean => {
+    if (!identity?.userId) {
+      socket.emit("silent_disco:error", { error: "unauthorized" });
+      return false;
+    }
+    if (room.hostUserId !== identity.userId && channel.djUserId !== identity.userId) {
+      socket.emit("silent_disco:error", { error: "only_dj" });
+      return false;
+    }
+    return true;
+  };
+
   const removeSocketFromRoom = (io: Server, socket: Socket) => {
     const roomCode = socketToRoom.get(socket.id);
     if (!roomCode) return;
@@ -605,43 +1261,29 @@ export const createSilentDiscoManager = ({ parseJsonBody, getAuthentikHeaders }:
     socket.leave(roomChannel(roomCode));
 
     const room = rooms.get(roomCode);
-    if (!room) return;
-
-    room.members.delete(socket.id);
-    markRoomTouched(room);
-
-    if (room.members.size === 0) {
-      room.positionMs = estimateCurrentPositionMs(room);
-      room.playing = false;
-      room.updatedAtMs = Date.now();
-      persistStateSoon();
-      return;
-    }
-
-    const hostStillInRoom = Array.from(room.members.values()).some((member) => member.userId === room.hostUserId);
-    if (!hostStillInRoom) {
-      const nextHost = room.members.values().next().value as Identity | undefined;
-      if (nextHost) {
-        room.hostUserId = nextHost.userId;
-        room.hostDisplayName = normalizeDisplayName(nextHost);
-      }
-    }
-
-    emitRoomState(io, room);
-    persistStateSoon();
+    if (room) dropMember(io, room, socket.id);
   };
 
-  const joinSocketToRoom = (io: Server, socket: Socket, room: SilentDiscoRoom, identity: Identity) => {
+  const joinSocketToRoom = (
+    io: Server,
+    socket: Socket,
+    room: SilentDiscoRoom,
+    identity: Identity,
+    channelId: ChannelColor
+  ) => {
     removeSocketFromRoom(io, socket);
     socket.join(roomChannel(room.roomCode));
     socketToRoom.set(socket.id, room.roomCode);
     room.members.set(socket.id, identity);
+    room.memberChannels.set(socket.id, channelId);
+    saveMembership(room, socket.id);
+    socket.emit("silent_disco:channel", { roomCode: room.roomCode, channelId });
     markRoomTouched(room);
     if (room.hostUserId === identity.userId) {
       room.hostDisplayName = normalizeDisplayName(identity);
     }
     emitRoomState(io, room);
-    persistStateSoon();
+    saveRoom(room);
   };
 
   const parseRoomFromPayload = (payload: any): string => normalizeRoomCode(payload?.roomCode);
@@ -654,6 +1296,12 @@ export const createSilentDiscoManager = ({ parseJsonBody, getAuthentikHeaders }:
     return rooms.get(roomCode) ?? null;
   };
 
+  // The channel named in the payload, else the one the socket listens to.
+  const resolveChannelForSocket = (socket: Socket, room: SilentDiscoRoom, payload?: any): SilentDiscoChannel | null => {
+    const channelId = payload?.channelId ? normalizeChannelColor(payload.channelId) : memberChannelId(room, socket.id);
+    return room.channels.find((channel) => channel.channelId === channelId) ?? null;
+  };
+
   const parseSource = (
     input: any,
     identity: Identity,
@@ -681,8 +1329,9 @@ export const createSilentDiscoManager = ({ parseJsonBody, getAuthentikHeaders }:
           kind,
           title,
           url: uploadPath,
-          mimeType: mimeType || media.mimeType || null,
+          mimeType: media.mimeType,
           mediaId,
+          ...uploadSourceDetails(media),
           setByUserId: identity.userId,
         },
       };
@@ -709,15 +1358,39 @@ export const createSilentDiscoManager = ({ parseJsonBody, getAuthentikHeaders }:
         url,
         mimeType,
         mediaId: null,
+        ...linkSourceDetails,
         setByUserId: identity.userId,
       },
     };
   };
 
+  // An explicit duration wins; uploads fall back to what was measured at upload.
+  const resolveDurationMs = (source: SilentDiscoSource, explicit: unknown): number | null => {
+    const fromPayload = parseDurationMs(explicit);
+    if (fromPayload) return fromPayload;
+    if (source.kind === "upload" && source.mediaId) return mediaAssets.get(source.mediaId)?.durationMs ?? null;
+    return null;
+  };
+
+  // Right after the current item, or at the end. An idle channel loads it.
+  const enqueue = (channel: SilentDiscoChannel, item: QueueItem, next: boolean) => {
+    const index = channel.queue.findIndex((queued) => queued.itemId === channel.currentItemId);
+    if (next && index >= 0) channel.queue.splice(index + 1, 0, item);
+    else if (next) channel.queue.unshift(item);
+    else channel.queue.push(item);
+    if (!channel.source) loadQueueItem(channel, item, false);
+  };
+
+  const listPlaylists = (ownerUserId: string): Playlist[] =>
+    Array.from(playlists.values())
+      .filter((playlist) => playlist.ownerUserId === ownerUserId)
+      .sort((a, b) => b.updatedAtMs - a.updatedAtMs);
+
+  // An upload, or one of its cover and HLS files.
   const handleMediaRequest = async (
     req: http.IncomingMessage,
     res: http.ServerResponse,
-    asset: MediaAsset
+    asset: { filePath: string; mimeType: string }
   ): Promise<void> => {
     try {
       const stat = await fsPromises.stat(asset.filePath);
@@ -923,30 +1596,58 @@ export const createSilentDiscoManager = ({ parseJsonBody, getAuthentikHeaders }:
             : mimeToExtension[mimeType] || ".mp3";
 
           const mediaId = randomUUID();
-          const filePath = path.join(silentDiscoMediaDir, `${mediaId}${extension}`);
+          const uploadPath = path.join(silentDiscoMediaDir, `${mediaId}.upload${extension}`);
           await fsPromises.mkdir(silentDiscoMediaDir, { recursive: true });
-          await fsPromises.writeFile(filePath, buffer);
+          await fsPromises.writeFile(uploadPath, buffer);
+
+          // Done before answering, so the media URL never changes content
+          // under a listener.
+          const processed = await processUploadedAudio({
+            inputPath: uploadPath,
+            outputDir: silentDiscoMediaDir,
+            mediaId,
+          });
+          if (!processed.ok && processed.error === "audio_unreadable") {
+            await fsPromises.rm(uploadPath, { force: true });
+            respondJson(res, 422, { ok: false, error: "audio_unreadable" });
+            return;
+          }
+          if (processed.ok) await fsPromises.rm(uploadPath, { force: true });
 
-          mediaAssets.set(mediaId, {
+          const audio = processed.ok ? processed.audio : null;
+          const asset: MediaAsset = {
             id: mediaId,
-            filePath,
-            mimeType,
+            filePath: audio?.filePath ?? uploadPath,
+            mimeType: audio?.mimeType ?? mimeType,
             originalName,
-            sizeBytes: buffer.length,
+            sizeBytes: audio?.sizeBytes ?? buffer.length,
+            durationMs: audio?.durationMs ?? parseDurationMs(body?.durationMs),
+            title: audio?.title ?? null,
+            artist: audio?.artist ?? null,
+            album: audio?.album ?? null,
+            coverPath: audio?.coverPath ?? null,
+            hlsDir: audio?.hlsDir ?? null,
+            transcoded: Boolean(audio),
             uploadedByUserId: identity.userId,
             createdAt: Date.now(),
-          });
-
-          persistStateSoon();
+          };
+          mediaAssets.set(mediaId, asset);
+          // Written before answering: the response hands out its URL.
+          await saveMedia(asset);
 
           respondJson(res, 200, {
             ok: true,
             media: {
               id: mediaId,
-              url: `/api/silent-disco/media/${mediaId}`,
-              mimeType,
-              sizeBytes: buffer.length,
+              url: mediaUrl(mediaId),
+              mimeType: asset.mimeType,
+              sizeBytes: asset.sizeBytes,
               originalName,
+              durationMs: asset.durationMs,
+              title: asset.title,
+              album: asset.album,
+              transcoded: asset.transcoded,
+              ...uploadSourceDetails(asset),
             },
           });
         })
@@ -962,13 +1663,26 @@ export const createSilentDiscoManager = ({ parseJsonBody, getAuthentikHeaders }:
     }
 
     if (pathname.startsWith("/api/silent-disco/media/") && (req.method === "GET" || req.method === "HEAD")) {
-      const mediaId = decodeURIComponent(pathname.replace("/api/silent-disco/media/", "")).trim();
-      const asset = mediaAssets.get(mediaId);
-      if (!asset) {
+      // /media/:id, /media/:id/cover.jpg or /media/:id/hls/<playlist or segment>
+      const parts = pathname
+        .slice("/api/silent-disco/media/".length)
+        .split("/")
+        .map((part) => decodeURIComponent(part).trim());
+      const asset = mediaAssets.get(parts[0] || "");
+      const file = !asset
+        ? null
+        : parts.length === 1
+          ? asset
+          : parts.length === 2 && parts[1] === COVER_FILE_NAME && asset.coverPath
+            ? { filePath: asset.coverPath, mimeType: processedFileMime[".jpg"] }
+            : parts.length === 3 && parts[1] === "hls" && asset.hlsDir && isHlsFileName(parts[2])
+              ? { filePath: path.join(asset.hlsDir, parts[2]), mimeType: processedFileMime[path.extname(parts[2])] }
+              : null;
+      if (!file) {
         respondJson(res, 404, { ok: false, error: "media_not_found" });
         return true;
       }
-      void handleMediaRequest(req, res, asset);
+      void handleMediaRequest(req, res, file);
       return true;
     }
 
@@ -976,7 +1690,7 @@ export const createSilentDiscoManager = ({ parseJsonBody, getAuthentikHeaders }:
     return true;
   };
 
-  const bindSocketConnection = (io: Server, socket: Socket, authHeaders: AuthHeaders): void => {
+  const bindSocketConnection = (socket: Socket, authHeaders: AuthHeaders): void => {
     const identity = buildIdentityFromHeaders(authHeaders);
 
     const requireIdentity = (): Identity | null => {
@@ -985,7 +1699,8 @@ export const createSilentDiscoManager = ({ parseJsonBody, getAuthentikHeaders }:
       return null;
     };
 
-    socket.on("silent_disco:create_room", () => {
+    // { channels?: 1-3 }, one channel by default.
+    socket.on("silent_disco:create_room", (payload) => {
       const me = requireIdentity();
       if (!me) return;
 
@@ -994,22 +1709,21 @@ export const createSilentDiscoManager = ({ parseJsonBody, getAuthentikHeaders }:
         return;
       }
 
+      const channelCount = Math.max(1, Math.min(CHANNEL_COLORS.length, Math.trunc(Number(payload?.channels) || 1)));
       const roomCode = getOrCreateRoomCode();
       const room: SilentDiscoRoom = {
         roomCode,
         hostUserId: me.userId,
         hostDisplayName: normalizeDisplayName(me),
-        source: null,
-        playing: false,
-        positionMs: 0,
-        updatedAtMs: Date.now(),
+        channels: CHANNEL_COLORS.slice(0, channelCount).map(createChannel),
         lastTouchedAtMs: Date.now(),
+        version: 0,
+        versionWriter: "",
         members: new Map(),
+        memberChannels: new Map(),
       };
       rooms.set(roomCode, room);
-      persistStateSoon();
-
-      joinSocketToRoom(io, socket, room, me);
+      joinSocketToRoom(io, socket, room, me, room.channels[0].channelId);
       socket.emit("silent_disco:room_created", { room: roomSnapshot(room) });
     });
 
@@ -1044,12 +1758,13 @@ export const createSilentDiscoManager = ({ parseJsonBody, getAuthentikHeaders }:
           }
           room.hostUserId = me.userId;
           room.hostDisplayName = normalizeDisplayName(me);
-          markRoomTouched(room);
-          persistStateSoon();
         }
       }
 
-      joinSocketToRoom(io, socket, room, me);
+      // A channel asked for by the listener, else the first.
+      const channel =
+        room.channels.find((c) => c.channelId === normalizeChannelColor(payload?.channelId)) ?? room.channels[0];
+      joinSocketToRoom(io, socket, room, me, channel.channelId);
       socket.emit("silent_disco:joined", { room: roomSnapshot(room) });
     });
 
@@ -1058,6 +1773,17 @@ export const createSilentDiscoManager = ({ parseJsonBody, getAuthentikHeaders }:
       socket.emit("silent_disco:left", { ok: true });
     });
 
+    // Clock sync, NTP style: the client works out its offset to the server
+    // clock from its own send and receive times and the two stamps here.
+    socket.on("silent_disco:ping", (payload) => {
+      const serverReceivedAtMs = Date.now();
+      socket.emit("silent_disco:pong", {
+        clientSentAtMs: Number(payload?.clientSentAtMs) || 0,
+        serverReceivedAtMs,
+        serverSentAtMs: Date.now(),
+      });
+    });
+
     socket.on("silent_disco:request_state", (payload) => {
       const room = resolveRoomForSocket(socket, payload);
       if (!room) {
@@ -1067,7 +1793,12 @@ export const createSilentDiscoManager = ({ parseJsonBody, getAuthentikHeaders }:
       socket.emit("silent_disco:state", { room: roomSnapshot(room) });
     });
 
-    socket.on("silent_disco:set_source", (payload) => {
+    // ---- Channels ---------------------------------------------------------
+
+    const withRoomChannel = (
+      payload: any,
+      handler: (me: Identity, room: SilentDiscoRoom, channel: SilentDiscoChannel) => void
+    ) => {
       const me = requireIdentity();
       if (!me) return;
 
@@ -1077,25 +1808,57 @@ export const createSilentDiscoManager = ({ parseJsonBody, getAuthentikHeaders }:
         return;
       }
 
-      if (!ensureHostOwnership(socket, me, room)) return;
-
-      const parsed = parseSource(payload?.source ?? payload, me, mediaAssets);
-      if (!parsed.ok) {
-        socket.emit("silent_disco:error", { error: parsed.error });
+      const channel = resolveChannelForSocket(socket, room, payload);
+      if (!channel) {
+        socket.emit("silent_disco:error", { error: "channel_not_found" });
         return;
       }
+      handler(me, room, channel);
+    };
 
-      room.source = parsed.source;
-      room.playing = false;
-      room.positionMs = 0;
-      room.updatedAtMs = Date.now();
-      markRoomTouched(room);
+    // For the room host and the channel's DJ.
+    const withDjChannel = (
+      payload: any,
+      handler: (me: Identity, room: SilentDiscoRoom, channel: SilentDiscoChannel) => void
+    ) => {
+      withRoomChannel(payload, (me, room, channel) => {
+        if (!ensureChannelControl(socket, me, room, channel)) return;
+        handler(me, room, channel);
+      });
+    };
 
+    const commitRoomChange = (room: SilentDiscoRoom) => {
+      markRoomTouched(room);
       emitRoomState(io, room);
-      persistStateSoon();
+      saveRoom(room);
+    };
+
+    const emitPlaylists = (me: Identity) => {
+      socket.emit("silent_disco:playlists", { playlists: listPlaylists(me.userId) });
+    };
+
+    // Listeners move between channels freely; the room stays the same.
+    socket.on("silent_disco:switch_channel", (payload) => {
+      const me = requireIdentity();
+      if (!me) return;
+
+      const room = resolveRoomForSocket(socket, payload);
+      if (!room || socketToRoom.get(socket.id) !== room.roomCode) {
+        socket.emit("silent_disco:error", { error: "room_not_found" });
+        return;
+      }
+      const channel = room.channels.find((c) => c.channelId === normalizeChannelColor(payload?.channelId));
+      if (!channel) {
+        socket.emit("silent_disco:error", { error: "channel_not_found" });
+        return;
+      }
+      room.memberChannels.set(socket.id, channel.channelId);
+      saveMembership(room, socket.id);
+      socket.emit("silent_disco:channel", { roomCode: room.roomCode, channelId: channel.channelId });
+      commitRoomChange(room);
     });
 
-    socket.on("silent_disco:play", (payload) => {
+    socket.on("silent_disco:channel_add", (payload) => {
       const me = requireIdentity();
       if (!me) return;
 
@@ -1104,23 +1867,19 @@ export const createSilentDiscoManager = ({ parseJsonBody, getAuthentikHeaders }:
         socket.emit("silent_disco:error", { error: "room_not_found" });
         return;
       }
-
       if (!ensureHostOwnership(socket, me, room)) return;
-      if (!room.source) {
-        socket.emit("silent_disco:error", { error: "source_missing" });
+
+      const color = CHANNEL_COLORS.find((c) => !room.channels.some((channel) => channel.channelId === c));
+      if (!color) {
+        socket.emit("silent_disco:error", { error: "too_many_channels" });
         return;
       }
-
-      room.positionMs = clampPositionMs(payload?.positionMs ?? estimateCurrentPositionMs(room));
-      room.playing = true;
-      room.updatedAtMs = Date.now();
-      markRoomTouched(room);
-
-      emitRoomState(io, room);
-      persistStateSoon();
+      room.channels.push(createChannel(color));
+      commitRoomChange(room);
     });
 
-    socket.on("silent_disco:pause", (payload) => {
+    // Its listeners go over to the first channel.
+    socket.on("silent_disco:channel_remove", (payload) => {
       const me = requireIdentity();
       if (!me) return;
 
@@ -1129,19 +1888,32 @@ export const createSilentDiscoManager = ({ parseJsonBody, getAuthentikHeaders }:
         socket.emit("silent_disco:error", { error: "room_not_found" });
         return;
       }
-
       if (!ensureHostOwnership(socket, me, room)) return;
 
-      room.positionMs = clampPositionMs(payload?.positionMs ?? estimateCurrentPositionMs(room));
-      room.playing = false;
-      room.updatedAtMs = Date.now();
-      markRoomTouched(room);
-
-      emitRoomState(io, room);
-      persistStateSoon();
+      const channel = room.channels.find((c) => c.channelId === normalizeChannelColor(payload?.channelId));
+      if (!channel) {
+        socket.emit("silent_disco:error", { error: "channel_not_found" });
+        return;
+      }
+      if (room.channels.length <= 1) {
+        socket.emit("silent_disco:error", { error: "last_channel" });
+        return;
+      }
+      clearAdvanceTimer(room.roomCode, channel.channelId);
+      room.channels = room.channels.filter((c) => c !== channel);
+      const fallbackId = room.channels[0].channelId;
+      for (const [socketId, channelId] of room.memberChannels.entries()) {
+        if (channelId !== channel.channelId) continue;
+        room.memberChannels.set(socketId, fallbackId);
+        saveMembership(room, socketId);
+        io.to(socketId).emit("silent_disco:channel", { roomCode: room.roomCode, channelId: fallbackId });
+      }
+      commitRoomChange(room);
     });
 
-    socket.on("silent_disco:seek", (payload) => {
+    // The room host hands a channel to a co-host who is in the room, or takes
+    // it back with `userId: null`.
+    socket.on("silent_disco:set_dj", (payload) => {
       const me = requireIdentity();
       if (!me) return;
 
@@ -1150,15 +1922,362 @@ export const createSilentDiscoManager = ({ parseJsonBody, getAuthentikHeaders }:
         socket.emit("silent_disco:error", { error: "room_not_found" });
         return;
       }
-
       if (!ensureHostOwnership(socket, me, room)) return;
 
-      room.positionMs = clampPositionMs(payload?.positionMs);
-      room.updatedAtMs = Date.now();
-      markRoomTouched(room);
+      const channel = room.channels.find((c) => c.channelId === normalizeChannelColor(payload?.channelId));
+      if (!channel) {
+        socket.emit("silent_disco:error", { error: "channel_not_found" });
+        return;
+      }
+      const userId = String(payload?.userId || "").trim();
+      if (!userId) {
+        channel.djUserId = null;
+        channel.djDisplayName = null;
+      } else {
+        const dj = Array.from(room.members.values()).find((member) => member.userId === userId);
+        if (!dj) {
+          socket.emit("silent_disco:error", { error: "dj_not_in_room" });
+          return;
+        }
+        channel.djUserId = dj.userId;
+        channel.djDisplayName = normalizeDisplayName(dj);
+      }
+      commitRoomChange(room);
+    });
 
-      emitRoomState(io, room);
-      persistStateSoon();
+    // ---- Playback ---------------------------------------------------------
+
+    socket.on("silent_disco:set_source", (payload) => {
+      withDjChannel(payload, (me, room, channel) => {
+        const parsed = parseSource(payload?.source ?? payload, me, mediaAssets);
+        if (!parsed.ok) {
+          socket.emit("silent_disco:error", { error: parsed.error });
+          return;
+        }
+
+        channel.source = parsed.source;
+        channel.durationMs = resolveDurationMs(parsed.source, payload?.durationMs ?? payload?.source?.durationMs);
+        channel.currentItemId = null;
+        channel.playing = false;
+        channel.positionMs = 0;
+        channel.updatedAtMs = Date.now();
+        commitRoomChange(room);
+      });
+    });
+
+    socket.on("silent_disco:play", (payload) => {
+      withDjChannel(payload, (_me, room, channel) => {
+        if (!channel.source) {
+          socket.emit("silent_disco:error", { error: "source_missing" });
+          return;
+        }
+
+        channel.positionMs = clampPositionMs(payload?.positionMs ?? estimateCurrentPositionMs(channel));
+        channel.playing = true;
+        channel.updatedAtMs = Date.now();
+        commitRoomChange(room);
+      });
+    });
+
+    socket.on("silent_disco:pause", (payload) => {
+      withDjChannel(payload, (_me, room, channel) => {
+        channel.positionMs = clampPositionMs(payload?.positionMs ?? estimateCurrentPositionMs(channel));
+        channel.playing = false;
+        channel.updatedAtMs = Date.now();
+        commitRoomChange(room);
+      });
+    });
+
+    socket.on("silent_disco:seek", (payload) => {
+      withDjChannel(payload, (_me, room, channel) => {
+        channel.positionMs = clampPositionMs(payload?.positionMs);
+        channel.updatedAtMs = Date.now();
+        commitRoomChange(room);
+      });
+    });
+
+    // ---- Queue ------------------------------------------------------------
+
+    socket.on("silent_disco:queue_add", (payload) => {
+      withDjChannel(payload, (me, room, channel) => {
+        if (channel.queue.length >= MAX_QUEUE_ITEMS) {
+          socket.emit("silent_disco:error", { error: "queue_full" });
+          return;
+        }
+        const parsed = parseSource(payload?.source ?? payload, me, mediaAssets);
+        if (!parsed.ok) {
+          socket.emit("silent_disco:error", { error: parsed.error });
+          return;
+        }
+        enqueue(
+          channel,
+          {
+            itemId: randomUUID(),
+            source: parsed.source,
+            durationMs: resolveDurationMs(parsed.source, payload?.durationMs),
+            addedByUserId: me.userId,
+          },
+          payload?.next === true
+        );
+        commitRoomChange(room);
+      });
+    });
+
+    // Removing the current track moves on to the one after it.
+    socket.on("silent_disco:queue_remove", (payload) => {
+      withDjChannel(payload, (_me, room, channel) => {
+        const index = channel.queue.findIndex((item) => item.itemId === String(payload?.itemId || ""));
+        if (index < 0) {
+          socket.emit("silent_disco:error", { error: "queue_item_not_found" });
+          return;
+        }
+        const [removed] = channel.queue.splice(index, 1);
+        if (removed.itemId === channel.currentItemId) {
+          loadQueueItem(channel, channel.queue[index] ?? null, channel.playing);
+        }
+        commitRoomChange(room);
+      });
+    });
+
+    socket.on("silent_disco:queue_move", (payload) => {
+      withDjChannel(payload, (_me, room, channel) => {
+        const index = channel.queue.findIndex((item) => item.itemId === String(payload?.itemId || ""));
+        const toIndex = Math.trunc(Number(payload?.toIndex));
+        if (index < 0) {
+          socket.emit("silent_disco:error", { error: "queue_item_not_found" });
+          return;
+        }
+        if (!Number.isFinite(toIndex)) {
+          socket.emit("silent_disco:error", { error: "invalid_queue_index" });
+          return;
+        }
+        const [item] = channel.queue.splice(index, 1);
+        channel.queue.splice(Math.max(0, Math.min(channel.queue.length, toIndex)), 0, item);
+        commitRoomChange(room);
+      });
+    });
+
+    // Shuffles what is left to play; the current track stays where it is.
+    socket.on("silent_disco:queue_shuffle", (payload) => {
+      withDjChannel(payload, (_me, room, channel) => {
+        const index = channel.queue.findIndex((item) => item.itemId === channel.currentItemId);
+        channel.queue = [...channel.queue.slice(0, index + 1), ...shuffleInPlace(channel.queue.slice(index + 1))];
+        commitRoomChange(room);
+      });
+    });
+
+    socket.on("silent_disco:set_repeat", (payload) => {
+      withDjChannel(payload, (_me, room, channel) => {
+        const repeat = normalizeRepeatMode(payload?.repeat);
+        if (!repeat) {
+          socket.emit("silent_disco:error", { error: "invalid_repeat_mode" });
+          return;
+        }
+        channel.repeat = repeat;
+        commitRoomChange(room);
+      });
+    });
+
+    socket.on("silent_disco:play_item", (payload) => {
+      withDjChannel(payload, (_me, room, channel) => {
+        const item = channel.queue.find((queued) => queued.itemId === String(payload?.itemId || ""));
+        if (!item) {
+          socket.emit("silent_disco:error", { error: "queue_item_not_found" });
+          return;
+        }
+        loadQueueItem(channel, item, true);
+        commitRoomChange(room);
+      });
+    });
+
+    // Skipping keeps the channel playing or paused as it was.
+    socket.on("silent_disco:next", (payload) => {
+      withDjChannel(payload, (_me, room, channel) => {
+        const next = neighbourQueueItem(channel, 1, channel.repeat !== "off");
+        if (!next) {
+          socket.emit("silent_disco:error", { error: "queue_end" });
+          return;
+        }
+        loadQueueItem(channel, next, channel.playing);
+        commitRoomChange(room);
+      });
+    });
+
+    socket.on("silent_disco:previous", (payload) => {
+      withDjChannel(payload, (_me, room, channel) => {
+        const previous = neighbourQueueItem(channel, -1, channel.repeat !== "off");
+        if (!previous || estimateCurrentPositionMs(channel) > PREVIOUS_TRACK_RESTART_MS) {
+          channel.positionMs = 0;
+          channel.updatedAtMs = Date.now();
+        } else {
+          loadQueueItem(channel, previous, channel.playing);
+        }
+        commitRoomChange(room);
+      });
+    });
+
+    // ---- Suggestions ------------------------------------------------------
+
+    // Anyone in the room may suggest a track to a channel; it waits for the DJ.
+    socket.on("silent_disco:suggest", (payload) => {
+      withRoomChannel(payload, (me, room, channel) => {
+        if (socketToRoom.get(socket.id) !== room.roomCode) {
+          socket.emit("silent_disco:error", { error: "room_not_found" });
+          return;
+        }
+        if (
+          channel.suggestions.length >= MAX_ROOM_SUGGESTIONS ||
+          channel.suggestions.filter((s) => s.suggestedByUserId === me.userId).length >= MAX_PENDING_SUGGESTIONS_PER_USER
+        ) {
+          socket.emit("silent_disco:error", { error: "too_many_suggestions" });
+          return;
+        }
+        const parsed = parseSource(payload?.source ?? payload, me, mediaAssets);
+        if (!parsed.ok) {
+          socket.emit("silent_disco:error", { error: parsed.error });
+          return;
+        }
+        channel.suggestions.push({
+          suggestionId: randomUUID(),
+          source: parsed.source,
+          durationMs: resolveDurationMs(parsed.source, payload?.durationMs),
+          suggestedByUserId: me.userId,
+          suggestedByDisplayName: normalizeDisplayName(me),
+          createdAtMs: Date.now(),
+        });
+        commitRoomChange(room);
+      });
+    });
+
+    socket.on("silent_disco:suggestion_approve", (payload) => {
+      withDjChannel(payload, (me, room, channel) => {
+        const index = channel.suggestions.findIndex((s) => s.suggestionId === String(payload?.suggestionId || ""));
+        if (index < 0) {
+          socket.emit("silent_disco:error", { error: "suggestion_not_found" });
+          return;
+        }
+        if (channel.queue.length >= MAX_QUEUE_ITEMS) {
+          socket.emit("silent_disco:error", { error: "queue_full" });
+          return;
+        }
+        const [suggestion] = channel.suggestions.splice(index, 1);
+        enqueue(
+          channel,
+          {
+            itemId: randomUUID(),
+            source: suggestion.source,
+            durationMs: suggestion.durationMs,
+            addedByUserId: me.userId,
+          },
+          payload?.next === true
+        );
+        commitRoomChange(room);
+      });
+    });
+
+    // The DJ rejects; whoever suggested it may also take it back.
+    socket.on("silent_disco:suggestion_reject", (payload) => {
+      withRoomChannel(payload, (me, room, channel) => {
+        const index = channel.suggestions.findIndex((s) => s.suggestionId === String(payload?.suggestionId || ""));
+        if (index < 0) {
+          socket.emit("silent_disco:error", { error: "suggestion_not_found" });
+          return;
+        }
+        if (
+          channel.suggestions[index].suggestedByUserId !== me.userId &&
+          !ensureChannelControl(socket, me, room, channel)
+        ) {
+          return;
+        }
+        channel.suggestions.splice(index, 1);
+        commitRoomChange(room);
+      });
+    });
+
+    // ---- Playlists --------------------------------------------------------
+
+    socket.on("silent_disco:playlists_request", () => {
+      const me = requireIdentity();
+      if (!me) return;
+      emitPlaylists(me);
+    });
+
+    // Any listener can keep a channel's queue as a playlist of their own.
+    // With the id of one of theirs it is overwritten.
+    socket.on("silent_disco:playlist_save", (payload) => {
+      withRoomChannel(payload, (me, _room, channel) => {
+        if (!channel.queue.length) {
+          socket.emit("silent_disco:error", { error: "queue_empty" });
+          return;
+        }
+        const name = normalizePlaylistName(payload?.name);
+        if (!name) {
+          socket.emit("silent_disco:error", { error: "playlist_name_required" });
+          return;
+        }
+        const existing = playlists.get(String(payload?.playlistId || ""));
+        if (existing && existing.ownerUserId !== me.userId) {
+          socket.emit("silent_disco:error", { error: "playlist_not_found" });
+          return;
+        }
+        if (!existing && listPlaylists(me.userId).length >= MAX_PLAYLISTS_PER_USER) {
+          socket.emit("silent_disco:error", { error: "too_many_playlists" });
+          return;
+        }
+        const now = Date.now();
+        const playlist: Playlist = {
+          playlistId: existing?.playlistId ?? randomUUID(),
+          ownerUserId: me.userId,
+          name,
+          tracks: channel.queue.map((item) => ({ source: item.source, durationMs: item.durationMs })),
+          createdAtMs: existing?.createdAtMs ?? now,
+          updatedAtMs: now,
+        };
+        playlists.set(playlist.playlistId, playlist);
+        savePlaylist(playlist);
+        socket.emit("silent_disco:playlist_saved", { playlist });
+        emitPlaylists(me);
+      });
+    });
+
+    // The DJ's own playlists only. `replace` starts over with the playlist,
+    // otherwise it goes at the end of the queue.
+    socket.on("silent_disco:playlist_load", (payload) => {
+      withDjChannel(payload, (me, room, channel) => {
+        const playlist = playlists.get(String(payload?.playlistId || ""));
+        if (!playlist || playlist.ownerUserId !== me.userId) {
+          socket.emit("silent_disco:error", { error: "playlist_not_found" });
+          return;
+        }
+        const items: QueueItem[] = playlist.tracks.map((track) => ({
+          itemId: randomUUID(),
+          source: { ...track.source, setByUserId: me.userId },
+          durationMs: track.durationMs,
+          addedByUserId: me.userId,
+        }));
+        if (payload?.replace === true) {
+          channel.queue = items.slice(0, MAX_QUEUE_ITEMS);
+          loadQueueItem(channel, channel.queue[0] ?? null, false);
+        } else {
+          for (const item of items.slice(0, Math.max(0, MAX_QUEUE_ITEMS - channel.queue.length))) {
+            enqueue(channel, item, false);
+          }
+        }
+        commitRoomChange(room);
+      });
+    });
+
+    socket.on("silent_disco:playlist_delete", (payload) => {
+      const me = requireIdentity();
+      if (!me) return;
+
+      const playlist = playlists.get(String(payload?.playlistId || ""));
+      if (!playlist || playlist.ownerUserId !== me.userId) {
+        socket.emit("silent_disco:error", { error: "playlist_not_found" });
+        return;
+      }
+      removePlaylist(playlist);
+      emitPlaylists(me);
     });
 
     socket.on("disconnect", () => {
@@ -1166,12 +2285,19 @@ export const createSilentDiscoManager = ({ parseJsonBody, getAuthentikHeaders }:
     });
   };
 
-  hydratePersistedState();
-  void cleanupStaleData(true);
+  void hydratePersistedState().then(() => cleanupStaleData(true));
   startCleanupLoop();
 
+  // Lets other features (the MUSIC stage) reference uploaded tracks by id.
+  const getMediaAsset = (mediaId: string): Pick<MediaAsset, "id" | "mimeType" | "originalName"> | null => {
+    const asset = mediaAssets.get(String(mediaId || "").trim());
+    if (!asset) return null;
+    return { id: asset.id, mimeType: asset.mimeType, originalName: asset.originalName };
+  };
+
   return {
     handleHttpRequest,
     bindSocketConnection,
+    getMediaAsset,
   };
 };
@@ -0,0 +1,262 @@
+import fsPromises from "node:fs/promises";
+import path from "node:path";
+import { spawn } from "node:child_process";
+
+// Uploads are played on phones, often on mobile data, so they are not served
+// as uploaded: ffmpeg turns every file into AAC at one bitrate with the
+// loudness normalized (EBU R128, one pass), and optionally cuts it into HLS
+// segments so a late joiner only fetches the few seconds it starts at.
+// Without ffmpeg (local dev) the upload is kept as it is.
+
+export type ProcessedAudio = {
+  filePath: string;
+  mimeType: string;
+  sizeBytes: number;
+  durationMs: number | null;
+  title: string | null;
+  artist: string | null;
+  album: string | null;
+  coverPath: string | null;
+  hlsDir: string | null;
+};
+
+export type AudioProcessingResult =
+  | { ok: true; audio: ProcessedAudio }
+  | { ok: false; error: "ffmpeg_unavailable" | "audio_unreadable" };
+
+type AudioProbe = {
+  durationMs: number | null;
+  title: string | null;
+  artist: string | null;
+  album: string | null;
+  hasCover: boolean;
+};
+
+const FFMPEG_PATH = String(process.env.SILENT_DISCO_FFMPEG_PATH || "ffmpeg").trim();
+const FFPROBE_PATH = String(process.env.SILENT_DISCO_FFPROBE_PATH || "ffprobe").trim();
+const AUDIO_BITRATE = String(process.env.SILENT_DISCO_AUDIO_BITRATE || "160k").trim();
+const LOUDNESS_TARGET_LUFS = Math.max(-30, Math.min(-5, Number(process.env.SILENT_DISCO_LOUDNESS_LUFS || -14)));
+const HLS_ENABLED = String(process.env.SILENT_DISCO_HLS ?? "1").trim() !== "0";
+const HLS_SEGMENT_SECONDS = 6;
+const COVER_MAX_SIZE = 600;
+const FFMPEG_TIMEOUT_MS = 5 * 60_000;
+const FFPROBE_TIMEOUT_MS = 60_000;
+
+export const HLS_PLAYLIST_NAME = "index.m3u8";
+export const COVER_FILE_NAME = "cover.jpg";
+
+export const processedFileMime: Record<string, string> = {
+  ".m3u8": "application/vnd.apple.mpegurl",
+  ".ts": "video/mp2t",
+  ".jpg": "image/jpeg",
+};
+
+// Names ffmpeg gives the HLS files; nothing else is served from an HLS dir.
+export const isHlsFileName = (name: string) => name === HLS_PLAYLIST_NAME || /^segment\d{3,5}\.ts$/.test(name);
+
+const runTool = (command: string, args: string[], timeoutMs: number): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ["ignore", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+    child.stdout.on("data", (chunk) => {
+      stdout += chunk;
+    });
+    child.stderr.on("data", (chunk) => {
+      stderr = (stderr + chunk).slice(-4000);
+    });
+    const timer = setTimeout(() => child.kill("SIGKILL"), timeoutMs);
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    child.on("close", (code, signal) => {
+      clearTimeout(timer);
+      if (code === 0) resolve(stdout);
+      else reject(new Error(`${path.basename(command)} failed (${code ?? signal}): ${stderr.trim().split("\n").at(-1) ?? ""}`));
+    });
+  });
+
+let warnedUnavailable = false;
+const ffmpegUnavailable = (): AudioProcessingResult => {
+  if (!warnedUnavailable) {
+    warnedUnavailable = true;
+    console.warn("[silent-disco] ffmpeg/ffprobe not found; uploads are stored as uploaded");
+  }
+  return { ok: false, error: "ffmpeg_unavailable" };
+};
+
+// One file at a time: transcoding takes a whole core.
+let jobs: Promise<unknown> = Promise.resolve();
+const runExclusive = <T>(job: () => Promise<T>): Promise<T> => {
+  const run = jobs.then(job, job);
+  jobs = run.catch(() => undefined);
+  return run;
+};
+
+const readTag = (tags: Record<string, string>, ...names: string[]): string | null => {
+  for (const name of names) {
+    const value = String(tags[name] ?? "").trim();
+    if (value) return value.slice(0, 140);
+  }
+  return null;
+};
+
+const probeAudio = async (filePath: string): Promise<AudioProbe> => {
+  const output = await runTool(
+    FFPROBE_PATH,
+    ["-v", "error", "-print_format", "json", "-show_format", "-show_streams", filePath],
+    FFPROBE_TIMEOUT_MS
+  );
+  const data = JSON.parse(output);
+  const streams: any[] = Array.isArray(data?.streams) ? data.streams : [];
+  const audioStream = streams.find((stream) => stream?.codec_type === "audio");
+  if (!audioStream) throw new Error("no_audio_stream");
+
+  // ID3 (MP3), Vorbis comments (FLAC/OGG) and MP4 atoms all end up here,
+  // in whatever case the format uses.
+  const tags: Record<string, string> = {};
+  for (const source of [audioStream.tags, data?.format?.tags]) {
+    for (const [key, value] of Object.entries(source ?? {})) {
+      if (!(key.toLowerCase() in tags)) tags[key.toLowerCase()] = String(value);
+    }
+  }
+  const seconds = Number(data?.format?.duration ?? audioStream.duration);
+  return {
+    durationMs: Number.isFinite(seconds) && seconds > 0 ? Math.round(seconds * 1000) : null,
+    title: readTag(tags, "title"),
+    artist: readTag(tags, "artist", "album_artist", "albumartist"),
+    album: readTag(tags, "album"),
+    hasCover: streams.some((stream) => stream?.codec_type === "video" && stream?.disposition?.attached_pic === 1),
+  };
+};
+
+// Everything for `mediaId` goes next to the input in `outputDir`; the input
+// itself is left for the caller.
+export const processUploadedAudio = (params: {
+  inputPath: string;
+  outputDir: string;
+  mediaId: string;
+}): Promise<AudioProcessingResult> =>
+  runExclusive(async () => {
+    let probe: AudioProbe;
+    try {
+      probe = await probeAudio(params.inputPath);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException)?.code === "ENOENT") return ffmpegUnavailable();
+      return { ok: false, error: "audio_unreadable" };
+    }
+
+    const filePath = path.join(params.outputDir, `${params.mediaId}.m4a`);
+    try {
+      await runTool(
+        FFMPEG_PATH,
+        [
+          "-hide_banner",
+          "-y",
+          "-i",
+          params.inputPath,
+          "-map",
+          "0:a:0",
+          "-vn",
+          "-map_metadata",
+          "-1",
+          "-af",
+          `loudnorm=I=${LOUDNESS_TARGET_LUFS}:TP=-1.5:LRA=11`,
+          "-ar",
+          "48000",
+          "-ac",
+          "2",
+          "-c:a",
+          "aac",
+          "-b:a",
+          AUDIO_BITRATE,
+          "-movflags",
+          "+faststart",
+          filePath,
+        ],
+        FFMPEG_TIMEOUT_MS
+      );
+    } catch (err) {
+      await fsPromises.rm(filePath, { force: true });
+      if ((err as NodeJS.ErrnoException)?.code === "ENOENT") return ffmpegUnavailable();
+      return { ok: false, error: "audio_unreadable" };
+    }
+
+    // Cover and HLS are extras: the track plays without them.
+    let coverPath: string | null = null;
+    if (probe.hasCover) {
+      const target = path.join(params.outputDir, `${params.mediaId}.${COVER_FILE_NAME}`);
+      try {
+        await runTool(
+          FFMPEG_PATH,
+          [
+            "-hide_banner",
+            "-y",
+            "-i",
+            params.inputPath,
+            "-map",
+            "0:v:0",
+            "-an",
+            "-frames:v",
+            "1",
+            "-vf",
+            `scale='min(${COVER_MAX_SIZE},iw)':-1`,
+            target,
+          ],
+          FFPROBE_TIMEOUT_MS
+        );
+        coverPath = target;
+      } catch {
+        await fsPromises.rm(target, { force: true });
+      }
+    }
+
+    let hlsDir: string | null = null;
+    if (HLS_ENABLED) {
+      const target = path.join(params.outputDir, `${params.mediaId}.hls`);
+      try {
+        await fsPromises.mkdir(target, { recursive: true });
+        await runTool(
+          FFMPEG_PATH,
+          [
+            "-hide_banner",
+            "-y",
+            "-i",
+            filePath,
+            "-c:a",
+            "copy",
+            "-f",
+            "hls",
+            "-hls_time",
+            String(HLS_SEGMENT_SECONDS),
+            "-hls_playlist_type",
+            "vod",
+            "-hls_segment_filename",
+            path.join(target, "segment%03d.ts"),
+            path.join(target, HLS_PLAYLIST_NAME),
+          ],
+          FFMPEG_TIMEOUT_MS
+        );
+        hlsDir = target;
+      } catch {
+        await fsPromises.rm(target, { recursive: true, force: true });
+      }
+    }
+
+    const stat = await fsPromises.stat(filePath);
+    return {
+      ok: true,
+      audio: {
+        filePath,
+        mimeType: "audio/mp4",
+        sizeBytes: stat.size,
+        durationMs: probe.durationMs,
+        title: probe.title,
+        artist: probe.artist,
+        album: probe.album,
+        coverPath,
+        hlsDir,
+      },
+    };
+  });
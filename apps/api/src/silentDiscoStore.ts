@@ -0,0 +1,174 @@
+import pool from "./db/pool";
+import { getRedis } from "./db/redis";
+import type { MediaAsset, PersistedMember, PersistedRoom, Playlist } from "./silentDisco";
+
+// Where Silent Disco keeps what outlives a process: rooms (channels and
+// queues as JSON), uploads and playlists in Postgres, and who is in a room
+// right now in Redis, one hash per room keyed by socket id. Each API replica
+// keeps a copy in memory; these are written on every change and read at start.
+
+const membersKey = (roomCode: string) => `chkn:silent-disco:members:${roomCode}`;
+
+const advanceKey = (turn: string) => `chkn:silent-disco:advance:${turn}`;
+
+// A row is only replaced by a newer version of the room, so a replica that
+// lost a tie (or writes late) cannot put an older room back.
+export const saveSilentDiscoRoom = async (room: PersistedRoom): Promise<void> => {
+  const sql = `
+    INSERT INTO silent_disco_rooms (room_code, host_user_id, state_json, version, version_writer,
+      last_touched_at, updated_at)
+    VALUES ($1, $2, $3, $4, $5, to_timestamp($6 / 1000.0), NOW())
+    ON CONFLICT (room_code)
+    DO UPDATE SET host_user_id = EXCLUDED.host_user_id, state_json = EXCLUDED.state_json,
+      version = EXCLUDED.version, version_writer = EXCLUDED.version_writer,
+      last_touched_at = EXCLUDED.last_touched_at, updated_at = NOW()
+    WHERE (silent_disco_rooms.version, silent_disco_rooms.version_writer COLLATE "C")
+      < (EXCLUDED.version, EXCLUDED.version_writer COLLATE "C")`;
+  await pool.query(sql, [
+    room.roomCode,
+    room.hostUserId,
+    room,
+    room.version,
+    room.versionWriter,
+    room.lastTouchedAtMs,
+  ]);
+};
+
+export const deleteSilentDiscoRoom = async (roomCode: string): Promise<void> => {
+  await pool.query(`DELETE FROM silent_disco_rooms WHERE room_code = $1`, [roomCode]);
+};
+
+// Parsed by the caller, like the JSON file it replaces.
+export const loadSilentDiscoRooms = async (): Promise<unknown[]> => {
+  const res = await pool.query(`SELECT state_json FROM silent_disco_rooms`);
+  return res.rows.map((row) => row.state_json);
+};
+
+export const saveSilentDiscoMedia = async (asset: MediaAsset): Promise<void> => {
+  const sql = `
+    INSERT INTO silent_disco_media (media_id, file_path, mime_type, original_name, size_bytes, duration_ms,
+      title, artist, album, cover_path, hls_dir, transcoded, uploaded_by, created_at)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, to_timestamp($14 / 1000.0))
+    ON CONFLICT (media_id) DO NOTHING`;
+  await pool.query(sql, [
+    asset.id,
+    asset.filePath,
+    asset.mimeType,
+    asset.originalName,
+    asset.sizeBytes,
+    asset.durationMs,
+    asset.title,
+    asset.artist,
+    asset.album,
+    asset.coverPath,
+    asset.hlsDir,
+    asset.transcoded,
+    asset.uploadedByUserId,
+    asset.createdAt,
+  ]);
+};
+
+export const deleteSilentDiscoMedia = async (mediaId: string): Promise<void> => {
+  await pool.query(`DELETE FROM silent_disco_media WHERE media_id = $1`, [mediaId]);
+};
+
+export const loadSilentDiscoMedia = async (): Promise<MediaAsset[]> => {
+  const sql = `
+    SELECT media_id, file_path, mime_type, original_name, size_bytes, duration_ms, title, artist, album,
+      cover_path, hls_dir, transcoded, uploaded_by, EXTRACT(EPOCH FROM created_at) * 1000 AS created_at_ms
+    FROM silent_disco_media`;
+  const res = await pool.query(sql);
+  return res.rows.map((row) => ({
+    id: String(row.media_id),
+    filePath: String(row.file_path),
+    mimeType: String(row.mime_type),
+    originalName: String(row.original_name),
+    sizeBytes: Number(row.size_bytes),
+    durationMs: row.duration_ms === null ? null : Number(row.duration_ms),
+    title: row.title,
+    artist: row.artist,
+    album: row.album,
+    coverPath: row.cover_path,
+    hlsDir: row.hls_dir,
+    transcoded: row.transcoded === true,
+    uploadedByUserId: String(row.uploaded_by),
+    createdAt: Math.round(Number(row.created_at_ms)),
+  }));
+};
+
+export const saveSilentDiscoPlaylist = async (playlist: Playlist): Promise<void> => {
+  const sql = `
+    INSERT INTO silent_disco_playlists (playlist_id, owner_user_id, name, tracks, created_at, updated_at)
+    VALUES ($1, $2, $3, $4, to_timestamp($5 / 1000.0), to_timestamp($6 / 1000.0))
+    ON CONFLICT (playlist_id)
+    DO UPDATE SET name = EXCLUDED.name, tracks = EXCLUDED.tracks, updated_at = EXCLUDED.updated_at`;
+  await pool.query(sql, [
+    playlist.playlistId,
+    playlist.ownerUserId,
+    playlist.name,
+    JSON.stringify(playlist.tracks),
+    playlist.createdAtMs,
+    playlist.updatedAtMs,
+  ]);
+};
+
+export const deleteSilentDiscoPlaylist = async (playlistId: string): Promise<void> => {
+  await pool.query(`DELETE FROM silent_disco_playlists WHERE playlist_id = $1`, [playlistId]);
+};
+
+export const loadSilentDiscoPlaylists = async (): Promise<Playlist[]> => {
+  const sql = `
+    SELECT playlist_id, owner_user_id, name, tracks,
+      EXTRACT(EPOCH FROM created_at) * 1000 AS created_at_ms,
+      EXTRACT(EPOCH FROM updated_at) * 1000 AS updated_at_ms
+    FROM silent_disco_playlists`;
+  const res = await pool.query(sql);
+  return res.rows.map((row) => ({
+    playlistId: String(row.playlist_id),
+    ownerUserId: String(row.owner_user_id),
+    name: String(row.name),
+    tracks: row.tracks,
+    createdAtMs: Math.round(Number(row.created_at_ms)),
+    updatedAtMs: Math.round(Number(row.updated_at_ms)),
+  }));
+};
+
+// The hash lives as long as an idle room; every join renews it.
+export const saveSilentDiscoMember = async (
+  roomCode: string,
+  member: PersistedMember,
+  ttlSec: number
+): Promise<void> => {
+  const client = await getRedis();
+  await client.hSet(membersKey(roomCode), member.socketId, JSON.stringify(member));
+  await client.expire(membersKey(roomCode), ttlSec);
+};
+
+export const deleteSilentDiscoMember = async (roomCode: string, socketId: string): Promise<void> => {
+  const client = await getRedis();
+  await client.hDel(membersKey(roomCode), socketId);
+};
+
+export const deleteSilentDiscoMembers = async (roomCode: string): Promise<void> => {
+  const client = await getRedis();
+  await client.del(membersKey(roomCode));
+};
+
+// True for the one replica that gets to move a channel on at the end of a
+// track; the key lets go by itself in case that replica dies.
+export const claimSilentDiscoAdvance = async (turn: string, ttlMs: number): Promise<boolean> => {
+  const client = await getRedis();
+  return (await client.set(advanceKey(turn), "1", { NX: true, PX: ttlMs })) === "OK";
+};
+
+export const loadSilentDiscoMembers = async (roomCode: string): Promise<unknown[]> => {
+  const client = await getRedis();
+  const entries = await client.hGetAll(membersKey(roomCode));
+  return Object.values(entries).flatMap((raw) => {
+    try {
+      return [JSON.parse(raw)];
+    } catch {
+      return [];
+    }
+  });
+};
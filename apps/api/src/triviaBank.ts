@@ -0,0 +1,50 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import type { TriviaPool } from "../../../packages/game-engine/trivia";
+import { mergeTriviaBanks, parseTriviaBank, type TriviaBank } from "../../../packages/game-engine/triviaBank";
+
+const triviaBankDir = path.resolve(
+  (process.env.TRIVIA_BANK_DIR || "").trim() || fileURLToPath(new URL("../trivia", import.meta.url))
+);
+
+// Reads every *.json bank in the directory (sorted by name so overrides are
+// predictable). Invalid banks are skipped with a log line, never fatal.
+export const loadTriviaBanks = async (dir = triviaBankDir): Promise<TriviaBank[]> => {
+  let files: string[] = [];
+  try {
+    files = (await fs.readdir(dir)).filter((name) => name.endsWith(".json")).sort();
+  } catch (err) {
+    console.error("[trivia] bank dir unreadable:", dir, (err as Error)?.message || err);
+    return [];
+  }
+  const banks: TriviaBank[] = [];
+  for (const file of files) {
+    const filePath = path.join(dir, file);
+    try {
+      const raw = JSON.parse(await fs.readFile(filePath, "utf8"));
+      const parsed = parseTriviaBank(raw);
+      if (!parsed.ok) {
+        console.error(`[trivia] invalid bank ${file}: ${parsed.error}`);
+        continue;
+      }
+      banks.push(parsed.bank);
+    } catch (err) {
+      console.error(`[trivia] failed to read bank ${file}:`, (err as Error)?.message || err);
+    }
+  }
+  return banks;
+};
+
+let triviaPoolPromise: Promise<TriviaPool> | null = null;
+
+export const getTriviaBankPool = (): Promise<TriviaPool> => {
+  if (!triviaPoolPromise) {
+    triviaPoolPromise = loadTriviaBanks().then((banks) => {
+      const pool = mergeTriviaBanks(banks);
+      console.log(`[trivia] loaded ${banks.length} bank(s), ${pool.questions.length} questions`);
+      return pool;
+    });
+  }
+  return triviaPoolPromise;
+};
@@ -0,0 +1,167 @@
+import type { TriviaCategory, TriviaLevel, TriviaQuestion } from "../../../packages/game-engine/trivia";
+import { ASTRO_SIGN_SV, CHINESE_ZODIAC_SV, HUMAN_DESIGN_SV } from "./chartLabels";
+
+export type TriviaProfilePlayer = {
+  userId: string;
+  displayName: string;
+  // Latest profile_insights row (summary_json is what we read).
+  insights: { summary_json?: any } | null;
+};
+
+type ProfileTrait = {
+  key: string;
+  level: TriviaLevel;
+  read: (summary: any) => string | null;
+  options: string[];
+  labels: Record<string, string>;
+  whose: (sv: string, en: string) => [string, string];
+  which: (nameSv: string, nameEn: string) => [string, string];
+};
+
+export const PROFILE_TRIVIA_CATEGORY: TriviaCategory = {
+  id: "crew_charts",
+  label: { sv: "Gängets kartor", en: "The crew's charts" },
+  personal: true,
+};
+
+const SIGNS = Object.keys(ASTRO_SIGN_SV);
+const ANIMALS = Object.keys(CHINESE_ZODIAC_SV);
+const HD_TYPES = ["Manifestor", "Generator", "Manifesting Generator", "Projector", "Reflector"];
+const HD_AUTHORITIES = Object.keys(HUMAN_DESIGN_SV).filter((key) => key.endsWith("Authority"));
+
+const cleanValue = (value: unknown): string | null => {
+  const raw = typeof value === "string" ? value.trim() : "";
+  return raw || null;
+};
+
+// Swedish genitive: "Kim" -> "Kims", "Lars" -> "Lars".
+const genitiveSv = (name: string): string => (/[sxz]$/i.test(name) ? name : `${name}s`);
+
+const traits: ProfileTrait[] = [
+  {
+    key: "sun",
+    level: 1,
+    read: (summary) => cleanValue(summary?.astrology?.sun),
+    options: SIGNS,
+    labels: ASTRO_SIGN_SV,
+    whose: (sv, en) => [`Vems sol står i ${sv}?`, `Whose Sun is in ${en}?`],
+    which: (nameSv, nameEn) => [`I vilket tecken står ${genitiveSv(nameSv)} sol?`, `Which sign is ${nameEn}'s Sun in?`],
+  },
+  {
+    key: "chinese_zodiac",
+    level: 2,
+    read: (summary) => cleanValue(summary?.chinese_zodiac),
+    options: ANIMALS,
+    labels: CHINESE_ZODIAC_SV,
+    whose: (sv, en) => [`Vem har ${sv} som kinesiskt tecken?`, `Who has the ${en} as their Chinese sign?`],
+    which: (nameSv, nameEn) => [`Vilket kinesiskt tecken har ${nameSv}?`, `What is ${nameEn}'s Chinese zodiac sign?`],
+  },
+  {
+    key: "moon",
+    level: 3,
+    read: (summary) => cleanValue(summary?.astrology?.moon),
+    options: SIGNS,
+    labels: ASTRO_SIGN_SV,
+    whose: (sv, en) => [`Vems måne står i ${sv}?`, `Whose Moon is in ${en}?`],
+    which: (nameSv, nameEn) => [`I vilket tecken står ${genitiveSv(nameSv)} måne?`, `Which sign is ${nameEn}'s Moon in?`],
+  },
+  {
+    key: "human_design_type",
+    level: 3,
+    read: (summary) => cleanValue(summary?.human_design?.type),
+    options: HD_TYPES,
+    labels: HUMAN_DESIGN_SV,
+    whose: (sv, en) => [`Vem är ${sv} i Human Design?`, `Who is a ${en} in Human Design?`],
+    which: (nameSv, nameEn) => [`Vilken Human Design-typ är ${nameSv}?`, `What is ${nameEn}'s Human Design type?`],
+  },
+  {
+    key: "ascendant",
+    level: 4,
+    read: (summary) => cleanValue(summary?.astrology?.ascendant),
+    options: SIGNS,
+    labels: ASTRO_SIGN_SV,
+    whose: (sv, en) => [`Vem har ascendenten i ${sv}?`, `Who has their Ascendant in ${en}?`],
+    which: (nameSv, nameEn) => [`I vilket tecken har ${nameSv} sin ascendent?`, `Which sign is ${nameEn}'s Ascendant?`],
+  },
+  {
+    key: "human_design_authority",
+    level: 4,
+    read: (summary) => cleanValue(summary?.human_design?.authority),
+    options: HD_AUTHORITIES,
+    labels: HUMAN_DESIGN_SV,
+    whose: (sv, en) => [`Vem har ${sv.toLowerCase()}?`, `Who has ${en}?`],
+    which: (nameSv, nameEn) => [`Vilken auktoritet har ${nameSv} i Human Design?`, `What is ${nameEn}'s Human Design authority?`],
+  },
+];
+
+const shuffled = <T>(items: T[], rng: () => number): T[] => {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(rng() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+};
+
+const buildAnswers = (
+  correct: { key: string; sv: string; en: string },
+  others: Array<{ key: string; sv: string; en: string }>,
+  rng: () => number
+): Pick<TriviaQuestion, "answers" | "correctAnswerId"> => {
+  const picked = shuffled([correct, ...shuffled(others, rng).slice(0, 3)], rng);
+  const answers = picked.map((item, i) => ({ id: String.fromCharCode(97 + i), text: { sv: item.sv, en: item.en } }));
+  const correctIndex = picked.findIndex((item) => item.key === correct.key);
+  return { answers, correctAnswerId: answers[correctIndex].id };
+};
+
+// Builds personal questions ("whose Moon is in Scorpio?") from the players'
+// own profile_insights so the quiz works without any online generator.
+export const buildProfileTriviaQuestions = (players: TriviaProfilePlayer[], rng: () => number): TriviaQuestion[] => {
+  const questions: TriviaQuestion[] = [];
+  for (const trait of traits) {
+    const known = players
+      .map((player) => ({ player, value: trait.read(player.insights?.summary_json) }))
+      .filter((item): item is { player: TriviaProfilePlayer; value: string } => !!item.value);
+    for (const { player, value } of known) {
+      const valueSv = trait.labels[value] || value;
+      const base = `profile:${trait.key}:${player.userId}`;
+
+      // "Which sign is Kim's Moon in?" works for any table size.
+      const distractors = trait.options
+        .filter((option) => option !== value)
+        .map((option) => ({ key: option, sv: trait.labels[option] || option, en: option }));
+      if (distractors.length) {
+        const [sv, en] = trait.which(player.displayName, player.displayName);
+        questions.push({
+          id: `${base}:which`,
+          categoryId: PROFILE_TRIVIA_CATEGORY.id,
+          level: trait.level,
+          prompt: { sv, en },
+          ...buildAnswers({ key: value, sv: valueSv, en: value }, distractors, rng),
+          source: "profile_insights",
+        });
+      }
+
+      // "Whose Moon is in Scorpio?" needs a unique owner among the players.
+      const owners = known.filter((item) => item.value === value);
+      const rivals = known.filter((item) => item.value !== value);
+      if (owners.length === 1 && rivals.length) {
+        const [sv, en] = trait.whose(valueSv, value);
+        const asAnswer = (item: { player: TriviaProfilePlayer }) => ({
+          key: item.player.userId,
+          sv: item.player.displayName,
+          en: item.player.displayName,
+        });
+        questions.push({
+          id: `${base}:whose`,
+          categoryId: PROFILE_TRIVIA_CATEGORY.id,
+          level: trait.level,
+          prompt: { sv, en },
+          ...buildAnswers(asAnswer({ player }), rivals.map(asAnswer), rng),
+          source: "profile_insights",
+        });
+      }
+    }
+  }
+  return questions;
+};
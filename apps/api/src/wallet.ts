@@ -0,0 +1,281 @@
+import type { MatchResults } from "../../../packages/shared/events";
+import pool from "./db/pool";
+
+// The Spux wallet outlives matches. Every movement is a double-entry
+// transaction: its entries sum to zero (checked again at COMMIT by a trigger),
+// so Spux only ever move between accounts. System accounts issue Spux and may
+// go negative; user accounts may not (spux_accounts_balance_chk). Each
+// transaction has an idempotency key, so retrying a grant or a payout never
+// pays twice.
+
+export type SpuxTransactionKind =
+  | "ONBOARDING_GRANT"
+  | "MATCH_BUY_IN"
+  | "MATCH_PAYOUT"
+  | "MATCH_REFUND"
+  | "BONUS"
+  | "ADMIN_ADJUSTMENT";
+
+export type SpuxPosting = { accountId: string; amount: number };
+
+export type SpuxTransactionResult =
+  | { ok: true; txId: string; replayed: boolean }
+  | { ok: false; error: "spux_unbalanced" | "spux_insufficient_funds" | "spux_idempotency_conflict" };
+
+export type SpuxHistoryEntry = {
+  entryId: number;
+  txId: string;
+  kind: SpuxTransactionKind;
+  amount: number;
+  balanceAfter: number;
+  matchId: string | null;
+  memo: string | null;
+  createdAt: number;
+};
+
+// README: every new member starts with 500 Spux.
+export const SPUX_ONBOARDING_GRANT = Math.max(0, Math.trunc(Number(process.env.SPUX_ONBOARDING_GRANT || 500)));
+
+export const SPUX_SYSTEM_ACCOUNTS = {
+  onboarding: "system:onboarding",
+  bonus: "system:bonus",
+  adjustment: "system:adjustment",
+} as const;
+
+// Wallets belong to Authentik users; guests have none.
+export const userAccountId = (authUserId: string) => `user:${authUserId}`;
+
+// Holds a match's buy-ins until it is settled or cancelled.
+export const matchEscrowAccountId = (matchId: string) => `escrow:match:${matchId}`;
+
+const accountRow = (accountId: string) => {
+  if (accountId.startsWith("user:")) {
+    return { kind: "USER", userId: accountId.slice("user:".length), allowNegative: false };
+  }
+  if (accountId.startsWith("escrow:")) return { kind: "ESCROW", userId: null, allowNegative: false };
+  return { kind: "SYSTEM", userId: null, allowNegative: true };
+};
+
+// Same account twice is merged; zero amounts are dropped.
+const mergePostings = (postings: SpuxPosting[]): SpuxPosting[] => {
+  const byAccount = new Map<string, number>();
+  for (const posting of postings) {
+    byAccount.set(posting.accountId, (byAccount.get(posting.accountId) ?? 0) + posting.amount);
+  }
+  return Array.from(byAccount.entries())
+    .filter(([, amount]) => amount !== 0)
+    .map(([accountId, amount]) => ({ accountId, amount }))
+    // A fixed order, so concurrent transactions lock accounts without deadlocks.
+    .sort((a, b) => (a.accountId < b.accountId ? -1 : a.accountId > b.accountId ? 1 : 0));
+};
+
+export const postSpuxTransaction = async (params: {
+  idempotencyKey: string;
+  kind: SpuxTransactionKind;
+  postings: SpuxPosting[];
+  matchId?: string | null;
+  memo?: string | null;
+  createdBy?: string | null;
+}): Promise<SpuxTransactionResult> => {
+  const postings = mergePostings(params.postings);
+  if (
+    postings.length < 2 ||
+    postings.some((p) => !Number.isSafeInteger(p.amount)) ||
+    postings.reduce((sum, p) => sum + p.amount, 0) !== 0
+  ) {
+    return { ok: false, error: "spux_unbalanced" };
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    // A concurrent insert with the same key waits here until the other commits.
+    const inserted = await client.query(
+      `INSERT INTO spux_transactions (idempotency_key, kind, match_id, memo, created_by)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (idempotency_key) DO NOTHING
+       RETURNING tx_id`,
+      [params.idempotencyKey, params.kind, params.matchId ?? null, params.memo ?? null, params.createdBy ?? null]
+    );
+    if (!inserted.rowCount) {
+      await client.query("ROLLBACK");
+      const existing = await pool.query(`SELECT tx_id, kind FROM spux_transactions WHERE idempotency_key = $1`, [
+        params.idempotencyKey,
+      ]);
+      if (!existing.rowCount || existing.rows[0].kind !== params.kind) {
+        return { ok: false, error: "spux_idempotency_conflict" };
+      }
+      return { ok: true, txId: String(existing.rows[0].tx_id), replayed: true };
+    }
+    const txId = String(inserted.rows[0].tx_id);
+    for (const posting of postings) {
+      const account = accountRow(posting.accountId);
+      await client.query(
+        `INSERT INTO spux_accounts (account_id, kind, user_id, allow_negative)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (account_id) DO NOTHING`,
+        [posting.accountId, account.kind, account.userId, account.allowNegative]
+      );
+      const updated = await client.query(
+        `UPDATE spux_accounts
+         SET balance = balance + $2
+         WHERE account_id = $1
+         RETURNING balance`,
+        [posting.accountId, posting.amount]
+      );
+      await client.query(
+        `INSERT INTO spux_entries (tx_id, account_id, amount, balance_after)
+         VALUES ($1, $2, $3, $4)`,
+        [txId, posting.accountId, posting.amount, updated.rows[0].balance]
+      );
+    }
+    await client.query("COMMIT");
+    return { ok: true, txId, replayed: false };
+  } catch (err) {
+    await client.query("ROLLBACK").catch(() => undefined);
+    if ((err as { constraint?: string })?.constraint === "spux_accounts_balance_chk") {
+      return { ok: false, error: "spux_insufficient_funds" };
+    }
+    throw err;
+  } finally {
+    client.release();
+  }
+};
+
+export const getSpuxBalance = async (authUserId: string): Promise<number> => {
+  const res = await pool.query(`SELECT balance FROM spux_accounts WHERE account_id = $1`, [userAccountId(authUserId)]);
+  return res.rowCount ? Number(res.rows[0].balance) : 0;
+};
+
+// Newest first; `before` is the last entryId of the previous page.
+export const listSpuxHistory = async (
+  authUserId: string,
+  options: { limit: number; before?: number | null }
+): Promise<SpuxHistoryEntry[]> => {
+  const res = await pool.query(
+    `SELECT e.entry_id, e.tx_id, t.kind, e.amount, e.balance_after, t.match_id, t.memo, e.created_at
+     FROM spux_entries e
+     JOIN spux_transactions t ON t.tx_id = e.tx_id
+     WHERE e.account_id = $1
+       AND ($2::bigint IS NULL OR e.entry_id < $2)
+     ORDER BY e.entry_id DESC
+     LIMIT $3`,
+    [userAccountId(authUserId), options.before ?? null, options.limit]
+  );
+  return res.rows.map((row) => ({
+    entryId: Number(row.entry_id),
+    txId: String(row.tx_id),
+    kind: row.kind as SpuxTransactionKind,
+    amount: Number(row.amount),
+    balanceAfter: Number(row.balance_after),
+    matchId: row.match_id ? String(row.match_id) : null,
+    memo: row.memo ?? null,
+    createdAt: new Date(row.created_at).getTime(),
+  }));
+};
+
+// Once per user, whenever we first see them as a member.
+export const grantOnboardingSpux = async (authUserId: string): Promise<SpuxTransactionResult | null> => {
+  if (!SPUX_ONBOARDING_GRANT) return null;
+  return postSpuxTransaction({
+    idempotencyKey: `onboarding:${authUserId}`,
+    kind: "ONBOARDING_GRANT",
+    postings: [
+      { accountId: SPUX_SYSTEM_ACCOUNTS.onboarding, amount: -SPUX_ONBOARDING_GRANT },
+      { accountId: userAccountId(authUserId), amount: SPUX_ONBOARDING_GRANT },
+    ],
+  });
+};
+
+// The Spux payouts in the match results (Yatzy bonus, jackpot). Players
+// without an Authentik account, Sputnik included, have no wallet to pay into.
+export const creditMatchBonuses = async (
+  results: MatchResults,
+  authUserIdOf: (playerId: string) => string | null
+): Promise<void> => {
+  for (const standing of results.standings) {
+    const authUserId = authUserIdOf(standing.userId);
+    if (!authUserId || standing.spuxTotal <= 0) continue;
+    await postSpuxTransaction({
+      idempotencyKey: `match:${results.matchId}:bonus:${authUserId}`,
+      kind: "BONUS",
+      matchId: results.matchId,
+      memo: standing.spux.map((s) => s.reason).join(","),
+      postings: [
+        { accountId: SPUX_SYSTEM_ACCOUNTS.bonus, amount: -standing.spuxTotal },
+        { accountId: userAccountId(authUserId), amount: standing.spuxTotal },
+      ],
+    });
+  }
+};
+
+// `attempt` counts earlier refunds of this player in this match, so paying in
+// again after leaving the lobby is a new transaction but a retry is not.
+export const escrowBuyIn = async (params: {
+  matchId: string;
+  authUserId: string;
+  amount: number;
+  attempt: number;
+}): Promise<SpuxTransactionResult> =>
+  postSpuxTransaction({
+    idempotencyKey: `match:${params.matchId}:buy-in:${params.authUserId}:${params.attempt}`,
+    kind: "MATCH_BUY_IN",
+    matchId: params.matchId,
+    postings: [
+      { accountId: userAccountId(params.authUserId), amount: -params.amount },
+      { accountId: matchEscrowAccountId(params.matchId), amount: params.amount },
+    ],
+  });
+
+// Buy-ins back from escrow: one player leaving the lobby, or everyone when the
+// match is cancelled. One transaction either way.
+export const refundBuyIns = async (params: {
+  matchId: string;
+  idempotencyKey: string;
+  refunds: Array<{ authUserId: string; amount: number }>;
+}): Promise<SpuxTransactionResult> => {
+  const total = params.refunds.reduce((sum, r) => sum + r.amount, 0);
+  return postSpuxTransaction({
+    idempotencyKey: `match:${params.matchId}:${params.idempotencyKey}`,
+    kind: "MATCH_REFUND",
+    matchId: params.matchId,
+    postings: [
+      { accountId: matchEscrowAccountId(params.matchId), amount: -total },
+      ...params.refunds.map((r) => ({ accountId: userAccountId(r.authUserId), amount: r.amount })),
+    ],
+  });
+};
+
+// The whole pot leaves escrow in one transaction.
+export const payOutPrizePool = async (params: {
+  matchId: string;
+  pot: number;
+  payouts: Array<{ authUserId: string; amount: number }>;
+}): Promise<SpuxTransactionResult> =>
+  postSpuxTransaction({
+    idempotencyKey: `match:${params.matchId}:payout`,
+    kind: "MATCH_PAYOUT",
+    matchId: params.matchId,
+    postings: [
+      { accountId: matchEscrowAccountId(params.matchId), amount: -params.pot },
+      ...params.payouts.map((p) => ({ accountId: userAccountId(p.authUserId), amount: p.amount })),
+    ],
+  });
+
+export const adjustSpux = async (params: {
+  authUserId: string;
+  amount: number;
+  memo: string;
+  createdBy: string;
+  idempotencyKey: string;
+}): Promise<SpuxTransactionResult> =>
+  postSpuxTransaction({
+    idempotencyKey: `admin:${params.idempotencyKey}`,
+    kind: "ADMIN_ADJUSTMENT",
+    memo: params.memo,
+    createdBy: params.createdBy,
+    postings: [
+      { accountId: SPUX_SYSTEM_ACCOUNTS.adjustment, amount: -params.amount },
+      { accountId: userAccountId(params.authUserId), amount: params.amount },
+    ],
+  });
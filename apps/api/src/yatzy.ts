@@ -0,0 +1,101 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type http from "node:http";
+
+// The Yatzy game is played in the Yatzy app. CHKN binds its players to the
+// Yatzy seats when the Yatzy match is created, and the Yatzy service posts the
+// final scores to CHKN when the game is over: a completion webhook signed with
+// a shared secret (HMAC-SHA256 over `<timestamp>.<body>`).
+
+export const YATZY_SEATS = ["P1", "P2", "P3", "P4", "P5", "P6"] as const;
+
+// Older deliveries are rejected, so a captured request cannot be replayed later.
+export const YATZY_WEBHOOK_TOLERANCE_MS = 5 * 60_000;
+
+export type YatzySeatScore = { seat: string; score: number };
+
+export type YatzyCompletion = { yatzyMatchId: string; scores: YatzySeatScore[]; completedAt: number | null };
+
+export const getYatzyWebhookSecret = () => String(process.env.YATZY_WEBHOOK_SECRET || "").trim();
+
+// Seats in join order, fixed from here on: whoever joins or leaves later does
+// not move anyone to another player's scores.
+export const bindYatzySeats = (userIds: string[]): Record<string, string> => {
+  const seats: Record<string, string> = {};
+  userIds.slice(0, YATZY_SEATS.length).forEach((userId, index) => {
+    seats[YATZY_SEATS[index]] = userId;
+  });
+  return seats;
+};
+
+// The API may list a seat once per scored category; totals are summed.
+export const mapYatzyScores = (scores: YatzySeatScore[], seats: Record<string, string>): Record<string, number> => {
+  const totals = new Map<string, number>();
+  for (const s of scores) {
+    const seat = String(s.seat || "").toUpperCase();
+    const score = Number(s.score || 0);
+    totals.set(seat, (totals.get(seat) || 0) + (Number.isFinite(score) ? score : 0));
+  }
+  const byUser: Record<string, number> = {};
+  for (const [seat, userId] of Object.entries(seats)) {
+    byUser[userId] = totals.get(seat) || 0;
+  }
+  return byUser;
+};
+
+export const signYatzyWebhook = (secret: string, timestamp: number, body: string) =>
+  `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+
+export const verifyYatzyWebhook = (params: {
+  secret: string;
+  body: string;
+  timestamp: unknown;
+  signature: unknown;
+  now?: number;
+}): { ok: true; completion: YatzyCompletion } | { ok: false; error: string } => {
+  const timestamp = Number(params.timestamp);
+  if (!Number.isFinite(timestamp)) return { ok: false, error: "yatzy_webhook_timestamp_missing" };
+  if (Math.abs((params.now ?? Date.now()) - timestamp) > YATZY_WEBHOOK_TOLERANCE_MS) {
+    return { ok: false, error: "yatzy_webhook_expired" };
+  }
+  const expected = Buffer.from(signYatzyWebhook(params.secret, timestamp, params.body));
+  const received = Buffer.from(String(params.signature || ""));
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return { ok: false, error: "yatzy_webhook_signature_invalid" };
+  }
+  let data: any;
+  try {
+    data = JSON.parse(params.body);
+  } catch {
+    return { ok: false, error: "yatzy_webhook_payload_invalid" };
+  }
+  const yatzyMatchId = String(data?.matchId || "").trim();
+  if (data?.type !== "match.completed" || !yatzyMatchId || !Array.isArray(data.scores)) {
+    return { ok: false, error: "yatzy_webhook_payload_invalid" };
+  }
+  return {
+    ok: true,
+    completion: {
+      yatzyMatchId,
+      scores: data.scores.map((s: any) => ({ seat: String(s?.seat || ""), score: Number(s?.score || 0) })),
+      completedAt: Number.isFinite(Number(data.completedAt)) ? Number(data.completedAt) : null,
+    },
+  };
+};
+
+// The signature covers the exact bytes, so the body is read as text.
+export const readRawBody = (req: http.IncomingMessage, maxBytes = 100_000): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let receivedBytes = 0;
+    req.on("data", (chunk: Buffer) => {
+      receivedBytes += chunk.length;
+      if (receivedBytes > maxBytes) {
+        reject(new Error("payload_too_large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
@@ -0,0 +1,121 @@
+import "dotenv/config";
+import http from "node:http";
+import { randomInt, randomUUID } from "node:crypto";
+import { YATZY_SEATS, getYatzyWebhookSecret, signYatzyWebhook, type YatzySeatScore } from "./yatzy";
+
+// A stand-in for the Yatzy API, for running CHKN locally and in tests:
+//   npm --workspace apps/api run yatzy:stub
+// with YATZY_API_URL=http://localhost:3199 and the same YATZY_WEBHOOK_SECRET
+// as the API. It answers the calls CHKN makes (auth/claim, quickstart, state)
+// and has one call of its own: POST /matches/:id/finish ends the match and
+// sends the signed completion webhook, like the real service does.
+
+type StubMatch = {
+  matchId: string;
+  playerCount: number;
+  webhookUrl: string | null;
+  scores: YatzySeatScore[];
+  completedAt: number | null;
+};
+
+const PORT = Number(process.env.YATZY_STUB_PORT || 3199);
+// Used when quickstart did not say where to post (no YATZY_WEBHOOK_URL in the API).
+const DEFAULT_WEBHOOK_URL = String(process.env.YATZY_STUB_WEBHOOK_URL || "").trim() || null;
+
+const stubMatches = new Map<string, StubMatch>();
+
+const readJson = (req: http.IncomingMessage): Promise<any> =>
+  new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => {
+      data += chunk;
+    });
+    req.on("end", () => {
+      try {
+        resolve(data.trim() ? JSON.parse(data) : null);
+      } catch (err) {
+        reject(err);
+      }
+    });
+    req.on("error", reject);
+  });
+
+const send = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const postWebhook = async (match: StubMatch): Promise<{ status: number; body: unknown } | null> => {
+  const url = match.webhookUrl ?? DEFAULT_WEBHOOK_URL;
+  if (!url) return null;
+  const body = JSON.stringify({
+    type: "match.completed",
+    matchId: match.matchId,
+    scores: match.scores,
+    completedAt: match.completedAt,
+  });
+  const timestamp = Date.now();
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "x-yatzy-timestamp": String(timestamp),
+      "x-yatzy-signature": signYatzyWebhook(getYatzyWebhookSecret(), timestamp, body),
+    },
+    body,
+  });
+  return { status: res.status, body: await res.json().catch(() => null) };
+};
+
+const server = http.createServer((req, res) => {
+  (async () => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const parts = url.pathname.split("/").filter(Boolean);
+
+    if (req.method === "POST" && url.pathname === "/auth/claim") {
+      return send(res, 200, { token: `stub-${randomUUID()}` });
+    }
+
+    if (req.method === "POST" && url.pathname === "/matches/quickstart") {
+      const body = (await readJson(req)) ?? {};
+      const match: StubMatch = {
+        matchId: randomUUID(),
+        playerCount: Math.max(2, Math.min(YATZY_SEATS.length, Math.trunc(Number(body.playerCount) || 2))),
+        webhookUrl: typeof body.webhookUrl === "string" && body.webhookUrl ? body.webhookUrl : null,
+        scores: [],
+        completedAt: null,
+      };
+      stubMatches.set(match.matchId, match);
+      return send(res, 200, { matchId: match.matchId });
+    }
+
+    const match = parts[0] === "matches" && parts[1] ? stubMatches.get(parts[1]) : undefined;
+    if (parts[0] === "matches" && !match) return send(res, 404, { error: "match_not_found" });
+
+    if (req.method === "GET" && match && parts[2] === "state") {
+      return send(res, 200, {
+        matchId: match.matchId,
+        status: match.completedAt ? "COMPLETED" : "PLAYING",
+        scores: match.scores,
+      });
+    }
+
+    // { scores?: [{ seat, score }] }; without scores every seat gets a random total.
+    if (req.method === "POST" && match && parts[2] === "finish") {
+      const body = (await readJson(req)) ?? {};
+      match.scores = Array.isArray(body.scores)
+        ? body.scores.map((s: any) => ({ seat: String(s?.seat || ""), score: Number(s?.score || 0) }))
+        : YATZY_SEATS.slice(0, match.playerCount).map((seat) => ({ seat, score: randomInt(120, 330) }));
+      match.completedAt = Date.now();
+      const webhook = await postWebhook(match);
+      return send(res, 200, { matchId: match.matchId, scores: match.scores, webhook });
+    }
+
+    return send(res, 404, { error: "not_found" });
+  })().catch((err) => send(res, 500, { error: String(err) }));
+});
+
+server.listen(PORT, () => {
+  // eslint-disable-next-line no-console
+  console.log(`[yatzy-stub] listening on :${PORT}`);
+});
@@ -66,60 +66,6 @@ type FriendRow = {
 const SHARED_AVATAR_BASE = "https://sputnet.world/avatars";
 const SPUTNET_HOME_URL = "https://sputnet.world";
 
-type ChickenChallengeOption = {
-  icon: string;
-  labelSv: string;
-  labelEn: string;
-  points: number;
-};
-
-const CHICKEN_CHALLENGE_OPTIONS: ChickenChallengeOption[] = [
-  {
-    icon: "🐔",
-    labelSv: "Gör en tiosekunders kycklingdans utan att skratta.",
-    labelEn: "Do a ten-second chicken dance without laughing.",
-    points: 25,
-  },
-  {
-    icon: "🎤",
-    labelSv: "Kommentera ett ägg som om det vore stor sportfinal.",
-    labelEn: "Commentate an egg like it is a championship final.",
-    points: 30,
-  },
-  {
-    icon: "👑",
-    labelSv: "Stelna i en dramatisk tupp-pose i femton sekunder.",
-    labelEn: "Freeze in a dramatic rooster pose for fifteen seconds.",
-    points: 20,
-  },
-  {
-    icon: "🥚",
-    labelSv: "Skriv eller läs upp ett kärleksbrev till en osynlig omelett.",
-    labelEn: "Write or perform a love letter to an invisible omelette.",
-    points: 35,
-  },
-  {
-    icon: "🕺",
-    labelSv: "Visa din bästa segerparad för ett hittat frö.",
-    labelEn: "Show your best victory parade for a found seed.",
-    points: 15,
-  },
-  {
-    icon: "🎭",
-    labelSv: "Prata som en superskurkkyckling i nästa hand.",
-    labelEn: "Talk like a supervillain chicken in the next hand.",
-    points: 40,
-  },
-];
-
-function getChickenChallengesForSeat(index: number, count = 4): ChickenChallengeOption[] {
-  if (CHICKEN_CHALLENGE_OPTIONS.length === 0) return [];
-  return Array.from({ length: Math.min(count, CHICKEN_CHALLENGE_OPTIONS.length) }, (_, offset) => {
-    const optionIndex = (index * 2 + offset) % CHICKEN_CHALLENGE_OPTIONS.length;
-    return CHICKEN_CHALLENGE_OPTIONS[optionIndex];
-  });
-}
-
 function sharedAvatarUrl(filename: string): string {
   const clean = String(filename || "").replace(/^\/+/, "");
   return clean ? `${SHARED_AVATAR_BASE}/${clean}` : SHARED_AVATAR_BASE;
@@ -340,6 +286,16 @@ const resolveInitialUiLanguage = (): string => {
 
 const isSwedishLocale = (locale: string): boolean => locale.toLowerCase().startsWith("sv");
 
+// `reconnectDeadline` is server time: the seat is held until then.
+type PlayerView = {
+  userId: string;
+  stack: number;
+  isConnected?: boolean;
+  botControlled?: boolean;
+  forfeited?: boolean;
+  reconnectDeadline?: number | null;
+};
+
 type BjHandView = {
   userId: string;
   spot: number;
@@ -351,9 +307,219 @@ type BjHandView = {
   result?: string;
   sideBet?: string | null;
   sideResult?: string | null;
+  insurance?: string;
   hidden?: number;
 };
 
+type BjRulesPreset = "HOUSE" | "CLASSIC" | "SIX_FIVE";
+
+type BjRulesView = {
+  blackjackPayout: string;
+  dealerHitsSoft17: boolean;
+  dealerPeek: boolean;
+  insurance: boolean;
+  lateSurrender: boolean;
+  maxSplitHands: number;
+  doubleAfterSplit: boolean;
+  tieRule: "HOUSE" | "PUSH";
+};
+
+// Deadlines converted to the local clock when BJ_TIMER arrived.
+type BjTimerView = {
+  phase: "BETTING" | "INSURANCE" | "PLAYER_ACTION";
+  deadlinesLocal: Record<string, number>;
+};
+
+type RouletteResultView = {
+  pocket: number;
+  color: "RED" | "BLACK" | "GREEN";
+  results: Array<{ userId: string; color: "RED" | "BLACK"; bet: number; result: "WIN" | "LOSE"; delta: number }>;
+};
+
+type DiceResultView = {
+  firstDie: number;
+  secondDie: number;
+  results: Array<{ userId: string; choice: "HIGHER" | "LOWER"; bet: number; result: "WIN" | "LOSE" | "PUSH"; delta: number }>;
+};
+
+type FairKind = "BLACKJACK" | "ROULETTE" | "DICE";
+
+// A committed draw: the hash arrives before anyone bets, the seed once the
+// round is settled. `shown` is what the table showed, to compare against.
+type FairDrawView = {
+  key: string;
+  kind: FairKind;
+  // Blackjack: the shoe number.
+  round: number | null;
+  decks: number;
+  seedHash: string;
+  seed: string | null;
+  shown: string | null;
+  check: { hashMatches: boolean; outcome: string; outcomeMatches: boolean | null } | null;
+};
+
+// Same draws as packages/game-engine/fairness.ts, redone in the browser so the
+// server does not have to be trusted: draw n = HMAC-SHA256(seed, String(n)),
+// first 52 bits as a float in [0, 1).
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+const sha256Hex = async (text: string): Promise<string> =>
+  toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text)));
+
+const fairFloats = async (seed: string, count: number): Promise<number[]> => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(seed),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const draws: number[] = [];
+  for (let nonce = 0; nonce < count; nonce += 1) {
+    const digest = toHex(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(String(nonce))));
+    draws.push(parseInt(digest.slice(0, 13), 16) / 2 ** 52);
+  }
+  return draws;
+};
+
+const rouletteRedPockets = new Set([1, 3, 5, 7, 9, 12, 14, 16, 18, 19, 21, 23, 25, 27, 30, 32, 34, 36]);
+
+// Outcome in the same words as `shown`: the shoe in draw order, the pocket or both dice.
+const recomputeFairDraw = async (kind: FairKind, seed: string, decks: number): Promise<string> => {
+  if (kind === "BLACKJACK") {
+    const deck: string[] = [];
+    for (let i = 0; i < decks; i += 1) {
+      for (const suit of ["S", "H", "D", "C"]) {
+        for (const rank of ["A", "2", "3", "4", "5", "6", "7", "8", "9", "10", "J", "Q", "K"]) deck.push(`${rank}${suit}`);
+      }
+    }
+    const draws = await fairFloats(seed, deck.length - 1);
+    for (let i = deck.length - 1, n = 0; i > 0; i -= 1, n += 1) {
+      const j = Math.floor(draws[n] * (i + 1));
+      [deck[i], deck[j]] = [deck[j], deck[i]];
+    }
+    return deck.reverse().join(" ");
+  }
+  if (kind === "ROULETTE") {
+    const [draw] = await fairFloats(seed, 1);
+    const pocket = Math.floor(draw * 37) % 37;
+    return `${pocket} ${pocket === 0 ? "GREEN" : rouletteRedPockets.has(pocket) ? "RED" : "BLACK"}`;
+  }
+  const [first, second] = await fairFloats(seed, 2);
+  return `${(Math.floor(first * 6) % 6) + 1} ${(Math.floor(second * 6) % 6) + 1}`;
+};
+
+type BjShoeView = {
+  shoe: number;
+  decks: number;
+  totalCards: number;
+  remaining: number;
+  cutCard: number;
+};
+
+type MusicClipView = {
+  round: number;
+  roundsTotal: number;
+  url: string;
+  clipStartMs: number;
+  durationMs: number;
+  // startAt/deadline converted to the local clock when the event arrived.
+  startAtLocal: number;
+  deadlineLocal: number;
+};
+
+type MusicRoundResultView = {
+  round: number;
+  title: string;
+  artist: string;
+  pointsByUser: Record<string, number>;
+};
+
+// Dare catalogue and seat rotation live on the server (MATCH_STATE.chickenDares).
+type ChickenDareView = { id: string; icon: string; label: TriviaLocalizedText; points: number };
+
+type ChickenBetSide = "DOES_IT" | "CHICKENS_OUT";
+
+type ChickenRoundView = {
+  round: number;
+  roundsTotal: number;
+  performerUserId: string;
+  options: ChickenDareView[];
+  dare: ChickenDareView | null;
+  phase: "PICKING" | "BETTING" | "PERFORMING" | "VOTING";
+  bets: Record<string, { side: ChickenBetSide | null; amount: number }>;
+  votedUserIds: string[];
+};
+
+type ChickenRoundResultView = {
+  round: number;
+  performerUserId: string;
+  dareId: string;
+  outcome: "COMPLETED" | "FAILED" | "VOID";
+  votes: { yes: number; no: number };
+  deltasByUser: Record<string, number>;
+  bonus: number;
+};
+
+type HoldemCardView = { rank: string; suit: string };
+
+type HoldemHandView = {
+  handId: number;
+  level: number;
+  sb: number;
+  bb: number;
+  buttonUserId: string;
+  stacks: Record<string, number>;
+  pot: number;
+};
+
+type HoldemTurnView = {
+  userId: string;
+  toCall: number;
+  minRaiseTo: number;
+  maxRaiseTo: number;
+  deadline: number;
+};
+
+type HoldemResultView = {
+  handId: number;
+  pots: Array<{ amount: number; winnerUserIds: string[] }>;
+  showdown: Array<{ userId: string; cards: HoldemCardView[]; category: string }>;
+  deltasByUser: Record<string, number>;
+};
+
+type MatchStandingView = {
+  userId: string;
+  place: number;
+  stack: number;
+  byStage: Record<string, number>;
+  yatzyScore: number | null;
+  spux: Array<{ reason: string; amount: number }>;
+  spuxTotal: number;
+};
+
+type TriviaLocalizedText = { sv: string; en: string };
+
+type TriviaQuestionView = {
+  id: string;
+  categoryId: string;
+  prompt: TriviaLocalizedText;
+  answers: Array<{ id: string; text: TriviaLocalizedText }>;
+  value: number;
+  answeringUserId: string;
+  deadline: number;
+};
+
+type TriviaResolvedView = {
+  questionId: string;
+  correctAnswerId: string;
+  winnerUserId: string | null;
+  pointsByUser: Record<string, number>;
+};
+
 type HdCenterKey =
   | "head"
   | "ajna"
@@ -819,14 +985,39 @@ export default function App() {
   const [log, setLog] = useState<string[]>([]);
   const [lastError, setLastError] = useState<string | null>(null);
   const [joinCode, setJoinCode] = useState("");
-  const [players, setPlayers] = useState<Array<{ userId: string; stack: number }>>([]);
+  const [inviteCode, setInviteCode] = useState<string | null>(null);
+  const [inviteLink, setInviteLink] = useState("");
+  const [matchMaxPlayers, setMatchMaxPlayers] = useState<number | null>(null);
+  const [createMaxPlayers, setCreateMaxPlayers] = useState(6);
+  const [createBuyIn, setCreateBuyIn] = useState(0);
+  const [createPayoutTable, setCreatePayoutTable] = useState<"WINNER_TAKES_ALL" | "TOP_3" | "PROPORTIONAL">(
+    "WINNER_TAKES_ALL"
+  );
+  const [matchBuyIn, setMatchBuyIn] = useState(0);
+  const [matchPot, setMatchPot] = useState(0);
+  // From an invite link (?join=CODE or ?invite=TOKEN), joined once connected.
+  const [pendingInvite, setPendingInvite] = useState<{ code: string; token: string } | null>(() => {
+    const params = new URLSearchParams(window.location.search);
+    const code = String(params.get("join") || "").trim();
+    const token = String(params.get("invite") || "").trim();
+    return code || token ? { code, token } : null;
+  });
+  const [players, setPlayers] = useState<PlayerView[]>([]);
   const [selfId, setSelfId] = useState<string | null>(null);
+  // The socket handlers are bound once; they read the player id from here.
+  const selfIdRef = useRef<string | null>(null);
   const [readySet, setReadySet] = useState<Set<string>>(new Set());
   const [yatzyMatchId, setYatzyMatchId] = useState("");
+  // Yatzy seat (P1-P6) -> userId, as bound by the server.
+  const [yatzySeats, setYatzySeats] = useState<Record<string, string>>({});
   const [yatzyImportStatus, setYatzyImportStatus] = useState<string | null>(null);
   const [stage, setStage] = useState<string>("LOBBY");
   const [hostUserId, setHostUserId] = useState<string | null>(null);
   const [matchMode, setMatchMode] = useState<string>("FIVE_KAMP");
+  const [stagePlan, setStagePlan] = useState<string[]>([]);
+  const [createStagesText, setCreateStagesText] = useState("");
+  const [createIntermissions, setCreateIntermissions] = useState(true);
+  const [createBjPreset, setCreateBjPreset] = useState<BjRulesPreset>("HOUSE");
   const [autoReady, setAutoReady] = useState(false);
   const [yatzyCreateStatus, setYatzyCreateStatus] = useState<string | null>(null);
   const [authDebug, setAuthDebug] = useState<{ hasAuthentik: boolean; headers: string[] } | null>(null);
@@ -836,7 +1027,46 @@ export default function App() {
   const [bjBet, setBjBet] = useState<number>(10);
   const [bjSpots, setBjSpots] = useState<string>("1");
   const [bjSide, setBjSide] = useState<"NONE" | "UNDER" | "OVER">("NONE");
+  const [bjShoe, setBjShoe] = useState<BjShoeView | null>(null);
+  const [bjRules, setBjRules] = useState<BjRulesView | null>(null);
+  const [bjInsuranceOpen, setBjInsuranceOpen] = useState(false);
+  const [bjTimer, setBjTimer] = useState<BjTimerView | null>(null);
+  const [bjClock, setBjClock] = useState(() => Date.now());
+  const [bjSittingOut, setBjSittingOut] = useState<string[]>([]);
   const [ninaLine, setNinaLine] = useState<string>("");
+  const [rouletteLimits, setRouletteLimits] = useState<Record<string, number>>({});
+  const [rouletteColor, setRouletteColor] = useState<"RED" | "BLACK">("RED");
+  const [rouletteBet, setRouletteBet] = useState<number>(0);
+  const [rouletteResult, setRouletteResult] = useState<RouletteResultView | null>(null);
+  const [diceFirstDie, setDiceFirstDie] = useState<number | null>(null);
+  const [diceMaxBets, setDiceMaxBets] = useState<Record<string, number>>({});
+  const [diceChoice, setDiceChoice] = useState<"HIGHER" | "LOWER">("HIGHER");
+  const [diceBet, setDiceBet] = useState<number>(0);
+  const [diceResult, setDiceResult] = useState<DiceResultView | null>(null);
+  const [fairDraws, setFairDraws] = useState<FairDrawView[]>([]);
+  const [musicPlaylistText, setMusicPlaylistText] = useState("");
+  const [musicTrackCount, setMusicTrackCount] = useState(0);
+  const [musicClip, setMusicClip] = useState<MusicClipView | null>(null);
+  const [musicGuess, setMusicGuess] = useState("");
+  const [musicFound, setMusicFound] = useState<Array<"title" | "artist">>([]);
+  const [musicRoundResult, setMusicRoundResult] = useState<MusicRoundResultView | null>(null);
+  const musicAudioRef = useRef<HTMLAudioElement | null>(null);
+  const [chickenDares, setChickenDares] = useState<Record<string, ChickenDareView[]>>({});
+  const [chickenRound, setChickenRound] = useState<ChickenRoundView | null>(null);
+  const [chickenResult, setChickenResult] = useState<ChickenRoundResultView | null>(null);
+  const [chickenSide, setChickenSide] = useState<ChickenBetSide>("DOES_IT");
+  const [chickenBet, setChickenBet] = useState<number>(0);
+  const [holdemHand, setHoldemHand] = useState<HoldemHandView | null>(null);
+  const [holdemHoleCards, setHoldemHoleCards] = useState<HoldemCardView[]>([]);
+  const [holdemBoard, setHoldemBoard] = useState<HoldemCardView[]>([]);
+  const [holdemTurn, setHoldemTurn] = useState<HoldemTurnView | null>(null);
+  const [holdemAmount, setHoldemAmount] = useState<number>(0);
+  const [holdemResult, setHoldemResult] = useState<HoldemResultView | null>(null);
+  const [matchStandings, setMatchStandings] = useState<MatchStandingView[] | null>(null);
+  const [triviaPickerUserId, setTriviaPickerUserId] = useState<string | null>(null);
+  const [triviaOptions, setTriviaOptions] = useState<Array<{ id: string; label: TriviaLocalizedText; values: number[] }>>([]);
+  const [triviaQuestion, setTriviaQuestion] = useState<TriviaQuestionView | null>(null);
+  const [triviaResolved, setTriviaResolved] = useState<TriviaResolvedView | null>(null);
   const [profileLoading, setProfileLoading] = useState(true);
   const [profileMissing, setProfileMissing] = useState(true);
   const [profileStatus, setProfileStatus] = useState<string | null>(null);
@@ -1293,6 +1523,12 @@ export default function App() {
     (text: string) => (isSwedish ? TAROT_SPREAD_TRANSLATIONS_SV[text] ?? text : text),
     [isSwedish]
   );
+  const silentDiscoMediaUrl = useMemo(() => {
+    const base = (import.meta.env.VITE_API_URL || "").trim();
+    if (!base) return `${window.location.origin}${appBasePath}/api/silent-disco/media`;
+    const clean = base.replace(/\/$/, "");
+    return clean.endsWith("/api") ? `${clean}/silent-disco/media` : `${clean}/api/silent-disco/media`;
+  }, [appBasePath]);
   const tarotDailyUrl = useMemo(() => {
     const base = (import.meta.env.VITE_API_URL || "").trim();
     if (!base) return `${window.location.origin}${appBasePath}/api/profile/tarot/daily`;
@@ -3870,6 +4106,12 @@ export default function App() {
     const clean = base.replace(/\/$/, "");
     return clean.endsWith("/api") ? `${clean}/friends/search` : `${clean}/api/friends/search`;
   }, [appBasePath]);
+  const inviteResolveUrl = useMemo(() => {
+    const base = (import.meta.env.VITE_API_URL || "").trim();
+    if (!base) return `${window.location.origin}${appBasePath}/api/invites/resolve`;
+    const clean = base.replace(/\/$/, "");
+    return clean.endsWith("/api") ? `${clean}/invites/resolve` : `${clean}/api/invites/resolve`;
+  }, [appBasePath]);
   const friendRequestUrl = useMemo(() => {
     const base = (import.meta.env.VITE_API_URL || "").trim();
     if (!base) return `${window.location.origin}${appBasePath}/api/friends/request`;
@@ -5005,7 +5247,6 @@ export default function App() {
     addLog("ui_loaded");
     socket.on("connect", () => {
       setConnected(true);
-      setSelfId(socket.id ?? null);
       addLog("connected");
     });
     socket.on("disconnect", () => {
@@ -5018,6 +5259,10 @@ export default function App() {
     });
     socket.on("event", (evt: ServerEvent) => {
       addLog(`event: ${evt.type}`);
+      if (evt.type === "SESSION_READY" && evt.payload?.userId) {
+        selfIdRef.current = String(evt.payload.userId);
+        setSelfId(selfIdRef.current);
+      }
       if (evt.type === "MATCH_STATE" && evt.payload) {
         if (Array.isArray(evt.payload.players)) setPlayers(evt.payload.players);
         if (Array.isArray(evt.payload.readyUserIds)) setReadySet(new Set(evt.payload.readyUserIds));
@@ -5025,17 +5270,60 @@ export default function App() {
         if (evt.payload.stage) setStage(evt.payload.stage);
         if (typeof evt.payload.blackjackRound === "number") setBjRound(evt.payload.blackjackRound);
         if (evt.payload.mode) setMatchMode(evt.payload.mode);
+        if (Array.isArray(evt.payload.stagePlan)) setStagePlan(evt.payload.stagePlan);
+        if (evt.payload.blackjackRules) setBjRules(evt.payload.blackjackRules);
+        if (evt.payload.inviteCode !== undefined) setInviteCode(evt.payload.inviteCode ?? null);
+        if (typeof evt.payload.maxPlayers === "number") setMatchMaxPlayers(evt.payload.maxPlayers);
+        if (typeof evt.payload.buyIn === "number") setMatchBuyIn(evt.payload.buyIn);
+        if (typeof evt.payload.pot === "number") setMatchPot(evt.payload.pot);
+        if (Array.isArray(evt.payload.blackjackSittingOut)) setBjSittingOut(evt.payload.blackjackSittingOut);
         if (evt.payload.hostUserId) setHostUserId(evt.payload.hostUserId);
         if (evt.payload.yatzyMatchId) setYatzyMatchId(evt.payload.yatzyMatchId);
+        if (evt.payload.yatzySeats) setYatzySeats(evt.payload.yatzySeats);
+        if (evt.payload.chickenDares !== undefined) setChickenDares(evt.payload.chickenDares ?? {});
       }
       if (evt.type === "MATCH_CREATED" && evt.payload?.match?.id) {
         setMatchId(evt.payload.match.id);
+        setBjRules(evt.payload.match.blackjackRules ?? null);
+        setInviteCode(evt.payload.match.inviteCode ?? null);
+        setInviteLink("");
+      }
+      if (evt.type === "MATCH_INVITE" && evt.payload?.token) {
+        const url = new URL(`${window.location.origin}${window.location.pathname}`);
+        url.searchParams.set("invite", evt.payload.token);
+        setInviteLink(url.toString());
+        void navigator.clipboard?.writeText(url.toString()).catch(() => undefined);
+        addLog(
+          tr(
+            `Inbjudningslänk för ${evt.payload.seats} platser, giltig till ${new Date(evt.payload.expiresAt).toLocaleString()}`,
+            `Invite link for ${evt.payload.seats} seats, valid until ${new Date(evt.payload.expiresAt).toLocaleString()}`
+          )
+        );
+      }
+      if (evt.type === "MATCH_CANCELLED") {
+        addLog(tr("Värden avbröt matchen", "The host cancelled the match"));
+      }
+      if (evt.type === "MATCH_PAYOUTS" && Array.isArray(evt.payload?.payouts)) {
+        const own = evt.payload.payouts.find((p: { userId: string }) => p.userId === selfIdRef.current);
+        if (evt.payload.refunded) {
+          if (own) addLog(tr(`Insatsen tillbaka: ${own.amount} Spux`, `Buy-in refunded: ${own.amount} Spux`));
+        } else {
+          setMatchPot(0);
+          addLog(
+            own
+              ? tr(`Du vann ${own.amount} av potten på ${evt.payload.pot} Spux`, `You won ${own.amount} of the ${evt.payload.pot} Spux pot`)
+              : tr(`Potten på ${evt.payload.pot} Spux är utbetald`, `The ${evt.payload.pot} Spux pot has been paid out`)
+          );
+        }
       }
       if (evt.type === "MATCH_JOINED" && evt.payload?.matchId && evt.payload?.userId) {
-        if (evt.payload.userId === socket.id) {
+        if (evt.payload.userId === selfIdRef.current) {
           setMatchId(evt.payload.matchId);
         }
       }
+      if (evt.type === "MATCH_JOINED" && evt.payload?.isBot) {
+        addLog(tr("Sputnik har joinat matchen", "Sputnik joined the match"));
+      }
       if (evt.type === "MATCH_JOINED" && evt.payload?.userId) {
         setPlayers((prev) => {
           if (prev.some((p) => p.userId === evt.payload.userId)) return prev;
@@ -5045,6 +5333,27 @@ export default function App() {
       if (evt.type === "MATCH_LEFT" && evt.payload?.userId) {
         setPlayers((prev) => prev.filter((p) => p.userId !== evt.payload.userId));
       }
+      if (evt.type === "PLAYER_DISCONNECTED" && evt.payload?.userId) {
+        const { userId, reconnectDeadline } = evt.payload;
+        setPlayers((prev) => prev.map((p) => (p.userId === userId ? { ...p, isConnected: false, reconnectDeadline } : p)));
+      }
+      if (evt.type === "PLAYER_RECONNECTED" && evt.payload?.userId) {
+        const { userId } = evt.payload;
+        setPlayers((prev) =>
+          prev.map((p) => (p.userId === userId ? { ...p, isConnected: true, botControlled: false, reconnectDeadline: null } : p))
+        );
+      }
+      if (evt.type === "PLAYER_SEAT_EXPIRED" && evt.payload?.userId) {
+        const { userId, action } = evt.payload;
+        setPlayers((prev) =>
+          prev.map((p) => (p.userId === userId ? { ...p, botControlled: true, forfeited: p.forfeited || action === "FORFEIT", reconnectDeadline: null } : p))
+        );
+        addLog(
+          action === "FORFEIT"
+            ? tr(`${userId} gav upp sin stack, Sputnik tar platsen`, `${userId} forfeited their stack, Sputnik takes the seat`)
+            : tr(`Sputnik spelar för ${userId}`, `Sputnik plays for ${userId}`)
+        );
+      }
       if (evt.type === "READY_UPDATED" && Array.isArray(evt.payload?.readyUserIds)) {
         setReadySet(new Set(evt.payload.readyUserIds));
       }
@@ -5053,9 +5362,11 @@ export default function App() {
       }
       if (evt.type === "YATZY_MATCH_SET" && evt.payload?.yatzyMatchId) {
         setYatzyMatchId(evt.payload.yatzyMatchId);
+        setYatzySeats(evt.payload.seats ?? {});
       }
       if (evt.type === "YATZY_MATCH_CREATED" && evt.payload?.yatzyMatchId) {
         setYatzyMatchId(evt.payload.yatzyMatchId);
+        setYatzySeats(evt.payload.seats ?? {});
         setYatzyCreateStatus("Yatzy-match skapad");
       }
       if (evt.type === "AUTH_DEBUG") {
@@ -5071,8 +5382,37 @@ export default function App() {
         setBjRound(evt.payload.round);
         setBjHands([]);
         setBjDealer(null);
+        setBjInsuranceOpen(false);
         ninaRoundStart();
       }
+      if (evt.type === "BJ_INSURANCE_OFFERED" && typeof evt.payload?.round === "number") {
+        setBjInsuranceOpen(true);
+      }
+      if (evt.type === "BJ_TIMER" && evt.payload?.deadlines) {
+        const offset = Date.now() - Number(evt.payload.ts ?? Date.now());
+        setBjTimer({
+          phase: evt.payload.phase,
+          deadlinesLocal: Object.fromEntries(
+            Object.entries(evt.payload.deadlines as Record<string, number>).map(([id, deadline]) => [id, deadline + offset])
+          ),
+        });
+      }
+      if (evt.type === "BJ_SIT_OUT" && evt.payload?.userId) {
+        const { userId, sittingOut } = evt.payload;
+        setBjSittingOut((prev) => (sittingOut ? [...prev.filter((id) => id !== userId), userId] : prev.filter((id) => id !== userId)));
+      }
+      if (evt.type === "BJ_SHOE_STATE" && typeof evt.payload?.shoe === "number") {
+        const payload = evt.payload;
+        if (payload.revealed) revealFairDraw("BLACKJACK", payload.revealed.shoe, payload.revealed.seed, null);
+        if (payload.reshuffled) commitFairDraw("BLACKJACK", payload.shoe, payload.seedHash, payload.decks);
+        setBjShoe({
+          shoe: payload.shoe,
+          decks: Number(payload.decks ?? 1),
+          totalCards: Number(payload.totalCards ?? 0),
+          remaining: Number(payload.remaining ?? 0),
+          cutCard: Number(payload.cutCard ?? 0),
+        });
+      }
       if (evt.type === "BJ_HAND_STATE" && evt.payload?.state) {
         const payload = evt.payload;
         const next: BjHandView = {
@@ -5086,6 +5426,7 @@ export default function App() {
           result: payload.state.result ? String(payload.state.result) : undefined,
           sideBet: payload.state.sideBet ?? null,
           sideResult: payload.state.sideResult ?? null,
+          insurance: payload.state.insurance ? String(payload.state.insurance) : undefined,
           hidden: Number(payload.state.hidden ?? 0),
         };
         if (next.userId === "dealer") {
@@ -5100,8 +5441,204 @@ export default function App() {
       }
       if (evt.type === "BJ_ROUND_COMPLETED" && typeof evt.payload?.round === "number") {
         setBjRound(evt.payload.round);
+        setBjTimer(null);
         ninaRoundEnd();
       }
+      if (evt.type === "ROULETTE_OPEN" && evt.payload?.limits) {
+        setRouletteLimits(evt.payload.limits);
+        setRouletteResult(null);
+        commitFairDraw("ROULETTE", null, evt.payload.seedHash, 1);
+      }
+      if (evt.type === "TRIVIA_CATEGORY_OPTIONS" && Array.isArray(evt.payload?.options)) {
+        setTriviaPickerUserId(evt.payload.pickerUserId ?? null);
+        setTriviaOptions(evt.payload.options);
+        setTriviaQuestion(null);
+      }
+      if (evt.type === "TRIVIA_QUESTION_SHOWN" && evt.payload?.question) {
+        setTriviaPickerUserId(null);
+        setTriviaResolved(null);
+        setTriviaQuestion({
+          ...evt.payload.question,
+          value: Number(evt.payload.value ?? 0),
+          answeringUserId: String(evt.payload.answeringUserId ?? ""),
+          deadline: Number(evt.payload.deadline ?? 0),
+        });
+      }
+      if (evt.type === "TRIVIA_TURN_PASSED" && evt.payload?.toUserId) {
+        setTriviaQuestion((prev) =>
+          prev && prev.id === evt.payload.questionId
+            ? { ...prev, answeringUserId: String(evt.payload.toUserId), deadline: Number(evt.payload.deadline ?? 0) }
+            : prev
+        );
+      }
+      if (evt.type === "TRIVIA_QUESTION_RESOLVED" && evt.payload?.questionId) {
+        setTriviaResolved({
+          questionId: String(evt.payload.questionId),
+          correctAnswerId: String(evt.payload.correctAnswerId ?? ""),
+          winnerUserId: evt.payload.winnerUserId ?? null,
+          pointsByUser: evt.payload.pointsByUser ?? {},
+        });
+      }
+      if (evt.type === "DICE_FIRST_ROLL" && typeof evt.payload?.value === "number") {
+        setDiceFirstDie(evt.payload.value);
+        setDiceMaxBets(evt.payload.maxBets ?? {});
+        setDiceResult(null);
+        commitFairDraw("DICE", null, evt.payload.seedHash, 1);
+      }
+      if (evt.type === "DICE_ROLL_RESOLVED" && typeof evt.payload?.secondDie === "number") {
+        setDiceResult({
+          firstDie: evt.payload.firstDie,
+          secondDie: evt.payload.secondDie,
+          results: Array.isArray(evt.payload.results) ? evt.payload.results : [],
+        });
+        revealFairDraw("DICE", null, evt.payload.seed, `${evt.payload.firstDie} ${evt.payload.secondDie}`);
+      }
+      if (evt.type === "MUSIC_PLAYLIST_UPDATED" && typeof evt.payload?.trackCount === "number") {
+        setMusicTrackCount(evt.payload.trackCount);
+      }
+      if (evt.type === "MUSIC_CLIP_SHOWN" && evt.payload?.clip) {
+        const offset = Date.now() - Number(evt.payload.ts ?? Date.now());
+        setMusicClip({
+          round: Number(evt.payload.round ?? 1),
+          roundsTotal: Number(evt.payload.roundsTotal ?? 1),
+          url: String(evt.payload.clip.mediaId ?? ""),
+          clipStartMs: Number(evt.payload.clip.clipStartMs ?? 0),
+          durationMs: Number(evt.payload.clip.durationMs ?? 0),
+          startAtLocal: Number(evt.payload.startAt ?? 0) + offset,
+          deadlineLocal: Number(evt.payload.deadline ?? 0) + offset,
+        });
+        setMusicFound([]);
+        setMusicGuess("");
+        setMusicRoundResult(null);
+      }
+      if (evt.type === "MUSIC_GUESS_RESULT" && Array.isArray(evt.payload?.found)) {
+        setMusicFound(evt.payload.found);
+        if (evt.payload.points) addLog(`music: +${evt.payload.points}`);
+      }
+      if (evt.type === "MUSIC_ROUND_RESOLVED" && typeof evt.payload?.round === "number") {
+        musicAudioRef.current?.pause();
+        setMusicRoundResult({
+          round: evt.payload.round,
+          title: String(evt.payload.title ?? ""),
+          artist: String(evt.payload.artist ?? ""),
+          pointsByUser: evt.payload.pointsByUser ?? {},
+        });
+      }
+      if (evt.type === "CHICKEN_ROUND_STARTED" && typeof evt.payload?.round === "number") {
+        setChickenRound({
+          round: evt.payload.round,
+          roundsTotal: Number(evt.payload.roundsTotal ?? 1),
+          performerUserId: String(evt.payload.performerUserId ?? ""),
+          options: Array.isArray(evt.payload.options) ? evt.payload.options : [],
+          dare: null,
+          phase: "PICKING",
+          bets: {},
+          votedUserIds: [],
+        });
+        setChickenResult(null);
+        setChickenBet(0);
+      }
+      if (evt.type === "CHICKEN_DARE_CHOSEN" && evt.payload?.dare) {
+        setChickenRound((prev) => (prev ? { ...prev, dare: evt.payload.dare, phase: "BETTING" } : prev));
+      }
+      if (evt.type === "CHICKEN_BET_ACCEPTED" && evt.payload?.userId) {
+        setChickenRound((prev) =>
+          prev
+            ? {
+                ...prev,
+                bets: { ...prev.bets, [evt.payload.userId]: { side: evt.payload.side ?? null, amount: Number(evt.payload.amount ?? 0) } },
+              }
+            : prev
+        );
+      }
+      if (evt.type === "CHICKEN_PERFORMING") {
+        setChickenRound((prev) => (prev ? { ...prev, phase: "PERFORMING" } : prev));
+      }
+      if (evt.type === "CHICKEN_VOTING_OPEN") {
+        setChickenRound((prev) => (prev ? { ...prev, phase: "VOTING" } : prev));
+      }
+      if (evt.type === "CHICKEN_VOTE_RECORDED" && evt.payload?.userId) {
+        setChickenRound((prev) => (prev ? { ...prev, votedUserIds: [...prev.votedUserIds, evt.payload.userId] } : prev));
+      }
+      if (evt.type === "CHICKEN_ROUND_SETTLED" && typeof evt.payload?.round === "number") {
+        setChickenResult({
+          round: evt.payload.round,
+          performerUserId: String(evt.payload.performerUserId ?? ""),
+          dareId: String(evt.payload.dareId ?? ""),
+          outcome: evt.payload.outcome,
+          votes: evt.payload.votes ?? { yes: 0, no: 0 },
+          deltasByUser: evt.payload.deltasByUser ?? {},
+          bonus: Number(evt.payload.bonus ?? 0),
+        });
+      }
+      if (evt.type === "HOLDEM_HAND_STARTED" && typeof evt.payload?.handId === "number") {
+        const posted = (evt.payload.posted ?? {}) as Record<string, number>;
+        setHoldemHand({
+          handId: evt.payload.handId,
+          level: Number(evt.payload.level ?? 1),
+          sb: Number(evt.payload.sb ?? 0),
+          bb: Number(evt.payload.bb ?? 0),
+          buttonUserId: String(evt.payload.buttonUserId ?? ""),
+          stacks: evt.payload.stacks ?? {},
+          pot: Object.values(posted).reduce((sum, v) => sum + Number(v || 0), 0),
+        });
+        setHoldemHoleCards([]);
+        setHoldemBoard([]);
+        setHoldemTurn(null);
+        setHoldemResult(null);
+      }
+      if (evt.type === "HOLDEM_HOLE_CARDS" && Array.isArray(evt.payload?.cards)) {
+        setHoldemHoleCards(evt.payload.cards);
+      }
+      if (evt.type === "HOLDEM_ACTION_REQUIRED" && evt.payload?.userId) {
+        setHoldemTurn({
+          userId: String(evt.payload.userId),
+          toCall: Number(evt.payload.toCall ?? 0),
+          minRaiseTo: Number(evt.payload.minRaiseTo ?? 0),
+          maxRaiseTo: Number(evt.payload.maxRaiseTo ?? 0),
+          deadline: Number(evt.payload.deadline ?? 0),
+        });
+        setHoldemAmount(Number(evt.payload.minRaiseTo ?? 0));
+      }
+      if (evt.type === "HOLDEM_ACTION_APPLIED" && evt.payload?.userId) {
+        setHoldemTurn(null);
+        setHoldemHand((prev) =>
+          prev
+            ? {
+                ...prev,
+                pot: Number(evt.payload.pot ?? prev.pot),
+                stacks: { ...prev.stacks, [evt.payload.userId]: Number(evt.payload.stack ?? 0) },
+              }
+            : prev
+        );
+      }
+      if (evt.type === "HOLDEM_STREET_DEALT" && Array.isArray(evt.payload?.board)) {
+        setHoldemBoard(evt.payload.board);
+      }
+      if (evt.type === "HOLDEM_HAND_COMPLETED" && typeof evt.payload?.handId === "number") {
+        setHoldemTurn(null);
+        setHoldemBoard(Array.isArray(evt.payload.board) ? evt.payload.board : []);
+        setHoldemResult({
+          handId: evt.payload.handId,
+          pots: Array.isArray(evt.payload.pots) ? evt.payload.pots : [],
+          showdown: Array.isArray(evt.payload.showdown) ? evt.payload.showdown : [],
+          deltasByUser: evt.payload.deltasByUser ?? {},
+        });
+      }
+      if (evt.type === "MATCH_COMPLETED" && Array.isArray(evt.payload?.results?.standings)) {
+        setMatchStandings(evt.payload.results.standings);
+      }
+      if (evt.type === "HOLDEM_ORBIT_COMPLETED" && typeof evt.payload?.bb === "number") {
+        addLog(`holdem: blinds ${evt.payload.sb}/${evt.payload.bb}`);
+      }
+      if (evt.type === "ROULETTE_RESOLVED" && typeof evt.payload?.pocket === "number") {
+        setRouletteResult({
+          pocket: evt.payload.pocket,
+          color: evt.payload.color,
+          results: Array.isArray(evt.payload.results) ? evt.payload.results : [],
+        });
+        revealFairDraw("ROULETTE", null, evt.payload.seed, `${evt.payload.pocket} ${evt.payload.color}`);
+      }
     });
     socket.onAny((eventName) => {
       addLog(`onAny: ${eventName}`);
@@ -5131,6 +5668,32 @@ export default function App() {
     setLog((prev) => [line, ...prev].slice(0, 6));
   };
 
+  const commitFairDraw = (kind: FairKind, round: number | null, seedHash: unknown, decks: number) => {
+    if (typeof seedHash !== "string") return;
+    const key = `${kind}:${round ?? ""}:${seedHash}`;
+    setFairDraws((prev) => [
+      { key, kind, round, decks, seedHash, seed: null, shown: null, check: null },
+      ...prev.filter((draw) => draw.key !== key),
+    ].slice(0, 12));
+  };
+
+  const revealFairDraw = (kind: FairKind, round: number | null, seed: unknown, shown: string | null) => {
+    if (typeof seed !== "string") return;
+    setFairDraws((prev) => {
+      const index = prev.findIndex((draw) => draw.kind === kind && draw.round === round && draw.seed === null);
+      if (index < 0) return prev;
+      return prev.map((draw, i) => (i === index ? { ...draw, seed, shown } : draw));
+    });
+  };
+
+  const verifyFairDraw = async (draw: FairDrawView) => {
+    if (!draw.seed) return;
+    const hashMatches = (await sha256Hex(draw.seed)) === draw.seedHash;
+    const outcome = await recomputeFairDraw(draw.kind, draw.seed, draw.decks);
+    const check = { hashMatches, outcome, outcomeMatches: draw.shown === null ? null : draw.shown === outcome };
+    setFairDraws((prev) => prev.map((item) => (item.key === draw.key ? { ...item, check } : item)));
+  };
+
   const isSoloBlackjack = () => players.length <= 1;
 
   const pickNinaLine = (pool: string[]) => pool[Math.floor(Math.random() * pool.length)] || "";
@@ -5206,13 +5769,26 @@ export default function App() {
     speakNina(line);
   };
 
-  const createMatch = () => {
+  const createMatch = (mode: "FIVE_KAMP" | "CHICKEN_RUN") => {
     if (!connected) {
       addLog("not_connected");
       return;
     }
-    socket.emit("event", { type: "MATCH_CREATE", mode: "FIVE_KAMP" });
-    addLog("sent: MATCH_CREATE");
+    // Optional custom order, e.g. "YATZY, TRIVIA, HOLDEM". Empty = the mode's preset.
+    const stages = createStagesText
+      .split(/[,\s]+/)
+      .map((part) => part.trim().toUpperCase())
+      .filter(Boolean);
+    socket.emit("event", {
+      type: "MATCH_CREATE",
+      mode,
+      ...(stages.length ? { stages } : {}),
+      intermissions: createIntermissions,
+      blackjackRules: { preset: createBjPreset },
+      maxPlayers: createMaxPlayers,
+      ...(createBuyIn > 0 ? { buyIn: createBuyIn, prizePayoutTable: createPayoutTable } : {}),
+    });
+    addLog(`sent: MATCH_CREATE (${mode})`);
   };
 
   const createBlackjackMatch = () => {
@@ -5221,7 +5797,7 @@ export default function App() {
       return;
     }
     setAutoReady(true);
-    socket.emit("event", { type: "MATCH_CREATE", mode: "BLACKJACK_ONLY" });
+    socket.emit("event", { type: "MATCH_CREATE", mode: "BLACKJACK_ONLY", blackjackRules: { preset: createBjPreset } });
     addLog("sent: MATCH_CREATE (BLACKJACK_ONLY)");
   };
 
@@ -5239,11 +5815,70 @@ export default function App() {
     addLog("sent: READY_CHECK_CONFIRM");
   };
 
+  // Codes and links are resolved to a match id first; MATCH_JOIN then carries
+  // the code or token so the server can check it.
+  const joinWithInvite = async (invite: { code: string; token: string }) => {
+    const url = new URL(inviteResolveUrl);
+    if (invite.token) url.searchParams.set("token", invite.token);
+    else url.searchParams.set("code", invite.code);
+    try {
+      const res = await fetch(url.toString(), { cache: "no-store" });
+      const data = await res.json();
+      if (!data?.ok) {
+        setLastError(String(data?.error || "invite_not_found"));
+        return;
+      }
+      socket.emit("event", {
+        type: "MATCH_JOIN",
+        matchId: data.matchId,
+        ...(invite.token ? { inviteToken: invite.token } : { inviteCode: invite.code }),
+      });
+      addLog("sent: MATCH_JOIN");
+    } catch (err) {
+      setLastError(String(err));
+    }
+  };
+
   const joinMatch = () => {
-    const code = joinCode.trim();
-    if (!code) return;
-    socket.emit("event", { type: "MATCH_JOIN", matchId: code });
-    addLog("sent: MATCH_JOIN");
+    const value = joinCode.trim();
+    if (!value) return;
+    // A pasted invite link.
+    if (/^https?:\/\//i.test(value)) {
+      const params = new URL(value).searchParams;
+      const code = String(params.get("join") || "").trim();
+      const token = String(params.get("invite") || "").trim();
+      if (code || token) void joinWithInvite({ code, token });
+      return;
+    }
+    // Matches from before invite codes are joined by id.
+    if (/^[0-9a-f]{8}-[0-9a-f]{4}-/i.test(value)) {
+      socket.emit("event", { type: "MATCH_JOIN", matchId: value });
+      addLog("sent: MATCH_JOIN");
+      return;
+    }
+    void joinWithInvite({ code: value, token: "" });
+  };
+
+  useEffect(() => {
+    if (!connected || !pendingInvite) return;
+    setPendingInvite(null);
+    const url = new URL(window.location.href);
+    url.searchParams.delete("join");
+    url.searchParams.delete("invite");
+    window.history.replaceState({}, "", `${url.pathname}${url.search}${url.hash}`);
+    void joinWithInvite(pendingInvite);
+  }, [connected, pendingInvite]);
+
+  const cancelMatch = () => {
+    if (!matchId) return;
+    socket.emit("event", { type: "MATCH_CANCEL", matchId });
+    addLog("sent: MATCH_CANCEL");
+  };
+
+  const createInviteLink = () => {
+    if (!matchId) return;
+    socket.emit("event", { type: "MATCH_INVITE_CREATE", matchId });
+    addLog("sent: MATCH_INVITE_CREATE");
   };
 
   const importYatzy = () => {
@@ -5290,12 +5925,134 @@ export default function App() {
     addLog("sent: BJ_BET_PLACED");
   };
 
-  const sendBjAction = (spot: number, action: "HIT" | "STAND" | "DOUBLE" | "SPLIT", handIndex?: number) => {
+  const sendBjAction = (
+    spot: number,
+    action: "HIT" | "STAND" | "DOUBLE" | "SPLIT" | "SURRENDER" | "INSURANCE" | "EVEN_MONEY" | "NO_INSURANCE",
+    handIndex?: number
+  ) => {
     if (!matchId || !bjRound) return;
     socket.emit("event", { type: "BJ_HAND_ACTION", matchId, round: bjRound, spot, action, handIndex });
     addLog(`sent: BJ_HAND_ACTION ${action}`);
   };
 
+  const setBjSitOut = (sittingOut: boolean) => {
+    if (!matchId) return;
+    socket.emit("event", { type: "BJ_SIT_OUT", matchId, sittingOut });
+    addLog(`sent: BJ_SIT_OUT ${sittingOut}`);
+  };
+
+  const placeRouletteBet = () => {
+    if (!matchId) return;
+    socket.emit("event", { type: "ROULETTE_BET_PLACED", matchId, color: rouletteColor, bet: Math.trunc(rouletteBet) });
+    addLog(`sent: ROULETTE_BET_PLACED ${rouletteColor}`);
+  };
+
+  const skipRoulette = () => {
+    if (!matchId) return;
+    socket.emit("event", { type: "ROULETTE_SKIP", matchId });
+    addLog("sent: ROULETTE_SKIP");
+  };
+
+  const placeDiceBet = () => {
+    if (!matchId) return;
+    socket.emit("event", { type: "DICE_BET_PLACED", matchId, choice: diceChoice, bet: Math.trunc(diceBet) });
+    addLog(`sent: DICE_BET_PLACED ${diceChoice}`);
+  };
+
+  // Every player starts the clip at the server's startAt so nobody hears it first.
+  useEffect(() => {
+    const audio = musicAudioRef.current;
+    if (!musicClip || !audio) return;
+    audio.src = `${silentDiscoMediaUrl}/${encodeURIComponent(musicClip.url)}`;
+    audio.load();
+    const startTimer = window.setTimeout(() => {
+      audio.currentTime = musicClip.clipStartMs / 1000;
+      void audio.play().catch(() => addLog("music: autoplay blocked"));
+    }, Math.max(0, musicClip.startAtLocal - Date.now()));
+    const stopTimer = window.setTimeout(() => audio.pause(), Math.max(0, musicClip.deadlineLocal - Date.now()));
+    return () => {
+      window.clearTimeout(startTimer);
+      window.clearTimeout(stopTimer);
+    };
+  }, [musicClip, silentDiscoMediaUrl]);
+
+  const bjSelfSittingOut = !!selfId && bjSittingOut.includes(selfId);
+  const bjSelfDeadline = selfId ? bjTimer?.deadlinesLocal[selfId] : undefined;
+
+  // Ticks the blackjack countdown while the table is waiting on someone.
+  useEffect(() => {
+    if (!bjTimer) return;
+    const tick = window.setInterval(() => setBjClock(Date.now()), 1000);
+    return () => window.clearInterval(tick);
+  }, [bjTimer]);
+
+  const setMusicPlaylist = () => {
+    if (!matchId) return;
+    // One track per line: "mediaId or media URL | title | artist | start seconds (optional)".
+    const tracks = musicPlaylistText
+      .split("\n")
+      .map((line) => line.split("|").map((part) => part.trim()))
+      .filter((parts) => parts.length >= 3 && parts[0] && parts[1] && parts[2])
+      .map(([media, title, artist, start]) => ({
+        mediaId: media.split("/").filter(Boolean).pop() || media,
+        title,
+        artist,
+        clipStartMs: Math.max(0, Math.trunc(Number(start || 0) * 1000)) || 0,
+      }));
+    socket.emit("event", { type: "MUSIC_PLAYLIST_SET", matchId, tracks });
+    addLog(`sent: MUSIC_PLAYLIST_SET ${tracks.length}`);
+  };
+
+  const submitMusicGuess = () => {
+    if (!matchId || !musicClip || !musicGuess.trim()) return;
+    socket.emit("event", { type: "MUSIC_GUESS_SUBMITTED", matchId, round: musicClip.round, guess: musicGuess.trim() });
+    addLog("sent: MUSIC_GUESS_SUBMITTED");
+    setMusicGuess("");
+  };
+
+  const pickChickenDare = (dareId: string) => {
+    if (!matchId) return;
+    socket.emit("event", { type: "CHICKEN_DARE_PICKED", matchId, dareId });
+    addLog(`sent: CHICKEN_DARE_PICKED ${dareId}`);
+  };
+
+  // amount 0 passes on the dare.
+  const placeChickenBet = (amount: number) => {
+    if (!matchId || !chickenRound) return;
+    socket.emit("event", { type: "CHICKEN_BET_PLACED", matchId, round: chickenRound.round, side: chickenSide, amount });
+    addLog(`sent: CHICKEN_BET_PLACED ${chickenSide} ${amount}`);
+  };
+
+  const finishChickenDare = () => {
+    if (!matchId || !chickenRound) return;
+    socket.emit("event", { type: "CHICKEN_DARE_FINISHED", matchId, round: chickenRound.round });
+    addLog("sent: CHICKEN_DARE_FINISHED");
+  };
+
+  const castChickenVote = (completed: boolean) => {
+    if (!matchId || !chickenRound) return;
+    socket.emit("event", { type: "CHICKEN_VOTE_CAST", matchId, round: chickenRound.round, completed });
+    addLog("sent: CHICKEN_VOTE_CAST");
+  };
+
+  const sendHoldemAction = (action: "FOLD" | "CHECK" | "CALL" | "BET" | "RAISE", amount?: number) => {
+    if (!matchId) return;
+    socket.emit("event", { type: "HOLDEM_ACTION_SUBMITTED", matchId, action, amount });
+    addLog(`sent: HOLDEM_ACTION_SUBMITTED ${action}`);
+  };
+
+  const pickTriviaCategory = (categoryId: string) => {
+    if (!matchId) return;
+    socket.emit("event", { type: "TRIVIA_CATEGORY_PICKED", matchId, categoryId });
+    addLog(`sent: TRIVIA_CATEGORY_PICKED ${categoryId}`);
+  };
+
+  const submitTriviaAnswer = (questionId: string, answerId: string) => {
+    if (!matchId) return;
+    socket.emit("event", { type: "TRIVIA_ANSWER_SUBMITTED", matchId, questionId, answerId });
+    addLog("sent: TRIVIA_ANSWER_SUBMITTED");
+  };
+
   const handleProfileChange = (key: keyof typeof profileForm, value: string | boolean) => {
     setProfileForm((prev) => {
       const next = { ...prev, [key]: value };
@@ -8299,16 +9056,19 @@ export default function App() {
           )}
         </p>
         <div className="cta-row">
-          <button className="btn-primary" onClick={createMatch} disabled={!connected}>
+          <button className="btn-primary" onClick={() => createMatch("FIVE_KAMP")} disabled={!connected}>
             {tr("Skapa match", "Create match")}
           </button>
+          <button className="btn-ghost" onClick={() => createMatch("CHICKEN_RUN")} disabled={!connected}>
+            {tr("Skapa Chick'n Run", "Create Chick'n Run")}
+          </button>
           <button className="btn-ghost" onClick={createBlackjackMatch} disabled={!connected}>
             {tr("Spela Black Jack", "Play Blackjack")}
           </button>
           <div className="join-row">
             <input
               className="join-input"
-              placeholder={tr("Match-kod", "Match code")}
+              placeholder={tr("Kod eller inbjudningslänk", "Code or invite link")}
               value={joinCode}
               onChange={(e) => setJoinCode(e.target.value)}
             />
@@ -8319,6 +9079,66 @@ export default function App() {
           <button className="btn-ghost" onClick={readyUp} disabled={!matchId}>
             {tr("Redo", "Ready")}
           </button>
+          {matchId && stage === "LOBBY" && selfId === hostUserId ? (
+            <button className="btn-ghost" onClick={createInviteLink}>
+              {tr("Kopiera inbjudningslänk", "Copy invite link")}
+            </button>
+          ) : null}
+          {matchId && stage === "LOBBY" && selfId === hostUserId ? (
+            <button className="btn-ghost" onClick={cancelMatch}>
+              {tr("Avbryt match", "Cancel match")}
+            </button>
+          ) : null}
+        </div>
+        {inviteLink ? (
+          <div className="import-row">
+            <input className="join-input" readOnly value={inviteLink} onFocus={(e) => e.target.select()} />
+          </div>
+        ) : null}
+        <div className="import-row">
+          <input
+            className="join-input"
+            placeholder={tr("Egen ordning, t.ex. YATZY, TRIVIA, HOLDEM", "Custom order, e.g. YATZY, TRIVIA, HOLDEM")}
+            value={createStagesText}
+            onChange={(e) => setCreateStagesText(e.target.value)}
+          />
+          <label className="status">
+            <input type="checkbox" checked={createIntermissions} onChange={(e) => setCreateIntermissions(e.target.checked)} />{" "}
+            {tr("Mellanspel (roulette, tärning)", "Intermissions (roulette, dice)")}
+          </label>
+          <select className="join-input" value={createBjPreset} onChange={(e) => setCreateBjPreset(e.target.value as BjRulesPreset)}>
+            <option value="HOUSE">{tr("Blackjack: husets regler", "Blackjack: house rules")}</option>
+            <option value="CLASSIC">{tr("Blackjack: klassisk 3:2", "Blackjack: classic 3:2")}</option>
+            <option value="SIX_FIVE">{tr("Blackjack: 6:5, H17", "Blackjack: 6:5, H17")}</option>
+          </select>
+          <select className="join-input" value={createMaxPlayers} onChange={(e) => setCreateMaxPlayers(Number(e.target.value))}>
+            {[2, 3, 4, 5, 6].map((n) => (
+              <option key={n} value={n}>
+                {tr(`Max ${n} spelare`, `Max ${n} players`)}
+              </option>
+            ))}
+          </select>
+          <input
+            className="join-input"
+            type="number"
+            min={0}
+            step={10}
+            placeholder={tr("Insats (Spux)", "Buy-in (Spux)")}
+            value={createBuyIn || ""}
+            onChange={(e) => setCreateBuyIn(Math.max(0, Math.trunc(Number(e.target.value) || 0)))}
+          />
+          {createBuyIn > 0 ? (
+            <select
+              className="join-input"
+              value={createPayoutTable}
+              onChange={(e) => setCreatePayoutTable(e.target.value as typeof createPayoutTable)}
+            >
+              <option value="WINNER_TAKES_ALL">{tr("Vinnaren tar allt", "Winner takes all")}</option>
+              <option value="TOP_3">{tr("Topp 3: 50/30/20", "Top 3: 50/30/20")}</option>
+              <option value="PROPORTIONAL">{tr("Efter stack", "By stack")}</option>
+            </select>
+          ) : null}
+          {matchId && stagePlan.length ? <span className="status">{stagePlan.join(" → ")}</span> : null}
         </div>
         {matchMode !== "BLACKJACK_ONLY" ? (
         <div className="import-row">
@@ -8351,6 +9171,26 @@ export default function App() {
           {yatzyCreateStatus ? <span className="status">{yatzyCreateStatus}</span> : null}
         </div>
         ) : null}
+        {matchMode !== "BLACKJACK_ONLY" && matchId && stage === "LOBBY" && selfId === hostUserId ? (
+          <div className="import-row">
+            <textarea
+              className="join-input"
+              rows={3}
+              placeholder={tr(
+                "Musikquiz: en låt per rad, media-id | titel | artist | startsekund",
+                "Music quiz: one track per line, media id | title | artist | start second"
+              )}
+              value={musicPlaylistText}
+              onChange={(e) => setMusicPlaylistText(e.target.value)}
+            />
+            <button className="btn-ghost" onClick={setMusicPlaylist} disabled={!musicPlaylistText.trim()}>
+              {tr("Sätt spellista", "Set playlist")}
+            </button>
+            <span className="status">
+              {tr("Låtar", "Tracks")}: {musicTrackCount}
+            </span>
+          </div>
+        ) : null}
         {yatzyMatchId ? (
           <div className="import-row">
             <a
@@ -8361,6 +9201,13 @@ export default function App() {
           >
               {tr("Öppna Yatzy-match", "Open Yatzy match")}
             </a>
+            {Object.entries(yatzySeats).map(([seat, userId]) =>
+              userId === selfId ? (
+                <span key={seat} className="status">
+                  {tr("Din plats", "Your seat")}: {seat}
+                </span>
+              ) : null
+            )}
           </div>
         ) : null}
         <div className="status-row">
@@ -8368,6 +9215,17 @@ export default function App() {
             {connected ? tr("Online", "Online") : tr("Offline", "Offline")}
           </span>
           <span className="status">{matchId ? `${tr("Match", "Match")}: ${matchId}` : tr("Ingen match", "No match")}</span>
+          {matchId && inviteCode ? <span className="status">{tr("Kod", "Code")}: {inviteCode}</span> : null}
+          {matchId && matchMaxPlayers ? (
+            <span className="status">
+              {tr("Spelare", "Players")}: {players.length}/{matchMaxPlayers}
+            </span>
+          ) : null}
+          {matchId && matchBuyIn > 0 ? (
+            <span className="status">
+              {tr("Insats", "Buy-in")}: {matchBuyIn} · {tr("Pott", "Pot")}: {matchPot}
+            </span>
+          ) : null}
           {lastError ? <span className="status bad">{tr("Fel", "Error")}: {lastError}</span> : null}
           <span className="status">{tr("Loggrader", "Log entries")}: {log.length}</span>
           <span className="status">{selfId ? `${tr("Du", "You")}: ${selfId}` : `${tr("Du", "You")}: -`}</span>
@@ -8413,7 +9271,7 @@ export default function App() {
             {players.map((p, idx) => {
               const isReady = readySet.has(p.userId);
               const seat = ["P1", "P2", "P3", "P4", "P5", "P6"][idx] ?? "-";
-              const challengeChoices = getChickenChallengesForSeat(idx);
+              const challengeChoices = chickenDares[p.userId] ?? [];
               return (
                 <li key={p.userId} className="chicken-card">
                   <div className="chicken-card__header">
@@ -8432,19 +9290,31 @@ export default function App() {
                     <span className="player-seat">{seat}</span>
                     <span className="player-stack">{tr("Stack", "Stack")}: {p.stack}</span>
                     {selfId === p.userId ? <span className="you-tag">{tr("Det här är du", "This one is you")}</span> : null}
+                    {p.forfeited ? <span className="ready-chip off">{tr("Gav upp", "Forfeited")}</span> : null}
+                    {p.botControlled ? (
+                      <span className="ready-chip off">{tr("Sputnik spelar", "Sputnik plays")}</span>
+                    ) : p.isConnected === false ? (
+                      <span className="ready-chip off">
+                        {p.reconnectDeadline
+                          ? `${tr("Frånkopplad, platsen hålls till", "Disconnected, seat held until")} ${new Date(p.reconnectDeadline).toLocaleTimeString()}`
+                          : tr("Frånkopplad", "Disconnected")}
+                      </span>
+                    ) : null}
                   </div>
-                  <div className="chicken-card__challenge-block">
-                    <span className="chicken-card__challenge-title">{tr("Möjliga kompisutmaningar", "Possible friend challenges")}</span>
-                    <ul className="chicken-card__challenge-list">
-                      {challengeChoices.map((challenge) => (
-                        <li key={`${p.userId}-${challenge.labelEn}`}>
-                          <span className="chicken-card__challenge-icon" aria-hidden="true">{challenge.icon}</span>
-                          <span className="chicken-card__challenge-text">{tr(challenge.labelSv, challenge.labelEn)}</span>
-                          <span className="chicken-card__points">+{challenge.points} {tr("poäng", "pts")}</span>
-                        </li>
-                      ))}
-                    </ul>
-                  </div>
+                  {challengeChoices.length ? (
+                    <div className="chicken-card__challenge-block">
+                      <span className="chicken-card__challenge-title">{tr("Möjliga kompisutmaningar", "Possible friend challenges")}</span>
+                      <ul className="chicken-card__challenge-list">
+                        {challengeChoices.map((challenge) => (
+                          <li key={`${p.userId}-${challenge.id}`}>
+                            <span className="chicken-card__challenge-icon" aria-hidden="true">{challenge.icon}</span>
+                            <span className="chicken-card__challenge-text">{tr(challenge.label.sv, challenge.label.en)}</span>
+                            <span className="chicken-card__points">+{challenge.points} {tr("poäng", "pts")}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ) : null}
                 </li>
               );
             })}
@@ -8505,7 +9375,22 @@ export default function App() {
                         {hand.sideBet ? ` • ${tr("Sidebet", "Side bet")}: ${hand.sideBet}` : ""}
                         {hand.sideResult ? ` (${hand.sideResult})` : ""}
                       </div>
-                      {hand.status === "ACTIVE" ? (
+                      {bjInsuranceOpen && !hand.insurance ? (
+                        <div className="bj-actions">
+                          {hand.status === "BLACKJACK" ? (
+                            <button className="btn-ghost" onClick={() => sendBjAction(hand.spot, "EVEN_MONEY", hand.handIndex)}>
+                              {tr("Jämna pengar", "Even money")}
+                            </button>
+                          ) : (
+                            <button className="btn-ghost" onClick={() => sendBjAction(hand.spot, "INSURANCE", hand.handIndex)}>
+                              {tr("Försäkra", "Insurance")} ({Math.floor(hand.bet / 2)})
+                            </button>
+                          )}
+                          <button className="btn-ghost" onClick={() => sendBjAction(hand.spot, "NO_INSURANCE", hand.handIndex)}>
+                            {tr("Nej tack", "No thanks")}
+                          </button>
+                        </div>
+                      ) : hand.status === "ACTIVE" ? (
                         <div className="bj-actions">
                           <button className="btn-ghost" onClick={() => sendBjAction(hand.spot, "HIT", hand.handIndex)}>
                             {tr("Ta kort", "Hit")}
@@ -8519,6 +9404,11 @@ export default function App() {
                           <button className="btn-ghost" onClick={() => sendBjAction(hand.spot, "SPLIT", hand.handIndex)}>
                             {tr("Splitta", "Split")}
                           </button>
+                          {bjRules?.lateSurrender && hand.cards.length === 2 ? (
+                            <button className="btn-ghost" onClick={() => sendBjAction(hand.spot, "SURRENDER", hand.handIndex)}>
+                              {tr("Ge upp", "Surrender")}
+                            </button>
+                          ) : null}
                         </div>
                       ) : null}
                     </div>
@@ -8531,6 +9421,25 @@ export default function App() {
           </div>
           <div className="bj-betting">
             <div className="bj-label">{tr("Betta", "Place bet")} ({tr("runda", "round")} {bjRound || "-"})</div>
+            {bjShoe ? (
+              <div className="bj-meta">
+                {tr("Sko", "Shoe")} {bjShoe.shoe} • {bjShoe.decks} {tr("lekar", "decks")} • {bjShoe.remaining}/
+                {bjShoe.totalCards} {tr("kort kvar", "cards left")} • {tr("cut card vid", "cut card at")} {bjShoe.cutCard}
+              </div>
+            ) : null}
+            {bjTimer && Object.keys(bjTimer.deadlinesLocal).length ? (
+              <div className="bj-meta">
+                {bjTimer.phase === "BETTING"
+                  ? tr("Bettning", "Betting")
+                  : bjTimer.phase === "INSURANCE"
+                    ? tr("Försäkring", "Insurance")
+                    : tr("Spel", "Play")}
+                {": "}
+                {bjSelfDeadline !== undefined
+                  ? `${tr("din tid", "your time")} ${Math.max(0, Math.ceil((bjSelfDeadline - bjClock) / 1000))} s`
+                  : `${tr("väntar på", "waiting for")} ${Object.keys(bjTimer.deadlinesLocal).length} ${tr("spelare", "players")}`}
+              </div>
+            ) : null}
             <div className="bj-controls">
               <input
                 className="join-input"
@@ -8555,16 +9464,578 @@ export default function App() {
               <button className="btn-primary" onClick={placeBjBet} disabled={!matchId || !bjRound}>
                 {tr("Placera bet", "Place bet")}
               </button>
+              <button className="btn-ghost" onClick={() => setBjSitOut(!bjSelfSittingOut)} disabled={!matchId}>
+                {bjSelfSittingOut ? tr("Sätt dig igen", "Sit back in") : tr("Sitt över", "Sit out")}
+              </button>
             </div>
+            {bjSelfSittingOut ? (
+              <p className="bj-meta">
+                {tr(
+                  "Du sitter över: bordet väntar inte på din bet. Betta eller sätt dig igen för att vara med.",
+                  "You are sitting out: the table does not wait for your bet. Bet or sit back in to play."
+                )}
+              </p>
+            ) : null}
             <p className="bj-rules">
               {tr(
-                "Regler: Split och Double tillåtet. Sidebet under/över 13 gäller första två korten. Push på 20. Dealer vinner lika på 17-19. Blackjack slår 21 på tre kort.",
-                "Rules: Split and Double allowed. Sidebet under/over 13 applies to the first two cards. Push on 20. Dealer wins ties on 17-19. Blackjack beats 21 on three cards."
-              )}
+                "Regler: Sidebet under/över 13 gäller första två korten.",
+                "Rules: Sidebet under/over 13 applies to the first two cards."
+              )}{" "}
+              {!bjRules || bjRules.tieRule === "HOUSE"
+                ? tr(
+                    "Push på 20. Dealer vinner lika på 17-19. Blackjack slår 21 på tre kort.",
+                    "Push on 20. Dealer wins ties on 17-19. Blackjack beats 21 on three cards."
+                  )
+                : tr("Lika är push.", "Ties push.")}
+              {bjRules ? (
+                <>
+                  {" "}
+                  {tr("Blackjack betalar", "Blackjack pays")} {bjRules.blackjackPayout} •{" "}
+                  {bjRules.dealerHitsSoft17
+                    ? tr("dealern tar kort på mjuk 17", "dealer hits soft 17")
+                    : tr("dealern stannar på 17", "dealer stands on 17")}{" "}
+                  • {bjRules.dealerPeek ? tr("dealern kikar", "dealer peeks") : tr("ingen kik", "no peek")} •{" "}
+                  {tr("split till", "split to")} {bjRules.maxSplitHands} {tr("händer", "hands")}
+                  {bjRules.doubleAfterSplit ? ` • ${tr("dubbla efter split", "double after split")}` : ""}
+                  {bjRules.insurance ? ` • ${tr("försäkring", "insurance")}` : ""}
+                  {bjRules.lateSurrender ? ` • ${tr("sen surrender", "late surrender")}` : ""}
+                </>
+              ) : null}
             </p>
           </div>
         </section>
       ) : null}
+      {stage === "ROULETTE" || rouletteResult ? (
+        <section className="blackjack">
+          <h3>{tr("Roulette", "Roulette")}</h3>
+          <p className="bj-rules">
+            {tr(
+              "Bara blackjack-vinsten får riskas. Rött eller svart ger kvitt eller dubbelt, grön nolla tar allt.",
+              "Only your blackjack profit can be risked. Red or black is double or nothing, green zero takes it all."
+            )}
+          </p>
+          {stage === "ROULETTE" ? (
+            <div className="bj-betting">
+              <div className="bj-label">
+                {tr("Max insats", "Max bet")}: {selfId ? rouletteLimits[selfId] ?? 0 : 0}
+              </div>
+              <div className="bj-controls">
+                <select className="join-input" value={rouletteColor} onChange={(e) => setRouletteColor(e.target.value as "RED" | "BLACK")}>
+                  <option value="RED">{tr("Rött", "Red")}</option>
+                  <option value="BLACK">{tr("Svart", "Black")}</option>
+                </select>
+                <input
+                  className="join-input"
+                  type="number"
+                  min={1}
+                  max={selfId ? rouletteLimits[selfId] ?? 0 : 0}
+                  value={rouletteBet}
+                  onChange={(e) => setRouletteBet(Number(e.target.value))}
+                  placeholder={tr("Insats", "Bet")}
+                />
+                <button className="btn-primary" onClick={placeRouletteBet} disabled={!matchId}>
+                  {tr("Snurra", "Spin")}
+                </button>
+                <button className="btn-ghost" onClick={skipRoulette} disabled={!matchId}>
+                  {tr("Skippa", "Skip")}
+                </button>
+              </div>
+            </div>
+          ) : null}
+          {rouletteResult ? (
+            <div className="bj-row">
+              <div className="bj-label">
+                {tr("Kulan landade på", "The ball landed on")} {rouletteResult.pocket} ({rouletteResult.color})
+              </div>
+              <div className="bj-meta">
+                {rouletteResult.results.map((r) => (
+                  <span key={r.userId}>
+                    {r.userId}: {r.delta > 0 ? `+${r.delta}` : r.delta}{" "}
+                  </span>
+                ))}
+              </div>
+            </div>
+          ) : null}
+        </section>
+      ) : null}
+      {stage === "TRIVIA" ? (
+        <section className="blackjack">
+          <h3>{tr("Frågesport", "Trivia")}</h3>
+          {triviaPickerUserId ? (
+            <div className="bj-row">
+              <div className="bj-label">
+                {triviaPickerUserId === selfId
+                  ? tr("Välj kategori", "Pick a category")
+                  : `${tr("Väljer kategori", "Picking category")}: ${triviaPickerUserId}`}
+              </div>
+              <div className="bj-actions">
+                {triviaOptions.map((option) => (
+                  <button
+                    key={option.id}
+                    className="btn-ghost"
+                    disabled={triviaPickerUserId !== selfId}
+                    onClick={() => pickTriviaCategory(option.id)}
+                  >
+                    {tr(option.label.sv, option.label.en)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : null}
+          {triviaQuestion ? (
+            <div className="bj-row">
+              <div className="bj-label">
+                {triviaQuestion.value} • {tr(triviaQuestion.prompt.sv, triviaQuestion.prompt.en)}
+              </div>
+              <div className="bj-meta">
+                {triviaQuestion.answeringUserId === selfId
+                  ? tr("Din tur att svara!", "Your turn to answer!")
+                  : `${tr("Svarar", "Answering")}: ${triviaQuestion.answeringUserId}`}
+              </div>
+              <div className="bj-actions">
+                {triviaQuestion.answers.map((answer) => (
+                  <button
+                    key={answer.id}
+                    className={triviaResolved?.correctAnswerId === answer.id ? "btn-primary" : "btn-ghost"}
+                    disabled={triviaQuestion.answeringUserId !== selfId || !!triviaResolved}
+                    onClick={() => submitTriviaAnswer(triviaQuestion.id, answer.id)}
+                  >
+                    {tr(answer.text.sv, answer.text.en)}
+                  </button>
+                ))}
+              </div>
+              {triviaResolved ? (
+                <div className="bj-meta">
+                  {triviaResolved.winnerUserId
+                    ? `${triviaResolved.winnerUserId}: +${triviaResolved.pointsByUser[triviaResolved.winnerUserId] ?? 0}`
+                    : tr("Ingen svarade rätt.", "Nobody got it right.")}
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+        </section>
+      ) : null}
+      {stage === "DICE" || diceResult ? (
+        <section className="blackjack">
+          <h3>{tr("Tärning högre/lägre", "Dice higher/lower")}</h3>
+          <p className="bj-rules">
+            {tr(
+              "Gissa om nästa tärning blir högre eller lägre. Max 25% av stacken, lika är push.",
+              "Guess whether the next die rolls higher or lower. Max 25% of your stack, a tie is a push."
+            )}
+          </p>
+          {stage === "DICE" && diceFirstDie !== null ? (
+            <div className="bj-betting">
+              <div className="bj-label">
+                {tr("Första tärningen", "First die")}: {diceFirstDie} • {tr("Max insats", "Max bet")}:{" "}
+                {selfId ? diceMaxBets[selfId] ?? 0 : 0}
+              </div>
+              <div className="bj-controls">
+                <select className="join-input" value={diceChoice} onChange={(e) => setDiceChoice(e.target.value as "HIGHER" | "LOWER")}>
+                  <option value="HIGHER">{tr("Högre", "Higher")}</option>
+                  <option value="LOWER">{tr("Lägre", "Lower")}</option>
+                </select>
+                <input
+                  className="join-input"
+                  type="number"
+                  min={1}
+                  max={selfId ? diceMaxBets[selfId] ?? 0 : 0}
+                  value={diceBet}
+                  onChange={(e) => setDiceBet(Number(e.target.value))}
+                  placeholder={tr("Insats", "Bet")}
+                />
+                <button className="btn-primary" onClick={placeDiceBet} disabled={!matchId}>
+                  {tr("Slå", "Roll")}
+                </button>
+              </div>
+            </div>
+          ) : null}
+          {diceResult ? (
+            <div className="bj-row">
+              <div className="bj-label">
+                {diceResult.firstDie} → {diceResult.secondDie}
+              </div>
+              <div className="bj-meta">
+                {diceResult.results.map((r) => (
+                  <span key={r.userId}>
+                    {r.userId}: {r.result === "PUSH" ? "push" : r.delta > 0 ? `+${r.delta}` : r.delta}{" "}
+                  </span>
+                ))}
+              </div>
+            </div>
+          ) : null}
+        </section>
+      ) : null}
+      {fairDraws.length ? (
+        <section className="blackjack">
+          <h3>{tr("Rättvisekontroll", "Fairness check")}</h3>
+          <p className="bj-rules">
+            {tr(
+              "Servern visar en hash av varje seed innan någon satsar och själva seeden när rundan är avgjord. Verifiera räknar om allt här i webbläsaren.",
+              "The server shows a hash of each seed before anyone bets and the seed itself once the round is settled. Verify recomputes everything here in your browser."
+            )}
+          </p>
+          {fairDraws.map((draw) => (
+            <div className="bj-row" key={draw.key}>
+              <div className="bj-label">
+                {draw.kind === "BLACKJACK"
+                  ? `${tr("Blackjack sko", "Blackjack shoe")} ${draw.round}`
+                  : draw.kind === "ROULETTE"
+                    ? tr("Roulette", "Roulette")
+                    : tr("Tärning", "Dice")}{" "}
+                • <code>{draw.seedHash.slice(0, 16)}…</code>
+              </div>
+              {draw.seed ? (
+                <div className="bj-actions">
+                  <button className="btn-ghost" onClick={() => void verifyFairDraw(draw)}>
+                    {tr("Verifiera", "Verify")}
+                  </button>
+                </div>
+              ) : (
+                <div className="bj-meta">
+                  {draw.kind === "BLACKJACK"
+                    ? tr("Seed visas när skon byts.", "Seed is revealed when the shoe is replaced.")
+                    : tr("Seed visas efter rundan.", "Seed is revealed after the round.")}
+                </div>
+              )}
+              {draw.check ? (
+                <div className="bj-meta">
+                  {draw.check.hashMatches
+                    ? tr("Hash stämmer", "Hash matches")
+                    : tr("Hash stämmer INTE", "Hash does NOT match")}
+                  {draw.check.outcomeMatches === null
+                    ? ""
+                    : draw.check.outcomeMatches
+                      ? ` • ${tr("utfallet stämmer", "outcome matches")}`
+                      : ` • ${tr("utfallet stämmer INTE", "outcome does NOT match")}`}
+                  {" • "}
+                  {draw.kind === "BLACKJACK"
+                    ? `${tr("Kortlek i dragordning", "Shoe in draw order")}: ${draw.check.outcome}`
+                    : draw.check.outcome}
+                </div>
+              ) : null}
+            </div>
+          ))}
+        </section>
+      ) : null}
+      {stage === "CHICKEN_RUN" || chickenResult ? (
+        <section className="blackjack">
+          <h3>{tr("Chick'n Run", "Chick'n Run")}</h3>
+          {chickenRound ? (
+            <div className="bj-table">
+              <div className="bj-row">
+                <div className="bj-label">
+                  {tr("Runda", "Round")} {chickenRound.round}/{chickenRound.roundsTotal} • {tr("Kyckling", "Chicken")}:{" "}
+                  {chickenRound.performerUserId === selfId ? tr("du", "you") : chickenRound.performerUserId}
+                </div>
+                {chickenRound.dare ? (
+                  <div className="bj-meta">
+                    {chickenRound.dare.icon} {tr(chickenRound.dare.label.sv, chickenRound.dare.label.en)} (+{chickenRound.dare.points}{" "}
+                    {tr("poäng", "pts")})
+                  </div>
+                ) : null}
+              </div>
+              {chickenRound.phase === "PICKING" ? (
+                chickenRound.performerUserId === selfId ? (
+                  <div className="bj-controls">
+                    {chickenRound.options.map((dare) => (
+                      <button key={dare.id} className="btn-ghost" onClick={() => pickChickenDare(dare.id)}>
+                        {dare.icon} {tr(dare.label.sv, dare.label.en)} (+{dare.points})
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="bj-rules">{tr("Kycklingen väljer utmaning...", "The chicken is picking a dare...")}</p>
+                )
+              ) : null}
+              {chickenRound.phase === "BETTING" ? (
+                chickenRound.performerUserId !== selfId && !(selfId && selfId in chickenRound.bets) ? (
+                  <div className="bj-controls">
+                    <select
+                      className="join-input"
+                      value={chickenSide}
+                      onChange={(e) => setChickenSide(e.target.value as ChickenBetSide)}
+                    >
+                      <option value="DOES_IT">{tr("Klarar det", "Does it")}</option>
+                      <option value="CHICKENS_OUT">{tr("Fegar ur", "Chickens out")}</option>
+                    </select>
+                    <input
+                      className="join-input"
+                      type="number"
+                      min={0}
+                      max={players.find((p) => p.userId === selfId)?.stack ?? 0}
+                      value={chickenBet}
+                      onChange={(e) => setChickenBet(Math.max(0, Math.trunc(Number(e.target.value) || 0)))}
+                    />
+                    <button className="btn-primary" onClick={() => placeChickenBet(chickenBet)} disabled={chickenBet < 1}>
+                      {tr("Satsa", "Bet")}
+                    </button>
+                    <button className="btn-ghost" onClick={() => placeChickenBet(0)}>
+                      {tr("Stå över", "Pass")}
+                    </button>
+                  </div>
+                ) : (
+                  <p className="bj-rules">{tr("Vadslagningen pågår...", "Betting is open...")}</p>
+                )
+              ) : null}
+              {chickenRound.phase === "PERFORMING" ? (
+                chickenRound.performerUserId === selfId ? (
+                  <div className="bj-controls">
+                    <button className="btn-primary" onClick={finishChickenDare}>
+                      {tr("Klar!", "Done!")}
+                    </button>
+                  </div>
+                ) : (
+                  <p className="bj-rules">{tr("Kycklingen kör, titta noga.", "The chicken is on, watch closely.")}</p>
+                )
+              ) : null}
+              {chickenRound.phase === "VOTING" ? (
+                chickenRound.performerUserId !== selfId && !chickenRound.votedUserIds.includes(selfId ?? "") ? (
+                  <div className="bj-controls">
+                    <button className="btn-primary" onClick={() => castChickenVote(true)}>
+                      {tr("Klarade det", "Completed")}
+                    </button>
+                    <button className="btn-ghost" onClick={() => castChickenVote(false)}>
+                      {tr("Fegade ur", "Chickened out")}
+                    </button>
+                  </div>
+                ) : (
+                  <p className="bj-rules">
+                    {tr("Röster", "Votes")}: {chickenRound.votedUserIds.length}
+                  </p>
+                )
+              ) : null}
+              {Object.keys(chickenRound.bets).length ? (
+                <div className="bj-row">
+                  <div className="bj-meta">
+                    {Object.entries(chickenRound.bets).map(([userId, bet]) => (
+                      <span key={userId}>
+                        {userId}: {bet.side ? `${bet.amount} ${bet.side === "DOES_IT" ? tr("klarar", "does it") : tr("fegar", "chickens")}` : tr("står över", "pass")}{" "}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+          {chickenResult ? (
+            <div className="bj-row">
+              <div className="bj-label">
+                {chickenResult.outcome === "COMPLETED"
+                  ? tr("Klarade det!", "Completed!")
+                  : chickenResult.outcome === "FAILED"
+                    ? tr("Fegade ur!", "Chickened out!")
+                    : tr("Oavgjort, alla insatser tillbaka.", "Tied vote, all bets returned.")}{" "}
+                ({chickenResult.votes.yes}–{chickenResult.votes.no})
+              </div>
+              <div className="bj-meta">
+                {chickenResult.bonus ? (
+                  <span>
+                    {chickenResult.performerUserId}: +{chickenResult.bonus}{" "}
+                  </span>
+                ) : null}
+                {Object.entries(chickenResult.deltasByUser).map(([userId, delta]) => (
+                  <span key={userId}>
+                    {userId}: {delta > 0 ? `+${delta}` : delta}{" "}
+                  </span>
+                ))}
+              </div>
+            </div>
+          ) : null}
+        </section>
+      ) : null}
+      {stage === "MUSIC" || musicRoundResult ? (
+        <section className="blackjack">
+          <h3>{tr("Musikquiz", "Music quiz")}</h3>
+          <audio ref={musicAudioRef} preload="auto" />
+          {musicClip ? (
+            <div className="bj-row">
+              <div className="bj-label">
+                {tr("Runda", "Round")} {musicClip.round}/{musicClip.roundsTotal}
+              </div>
+              <div className="bj-meta">
+                {tr("Hittat", "Found")}: {musicFound.length ? musicFound.join(", ") : "-"}
+              </div>
+              {stage === "MUSIC" && !musicRoundResult ? (
+                <div className="bj-controls">
+                  <input
+                    className="join-input"
+                    value={musicGuess}
+                    onChange={(e) => setMusicGuess(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") submitMusicGuess();
+                    }}
+                    placeholder={tr("Titel och/eller artist", "Title and/or artist")}
+                  />
+                  <button className="btn-primary" onClick={submitMusicGuess} disabled={!musicGuess.trim()}>
+                    {tr("Gissa", "Guess")}
+                  </button>
+                </div>
+              ) : null}
+            </div>
+          ) : (
+            <p className="bj-rules">{tr("Ingen spellista, hoppar över.", "No playlist, skipping.")}</p>
+          )}
+          {musicRoundResult ? (
+            <div className="bj-row">
+              <div className="bj-label">
+                {musicRoundResult.artist} – {musicRoundResult.title}
+              </div>
+              <div className="bj-meta">
+                {Object.entries(musicRoundResult.pointsByUser).map(([userId, points]) => (
+                  <span key={userId}>
+                    {userId}: +{points}{" "}
+                  </span>
+                ))}
+              </div>
+            </div>
+          ) : null}
+        </section>
+      ) : null}
+      {stage === "HOLDEM" || holdemResult ? (
+        <section className="blackjack">
+          <h3>{tr("Texas Hold'em", "Texas Hold'em")}</h3>
+          {holdemHand ? (
+            <div className="bj-table">
+              <div className="bj-row">
+                <div className="bj-label">
+                  {tr("Hand", "Hand")} #{holdemHand.handId} • {tr("Nivå", "Level")} {holdemHand.level} • {tr("Blinds", "Blinds")}{" "}
+                  {holdemHand.sb}/{holdemHand.bb} • {tr("Pott", "Pot")}: {holdemHand.pot}
+                </div>
+                <div className="bj-cards">
+                  {holdemBoard.length ? (
+                    holdemBoard.map((c, i) => (
+                      <span key={`b-${i}`} className="bj-card bj-card--deal" style={{ animationDelay: `${i * 0.08}s` }}>
+                        {c.rank}
+                        {c.suit}
+                      </span>
+                    ))
+                  ) : (
+                    <span className="bj-empty">{tr("Inga kort", "No cards")}</span>
+                  )}
+                </div>
+              </div>
+              <div className="bj-row">
+                <div className="bj-label">{tr("Dina kort", "Your cards")}</div>
+                <div className="bj-cards">
+                  {holdemHoleCards.map((c, i) => (
+                    <span key={`h-${i}`} className="bj-card">
+                      {c.rank}
+                      {c.suit}
+                    </span>
+                  ))}
+                </div>
+                <div className="bj-meta">
+                  {Object.entries(holdemHand.stacks).map(([userId, stack]) => (
+                    <span key={userId}>
+                      {userId === holdemHand.buttonUserId ? "(D) " : ""}
+                      {userId}: {stack}{" "}
+                    </span>
+                  ))}
+                </div>
+              </div>
+              {holdemTurn ? (
+                <div className="bj-row">
+                  <div className="bj-meta">
+                    {holdemTurn.userId === selfId
+                      ? tr("Din tur!", "Your turn!")
+                      : `${tr("Väntar på", "Waiting for")}: ${holdemTurn.userId}`}
+                  </div>
+                  {holdemTurn.userId === selfId ? (
+                    <div className="bj-actions">
+                      <button className="btn-ghost" onClick={() => sendHoldemAction("FOLD")}>
+                        {tr("Fold", "Fold")}
+                      </button>
+                      {holdemTurn.toCall > 0 ? (
+                        <button className="btn-ghost" onClick={() => sendHoldemAction("CALL")}>
+                          {tr("Syna", "Call")} {holdemTurn.toCall}
+                        </button>
+                      ) : (
+                        <button className="btn-ghost" onClick={() => sendHoldemAction("CHECK")}>
+                          {tr("Checka", "Check")}
+                        </button>
+                      )}
+                      {holdemTurn.maxRaiseTo > holdemTurn.toCall ? (
+                        <>
+                          <input
+                            className="join-input"
+                            type="number"
+                            min={holdemTurn.minRaiseTo}
+                            max={holdemTurn.maxRaiseTo}
+                            value={holdemAmount}
+                            onChange={(e) => setHoldemAmount(Number(e.target.value))}
+                          />
+                          <button
+                            className="btn-primary"
+                            onClick={() => sendHoldemAction(holdemTurn.toCall > 0 ? "RAISE" : "BET", Math.trunc(holdemAmount))}
+                          >
+                            {holdemTurn.toCall > 0 ? tr("Höj till", "Raise to") : tr("Bet", "Bet")}
+                          </button>
+                        </>
+                      ) : null}
+                    </div>
+                  ) : null}
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+          {holdemResult ? (
+            <div className="bj-row">
+              <div className="bj-label">
+                {tr("Hand", "Hand")} #{holdemResult.handId}:{" "}
+                {holdemResult.pots.map((pot, i) => (
+                  <span key={`pot-${i}`}>
+                    {pot.amount} → {pot.winnerUserIds.join(", ")}{" "}
+                  </span>
+                ))}
+              </div>
+              <div className="bj-meta">
+                {holdemResult.showdown.map((s) => (
+                  <span key={s.userId}>
+                    {s.userId}: {s.cards.map((c) => `${c.rank}${c.suit}`).join(" ")} ({s.category}){" "}
+                  </span>
+                ))}
+              </div>
+            </div>
+          ) : null}
+        </section>
+      ) : null}
+      {matchStandings ? (
+        <section className="blackjack">
+          <h3>{tr("Resultat", "Results")}</h3>
+          <div className="results-podium">
+            {[matchStandings[1], matchStandings[0], matchStandings[2]]
+              .filter((s): s is MatchStandingView => Boolean(s))
+              .map((s) => (
+                <div key={s.userId} className={`results-step results-step--${Math.min(3, s.place)}`}>
+                  <div className="bj-label">#{s.place}</div>
+                  <strong>{s.userId === selfId ? tr("Du", "You") : s.userId}</strong>
+                  <div className="bj-meta">{s.stack}</div>
+                </div>
+              ))}
+          </div>
+          {matchStandings.map((s) => (
+            <div key={s.userId} className="bj-row">
+              <div className="bj-label">
+                #{s.place} {s.userId} · {s.stack}
+                {s.yatzyScore !== null ? ` · Yatzy ${s.yatzyScore}` : ""}
+              </div>
+              <div className="bj-meta">
+                {Object.entries(s.byStage).map(([stageName, delta]) => (
+                  <span key={stageName}>
+                    {stageName} {delta > 0 ? `+${delta}` : delta}{" "}
+                  </span>
+                ))}
+              </div>
+              {s.spuxTotal > 0 ? (
+                <div className="bj-meta">
+                  Spux +{s.spuxTotal} ({s.spux.map((p) => `${p.reason} +${p.amount}`).join(", ")})
+                </div>
+              ) : null}
+            </div>
+          ))}
+        </section>
+      ) : null}
       <section className="debug">
         <h3>{tr("Debug", "Debug")}: sputnet.world</h3>
         {authDebug ? (
@@ -25,22 +25,68 @@ type SilentDiscoSource = {
   url: string;
   mimeType: string | null;
   mediaId: string | null;
+  artist: string | null;
+  coverUrl: string | null;
+  hlsUrl: string | null;
   setByUserId: string;
 };
 
+type SilentDiscoRepeatMode = "off" | "all" | "one";
+
+type SilentDiscoQueueItem = {
+  itemId: string;
+  source: SilentDiscoSource;
+  durationMs: number | null;
+  addedByUserId: string;
+};
+
+type SilentDiscoSuggestion = {
+  suggestionId: string;
+  source: SilentDiscoSource;
+  durationMs: number | null;
+  suggestedByUserId: string;
+  suggestedByDisplayName: string;
+  createdAtMs: number;
+};
+
+type SilentDiscoPlaylist = {
+  playlistId: string;
+  name: string;
+  tracks: Array<{ source: SilentDiscoSource; durationMs: number | null }>;
+  updatedAtMs: number;
+};
+
+type SilentDiscoChannelColor = "red" | "blue" | "green";
+
+type SilentDiscoChannelState = {
+  channelId: SilentDiscoChannelColor;
+  djUserId: string | null;
+  djDisplayName: string | null;
+  source: SilentDiscoSource | null;
+  durationMs: number | null;
+  playing: boolean;
+  positionMs: number;
+  queue: SilentDiscoQueueItem[];
+  currentItemId: string | null;
+  repeat: SilentDiscoRepeatMode;
+  suggestions: SilentDiscoSuggestion[];
+  listenerCount: number;
+  listenerUserCount: number;
+};
+
 type SilentDiscoRoomState = {
   roomCode: string;
   hostUserId: string;
   hostDisplayName: string;
-  source: SilentDiscoSource | null;
-  playing: boolean;
-  positionMs: number;
+  channels: SilentDiscoChannelState[];
   serverNowMs: number;
   listenerCount: number;
   listenerUserCount: number;
-  listeners: Array<{ userId: string; displayName: string }>;
+  listeners: Array<{ userId: string; displayName: string; channelId: SilentDiscoChannelColor }>;
 };
 
+const MAX_CHANNELS = 3;
+
 type UploadResponse = {
   ok: boolean;
   error?: string;
@@ -50,9 +96,16 @@ type UploadResponse = {
     mimeType: string;
     sizeBytes: number;
     originalName: string;
+    durationMs: number | null;
+    title: string | null;
+    artist: string | null;
   };
 };
 
+// Safari and mobile browsers play HLS natively; elsewhere the plain file is used.
+const canPlayHls = (): boolean =>
+  typeof document !== "undefined" && document.createElement("audio").canPlayType("application/vnd.apple.mpegurl") !== "";
+
 type LinkResponse = {
   ok: boolean;
   error?: string;
@@ -64,6 +117,63 @@ type LinkResponse = {
 
 const MAX_UPLOAD_SIZE_MB = 80;
 
+// Clock sync: a burst of pings on join and reconnect, then one now and then.
+const CLOCK_SYNC_BURST = 6;
+const CLOCK_SYNC_BURST_SPACING_MS = 200;
+const CLOCK_SYNC_INTERVAL_MS = 15_000;
+const CLOCK_SAMPLE_WINDOW = 12;
+// Only the fastest round trips are trusted; slow ones are lopsided.
+const CLOCK_BEST_SAMPLES = 4;
+
+// Drift correction: within the tolerance nothing is done, up to the seek
+// limit the playback rate is nudged (inaudibly), beyond it we seek.
+const DRIFT_CHECK_INTERVAL_MS = 500;
+const SYNC_TOLERANCE_MS = 40;
+const SEEK_DRIFT_MS = 1000;
+const MAX_RATE_NUDGE = 0.05;
+// A drift is worked off over about this long.
+const RATE_CORRECTION_WINDOW_MS = 4000;
+
+type ClockSample = { offsetMs: number; rttMs: number };
+
+// t0 sent and t3 received on our clock, t1 received and t2 sent on the server's.
+const clockSampleFromPong = (t0: number, t1: number, t2: number, t3: number): ClockSample => ({
+  offsetMs: (t1 - t0 + (t2 - t3)) / 2,
+  rttMs: Math.max(0, t3 - t0 - (t2 - t1)),
+});
+
+// Median offset of the samples with the shortest round trips.
+const estimateClock = (samples: ClockSample[]): ClockSample | null => {
+  if (!samples.length) return null;
+  const best = [...samples].sort((a, b) => a.rttMs - b.rttMs).slice(0, CLOCK_BEST_SAMPLES);
+  const offsets = best.map((sample) => sample.offsetMs).sort((a, b) => a - b);
+  const middle = Math.floor(offsets.length / 2);
+  const offsetMs = offsets.length % 2 ? offsets[middle] : (offsets[middle - 1] + offsets[middle]) / 2;
+  return { offsetMs: Math.round(offsetMs), rttMs: Math.round(best[0].rttMs) };
+};
+
+// Read from the file's metadata, so the room knows when the track ends.
+function readAudioDurationMs(file: File): Promise<number | null> {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const audio = new Audio();
+    const done = (value: number | null) => {
+      URL.revokeObjectURL(url);
+      resolve(value);
+    };
+    audio.preload = "metadata";
+    audio.onloadedmetadata = () => done(Number.isFinite(audio.duration) ? Math.round(audio.duration * 1000) : null);
+    audio.onerror = () => done(null);
+    audio.src = url;
+  });
+}
+
+const formatDuration = (durationMs: number | null): string => {
+  if (!durationMs) return "–";
+  const totalSeconds = Math.round(durationMs / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, "0")}`;
+};
+
 function readFileAsDataUrl(file: File): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -123,6 +233,9 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
   const [authError, setAuthError] = useState<string | null>(null);
   const [roomInput, setRoomInput] = useState(initialJoinData.roomCode || "");
   const [room, setRoom] = useState<SilentDiscoRoomState | null>(null);
+  // The channel this tab listens to, as the server last told us.
+  const [channelId, setChannelId] = useState<SilentDiscoChannelColor | null>(null);
+  const [createChannelCount, setCreateChannelCount] = useState(1);
   const [status, setStatus] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [uploadBusy, setUploadBusy] = useState(false);
@@ -130,11 +243,19 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
   const [streamUrl, setStreamUrl] = useState("");
   const [linkKind, setLinkKind] = useState<SilentDiscoSourceKind>("stream");
   const [audioReady, setAudioReady] = useState(false);
+  // Server clock minus ours; read on every drift check, so kept in a ref.
+  const clockOffsetMsRef = useRef(0);
+  const [clockSync, setClockSync] = useState<ClockSample | null>(null);
+  const [driftMs, setDriftMs] = useState<number | null>(null);
   const [joinToken, setJoinToken] = useState(initialJoinData.token || "");
   const [autoJoinAttempted, setAutoJoinAttempted] = useState(false);
   const [linkBusyRole, setLinkBusyRole] = useState<JoinLinkRole | null>(null);
   const [guestJoinUrl, setGuestJoinUrl] = useState("");
   const [hostJoinUrl, setHostJoinUrl] = useState("");
+  // Where a picked source goes: straight on, into the queue, or (listeners) a suggestion.
+  const [sourceTarget, setSourceTarget] = useState<"source" | "queue">("queue");
+  const [playlists, setPlaylists] = useState<SilentDiscoPlaylist[]>([]);
+  const [playlistName, setPlaylistName] = useState("");
 
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
@@ -160,6 +281,23 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
     return room.hostUserId === me.userId;
   }, [me?.userId, room]);
 
+  const channel = useMemo(
+    () => room?.channels.find((c) => c.channelId === channelId) ?? room?.channels[0] ?? null,
+    [channelId, room]
+  );
+
+  // The room host plays every channel; a DJ their own.
+  const isDj = useMemo(() => {
+    if (!channel || !me?.userId) return false;
+    return isHost || channel.djUserId === me.userId;
+  }, [channel, isHost, me?.userId]);
+
+  const channelLabel = useCallback(
+    (color: SilentDiscoChannelColor) =>
+      color === "red" ? tr("Röd", "Red") : color === "blue" ? tr("Blå", "Blue") : tr("Grön", "Green"),
+    [tr]
+  );
+
   const buildJoinUrl = useCallback(
     (roomCode: string, token: string) => {
       const params = new URLSearchParams();
@@ -243,6 +381,11 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
     void fetchMe();
   }, [fetchMe]);
 
+  useEffect(() => {
+    if (!me) return;
+    socket.emit("silent_disco:playlists_request");
+  }, [me]);
+
   useEffect(() => {
     const onRoomState = (payload: any) => {
       if (!payload?.room) return;
@@ -282,8 +425,14 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
       clearJoinParamsFromUrl();
     };
 
+    const onChannel = (payload: any) => {
+      if (!payload?.channelId) return;
+      setChannelId(payload.channelId as SilentDiscoChannelColor);
+    };
+
     const onLeft = () => {
       setRoom(null);
+      setChannelId(null);
       setStatus(tr("Du lämnade rummet.", "You left the room."));
       setError(null);
     };
@@ -320,6 +469,30 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
             return tr("Host-token tillhör ett annat konto.", "Host token belongs to another account.");
           case "only_host_can_generate_link":
             return tr("Bara hosten kan skapa join-länkar.", "Only the host can generate join links.");
+          case "only_dj":
+            return tr("Bara kanalens DJ kan styra den.", "Only the channel's DJ can control it.");
+          case "channel_not_found":
+            return tr("Kanalen finns inte.", "Channel not found.");
+          case "too_many_channels":
+            return tr("Rummet har redan alla kanaler.", "The room already has every channel.");
+          case "last_channel":
+            return tr("Rummet måste ha minst en kanal.", "The room needs at least one channel.");
+          case "dj_not_in_room":
+            return tr("DJ:n måste vara i rummet.", "The DJ has to be in the room.");
+          case "queue_full":
+            return tr("Kön är full.", "The queue is full.");
+          case "queue_end":
+            return tr("Kön är slut.", "End of the queue.");
+          case "queue_empty":
+            return tr("Kön är tom.", "The queue is empty.");
+          case "too_many_suggestions":
+            return tr("Du har redan förslag som väntar.", "You already have suggestions waiting.");
+          case "playlist_name_required":
+            return tr("Ge spellistan ett namn.", "Give the playlist a name.");
+          case "playlist_not_found":
+            return tr("Spellistan hittades inte.", "Playlist not found.");
+          case "too_many_playlists":
+            return tr("Du har för många spellistor.", "You have too many playlists.");
           default:
             return tr(`Silent Disco-fel: ${code}`, `Silent Disco error: ${code}`);
         }
@@ -327,18 +500,33 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
       setError(translated);
     };
 
+    const onPlaylists = (payload: any) => {
+      setPlaylists(Array.isArray(payload?.playlists) ? (payload.playlists as SilentDiscoPlaylist[]) : []);
+    };
+
+    const onPlaylistSaved = (payload: any) => {
+      if (!payload?.playlist?.name) return;
+      setStatus(tr(`Spellistan ${payload.playlist.name} sparad.`, `Playlist ${payload.playlist.name} saved.`));
+    };
+
     socket.on("silent_disco:state", onRoomState);
     socket.on("silent_disco:room_created", onRoomCreated);
     socket.on("silent_disco:joined", onJoined);
     socket.on("silent_disco:left", onLeft);
+    socket.on("silent_disco:channel", onChannel);
     socket.on("silent_disco:error", onDiscoError);
+    socket.on("silent_disco:playlists", onPlaylists);
+    socket.on("silent_disco:playlist_saved", onPlaylistSaved);
 
     return () => {
       socket.off("silent_disco:state", onRoomState);
       socket.off("silent_disco:room_created", onRoomCreated);
       socket.off("silent_disco:joined", onJoined);
       socket.off("silent_disco:left", onLeft);
+      socket.off("silent_disco:channel", onChannel);
       socket.off("silent_disco:error", onDiscoError);
+      socket.off("silent_disco:playlists", onPlaylists);
+      socket.off("silent_disco:playlist_saved", onPlaylistSaved);
     };
   }, [clearJoinParamsFromUrl, tr]);
 
@@ -371,9 +559,9 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
   const syncAudioToRoom = useCallback(() => {
     const audio = audioRef.current;
     if (!audio) return;
-    const source = room?.source || null;
+    const source = channel?.source || null;
 
-    if (!room || !source || (source.kind !== "upload" && source.kind !== "stream")) {
+    if (!room || !channel || !source || (source.kind !== "upload" && source.kind !== "stream")) {
       if (!audio.paused) {
         audio.pause();
       }
@@ -384,7 +572,7 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
       return;
     }
 
-    const sourceUrl = toAbsoluteUrl(source.url);
+    const sourceUrl = toAbsoluteUrl(source.hlsUrl && canPlayHls() ? source.hlsUrl : source.url);
     if (!sourceUrl) return;
 
     if (audio.dataset.discoSource !== sourceUrl) {
@@ -395,24 +583,33 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
       return;
     }
 
+    // The snapshot's position was true at serverNowMs on the server clock.
     const serverNowMs = Number(room.serverNowMs || Date.now());
-    const targetPositionMs = room.playing
-      ? Math.max(0, room.positionMs + Math.max(0, Date.now() - serverNowMs))
-      : Math.max(0, room.positionMs);
-    const targetSeconds = targetPositionMs / 1000;
+    const estimatedServerNowMs = Date.now() + clockOffsetMsRef.current;
+    const targetPositionMs = channel.playing
+      ? Math.max(0, channel.positionMs + Math.max(0, estimatedServerNowMs - serverNowMs))
+      : Math.max(0, channel.positionMs);
 
     if (audioReady && Number.isFinite(audio.currentTime)) {
-      const drift = Math.abs(audio.currentTime - targetSeconds);
-      if (drift > 0.35) {
+      // Positive when we are ahead of the room.
+      const drift = audio.currentTime * 1000 - targetPositionMs;
+      setDriftMs(channel.playing ? Math.round(drift / 5) * 5 : null);
+      if (Math.abs(drift) > SEEK_DRIFT_MS || (!channel.playing && Math.abs(drift) > SYNC_TOLERANCE_MS)) {
+        audio.playbackRate = 1;
         try {
-          audio.currentTime = targetSeconds;
+          audio.currentTime = targetPositionMs / 1000;
         } catch {
           // ignore seek errors from still-loading streams
         }
+      } else if (Math.abs(drift) > SYNC_TOLERANCE_MS) {
+        const nudge = Math.max(-MAX_RATE_NUDGE, Math.min(MAX_RATE_NUDGE, drift / RATE_CORRECTION_WINDOW_MS));
+        audio.playbackRate = 1 - nudge;
+      } else if (audio.playbackRate !== 1) {
+        audio.playbackRate = 1;
       }
     }
 
-    if (room.playing) {
+    if (channel.playing) {
       if (audio.paused) {
         void audio.play().catch(() => {
           // On some browsers autoplay policy blocks until user gesture.
@@ -421,7 +618,7 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
     } else if (!audio.paused) {
       audio.pause();
     }
-  }, [audioReady, room]);
+  }, [audioReady, channel, room]);
 
   useEffect(() => {
     syncAudioToRoom();
@@ -431,12 +628,62 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
     if (!room) return;
     const timer = window.setInterval(() => {
       syncAudioToRoom();
-    }, 1200);
+    }, DRIFT_CHECK_INTERVAL_MS);
     return () => {
       window.clearInterval(timer);
     };
   }, [room?.roomCode, syncAudioToRoom]);
 
+  useEffect(() => {
+    if (!room?.roomCode) return;
+    let samples: ClockSample[] = [];
+    let burstTimers: number[] = [];
+
+    const ping = () => {
+      socket.emit("silent_disco:ping", { clientSentAtMs: Date.now() });
+    };
+
+    const burst = () => {
+      burstTimers.forEach((timer) => window.clearTimeout(timer));
+      burstTimers = Array.from({ length: CLOCK_SYNC_BURST }, (_, index) =>
+        window.setTimeout(ping, index * CLOCK_SYNC_BURST_SPACING_MS)
+      );
+    };
+
+    const onPong = (payload: any) => {
+      const receivedAtMs = Date.now();
+      const sentAtMs = Number(payload?.clientSentAtMs);
+      const serverReceivedAtMs = Number(payload?.serverReceivedAtMs);
+      const serverSentAtMs = Number(payload?.serverSentAtMs);
+      if (!sentAtMs || !Number.isFinite(serverReceivedAtMs) || !Number.isFinite(serverSentAtMs)) return;
+      samples = [...samples, clockSampleFromPong(sentAtMs, serverReceivedAtMs, serverSentAtMs, receivedAtMs)].slice(
+        -CLOCK_SAMPLE_WINDOW
+      );
+      const estimate = estimateClock(samples);
+      if (!estimate) return;
+      clockOffsetMsRef.current = estimate.offsetMs;
+      setClockSync(estimate);
+    };
+
+    // A new connection may take another route; start over.
+    const onReconnect = () => {
+      samples = [];
+      burst();
+    };
+
+    socket.on("silent_disco:pong", onPong);
+    socket.on("connect", onReconnect);
+    burst();
+    const timer = window.setInterval(ping, CLOCK_SYNC_INTERVAL_MS);
+
+    return () => {
+      socket.off("silent_disco:pong", onPong);
+      socket.off("connect", onReconnect);
+      burstTimers.forEach((burstTimer) => window.clearTimeout(burstTimer));
+      window.clearInterval(timer);
+    };
+  }, [room?.roomCode]);
+
   const requestFreshState = useCallback(() => {
     const roomCode = normalizeRoomInput(room?.roomCode || roomInput);
     if (!roomCode) return;
@@ -448,8 +695,8 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
     setError(null);
     setGuestJoinUrl("");
     setHostJoinUrl("");
-    socket.emit("silent_disco:create_room");
-  }, [tr]);
+    socket.emit("silent_disco:create_room", { channels: createChannelCount });
+  }, [createChannelCount, tr]);
 
   const joinRoom = useCallback(() => {
     const roomCode = normalizeRoomInput(roomInput);
@@ -470,25 +717,58 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
     socket.emit("silent_disco:leave_room");
   }, []);
 
+  // The host sets the source or queues it; a listener's pick is a suggestion.
   const emitSource = useCallback(
-    (source: { kind: SilentDiscoSourceKind; title: string; url: string; mimeType?: string | null }) => {
+    (source: {
+      kind: SilentDiscoSourceKind;
+      title: string;
+      url: string;
+      mimeType?: string | null;
+      durationMs?: number | null;
+    }) => {
       if (!room?.roomCode) {
         setError(tr("Skapa eller gå med i ett rum först.", "Create or join a room first."));
         return;
       }
-      socket.emit("silent_disco:set_source", {
+      const eventName = !isDj
+        ? "silent_disco:suggest"
+        : sourceTarget === "queue"
+          ? "silent_disco:queue_add"
+          : "silent_disco:set_source";
+      socket.emit(eventName, {
         roomCode: room.roomCode,
+        channelId: channel?.channelId,
         source: {
           kind: source.kind,
           title: source.title,
           url: source.url,
           mimeType: source.mimeType ?? null,
         },
+        durationMs: source.durationMs ?? null,
       });
     },
-    [room?.roomCode, tr]
+    [channel?.channelId, isDj, room?.roomCode, sourceTarget, tr]
   );
 
+  // Actions on the channel this tab is on.
+  const emitRoomAction = useCallback(
+    (eventName: string, payload: Record<string, unknown> = {}) => {
+      if (!room?.roomCode) return;
+      socket.emit(eventName, { roomCode: room.roomCode, channelId: channel?.channelId, ...payload });
+    },
+    [channel?.channelId, room?.roomCode]
+  );
+
+  const savePlaylist = useCallback(() => {
+    const name = playlistName.trim();
+    if (!name) {
+      setError(tr("Ge spellistan ett namn.", "Give the playlist a name."));
+      return;
+    }
+    emitRoomAction("silent_disco:playlist_save", { name });
+    setPlaylistName("");
+  }, [emitRoomAction, playlistName, tr]);
+
   const onUploadPicked = useCallback(
     async (event: ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0];
@@ -510,9 +790,10 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
 
       setUploadBusy(true);
       setError(null);
-      setStatus(tr("Laddar upp ljudfil...", "Uploading audio file..."));
+      setStatus(tr("Laddar upp och bearbetar ljudfilen...", "Uploading and processing the audio file..."));
 
       try {
+        const durationMs = await readAudioDurationMs(file);
         const dataUrl = await readFileAsDataUrl(file);
         const response = await fetch(`${apiBaseUrl}/silent-disco/upload`, {
           method: "POST",
@@ -521,27 +802,36 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
           body: JSON.stringify({
             name: file.name,
             mimeType: file.type,
+            durationMs,
             dataUrl,
           }),
         });
         const payload = (await response.json().catch(() => null)) as UploadResponse | null;
         if (!response.ok || !payload?.ok || !payload.media?.url) {
-          setError(tr("Uppladdning misslyckades.", "Upload failed."));
+          setError(
+            payload?.error === "audio_unreadable"
+              ? tr("Filen gick inte att läsa som ljud.", "The file could not be read as audio.")
+              : tr("Uppladdning misslyckades.", "Upload failed.")
+          );
           return;
         }
 
+        // The server reads duration and tags from the file itself.
+        const { title, artist } = payload.media;
         emitSource({
           kind: "upload",
-          title: file.name,
+          title: title ? (artist ? `${artist} – ${title}` : title) : file.name,
           url: payload.media.url,
           mimeType: payload.media.mimeType,
+          durationMs: payload.media.durationMs ?? durationMs,
         });
 
         setStatus(
-          tr(
-            `Klar: ${file.name} är nu vald som källa.`,
-            `Done: ${file.name} is now selected as source.`
-          )
+          !isDj
+            ? tr(`Klar: ${file.name} är föreslagen för hosten.`, `Done: ${file.name} was suggested to the host.`)
+            : sourceTarget === "queue"
+              ? tr(`Klar: ${file.name} ligger i kön.`, `Done: ${file.name} is in the queue.`)
+              : tr(`Klar: ${file.name} är nu vald som källa.`, `Done: ${file.name} is now selected as source.`)
         );
       } catch {
         setError(tr("Kunde inte ladda upp filen.", "Could not upload the file."));
@@ -550,7 +840,7 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
         if (fileInputRef.current) fileInputRef.current.value = "";
       }
     },
-    [apiBaseUrl, emitSource, room?.roomCode, tr]
+    [apiBaseUrl, emitSource, isDj, room?.roomCode, sourceTarget, tr]
   );
 
   const setLinkSource = useCallback(() => {
@@ -573,8 +863,14 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
       mimeType: null,
     });
 
-    setStatus(tr("Källa uppdaterad.", "Source updated."));
-  }, [emitSource, linkKind, room?.roomCode, streamTitle, streamUrl, tr]);
+    setStatus(
+      !isDj
+        ? tr("Förslaget skickat till hosten.", "Suggestion sent to the host.")
+        : sourceTarget === "queue"
+          ? tr("Lagd i kön.", "Added to the queue.")
+          : tr("Källa uppdaterad.", "Source updated.")
+    );
+  }, [emitSource, isDj, linkKind, room?.roomCode, sourceTarget, streamTitle, streamUrl, tr]);
 
   const createJoinLink = useCallback(
     async (role: JoinLinkRole) => {
@@ -629,26 +925,19 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
   }, []);
 
   const playForEveryone = useCallback(() => {
-    if (!room?.roomCode) return;
-    socket.emit("silent_disco:play", {
-      roomCode: room.roomCode,
-      positionMs: getAudioPositionMs(),
-    });
-  }, [getAudioPositionMs, room?.roomCode]);
+    emitRoomAction("silent_disco:play", { positionMs: getAudioPositionMs() });
+  }, [emitRoomAction, getAudioPositionMs]);
 
   const pauseForEveryone = useCallback(() => {
-    if (!room?.roomCode) return;
-    socket.emit("silent_disco:pause", {
-      roomCode: room.roomCode,
-      positionMs: getAudioPositionMs(),
-    });
-  }, [getAudioPositionMs, room?.roomCode]);
+    emitRoomAction("silent_disco:pause", { positionMs: getAudioPositionMs() });
+  }, [emitRoomAction, getAudioPositionMs]);
 
   const seekBy = useCallback(
     (deltaSeconds: number) => {
       if (!room?.roomCode) return;
       const audio = audioRef.current;
-      const current = audio && Number.isFinite(audio.currentTime) ? audio.currentTime : room.positionMs / 1000;
+      const current =
+        audio && Number.isFinite(audio.currentTime) ? audio.currentTime : (channel?.positionMs ?? 0) / 1000;
       const next = Math.max(0, current + deltaSeconds);
       if (audio) {
         try {
@@ -657,15 +946,12 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
           // ignore seek errors while metadata still loading
         }
       }
-      socket.emit("silent_disco:seek", {
-        roomCode: room.roomCode,
-        positionMs: Math.round(next * 1000),
-      });
+      emitRoomAction("silent_disco:seek", { positionMs: Math.round(next * 1000) });
     },
-    [room?.positionMs, room?.roomCode]
+    [channel?.positionMs, emitRoomAction, room?.roomCode]
   );
 
-  const currentSource = room?.source || null;
+  const currentSource = channel?.source || null;
   const playableSource = isPlayableSource(currentSource);
 
   return (
@@ -704,6 +990,18 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
         <button className="btn-primary" type="button" onClick={createRoom} disabled={!me}>
           {tr("Skapa rum", "Create room")}
         </button>
+        <select
+          value={createChannelCount}
+          onChange={(e) => setCreateChannelCount(Number(e.target.value))}
+          disabled={!me}
+          aria-label={tr("Antal kanaler", "Number of channels")}
+        >
+          {Array.from({ length: MAX_CHANNELS }, (_, index) => index + 1).map((count) => (
+            <option key={`channels-${count}`} value={count}>
+              {count === 1 ? tr("1 kanal", "1 channel") : tr(`${count} kanaler`, `${count} channels`)}
+            </option>
+          ))}
+        </select>
 
         <div className="join-row silentDiscoJoinRow">
           <input
@@ -730,7 +1028,7 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
         disabled={!me}
       />
 
-      {room ? (
+      {room && channel ? (
         <article className="summary-card silentDiscoRoomCard">
           <div className="summary-card-header silentDiscoRoomHead">
             <h3>{tr("Aktivt rum", "Active room")}</h3>
@@ -745,11 +1043,70 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
               <strong>{tr("Lyssnare", "Listeners")}:</strong> {room.listenerUserCount}
             </p>
             <p>
-              <strong>{tr("Status", "Status")}:</strong> {room.playing ? tr("Spelar", "Playing") : tr("Pausad", "Paused")}
+              <strong>{tr("DJ", "DJ")}:</strong> {channel.djDisplayName || room.hostDisplayName}
+            </p>
+            <p>
+              <strong>{tr("Status", "Status")}:</strong> {channel.playing ? tr("Spelar", "Playing") : tr("Pausad", "Paused")}
+            </p>
+            <p>
+              <strong>{tr("Synk", "Sync")}:</strong>{" "}
+              {clockSync
+                ? `${driftMs === null ? "" : `${driftMs > 0 ? "+" : ""}${driftMs} ms, `}RTT ${clockSync.rttMs} ms`
+                : tr("Mäter...", "Measuring...")}
             </p>
             <p>
               <strong>{tr("Källa", "Source")}:</strong> {currentSource ? currentSource.title : tr("Ingen vald", "No source selected")}
             </p>
+            {currentSource?.coverUrl ? (
+              <img className="silentDiscoCover" src={toAbsoluteUrl(currentSource.coverUrl)} alt="" loading="lazy" />
+            ) : null}
+          </div>
+
+          <div className="silentDiscoChannels">
+            <div className="silentDiscoKindRow" role="tablist" aria-label={tr("Kanal", "Channel")}>
+              {room.channels.map((c) => (
+                <button
+                  key={`channel-${c.channelId}`}
+                  type="button"
+                  className={`${c.channelId === channel.channelId ? "btn-primary" : "btn-ghost"} silentDiscoChannel silentDiscoChannel--${c.channelId}`}
+                  onClick={() => emitRoomAction("silent_disco:switch_channel", { channelId: c.channelId })}
+                >
+                  {channelLabel(c.channelId)} · {c.listenerUserCount}
+                </button>
+              ))}
+              {isHost && room.channels.length < MAX_CHANNELS ? (
+                <button className="btn-ghost" type="button" onClick={() => emitRoomAction("silent_disco:channel_add")}>
+                  {tr("+ Kanal", "+ Channel")}
+                </button>
+              ) : null}
+            </div>
+
+            {isHost ? (
+              <div className="silentDiscoKindRow">
+                <label>{tr(`DJ för kanal ${channelLabel(channel.channelId)}`, `DJ of channel ${channelLabel(channel.channelId)}`)}</label>
+                <select
+                  value={channel.djUserId ?? ""}
+                  onChange={(e) => emitRoomAction("silent_disco:set_dj", { userId: e.target.value || null })}
+                >
+                  <option value="">{tr("Du (host)", "You (host)")}</option>
+                  {room.listeners
+                    .filter((listener) => listener.userId !== room.hostUserId)
+                    .map((listener) => (
+                      <option key={`dj-${listener.userId}`} value={listener.userId}>
+                        {listener.displayName}
+                      </option>
+                    ))}
+                  {channel.djUserId && !room.listeners.some((listener) => listener.userId === channel.djUserId) ? (
+                    <option value={channel.djUserId}>{channel.djDisplayName}</option>
+                  ) : null}
+                </select>
+                {room.channels.length > 1 ? (
+                  <button className="btn-ghost" type="button" onClick={() => emitRoomAction("silent_disco:channel_remove")}>
+                    {tr("Ta bort kanalen", "Remove channel")}
+                  </button>
+                ) : null}
+              </div>
+            ) : null}
           </div>
 
           <audio
@@ -765,20 +1122,190 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
             <button className="btn-ghost" type="button" onClick={requestFreshState}>
               {tr("Synka nu", "Sync now")}
             </button>
-            <button className="btn-primary" type="button" onClick={playForEveryone} disabled={!isHost || !playableSource}>
+            <button className="btn-primary" type="button" onClick={playForEveryone} disabled={!isDj || !playableSource}>
               {tr("Spela för alla", "Play for everyone")}
             </button>
-            <button className="btn-ghost" type="button" onClick={pauseForEveryone} disabled={!isHost || !playableSource}>
+            <button className="btn-ghost" type="button" onClick={pauseForEveryone} disabled={!isDj || !playableSource}>
               {tr("Pausa för alla", "Pause for everyone")}
             </button>
-            <button className="btn-ghost" type="button" onClick={() => seekBy(-10)} disabled={!isHost || !playableSource}>
+            <button className="btn-ghost" type="button" onClick={() => seekBy(-10)} disabled={!isDj || !playableSource}>
               {tr("-10 sek", "-10 sec")}
             </button>
-            <button className="btn-ghost" type="button" onClick={() => seekBy(10)} disabled={!isHost || !playableSource}>
+            <button className="btn-ghost" type="button" onClick={() => seekBy(10)} disabled={!isDj || !playableSource}>
               {tr("+10 sek", "+10 sec")}
             </button>
           </div>
 
+          <div className="silentDiscoQueue">
+            <div className="silentDiscoControls">
+              <button className="btn-ghost" type="button" onClick={() => emitRoomAction("silent_disco:previous")} disabled={!isDj || !channel.queue.length}>
+                {tr("Föregående", "Previous")}
+              </button>
+              <button className="btn-ghost" type="button" onClick={() => emitRoomAction("silent_disco:next")} disabled={!isDj || !channel.queue.length}>
+                {tr("Nästa", "Next")}
+              </button>
+              <button className="btn-ghost" type="button" onClick={() => emitRoomAction("silent_disco:queue_shuffle")} disabled={!isDj || channel.queue.length < 2}>
+                {tr("Blanda", "Shuffle")}
+              </button>
+              <select
+                value={channel.repeat}
+                onChange={(e) => emitRoomAction("silent_disco:set_repeat", { repeat: e.target.value })}
+                disabled={!isDj}
+                aria-label={tr("Upprepa", "Repeat")}
+              >
+                <option value="off">{tr("Upprepa: av", "Repeat: off")}</option>
+                <option value="all">{tr("Upprepa: hela kön", "Repeat: whole queue")}</option>
+                <option value="one">{tr("Upprepa: låten", "Repeat: track")}</option>
+              </select>
+            </div>
+
+            <label>{tr("Kö", "Queue")}</label>
+            {channel.queue.length ? (
+              <ol className="silentDiscoQueueList">
+                {channel.queue.map((item, index) => (
+                  <li key={item.itemId} className={item.itemId === channel.currentItemId ? "is-current" : undefined}>
+                    <span>
+                      {item.source.title} <span className="help-text">{formatDuration(item.durationMs)}</span>
+                    </span>
+                    {isDj ? (
+                      <span className="silentDiscoQueueActions">
+                        <button className="btn-ghost" type="button" onClick={() => emitRoomAction("silent_disco:play_item", { itemId: item.itemId })}>
+                          {tr("Spela", "Play")}
+                        </button>
+                        <button
+                          className="btn-ghost"
+                          type="button"
+                          onClick={() => emitRoomAction("silent_disco:queue_move", { itemId: item.itemId, toIndex: index - 1 })}
+                          disabled={index === 0}
+                        >
+                          ↑
+                        </button>
+                        <button
+                          className="btn-ghost"
+                          type="button"
+                          onClick={() => emitRoomAction("silent_disco:queue_move", { itemId: item.itemId, toIndex: index + 1 })}
+                          disabled={index === channel.queue.length - 1}
+                        >
+                          ↓
+                        </button>
+                        <button className="btn-ghost" type="button" onClick={() => emitRoomAction("silent_disco:queue_remove", { itemId: item.itemId })}>
+                          {tr("Ta bort", "Remove")}
+                        </button>
+                      </span>
+                    ) : null}
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <p className="help-text">{tr("Kön är tom.", "The queue is empty.")}</p>
+            )}
+
+            {channel.suggestions.length ? (
+              <>
+                <label>{tr("Förslag", "Suggestions")}</label>
+                <ul className="silentDiscoQueueList">
+                  {channel.suggestions.map((suggestion) => (
+                    <li key={suggestion.suggestionId}>
+                      <span>
+                        {suggestion.source.title}{" "}
+                        <span className="help-text">
+                          {tr("från", "from")} {suggestion.suggestedByDisplayName}
+                        </span>
+                      </span>
+                      <span className="silentDiscoQueueActions">
+                        {isDj ? (
+                          <>
+                            <button
+                              className="btn-ghost"
+                              type="button"
+                              onClick={() => emitRoomAction("silent_disco:suggestion_approve", { suggestionId: suggestion.suggestionId })}
+                            >
+                              {tr("Lägg i kön", "Add to queue")}
+                            </button>
+                            <button
+                              className="btn-ghost"
+                              type="button"
+                              onClick={() =>
+                                emitRoomAction("silent_disco:suggestion_approve", { suggestionId: suggestion.suggestionId, next: true })
+                              }
+                            >
+                              {tr("Spela härnäst", "Play next")}
+                            </button>
+                          </>
+                        ) : null}
+                        {isDj || suggestion.suggestedByUserId === me?.userId ? (
+                          <button
+                            className="btn-ghost"
+                            type="button"
+                            onClick={() => emitRoomAction("silent_disco:suggestion_reject", { suggestionId: suggestion.suggestionId })}
+                          >
+                            {isDj ? tr("Avböj", "Reject") : tr("Dra tillbaka", "Withdraw")}
+                          </button>
+                        ) : null}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            ) : null}
+
+            <label>{tr("Spellistor", "Playlists")}</label>
+            <div className="silentDiscoShareInputRow">
+              <input
+                className="silentDiscoShareInput"
+                type="text"
+                placeholder={tr("Spara kön som...", "Save the queue as...")}
+                value={playlistName}
+                onChange={(e) => setPlaylistName(e.target.value)}
+                disabled={!channel.queue.length}
+              />
+              <button className="btn-ghost" type="button" onClick={savePlaylist} disabled={!channel.queue.length}>
+                {tr("Spara", "Save")}
+              </button>
+            </div>
+            {playlists.length ? (
+              <ul className="silentDiscoQueueList">
+                {playlists.map((playlist) => (
+                  <li key={playlist.playlistId}>
+                    <span>
+                      {playlist.name}{" "}
+                      <span className="help-text">
+                        {tr(`${playlist.tracks.length} låtar`, `${playlist.tracks.length} tracks`)}
+                      </span>
+                    </span>
+                    <span className="silentDiscoQueueActions">
+                      {isDj ? (
+                        <>
+                          <button
+                            className="btn-ghost"
+                            type="button"
+                            onClick={() => emitRoomAction("silent_disco:playlist_load", { playlistId: playlist.playlistId, replace: true })}
+                          >
+                            {tr("Ladda", "Load")}
+                          </button>
+                          <button
+                            className="btn-ghost"
+                            type="button"
+                            onClick={() => emitRoomAction("silent_disco:playlist_load", { playlistId: playlist.playlistId })}
+                          >
+                            {tr("Lägg till", "Append")}
+                          </button>
+                        </>
+                      ) : null}
+                      <button
+                        className="btn-ghost"
+                        type="button"
+                        onClick={() => socket.emit("silent_disco:playlist_delete", { playlistId: playlist.playlistId })}
+                      >
+                        {tr("Radera", "Delete")}
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+          </div>
+
           {isHost ? (
             <div className="silentDiscoShareBlock">
               <div className="silentDiscoShareButtons">
@@ -853,11 +1380,18 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
                 </p>
               ) : null}
             </div>
+          ) : isDj ? (
+            <p className="summary-detail">
+              {tr(
+                `Du är DJ för kanal ${channelLabel(channel.channelId)}.`,
+                `You are the DJ of channel ${channelLabel(channel.channelId)}.`
+              )}
+            </p>
           ) : (
             <p className="summary-detail">
               {tr(
-                "Du är lyssnare i detta rum. Hosten styr källa och uppspelning.",
-                "You are a listener in this room. The host controls source and playback."
+                "Du är lyssnare i detta rum. Kanalens DJ styr källa och uppspelning; byt kanal när du vill.",
+                "You are a listener in this room. The channel's DJ controls source and playback; switch channels any time."
               )}
             </p>
           )}
@@ -865,7 +1399,28 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
       ) : null}
 
       <article className="profile-field silentDiscoSourcePanel">
-        <label>{tr("Välj ljudkälla", "Choose audio source")}</label>
+        <label>
+          {room && !isDj ? tr("Föreslå en låt", "Suggest a track") : tr("Välj ljudkälla", "Choose audio source")}
+        </label>
+
+        {isDj ? (
+          <div className="silentDiscoKindRow">
+            <button
+              type="button"
+              className={sourceTarget === "queue" ? "btn-primary" : "btn-ghost"}
+              onClick={() => setSourceTarget("queue")}
+            >
+              {tr("Lägg i kön", "Add to queue")}
+            </button>
+            <button
+              type="button"
+              className={sourceTarget === "source" ? "btn-primary" : "btn-ghost"}
+              onClick={() => setSourceTarget("source")}
+            >
+              {tr("Spela direkt", "Play right away")}
+            </button>
+          </div>
+        ) : null}
 
         <div className="silentDiscoKindRow" role="tablist" aria-label={tr("Källtyp", "Source type")}>
           {([
@@ -879,7 +1434,7 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
               type="button"
               className={linkKind === kind ? "btn-primary" : "btn-ghost"}
               onClick={() => setLinkKind(kind)}
-              disabled={!isHost || !room}
+              disabled={!room}
             >
               {label}
             </button>
@@ -893,7 +1448,7 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
               type="file"
               accept=".mp3,.wav,.flac,.ogg,.aac,.m4a,audio/mpeg,audio/wav,audio/flac,audio/ogg,audio/aac,audio/mp4"
               onChange={onUploadPicked}
-              disabled={!isHost || !room || uploadBusy}
+              disabled={!room || uploadBusy}
             />
             <p className="help-text">
               {tr(
@@ -909,7 +1464,7 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
               placeholder={tr("Titel (valfritt)", "Title (optional)")}
               value={streamTitle}
               onChange={(e) => setStreamTitle(e.target.value)}
-              disabled={!isHost || !room}
+              disabled={!room}
             />
             <input
               type="url"
@@ -922,10 +1477,14 @@ export default function SilentDiscoPage({ appBasePath, appHref, tr, displayName
               }
               value={streamUrl}
               onChange={(e) => setStreamUrl(e.target.value)}
-              disabled={!isHost || !room}
+              disabled={!room}
             />
-            <button className="btn-primary" type="button" onClick={setLinkSource} disabled={!isHost || !room}>
-              {tr("Sätt som källa", "Set as source")}
+            <button className="btn-primary" type="button" onClick={setLinkSource} disabled={!room}>
+              {!isDj
+                ? tr("Föreslå", "Suggest")
+                : sourceTarget === "queue"
+                  ? tr("Lägg i kön", "Add to queue")
+                  : tr("Sätt som källa", "Set as source")}
             </button>
             {(linkKind === "spotify" || linkKind === "soundcloud") ? (
               <p className="help-text">
@@ -46,8 +46,26 @@ function resolveSocketTarget() {
   };
 }
 
+const SESSION_STORAGE_KEY = "chkn.sessionId";
+
+// Secret per browser, shared by its tabs. The server only publishes a hash of
+// it as the player id, and gives the seat back to whoever shows it again.
+function resolveSessionId(): string | undefined {
+  try {
+    const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (stored) return stored;
+    const created = crypto.randomUUID().replace(/-/g, "");
+    localStorage.setItem(SESSION_STORAGE_KEY, created);
+    return created;
+  } catch {
+    // No storage (private mode etc.): every socket is a new player.
+    return undefined;
+  }
+}
+
 const socketTarget = resolveSocketTarget();
 
 export const socket: Socket = io(socketTarget.origin, {
   path: socketTarget.path,
+  auth: { sessionId: resolveSessionId() },
 });
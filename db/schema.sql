@@ -10,6 +10,12 @@ CREATE TABLE IF NOT EXISTS matches (
   match_id   UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   mode       TEXT NOT NULL,
   status     TEXT NOT NULL,
+  stage_plan JSONB NULL,
+  blackjack_rules JSONB NULL,
+  invite_code TEXT NULL,
+  max_players INT NULL,
+  buy_in INT NULL,
+  prize_payout_table TEXT NULL,
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
@@ -78,6 +84,131 @@ CREATE TABLE IF NOT EXISTS match_snapshots (
 CREATE INDEX IF NOT EXISTS idx_match_snapshots_match_id
   ON match_snapshots(match_id);
 
+CREATE TABLE IF NOT EXISTS match_results (
+  match_id     UUID PRIMARY KEY REFERENCES matches(match_id) ON DELETE CASCADE,
+  results_json JSONB NOT NULL,
+  completed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Which player sits in which Yatzy seat, fixed when the Yatzy match is
+-- created or set. The completion webhook only knows the Yatzy match and seats.
+CREATE TABLE IF NOT EXISTS yatzy_seat_bindings (
+  yatzy_match_id TEXT NOT NULL,
+  seat           TEXT NOT NULL,
+  match_id       UUID NOT NULL REFERENCES matches(match_id) ON DELETE CASCADE,
+  user_id        TEXT NOT NULL,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (yatzy_match_id, seat)
+);
+
+CREATE INDEX IF NOT EXISTS idx_yatzy_seat_bindings_match_id
+  ON yatzy_seat_bindings(match_id);
+
+-- Spux wallet: double-entry. Every transaction has entries summing to zero;
+-- user accounts can never go negative, system accounts (the issuers) can.
+CREATE TABLE IF NOT EXISTS spux_accounts (
+  account_id     TEXT PRIMARY KEY,
+  kind           TEXT NOT NULL,
+  user_id        TEXT NULL UNIQUE,
+  balance        BIGINT NOT NULL DEFAULT 0,
+  allow_negative BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at     TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'spux_accounts_kind_chk'
+  ) THEN
+    ALTER TABLE spux_accounts
+      ADD CONSTRAINT spux_accounts_kind_chk
+      CHECK (kind IN ('USER','SYSTEM','ESCROW'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'spux_accounts_balance_chk'
+  ) THEN
+    ALTER TABLE spux_accounts
+      ADD CONSTRAINT spux_accounts_balance_chk
+      CHECK (allow_negative OR balance >= 0);
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS spux_transactions (
+  tx_id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  idempotency_key TEXT NOT NULL UNIQUE,
+  kind            TEXT NOT NULL,
+  match_id        UUID NULL REFERENCES matches(match_id) ON DELETE SET NULL,
+  memo            TEXT NULL,
+  created_by      TEXT NULL,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'spux_transactions_kind_chk'
+      AND pg_get_constraintdef(oid) LIKE '%MATCH_REFUND%'
+  ) THEN
+    ALTER TABLE spux_transactions DROP CONSTRAINT IF EXISTS spux_transactions_kind_chk;
+    ALTER TABLE spux_transactions
+      ADD CONSTRAINT spux_transactions_kind_chk
+      CHECK (kind IN ('ONBOARDING_GRANT','MATCH_BUY_IN','MATCH_PAYOUT','MATCH_REFUND','BONUS','ADMIN_ADJUSTMENT'));
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS spux_entries (
+  entry_id      BIGSERIAL PRIMARY KEY,
+  tx_id         UUID NOT NULL REFERENCES spux_transactions(tx_id) ON DELETE CASCADE,
+  account_id    TEXT NOT NULL REFERENCES spux_accounts(account_id),
+  amount        BIGINT NOT NULL CHECK (amount <> 0),
+  balance_after BIGINT NOT NULL,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_spux_entries_account
+  ON spux_entries(account_id, entry_id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_spux_entries_tx
+  ON spux_entries(tx_id);
+
+-- Checked at COMMIT, after all entries of the transaction are in.
+CREATE OR REPLACE FUNCTION spux_check_tx_balanced()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (SELECT COALESCE(SUM(amount), 0) FROM spux_entries WHERE tx_id = NEW.tx_id) <> 0 THEN
+    RAISE EXCEPTION 'spux transaction % does not balance', NEW.tx_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'trg_spux_entries_balanced'
+  ) THEN
+    CREATE CONSTRAINT TRIGGER trg_spux_entries_balanced
+    AFTER INSERT ON spux_entries
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW EXECUTE FUNCTION spux_check_tx_balanced();
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'trg_spux_accounts_updated_at'
+  ) THEN
+    CREATE TRIGGER trg_spux_accounts_updated_at
+    BEFORE UPDATE ON spux_accounts
+    FOR EACH ROW EXECUTE FUNCTION chkn_set_updated_at();
+  END IF;
+END $$;
+
 CREATE TABLE IF NOT EXISTS user_profiles (
   user_id      TEXT PRIMARY KEY,
   birth_date   DATE NOT NULL,
@@ -106,6 +237,64 @@ BEGIN
   END IF;
 END $$;
 
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_schema='stardom' AND table_name='matches' AND column_name='stage_plan'
+  ) THEN
+    ALTER TABLE matches ADD COLUMN stage_plan JSONB NULL;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_schema='stardom' AND table_name='matches' AND column_name='blackjack_rules'
+  ) THEN
+    ALTER TABLE matches ADD COLUMN blackjack_rules JSONB NULL;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_schema='stardom' AND table_name='matches' AND column_name='invite_code'
+  ) THEN
+    ALTER TABLE matches ADD COLUMN invite_code TEXT NULL;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_schema='stardom' AND table_name='matches' AND column_name='max_players'
+  ) THEN
+    ALTER TABLE matches ADD COLUMN max_players INT NULL;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_schema='stardom' AND table_name='matches' AND column_name='buy_in'
+  ) THEN
+    ALTER TABLE matches ADD COLUMN buy_in INT NULL;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_schema='stardom' AND table_name='matches' AND column_name='prize_payout_table'
+  ) THEN
+    ALTER TABLE matches ADD COLUMN prize_payout_table TEXT NULL;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_matches_invite_code
+  ON matches(invite_code)
+  WHERE invite_code IS NOT NULL;
+
 DO $$
 BEGIN
   IF NOT EXISTS (
@@ -340,6 +529,59 @@ END $$;
 CREATE INDEX IF NOT EXISTS idx_user_tarot_daily_user
   ON user_tarot_daily(user_id, draw_date DESC);
 
+-- Silent Disco: rooms (channels and queues as JSON), uploads and saved
+-- playlists. Who is in a room right now is kept in Redis.
+CREATE TABLE IF NOT EXISTS silent_disco_rooms (
+  room_code       TEXT PRIMARY KEY,
+  host_user_id    TEXT NOT NULL,
+  state_json      JSONB NOT NULL,
+  version         BIGINT NOT NULL DEFAULT 0,
+  version_writer  TEXT NOT NULL DEFAULT '',
+  last_touched_at TIMESTAMPTZ NOT NULL,
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_schema='stardom' AND table_name='silent_disco_rooms' AND column_name='version'
+  ) THEN
+    ALTER TABLE silent_disco_rooms ADD COLUMN version BIGINT NOT NULL DEFAULT 0;
+    ALTER TABLE silent_disco_rooms ADD COLUMN version_writer TEXT NOT NULL DEFAULT '';
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS silent_disco_media (
+  media_id      TEXT PRIMARY KEY,
+  file_path     TEXT NOT NULL,
+  mime_type     TEXT NOT NULL,
+  original_name TEXT NOT NULL,
+  size_bytes    BIGINT NOT NULL,
+  duration_ms   INT NULL,
+  title         TEXT NULL,
+  artist        TEXT NULL,
+  album         TEXT NULL,
+  cover_path    TEXT NULL,
+  hls_dir       TEXT NULL,
+  transcoded    BOOLEAN NOT NULL DEFAULT FALSE,
+  uploaded_by   TEXT NOT NULL,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS silent_disco_playlists (
+  playlist_id   TEXT PRIMARY KEY,
+  owner_user_id TEXT NOT NULL,
+  name          TEXT NOT NULL,
+  tracks        JSONB NOT NULL,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_silent_disco_playlists_owner
+  ON silent_disco_playlists(owner_user_id, updated_at DESC);
+
 RESET search_path;
 
 -- Permissions
@@ -0,0 +1,919 @@
+import type { BlackjackRules, BlackjackRulesPreset, Match, MatchPlayer } from "../shared/events";
+import { fairRng, type FairSeed } from "./fairness";
+
+export type BjSideBetChoice = "UNDER" | "OVER";
+export type BjHandStatus = "ACTIVE" | "STAND" | "BUST" | "BLACKJACK" | "SURRENDER" | "DONE";
+export type BjHandResult = "WIN" | "LOSE" | "PUSH" | "BLACKJACK" | "SURRENDER";
+export type BjRoundStatus = "BETTING" | "INSURANCE" | "PLAYER_ACTION" | "DEALER_ACTION" | "RESOLVED";
+export type BjAction =
+  | "HIT"
+  | "STAND"
+  | "DOUBLE"
+  | "SPLIT"
+  | "SURRENDER"
+  | "INSURANCE"
+  | "EVEN_MONEY"
+  | "NO_INSURANCE";
+export type BjInsurance = "TAKEN" | "DECLINED" | "EVEN_MONEY";
+// The round phases that wait on players, each with its own clock.
+export type BjTimerPhase = "BETTING" | "INSURANCE" | "PLAYER_ACTION";
+
+export type BjCard = {
+  rank: string;
+  suit: string;
+};
+
+export type BjHand = {
+  spot: number;
+  cards: BjCard[];
+  bet: number;
+  status: BjHandStatus;
+  isSplit: boolean;
+  fromSplitAces: boolean;
+  sideBet: BjSideBetChoice | null;
+  sideResult?: "WIN" | "LOSE" | "PUSH";
+  result?: BjHandResult;
+  // Set once the player has answered the insurance offer.
+  insurance?: BjInsurance;
+  insuranceBet?: number;
+};
+
+export type BjPlayerState = {
+  userId: string;
+  hands: BjHand[];
+  placedBet: boolean;
+  committed: number;
+  // When the player's current wait runs out; null when nothing is asked of them.
+  deadline: number | null;
+};
+
+export type BjRoundState = {
+  round: number;
+  status: BjRoundStatus;
+  dealer: BjHand;
+  players: Record<string, BjPlayerState>;
+};
+
+// The shoe lives across rounds and is only replaced when the cut card comes
+// out (or, with few decks and many spots, when it runs dry mid-round).
+export type BjShoe = {
+  // 1 for the first shoe of the stage.
+  number: number;
+  decks: number;
+  // Undealt cards, dealt from the end.
+  cards: BjCard[];
+  // Cards left when the cut card comes out; reshuffle before the next round.
+  cutCard: number;
+  // Every card in the shoe comes from this seed (see fairness.ts).
+  fair: FairSeed;
+};
+
+export type BlackjackState = {
+  round: number;
+  roundsTotal: number;
+  status: "IN_PROGRESS" | "DONE";
+  decks: number;
+  penetration: number;
+  rules: BlackjackRules;
+  shoe: BjShoe | null;
+  // Shoes that ran dry mid-round. Their seeds would give away the dealer's
+  // hole card, so they are revealed when the round is over.
+  retiredShoes?: Array<Pick<BjShoe, "number" | "fair">>;
+  roundState: BjRoundState | null;
+  // Earliest player deadline in the round, armed by the server.
+  deadline: number | null;
+  // Timeouts in a row per player. Any move of their own resets it.
+  timeouts: Record<string, number>;
+  // Not waited for when betting opens; they sit rounds out until they bet or
+  // sit back in.
+  sittingOut: string[];
+};
+
+// What BJ_HAND_STATE shows. The dealer's hole card stays hidden until the
+// dealer plays.
+export type BjHandView = {
+  cards: BjCard[];
+  total: number;
+  status: BjHandStatus;
+  bet: number;
+  result?: BjHandResult;
+  sideBet: BjSideBetChoice | null;
+  sideResult?: "WIN" | "LOSE" | "PUSH";
+  insurance?: BjInsurance;
+  hidden: number;
+};
+
+// Fresh committed seed for a shoe number.
+export type BjSeedSource = (shoe: number) => FairSeed;
+
+// Public shoe info. Counts only: what is left is for the players to count.
+// `revealed` is the seed of a shoe that was just retired.
+export type BjShoeView = {
+  shoe: number;
+  decks: number;
+  totalCards: number;
+  remaining: number;
+  cutCard: number;
+  seedHash: string;
+  reshuffled: boolean;
+  revealed: { shoe: number; seed: string; seedHash: string } | null;
+};
+
+export type BlackjackStep =
+  | { kind: "ROUND_STARTED"; round: number; seedHash: string }
+  | { kind: "SHOE_STATE"; round: number; state: BjShoeView }
+  | { kind: "HAND_STATE"; round: number; spot: number; userId: string; handIndex: number; state: BjHandView }
+  | { kind: "INSURANCE_OFFERED"; round: number }
+  | { kind: "TIMER"; round: number; phase: BjTimerPhase; deadlines: Record<string, number> }
+  | { kind: "SIT_OUT"; round: number; userId: string; timeouts: number; sittingOut: boolean }
+  | { kind: "SETTLED"; round: number; userId: string; delta: number }
+  | { kind: "ROUND_COMPLETED"; round: number }
+  | { kind: "DONE" };
+
+export type BlackjackResult = { ok: true; steps: BlackjackStep[] } | { ok: false; error: string };
+
+export const BJ_MIN_BET = 10;
+export const BJ_MAX_BET = 100;
+export const BJ_MAX_SPOTS = 7;
+export const BJ_ROUNDS = 10;
+export const BJ_MIN_DECKS = 1;
+export const BJ_MAX_DECKS = 8;
+export const BJ_DECKS = 6;
+// Share of the shoe dealt before the cut card.
+export const BJ_PENETRATION = 0.75;
+export const BJ_SIDE_BET_PAYOUT = 1;
+export const BJ_TIMER_MS: Record<BjTimerPhase, number> = {
+  BETTING: 30_000,
+  INSURANCE: 15_000,
+  PLAYER_ACTION: 20_000,
+};
+// Timeouts in a row before a player is sat out.
+export const BJ_SIT_OUT_TIMEOUTS = 2;
+export const BJ_BLACKJACK_PAYOUTS: Record<BlackjackRules["blackjackPayout"], number> = {
+  "1:1": 1,
+  "6:5": 1.2,
+  "3:2": 1.5,
+};
+
+export const BJ_RULE_PRESETS: Record<BlackjackRulesPreset, BlackjackRules> = {
+  // The table as it has always been played here.
+  HOUSE: {
+    blackjackPayout: "1:1",
+    dealerHitsSoft17: false,
+    dealerPeek: true,
+    insurance: false,
+    lateSurrender: false,
+    maxSplitHands: 4,
+    doubleAfterSplit: true,
+    tieRule: "HOUSE",
+  },
+  CLASSIC: {
+    blackjackPayout: "3:2",
+    dealerHitsSoft17: false,
+    dealerPeek: true,
+    insurance: true,
+    lateSurrender: true,
+    maxSplitHands: 4,
+    doubleAfterSplit: true,
+    tieRule: "PUSH",
+  },
+  SIX_FIVE: {
+    blackjackPayout: "6:5",
+    dealerHitsSoft17: true,
+    dealerPeek: true,
+    insurance: true,
+    lateSurrender: false,
+    maxSplitHands: 2,
+    doubleAfterSplit: false,
+    tieRule: "PUSH",
+  },
+};
+
+// Host input from MATCH_CREATE: a preset (HOUSE by default) with single rules
+// overridden.
+export const buildBlackjackRules = (
+  input: Partial<BlackjackRules> & { preset?: BlackjackRulesPreset } = {}
+): BlackjackRules => {
+  const { preset = "HOUSE", ...overrides } = input;
+  return { ...BJ_RULE_PRESETS[preset], ...overrides };
+};
+
+// Matches stored before rulesets existed play the house rules.
+export const getBlackjackRules = (match: Match): BlackjackRules => match.blackjackRules ?? BJ_RULE_PRESETS.HOUSE;
+
+const bjRanks = ["A", "2", "3", "4", "5", "6", "7", "8", "9", "10", "J", "Q", "K"] as const;
+const bjSuits = ["S", "H", "D", "C"] as const;
+
+const buildDeck = (): BjCard[] => {
+  const deck: BjCard[] = [];
+  for (const suit of bjSuits) {
+    for (const rank of bjRanks) {
+      deck.push({ rank, suit });
+    }
+  }
+  return deck;
+};
+
+const shuffleDeck = (deck: BjCard[], rng: () => number) => {
+  for (let i = deck.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(rng() * (i + 1));
+    const temp = deck[i];
+    deck[i] = deck[j];
+    deck[j] = temp;
+  }
+};
+
+// `decks` decks in a row, then one shuffle: draws 0..(52 * decks - 2) of the
+// shoe's seed. Verifiers rebuild it the same way.
+export const buildShuffledShoe = (decks: number, rng: () => number): BjCard[] => {
+  const shoe: BjCard[] = [];
+  for (let i = 0; i < decks; i += 1) shoe.push(...buildDeck());
+  shuffleDeck(shoe, rng);
+  return shoe;
+};
+
+const shoeStep = (
+  state: BlackjackState,
+  reshuffled: boolean,
+  retired: Pick<BjShoe, "number" | "fair"> | null
+): BlackjackStep => {
+  const shoe = state.shoe!;
+  return {
+    kind: "SHOE_STATE",
+    round: state.round,
+    state: {
+      shoe: shoe.number,
+      decks: shoe.decks,
+      totalCards: shoe.decks * 52,
+      remaining: shoe.cards.length,
+      cutCard: shoe.cutCard,
+      seedHash: shoe.fair.seedHash,
+      reshuffled,
+      revealed: retired ? { shoe: retired.number, seed: retired.fair.seed, seedHash: retired.fair.seedHash } : null,
+    },
+  };
+};
+
+// Retires the current shoe (its seed goes out with the new shoe's hash, or
+// after the round when `midRound`) and burns the first card of the new one.
+const openShoe = (state: BlackjackState, newSeed: BjSeedSource, midRound = false): BlackjackStep => {
+  const retired = state.shoe;
+  const number = (retired?.number ?? 0) + 1;
+  const fair = newSeed(number);
+  const cards = buildShuffledShoe(state.decks, fairRng(fair));
+  cards.pop();
+  state.shoe = {
+    number,
+    decks: state.decks,
+    cards,
+    cutCard: Math.round(state.decks * 52 * (1 - state.penetration)),
+    fair,
+  };
+  if (midRound && retired) {
+    state.retiredShoes = [...(state.retiredShoes ?? []), { number: retired.number, fair: retired.fair }];
+    return shoeStep(state, true, null);
+  }
+  return shoeStep(state, true, retired);
+};
+
+// Running dry mid-round opens a new shoe right away; its step goes first.
+const drawCard = (state: BlackjackState, newSeed: BjSeedSource, steps: BlackjackStep[]): BjCard => {
+  if (!state.shoe!.cards.length) steps.push(openShoe(state, newSeed, true));
+  return state.shoe!.cards.pop() as BjCard;
+};
+
+const cardValue = (card: BjCard): number => {
+  if (card.rank === "A") return 11;
+  if (card.rank === "K" || card.rank === "Q" || card.rank === "J") return 10;
+  return Number(card.rank);
+};
+
+export const computeHandValue = (cards: BjCard[]): { total: number; soft: boolean; blackjack: boolean } => {
+  let total = 0;
+  let aces = 0;
+  for (const card of cards) {
+    if (card.rank === "A") aces += 1;
+    total += cardValue(card);
+  }
+  while (total > 21 && aces > 0) {
+    total -= 10;
+    aces -= 1;
+  }
+  const soft = aces > 0;
+  const blackjack = cards.length === 2 && total === 21;
+  return { total, soft, blackjack };
+};
+
+// S17 stands on every 17, H17 hits a soft one.
+const shouldDealerHit = (cards: BjCard[], hitSoft17: boolean): boolean => {
+  const { total, soft } = computeHandValue(cards);
+  return total < 17 || (hitSoft17 && total === 17 && soft);
+};
+
+const makeDealerHand = (): BjHand => ({
+  spot: 0,
+  cards: [],
+  bet: 0,
+  status: "ACTIVE",
+  isSplit: false,
+  fromSplitAces: false,
+  sideBet: null,
+});
+
+const computeSideBetResult = (total: number, choice: BjSideBetChoice): "WIN" | "LOSE" | "PUSH" => {
+  if (total === 13) return "PUSH";
+  if (choice === "UNDER") return total < 13 ? "WIN" : "LOSE";
+  return total > 13 ? "WIN" : "LOSE";
+};
+
+// House ties: 17-19 lose on a tie, 20 pushes, 21 pushes unless it is a blackjack.
+// Two cards to 21 after a split is a plain 21, not a blackjack.
+export const resolveBjHand = (
+  hand: BjHand,
+  dealerCards: BjCard[],
+  tieRule: BlackjackRules["tieRule"] = "HOUSE"
+): BjHandResult => {
+  const handValue = computeHandValue(hand.cards);
+  const dealerValue = computeHandValue(dealerCards);
+  const natural = handValue.blackjack && !hand.isSplit;
+  if (handValue.total > 21) return "LOSE";
+  if (dealerValue.total > 21) return natural ? "BLACKJACK" : "WIN";
+  if (natural && !dealerValue.blackjack) return "BLACKJACK";
+  if (dealerValue.blackjack && !natural) return "LOSE";
+  if (handValue.total > dealerValue.total) return "WIN";
+  if (handValue.total < dealerValue.total) return "LOSE";
+  if (tieRule === "PUSH") return "PUSH";
+  if (handValue.total === 20) return "PUSH";
+  if (handValue.total >= 17 && handValue.total <= 19) return "LOSE";
+  if (handValue.total === 21) return natural ? "BLACKJACK" : "PUSH";
+  return "PUSH";
+};
+
+// Copies the hand as it looks right now; the step must not change when the
+// hand does later in the same input.
+const handStep = (round: BjRoundState, userId: string, hand: BjHand, handIndex = 0): BlackjackStep => {
+  const isDealer = userId === "dealer";
+  const hideHole = isDealer && round.status !== "DEALER_ACTION" && round.status !== "RESOLVED";
+  const visibleCards = hideHole && hand.cards.length > 1 ? [hand.cards[0]] : hand.cards;
+  const { total } = computeHandValue(visibleCards);
+  return {
+    kind: "HAND_STATE",
+    round: round.round,
+    spot: hand.spot,
+    userId,
+    handIndex,
+    state: {
+      cards: visibleCards.map((c) => ({ rank: c.rank, suit: c.suit })),
+      total,
+      status: hand.status,
+      bet: hand.bet,
+      result: hand.result,
+      sideBet: hand.sideBet,
+      sideResult: hand.sideResult,
+      insurance: hand.insurance,
+      hidden: hideHole ? Math.max(hand.cards.length - 1, 0) : 0,
+    },
+  };
+};
+
+const playerHandSteps = (round: BjRoundState, player: BjPlayerState): BlackjackStep[] =>
+  player.hands.map((hand, index) => handStep(round, player.userId, hand, index));
+
+// Shared with Sputnik so the bot never sends a move the table rejects.
+export const canDoubleHand = (rules: BlackjackRules, hand: BjHand): boolean =>
+  hand.cards.length === 2 && !hand.fromSplitAces && (rules.doubleAfterSplit || !hand.isSplit);
+
+export const canSplitHand = (rules: BlackjackRules, player: BjPlayerState, hand: BjHand): boolean =>
+  hand.cards.length === 2 &&
+  hand.cards[0].rank === hand.cards[1].rank &&
+  player.hands.filter((h) => h.spot === hand.spot).length < rules.maxSplitHands;
+
+export const canSurrenderHand = (rules: BlackjackRules, hand: BjHand): boolean =>
+  rules.lateSurrender && hand.cards.length === 2 && !hand.isSplit;
+
+export const isInsuranceAction = (action: BjAction): boolean =>
+  action === "INSURANCE" || action === "EVEN_MONEY" || action === "NO_INSURANCE";
+
+export const createBlackjackState = (
+  params: { roundsTotal?: number; decks?: number; penetration?: number; rules?: BlackjackRules } = {}
+): BlackjackState => ({
+  round: 0,
+  roundsTotal: params.roundsTotal ?? BJ_ROUNDS,
+  status: "IN_PROGRESS",
+  decks: Math.min(BJ_MAX_DECKS, Math.max(BJ_MIN_DECKS, Math.trunc(params.decks ?? BJ_DECKS))),
+  penetration: Math.min(0.9, Math.max(0.5, params.penetration ?? BJ_PENETRATION)),
+  rules: params.rules ?? BJ_RULE_PRESETS.HOUSE,
+  shoe: null,
+  roundState: null,
+  deadline: null,
+  timeouts: {},
+  sittingOut: [],
+});
+
+const isTimerPhase = (status: BjRoundStatus): status is BjTimerPhase =>
+  status === "BETTING" || status === "INSURANCE" || status === "PLAYER_ACTION";
+
+// Players sitting out are not waited for with their bet, unless the whole
+// table is: then the betting clock still runs and the stage gets to its end.
+const isWaitingFor = (state: BlackjackState, player: BjPlayerState): boolean => {
+  const round = state.roundState!;
+  switch (round.status) {
+    case "BETTING":
+      return (
+        !player.placedBet &&
+        (!state.sittingOut.includes(player.userId) ||
+          Object.keys(round.players).every((id) => state.sittingOut.includes(id)))
+      );
+    case "INSURANCE":
+      return player.hands.some((h) => !h.insurance);
+    case "PLAYER_ACTION":
+      return player.hands.some((h) => h.status === "ACTIVE");
+    default:
+      return false;
+  }
+};
+
+// Restarts the clock for `userIds`, starts it for players who are newly waited
+// for, stops it for the rest, and announces the deadlines.
+const armTimers = (state: BlackjackState, now: number, userIds: string[]): BlackjackStep[] => {
+  const round = state.roundState!;
+  if (!isTimerPhase(round.status)) {
+    state.deadline = null;
+    return [];
+  }
+  const deadlines: Record<string, number> = {};
+  for (const player of Object.values(round.players)) {
+    if (!isWaitingFor(state, player)) {
+      player.deadline = null;
+      continue;
+    }
+    if (player.deadline === null || userIds.includes(player.userId)) {
+      player.deadline = now + BJ_TIMER_MS[round.status];
+    }
+    deadlines[player.userId] = player.deadline;
+  }
+  const pending = Object.values(deadlines);
+  state.deadline = pending.length ? Math.min(...pending) : null;
+  return [{ kind: "TIMER", round: round.round, phase: round.status, deadlines }];
+};
+
+const sitOutStep = (state: BlackjackState, userId: string): BlackjackStep => ({
+  kind: "SIT_OUT",
+  round: state.round,
+  userId,
+  timeouts: state.timeouts[userId] ?? 0,
+  sittingOut: state.sittingOut.includes(userId),
+});
+
+// Sits the player out once the timeouts in a row reach BJ_SIT_OUT_TIMEOUTS.
+const recordTimeout = (state: BlackjackState, userId: string): BlackjackStep => {
+  state.timeouts[userId] = (state.timeouts[userId] ?? 0) + 1;
+  if (state.timeouts[userId] >= BJ_SIT_OUT_TIMEOUTS && !state.sittingOut.includes(userId)) {
+    state.sittingOut.push(userId);
+  }
+  return sitOutStep(state, userId);
+};
+
+// A move of the player's own: they are back at the table.
+const clearTimeouts = (state: BlackjackState, userId: string): BlackjackStep[] => {
+  if (!state.timeouts[userId] && !state.sittingOut.includes(userId)) return [];
+  state.timeouts[userId] = 0;
+  state.sittingOut = state.sittingOut.filter((id) => id !== userId);
+  return [sitOutStep(state, userId)];
+};
+
+// Moves the round to its next phase once nobody is left to wait for;
+// otherwise restarts the clock for `userIds`.
+const continueRound = (
+  state: BlackjackState,
+  players: MatchPlayer[],
+  newSeed: BjSeedSource,
+  now: number,
+  userIds: string[]
+): BlackjackStep[] => {
+  const round = state.roundState!;
+  if (Object.values(round.players).some((p) => isWaitingFor(state, p))) return armTimers(state, now, userIds);
+  switch (round.status) {
+    case "BETTING":
+      return dealInitialHands(state, players, newSeed, now);
+    case "INSURANCE":
+      return startPlayerAction(state, players, newSeed, now);
+    case "PLAYER_ACTION":
+      return resolveRound(state, players, newSeed, now);
+    default:
+      return [];
+  }
+};
+
+// The first round opens the shoe; ROUND_STARTED repeats the hash of the shoe
+// the round is dealt from.
+export const startBlackjackRound = (
+  state: BlackjackState,
+  players: MatchPlayer[],
+  newSeed: BjSeedSource,
+  now: number
+): BlackjackStep[] => {
+  if (state.status !== "IN_PROGRESS") return [];
+  if (state.round >= state.roundsTotal) {
+    state.status = "DONE";
+    state.deadline = null;
+    return [{ kind: "DONE" }];
+  }
+  const steps: BlackjackStep[] = state.shoe ? [] : [openShoe(state, newSeed)];
+  const roundPlayers: Record<string, BjPlayerState> = {};
+  for (const p of players) {
+    roundPlayers[p.userId] = { userId: p.userId, hands: [], placedBet: false, committed: 0, deadline: null };
+  }
+  const round: BjRoundState = {
+    round: state.round + 1,
+    status: "BETTING",
+    dealer: makeDealerHand(),
+    players: roundPlayers,
+  };
+  state.round = round.round;
+  state.roundState = round;
+  steps.push(
+    { kind: "ROUND_STARTED", round: round.round, seedHash: state.shoe!.fair.seedHash },
+    handStep(round, "dealer", round.dealer)
+  );
+  steps.push(...armTimers(state, now, Object.keys(round.players)));
+  return steps;
+};
+
+const resolveRound = (
+  state: BlackjackState,
+  players: MatchPlayer[],
+  newSeed: BjSeedSource,
+  now: number
+): BlackjackStep[] => {
+  const round = state.roundState!;
+  round.status = "DEALER_ACTION";
+  state.deadline = null;
+  const dealer = round.dealer;
+  const { rules } = state;
+  const steps: BlackjackStep[] = [];
+  while (shouldDealerHit(dealer.cards, rules.dealerHitsSoft17)) {
+    dealer.cards.push(drawCard(state, newSeed, steps));
+  }
+  round.status = "RESOLVED";
+  steps.push(handStep(round, "dealer", dealer));
+  const dealerBlackjack = computeHandValue(dealer.cards).blackjack;
+
+  for (const player of Object.values(round.players)) {
+    let deltaTotal = 0;
+    for (const [index, hand] of player.hands.entries()) {
+      let delta = 0;
+      if (hand.insurance === "EVEN_MONEY") {
+        // Paid 1:1 whatever the hole card was.
+        hand.result = "BLACKJACK";
+        delta += hand.bet;
+      } else if (hand.status === "SURRENDER") {
+        // Late surrender: without a peek a dealer blackjack still takes it all.
+        hand.result = "SURRENDER";
+        delta -= dealerBlackjack && !rules.dealerPeek ? hand.bet : Math.ceil(hand.bet / 2);
+      } else {
+        const result = resolveBjHand(hand, dealer.cards, rules.tieRule);
+        hand.result = result;
+        if (hand.status === "ACTIVE") hand.status = "DONE";
+        if (result === "BLACKJACK") delta += Math.floor(hand.bet * BJ_BLACKJACK_PAYOUTS[rules.blackjackPayout]);
+        if (result === "WIN") delta += hand.bet;
+        if (result === "LOSE") delta -= hand.bet;
+      }
+      if (hand.insurance === "TAKEN" && hand.insuranceBet) {
+        delta += dealerBlackjack ? hand.insuranceBet * 2 : -hand.insuranceBet;
+      }
+      if (hand.sideBet && hand.sideResult) {
+        if (hand.sideResult === "WIN") delta += Math.round(hand.bet * BJ_SIDE_BET_PAYOUT);
+        if (hand.sideResult === "LOSE") delta -= hand.bet;
+      }
+      deltaTotal += delta;
+      steps.push(handStep(round, player.userId, hand, index));
+    }
+    if (deltaTotal !== 0) {
+      steps.push({ kind: "SETTLED", round: round.round, userId: player.userId, delta: deltaTotal });
+    }
+  }
+  steps.push(...completeRound(state, players, newSeed, now));
+  return steps;
+};
+
+const completeRound = (
+  state: BlackjackState,
+  players: MatchPlayer[],
+  newSeed: BjSeedSource,
+  now: number
+): BlackjackStep[] => {
+  const round = state.roundState!;
+  round.status = "RESOLVED";
+  state.deadline = null;
+  const steps: BlackjackStep[] = [{ kind: "ROUND_COMPLETED", round: round.round }];
+  for (const retired of state.retiredShoes ?? []) steps.push(shoeStep(state, false, retired));
+  delete state.retiredShoes;
+  if (state.round < state.roundsTotal) {
+    // Cut card out: the round is finished, the next one gets a fresh shoe.
+    const cutCardOut = state.shoe!.cards.length <= state.shoe!.cutCard;
+    steps.push(cutCardOut ? openShoe(state, newSeed) : shoeStep(state, false, null));
+    steps.push(...startBlackjackRound(state, players, newSeed, now));
+  } else {
+    // Last round: the shoe is retired and its seed revealed.
+    steps.push(shoeStep(state, false, state.shoe));
+    state.status = "DONE";
+    steps.push({ kind: "DONE" });
+  }
+  return steps;
+};
+
+const dealInitialHands = (
+  state: BlackjackState,
+  players: MatchPlayer[],
+  newSeed: BjSeedSource,
+  now: number
+): BlackjackStep[] => {
+  const round = state.roundState!;
+  // Nobody bet: no cards come out of the shoe.
+  if (!Object.values(round.players).some((p) => p.hands.length)) return completeRound(state, players, newSeed, now);
+  round.status = "PLAYER_ACTION";
+  const { dealer } = round;
+  const steps: BlackjackStep[] = [];
+
+  for (const player of Object.values(round.players)) {
+    for (const hand of player.hands) {
+      hand.cards.push(drawCard(state, newSeed, steps));
+      hand.cards.push(drawCard(state, newSeed, steps));
+      const { total, blackjack } = computeHandValue(hand.cards);
+      if (hand.sideBet) {
+        hand.sideResult = computeSideBetResult(total, hand.sideBet);
+      }
+      if (blackjack) {
+        hand.status = "BLACKJACK";
+        hand.result = "BLACKJACK";
+      } else {
+        hand.status = "ACTIVE";
+      }
+    }
+  }
+
+  dealer.cards.push(drawCard(state, newSeed, steps));
+  dealer.cards.push(drawCard(state, newSeed, steps));
+
+  // An ace up with insurance on the table: everyone answers before the peek.
+  if (state.rules.insurance && dealer.cards[0].rank === "A") round.status = "INSURANCE";
+  for (const player of Object.values(round.players)) {
+    steps.push(...playerHandSteps(round, player));
+  }
+  steps.push(handStep(round, "dealer", dealer));
+  if (round.status === "INSURANCE") {
+    steps.push({ kind: "INSURANCE_OFFERED", round: round.round });
+    steps.push(...armTimers(state, now, Object.keys(round.players)));
+    return steps;
+  }
+  steps.push(...startPlayerAction(state, players, newSeed, now));
+  return steps;
+};
+
+// The peek happens here: a dealer blackjack ends the round before anyone
+// doubles or splits into it.
+const startPlayerAction = (
+  state: BlackjackState,
+  players: MatchPlayer[],
+  newSeed: BjSeedSource,
+  now: number
+): BlackjackStep[] => {
+  const round = state.roundState!;
+  round.status = "PLAYER_ACTION";
+  const dealerBlackjack = state.rules.dealerPeek && computeHandValue(round.dealer.cards).blackjack;
+  const anyActive = Object.values(round.players).some((p) => p.hands.some((h) => h.status === "ACTIVE"));
+  if (!anyActive || dealerBlackjack) return resolveRound(state, players, newSeed, now);
+  return armTimers(state, now, Object.keys(round.players));
+};
+
+// Insurance costs half the hand's bet and pays 2:1. A blackjack is offered
+// even money instead.
+const applyInsurance = (
+  state: BlackjackState,
+  players: MatchPlayer[],
+  player: BjPlayerState,
+  params: { spot: number; action: BjAction; handIndex?: number },
+  stack: number,
+  newSeed: BjSeedSource,
+  now: number
+): BlackjackResult => {
+  const round = state.roundState!;
+  const handIndex = typeof params.handIndex === "number" ? Math.max(0, Math.trunc(params.handIndex)) : -1;
+  const hand = handIndex >= 0 ? player.hands[handIndex] : player.hands.find((h) => h.spot === params.spot && !h.insurance);
+  if (!hand || hand.insurance) return { ok: false, error: "bj_insurance_decided" };
+  const blackjack = hand.status === "BLACKJACK";
+  if (params.action === "EVEN_MONEY") {
+    if (!blackjack) return { ok: false, error: "bj_cannot_even_money" };
+    hand.insurance = "EVEN_MONEY";
+  } else if (params.action === "INSURANCE") {
+    if (blackjack) return { ok: false, error: "bj_cannot_insure_blackjack" };
+    const cost = Math.floor(hand.bet / 2);
+    if (player.committed + cost > stack) return { ok: false, error: "bj_insufficient_stack" };
+    player.committed += cost;
+    hand.insurance = "TAKEN";
+    hand.insuranceBet = cost;
+  } else {
+    hand.insurance = "DECLINED";
+  }
+  const steps = [...clearTimeouts(state, player.userId), ...playerHandSteps(round, player)];
+  steps.push(...continueRound(state, players, newSeed, now, [player.userId]));
+  return { ok: true, steps };
+};
+
+// `stack` is the player's current match stack; every spot, double and split
+// has to be covered by it.
+export const placeBlackjackBet = (
+  state: BlackjackState,
+  players: MatchPlayer[],
+  userId: string,
+  params: { round: number; spots: number[]; bet: number; sideBets?: Array<{ spot: number; choice: BjSideBetChoice }> },
+  stack: number,
+  newSeed: BjSeedSource,
+  now: number
+): BlackjackResult => {
+  const round = state.roundState;
+  if (!round || round.round !== params.round) return { ok: false, error: "bj_round_mismatch" };
+  if (round.status !== "BETTING") return { ok: false, error: "bj_not_accepting_bets" };
+  const player = round.players[userId];
+  if (!player) return { ok: false, error: "bj_player_missing" };
+  if (player.placedBet) return { ok: false, error: "bj_already_bet" };
+  const spots = Array.from(new Set(params.spots)).slice(0, BJ_MAX_SPOTS);
+  const bet = Math.trunc(params.bet);
+  if (!Number.isFinite(bet) || bet < BJ_MIN_BET || bet > BJ_MAX_BET) return { ok: false, error: "bj_invalid_bet" };
+  const sideBets = new Map<number, BjSideBetChoice>();
+  for (const sb of params.sideBets ?? []) {
+    if (Number.isFinite(sb.spot) && (sb.choice === "UNDER" || sb.choice === "OVER")) {
+      sideBets.set(sb.spot, sb.choice);
+    }
+  }
+  const totalBet = spots.length * bet;
+  if (totalBet + player.committed > stack) return { ok: false, error: "bj_insufficient_stack" };
+  player.hands = spots.map((spot) => ({
+    spot,
+    cards: [],
+    bet,
+    status: "ACTIVE",
+    isSplit: false,
+    fromSplitAces: false,
+    sideBet: sideBets.get(spot) ?? null,
+  }));
+  player.placedBet = true;
+  player.committed += totalBet;
+
+  const steps = clearTimeouts(state, userId);
+  steps.push(...continueRound(state, players, newSeed, now, []));
+  return { ok: true, steps };
+};
+
+// Without handIndex the first active hand on the spot is played.
+export const applyBlackjackAction = (
+  state: BlackjackState,
+  players: MatchPlayer[],
+  userId: string,
+  params: { round: number; spot: number; action: BjAction; handIndex?: number },
+  stack: number,
+  newSeed: BjSeedSource,
+  now: number
+): BlackjackResult => {
+  const round = state.roundState;
+  if (!round || round.round !== params.round) return { ok: false, error: "bj_round_mismatch" };
+  const player = round.players[userId];
+  if (round.status === "INSURANCE") {
+    if (!isInsuranceAction(params.action)) return { ok: false, error: "bj_insurance_pending" };
+    if (!player) return { ok: false, error: "bj_player_missing" };
+    return applyInsurance(state, players, player, params, stack, newSeed, now);
+  }
+  if (round.status !== "PLAYER_ACTION" || isInsuranceAction(params.action)) {
+    return { ok: false, error: "bj_not_accepting_actions" };
+  }
+  if (!player) return { ok: false, error: "bj_player_missing" };
+  const handIndex = typeof params.handIndex === "number" ? Math.max(0, Math.trunc(params.handIndex)) : -1;
+  const hand =
+    handIndex >= 0 ? player.hands[handIndex] : player.hands.find((h) => h.spot === params.spot && h.status === "ACTIVE");
+  if (!hand || hand.status !== "ACTIVE") return { ok: false, error: "bj_hand_not_active" };
+  const steps: BlackjackStep[] = [];
+
+  if (params.action === "HIT") {
+    hand.cards.push(drawCard(state, newSeed, steps));
+    const value = computeHandValue(hand.cards);
+    if (value.total > 21) {
+      hand.status = "BUST";
+    } else if (value.total === 21) {
+      hand.status = "DONE";
+    }
+  }
+
+  if (params.action === "STAND") {
+    hand.status = "DONE";
+  }
+
+  if (params.action === "SURRENDER") {
+    if (!canSurrenderHand(state.rules, hand)) return { ok: false, error: "bj_cannot_surrender" };
+    hand.status = "SURRENDER";
+  }
+
+  if (params.action === "DOUBLE") {
+    if (!canDoubleHand(state.rules, hand)) return { ok: false, error: "bj_cannot_double" };
+    if (player.committed + hand.bet > stack) return { ok: false, error: "bj_insufficient_stack" };
+    player.committed += hand.bet;
+    hand.bet += hand.bet;
+    hand.cards.push(drawCard(state, newSeed, steps));
+    const value = computeHandValue(hand.cards);
+    hand.status = value.total > 21 ? "BUST" : "DONE";
+  }
+
+  if (params.action === "SPLIT") {
+    if (!canSplitHand(state.rules, player, hand)) return { ok: false, error: "bj_cannot_split" };
+    if (player.committed + hand.bet > stack) return { ok: false, error: "bj_insufficient_stack" };
+    player.committed += hand.bet;
+    const [first, second] = hand.cards;
+    hand.cards = [first];
+    const splitAces = first.rank === "A";
+    hand.isSplit = true;
+    hand.fromSplitAces = splitAces;
+    const newHand: BjHand = {
+      spot: hand.spot,
+      cards: [second],
+      bet: hand.bet,
+      status: "ACTIVE",
+      isSplit: true,
+      fromSplitAces: splitAces,
+      sideBet: null,
+    };
+    const insertIndex = handIndex >= 0 ? handIndex + 1 : player.hands.length;
+    player.hands.splice(insertIndex, 0, newHand);
+    hand.cards.push(drawCard(state, newSeed, steps));
+    newHand.cards.push(drawCard(state, newSeed, steps));
+    if (splitAces) {
+      hand.status = "DONE";
+      newHand.status = "DONE";
+    }
+  }
+
+  steps.push(...clearTimeouts(state, userId), ...playerHandSteps(round, player));
+  steps.push(...continueRound(state, players, newSeed, now, [userId]));
+  return { ok: true, steps };
+};
+
+// Called once the round's deadline has passed. A player out of time bets
+// nothing, declines insurance or stands, one hand at a time; once they are
+// sitting out, every hand they have left.
+export const expireBlackjackDeadline = (
+  state: BlackjackState,
+  players: MatchPlayer[],
+  newSeed: BjSeedSource,
+  now: number
+): BlackjackStep[] => {
+  const round = state.roundState;
+  if (state.status !== "IN_PROGRESS" || !round || state.deadline === null || now < state.deadline) return [];
+  const steps: BlackjackStep[] = [];
+  const expired = Object.values(round.players).filter((p) => p.deadline !== null && p.deadline <= now);
+  for (const player of expired) {
+    player.deadline = null;
+    steps.push(recordTimeout(state, player.userId));
+    const all = state.sittingOut.includes(player.userId);
+    if (round.status === "BETTING") {
+      player.placedBet = true;
+      continue;
+    }
+    for (const hand of player.hands) {
+      if (round.status === "INSURANCE" && !hand.insurance) {
+        hand.insurance = "DECLINED";
+        if (!all) break;
+      }
+      if (round.status === "PLAYER_ACTION" && hand.status === "ACTIVE") {
+        hand.status = "DONE";
+        if (!all) break;
+      }
+    }
+    steps.push(...playerHandSteps(round, player));
+  }
+  steps.push(...continueRound(state, players, newSeed, now, expired.map((p) => p.userId)));
+  return steps;
+};
+
+// BJ_SIT_OUT from the player. Sitting back in during betting starts their
+// betting clock; later in a round it counts from the next one.
+export const setBlackjackSitOut = (
+  state: BlackjackState,
+  players: MatchPlayer[],
+  userId: string,
+  sittingOut: boolean,
+  newSeed: BjSeedSource,
+  now: number
+): BlackjackResult => {
+  const round = state.roundState;
+  if (state.status !== "IN_PROGRESS" || !round) return { ok: false, error: "bj_round_mismatch" };
+  if (!round.players[userId]) return { ok: false, error: "bj_player_missing" };
+  if (state.sittingOut.includes(userId) === sittingOut) return { ok: true, steps: [] };
+  const steps: BlackjackStep[] = [];
+  if (sittingOut) {
+    state.sittingOut.push(userId);
+    steps.push(sitOutStep(state, userId));
+  } else {
+    steps.push(...clearTimeouts(state, userId));
+  }
+  steps.push(...continueRound(state, players, newSeed, now, []));
+  return { ok: true, steps };
+};
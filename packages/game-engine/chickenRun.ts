@@ -0,0 +1,349 @@
+import type { ChickenBetSide, ChickenDare, ChickenOutcome, MatchPlayer } from "../shared/events";
+
+export type ChickenBet = {
+  side: ChickenBetSide;
+  amount: number;
+};
+
+export type ChickenRound = {
+  round: number;
+  performerUserId: string;
+  options: ChickenDare[];
+  dare: ChickenDare | null;
+  // null = passed on this dare.
+  bets: Record<string, ChickenBet | null>;
+  votes: Record<string, boolean>;
+};
+
+export type ChickenRunState = {
+  // Humans in seat order; Sputnik bets and votes but never performs.
+  performerOrder: string[];
+  seatIndexByUser: Record<string, number>;
+  userIds: string[];
+  roundsTotal: number;
+  doneDareIds: Record<string, string[]>;
+  phase: "PICKING" | "BETTING" | "PERFORMING" | "VOTING" | "REVEAL" | "DONE";
+  current: ChickenRound | null;
+  deadline: number | null;
+};
+
+export type ChickenStep =
+  | {
+      kind: "ROUND_STARTED";
+      round: number;
+      roundsTotal: number;
+      performerUserId: string;
+      options: ChickenDare[];
+      deadline: number;
+    }
+  | { kind: "DARE_CHOSEN"; round: number; performerUserId: string; dare: ChickenDare; deadline: number }
+  | { kind: "BET"; round: number; userId: string; side: ChickenBetSide | null; amount: number }
+  | { kind: "PERFORMING"; round: number; performerUserId: string; deadline: number }
+  | { kind: "VOTING"; round: number; deadline: number }
+  | { kind: "VOTE"; round: number; userId: string }
+  | {
+      kind: "SETTLED";
+      round: number;
+      performerUserId: string;
+      dareId: string;
+      outcome: ChickenOutcome;
+      votes: { yes: number; no: number };
+      deltasByUser: Record<string, number>;
+      bonus: number;
+    }
+  | { kind: "DONE" };
+
+export type ChickenResult = { ok: true; steps: ChickenStep[] } | { ok: false; error: string };
+
+export const CHICKEN_START_STACK = 500;
+export const CHICKEN_DARES_PER_PLAYER = 2;
+export const CHICKEN_OPTIONS_PER_SEAT = 4;
+export const CHICKEN_PICK_MS = 30_000;
+export const CHICKEN_BET_MS = 30_000;
+export const CHICKEN_PERFORM_MS = 90_000;
+export const CHICKEN_VOTE_MS = 30_000;
+export const CHICKEN_REVEAL_MS = 5_000;
+
+export const CHICKEN_DARES: ChickenDare[] = [
+  {
+    id: "chicken_dance",
+    icon: "🐔",
+    label: {
+      sv: "Gör en tiosekunders kycklingdans utan att skratta.",
+      en: "Do a ten-second chicken dance without laughing.",
+    },
+    points: 25,
+  },
+  {
+    id: "egg_commentary",
+    icon: "🎤",
+    label: {
+      sv: "Kommentera ett ägg som om det vore stor sportfinal.",
+      en: "Commentate an egg like it is a championship final.",
+    },
+    points: 30,
+  },
+  {
+    id: "rooster_pose",
+    icon: "👑",
+    label: {
+      sv: "Stelna i en dramatisk tupp-pose i femton sekunder.",
+      en: "Freeze in a dramatic rooster pose for fifteen seconds.",
+    },
+    points: 20,
+  },
+  {
+    id: "omelette_letter",
+    icon: "🥚",
+    label: {
+      sv: "Skriv eller läs upp ett kärleksbrev till en osynlig omelett.",
+      en: "Write or perform a love letter to an invisible omelette.",
+    },
+    points: 35,
+  },
+  {
+    id: "seed_parade",
+    icon: "🕺",
+    label: {
+      sv: "Visa din bästa segerparad för ett hittat frö.",
+      en: "Show your best victory parade for a found seed.",
+    },
+    points: 15,
+  },
+  {
+    id: "villain_voice",
+    icon: "🎭",
+    label: {
+      sv: "Prata som en superskurkkyckling i nästa hand.",
+      en: "Talk like a supervillain chicken in the next hand.",
+    },
+    points: 40,
+  },
+];
+
+// Every seat gets its own window into the catalogue (seat 0: 0-3, seat 1: 2-5, ...).
+export const getChickenDaresForSeat = (seatIndex: number, count = CHICKEN_OPTIONS_PER_SEAT): ChickenDare[] => {
+  if (!CHICKEN_DARES.length) return [];
+  return Array.from({ length: Math.min(count, CHICKEN_DARES.length) }, (_, offset) => {
+    return CHICKEN_DARES[(seatIndex * 2 + offset) % CHICKEN_DARES.length];
+  });
+};
+
+export const createChickenRunState = (players: MatchPlayer[]): ChickenRunState => {
+  const seated = [...players].sort((a, b) => a.seat - b.seat);
+  const performerOrder = seated.filter((p) => !p.isBot).map((p) => p.userId);
+  return {
+    performerOrder,
+    seatIndexByUser: Object.fromEntries(seated.map((p, i) => [p.userId, i])),
+    userIds: seated.map((p) => p.userId),
+    roundsTotal: performerOrder.length * CHICKEN_DARES_PER_PLAYER,
+    doneDareIds: {},
+    phase: "PICKING",
+    current: null,
+    deadline: null,
+  };
+};
+
+const others = (state: ChickenRunState, round: ChickenRound) =>
+  state.userIds.filter((userId) => userId !== round.performerUserId);
+
+const openRound = (state: ChickenRunState, index: number, now: number): ChickenStep[] => {
+  if (index >= state.roundsTotal) {
+    state.phase = "DONE";
+    state.current = null;
+    state.deadline = null;
+    return [{ kind: "DONE" }];
+  }
+  const performerUserId = state.performerOrder[index % state.performerOrder.length];
+  const seatOptions = getChickenDaresForSeat(state.seatIndexByUser[performerUserId] ?? 0);
+  const done = state.doneDareIds[performerUserId] ?? [];
+  const fresh = seatOptions.filter((dare) => !done.includes(dare.id));
+  const options = fresh.length ? fresh : seatOptions;
+  state.phase = "PICKING";
+  state.deadline = now + CHICKEN_PICK_MS;
+  state.current = { round: index + 1, performerUserId, options, dare: null, bets: {}, votes: {} };
+  return [
+    {
+      kind: "ROUND_STARTED",
+      round: index + 1,
+      roundsTotal: state.roundsTotal,
+      performerUserId,
+      options,
+      deadline: state.deadline,
+    },
+  ];
+};
+
+const chooseDare = (state: ChickenRunState, dare: ChickenDare, now: number): ChickenStep[] => {
+  const current = state.current!;
+  current.dare = dare;
+  state.doneDareIds[current.performerUserId] = [...(state.doneDareIds[current.performerUserId] ?? []), dare.id];
+  state.phase = "BETTING";
+  state.deadline = now + CHICKEN_BET_MS;
+  return [
+    { kind: "DARE_CHOSEN", round: current.round, performerUserId: current.performerUserId, dare, deadline: state.deadline },
+  ];
+};
+
+const startPerforming = (state: ChickenRunState, now: number): ChickenStep[] => {
+  const current = state.current!;
+  state.phase = "PERFORMING";
+  state.deadline = now + CHICKEN_PERFORM_MS;
+  return [{ kind: "PERFORMING", round: current.round, performerUserId: current.performerUserId, deadline: state.deadline }];
+};
+
+const openVoting = (state: ChickenRunState, now: number): ChickenStep[] => {
+  state.phase = "VOTING";
+  state.deadline = now + CHICKEN_VOTE_MS;
+  return [{ kind: "VOTING", round: state.current!.round, deadline: state.deadline }];
+};
+
+// Pari-mutuel: the losing side's stakes are shared by the winners in proportion
+// to their stake. Odd chips go to the biggest winning stakes first. Nothing
+// moves on a void vote or when only one side has money on it.
+export const settleChickenBets = (
+  bets: Record<string, ChickenBet | null>,
+  outcome: ChickenOutcome,
+  order: string[]
+): Record<string, number> => {
+  const deltas: Record<string, number> = {};
+  if (outcome === "VOID") return deltas;
+  const winningSide: ChickenBetSide = outcome === "COMPLETED" ? "DOES_IT" : "CHICKENS_OUT";
+  const placed = order
+    .map((userId) => ({ userId, bet: bets[userId] }))
+    .filter((entry): entry is { userId: string; bet: ChickenBet } => Boolean(entry.bet && entry.bet.amount > 0));
+  const winners = placed.filter((entry) => entry.bet.side === winningSide);
+  const losers = placed.filter((entry) => entry.bet.side !== winningSide);
+  const winPool = winners.reduce((sum, entry) => sum + entry.bet.amount, 0);
+  const losePool = losers.reduce((sum, entry) => sum + entry.bet.amount, 0);
+  if (!winPool || !losePool) return deltas;
+  for (const entry of losers) deltas[entry.userId] = -entry.bet.amount;
+  let paid = 0;
+  for (const entry of winners) {
+    const share = Math.floor((losePool * entry.bet.amount) / winPool);
+    deltas[entry.userId] = share;
+    paid += share;
+  }
+  const byStake = [...winners].sort((a, b) => b.bet.amount - a.bet.amount);
+  for (let i = 0; paid < losePool; i = (i + 1) % byStake.length) {
+    deltas[byStake[i].userId] += 1;
+    paid += 1;
+  }
+  return deltas;
+};
+
+const settleRound = (state: ChickenRunState, now: number): ChickenStep[] => {
+  const current = state.current!;
+  const values = Object.values(current.votes);
+  const yes = values.filter(Boolean).length;
+  const no = values.length - yes;
+  const outcome: ChickenOutcome = yes > no ? "COMPLETED" : no > yes ? "FAILED" : "VOID";
+  state.phase = "REVEAL";
+  state.deadline = now + CHICKEN_REVEAL_MS;
+  return [
+    {
+      kind: "SETTLED",
+      round: current.round,
+      performerUserId: current.performerUserId,
+      dareId: current.dare!.id,
+      outcome,
+      votes: { yes, no },
+      deltasByUser: settleChickenBets(current.bets, outcome, state.userIds),
+      bonus: outcome === "COMPLETED" ? current.dare!.points : 0,
+    },
+  ];
+};
+
+export const startChickenRun = (state: ChickenRunState, now: number): ChickenStep[] => {
+  if (!state.performerOrder.length) {
+    state.phase = "DONE";
+    return [{ kind: "DONE" }];
+  }
+  return openRound(state, 0, now);
+};
+
+export const pickChickenDare = (state: ChickenRunState, userId: string, dareId: string, now: number): ChickenResult => {
+  const current = state.current;
+  if (state.phase !== "PICKING" || !current) return { ok: false, error: "chicken_not_picking" };
+  if (current.performerUserId !== userId) return { ok: false, error: "chicken_not_your_dare" };
+  const dare = current.options.find((option) => option.id === dareId);
+  if (!dare) return { ok: false, error: "chicken_unknown_dare" };
+  return { ok: true, steps: chooseDare(state, dare, now) };
+};
+
+export const placeChickenBet = (
+  state: ChickenRunState,
+  userId: string,
+  round: number,
+  side: ChickenBetSide,
+  amount: number,
+  stack: number,
+  now: number
+): ChickenResult => {
+  const current = state.current;
+  if (state.phase !== "BETTING" || !current) return { ok: false, error: "chicken_not_betting" };
+  if (current.round !== round) return { ok: false, error: "chicken_round_mismatch" };
+  if (current.performerUserId === userId) return { ok: false, error: "chicken_performer_cannot_bet" };
+  if (!state.userIds.includes(userId)) return { ok: false, error: "chicken_player_missing" };
+  if (userId in current.bets) return { ok: false, error: "chicken_already_bet" };
+  const stake = Math.trunc(amount);
+  if (!Number.isFinite(stake) || stake < 0) return { ok: false, error: "chicken_invalid_bet" };
+  if (stake > stack) return { ok: false, error: "chicken_bet_exceeds_stack" };
+  current.bets[userId] = stake > 0 ? { side, amount: stake } : null;
+  const steps: ChickenStep[] = [
+    { kind: "BET", round, userId, side: stake > 0 ? side : null, amount: stake },
+  ];
+  if (others(state, current).every((id) => id in current.bets)) steps.push(...startPerforming(state, now));
+  return { ok: true, steps };
+};
+
+// The performer says they are done (or gave up); the table votes right away.
+export const finishChickenDare = (state: ChickenRunState, userId: string, round: number, now: number): ChickenResult => {
+  const current = state.current;
+  if (state.phase !== "PERFORMING" || !current) return { ok: false, error: "chicken_not_performing" };
+  if (current.round !== round) return { ok: false, error: "chicken_round_mismatch" };
+  if (current.performerUserId !== userId) return { ok: false, error: "chicken_not_your_dare" };
+  return { ok: true, steps: openVoting(state, now) };
+};
+
+export const castChickenVote = (
+  state: ChickenRunState,
+  userId: string,
+  round: number,
+  completed: boolean,
+  now: number
+): ChickenResult => {
+  const current = state.current;
+  if (state.phase !== "VOTING" || !current) return { ok: false, error: "chicken_not_voting" };
+  if (current.round !== round) return { ok: false, error: "chicken_round_mismatch" };
+  if (current.performerUserId === userId) return { ok: false, error: "chicken_performer_cannot_vote" };
+  if (!state.userIds.includes(userId)) return { ok: false, error: "chicken_player_missing" };
+  if (userId in current.votes) return { ok: false, error: "chicken_already_voted" };
+  current.votes[userId] = completed;
+  const steps: ChickenStep[] = [{ kind: "VOTE", round, userId }];
+  if (others(state, current).every((id) => id in current.votes)) steps.push(...settleRound(state, now));
+  return { ok: true, steps };
+};
+
+// Called once the active deadline has passed.
+export const expireChickenDeadline = (state: ChickenRunState, now: number): ChickenStep[] => {
+  if (state.deadline === null || now < state.deadline || !state.current) return [];
+  const current = state.current;
+  switch (state.phase) {
+    case "PICKING":
+      return chooseDare(state, current.options[0], now);
+    case "BETTING":
+      for (const userId of others(state, current)) {
+        if (!(userId in current.bets)) current.bets[userId] = null;
+      }
+      return startPerforming(state, now);
+    case "PERFORMING":
+      return openVoting(state, now);
+    case "VOTING":
+      return settleRound(state, now);
+    case "REVEAL":
+      return openRound(state, current.round, now);
+    default:
+      return [];
+  }
+};
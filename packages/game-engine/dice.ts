@@ -0,0 +1,105 @@
+import type { MatchPlayer } from "../shared/events";
+import { fairRng, type FairSeed } from "./fairness";
+
+export type DiceChoice = "HIGHER" | "LOWER";
+
+export type DiceBet = {
+  choice: DiceChoice;
+  bet: number;
+};
+
+export type DiceOutcome = {
+  userId: string;
+  choice: DiceChoice;
+  bet: number;
+  result: "WIN" | "LOSE" | "PUSH";
+  delta: number;
+};
+
+export type DiceState = {
+  firstDie: number;
+  // floor(stack * maxBetFraction) per player, fixed when the first die is shown.
+  maxBets: Record<string, number>;
+  // null = sat out (nothing to risk or missed the deadline), undefined = still deciding.
+  bets: Record<string, DiceBet | null>;
+  secondDie: number | null;
+  deadline: number | null;
+  // Draw 0 is the first die, draw 1 the second.
+  fair: FairSeed;
+};
+
+export const DICE_MAX_BET_FRACTION = 0.25;
+export const DICE_BET_MS = 30_000;
+
+export const rollDie = (rng: () => number): number => (Math.floor(rng() * 6) % 6) + 1;
+
+export const getDiceMaxBet = (stack: number, fraction = DICE_MAX_BET_FRACTION): number =>
+  Math.max(0, Math.floor(Math.max(0, stack) * fraction));
+
+export const createDiceState = (params: {
+  players: MatchPlayer[];
+  fair: FairSeed;
+  now: number;
+  maxBetFraction?: number;
+}): DiceState => {
+  const maxBets: Record<string, number> = {};
+  const bets: Record<string, DiceBet | null> = {};
+  for (const p of params.players) {
+    const maxBet = getDiceMaxBet(p.stack, params.maxBetFraction);
+    maxBets[p.userId] = maxBet;
+    if (maxBet < 1) bets[p.userId] = null;
+  }
+  const firstDie = rollDie(fairRng(params.fair));
+  return { firstDie, maxBets, bets, secondDie: null, deadline: params.now + DICE_BET_MS, fair: params.fair };
+};
+
+export const placeDiceBet = (
+  state: DiceState,
+  userId: string,
+  choice: DiceChoice,
+  bet: number
+): { ok: true } | { ok: false; error: string } => {
+  if (!(userId in state.maxBets)) return { ok: false, error: "dice_player_missing" };
+  if (state.secondDie !== null) return { ok: false, error: "dice_already_rolled" };
+  if (userId in state.bets) return { ok: false, error: "dice_already_decided" };
+  const amount = Math.trunc(bet);
+  if (!Number.isFinite(amount) || amount < 1) return { ok: false, error: "dice_invalid_bet" };
+  if (amount > state.maxBets[userId]) return { ok: false, error: "dice_bet_exceeds_cap" };
+  state.bets[userId] = { choice, bet: amount };
+  return { ok: true };
+};
+
+export const isDiceSettled = (state: DiceState): boolean =>
+  Object.keys(state.maxBets).every((userId) => userId in state.bets);
+
+// Deadline passed: everyone still deciding sits this one out.
+export const closeDiceBetting = (state: DiceState): void => {
+  for (const userId of Object.keys(state.maxBets)) {
+    if (!(userId in state.bets)) state.bets[userId] = null;
+  }
+  state.deadline = null;
+};
+
+export const rollSecondDie = (state: DiceState): DiceOutcome[] => {
+  const secondDie = rollDie(fairRng(state.fair));
+  state.secondDie = secondDie;
+  state.deadline = null;
+  const outcomes: DiceOutcome[] = [];
+  for (const [userId, bet] of Object.entries(state.bets)) {
+    if (!bet) continue;
+    // Same value both times is a push: the bet comes back untouched.
+    if (secondDie === state.firstDie) {
+      outcomes.push({ userId, choice: bet.choice, bet: bet.bet, result: "PUSH", delta: 0 });
+      continue;
+    }
+    const won = bet.choice === "HIGHER" ? secondDie > state.firstDie : secondDie < state.firstDie;
+    outcomes.push({
+      userId,
+      choice: bet.choice,
+      bet: bet.bet,
+      result: won ? "WIN" : "LOSE",
+      delta: won ? bet.bet : -bet.bet,
+    });
+  }
+  return outcomes;
+};
@@ -0,0 +1,38 @@
+import { createHash, createHmac, randomBytes } from "node:crypto";
+
+// Commit-reveal for everything the house draws: the blackjack shoe, the
+// roulette wheel and the dice. Each draw context (a blackjack round, a spin,
+// a dice stage) gets its own seed. Its SHA-256 is published before anyone
+// bets, the seed itself once the outcome is settled. Draw n is
+// HMAC-SHA256(seed, String(n)); the first 52 bits make a float in [0, 1).
+export type FairSeed = {
+  seed: string;
+  seedHash: string;
+  // Next draw number.
+  nonce: number;
+};
+
+export type FairKind = "BLACKJACK" | "ROULETTE" | "DICE";
+
+export const hashFairSeed = (seed: string): string => createHash("sha256").update(seed).digest("hex");
+
+// Derived from the secret match seed, so a replay of match_events gets the same
+// seeds. Revealing one does not reveal the match seed or any other round.
+export const createFairSeed = (matchSeed: string | null, label: string): FairSeed => {
+  const seed = matchSeed
+    ? createHmac("sha256", matchSeed).update(label).digest("hex")
+    : randomBytes(32).toString("hex");
+  return { seed, seedHash: hashFairSeed(seed), nonce: 0 };
+};
+
+export const fairFloat = (seed: string, nonce: number): number => {
+  const digest = createHmac("sha256", seed).update(String(nonce)).digest("hex");
+  return parseInt(digest.slice(0, 13), 16) / 2 ** 52;
+};
+
+// Draws in order and counts them on the seed, which lives in the stage state.
+export const fairRng = (fair: FairSeed): (() => number) => () => {
+  const value = fairFloat(fair.seed, fair.nonce);
+  fair.nonce += 1;
+  return value;
+};
@@ -0,0 +1,538 @@
+import type { MatchPlayer } from "../shared/events";
+import { buildPokerDeck, comparePokerHands, evaluatePokerHand, type PokerCard, type PokerHandCategory } from "./pokerHand";
+
+export type HoldemAction = "FOLD" | "CHECK" | "CALL" | "BET" | "RAISE";
+export type HoldemStreet = "PREFLOP" | "FLOP" | "TURN" | "RIVER";
+
+export type HoldemSeat = {
+  userId: string;
+  // P1..P6, same join-order labels as the Yatzy seat map.
+  seat: string;
+  stack: number;
+  eliminated: boolean;
+  inHand: boolean;
+  holeCards: PokerCard[];
+  streetBet: number;
+  committed: number;
+  folded: boolean;
+  allIn: boolean;
+  hasActed: boolean;
+};
+
+export type HoldemHand = {
+  handId: number;
+  deck: PokerCard[];
+  board: PokerCard[];
+  street: HoldemStreet;
+  buttonIndex: number;
+  sbIndex: number;
+  bbIndex: number;
+  toActIndex: number | null;
+  currentBet: number;
+  minRaise: number;
+  startStacks: Record<string, number>;
+};
+
+export type HoldemState = {
+  seats: HoldemSeat[];
+  sb: number;
+  bb: number;
+  level: number;
+  buttonIndex: number;
+  handCount: number;
+  // Players who have posted the big blind on the current level. When every
+  // remaining player is in here the orbit is done and the blinds double.
+  bbPostedThisLevel: string[];
+  hand: HoldemHand | null;
+  phase: "BETTING" | "BETWEEN_HANDS" | "DONE";
+  deadline: number | null;
+};
+
+export type HoldemPot = {
+  amount: number;
+  eligibleUserIds: string[];
+  winnerUserIds: string[];
+};
+
+export type HoldemStep =
+  | {
+      kind: "HAND_STARTED";
+      handId: number;
+      level: number;
+      sb: number;
+      bb: number;
+      buttonUserId: string;
+      sbUserId: string;
+      bbUserId: string;
+      posted: Record<string, number>;
+      stacks: Record<string, number>;
+    }
+  | { kind: "HOLE_CARDS"; handId: number; userId: string; cards: PokerCard[] }
+  | {
+      kind: "ACTION_REQUIRED";
+      handId: number;
+      userId: string;
+      toCall: number;
+      minRaiseTo: number;
+      maxRaiseTo: number;
+      deadline: number;
+    }
+  | {
+      kind: "ACTION";
+      handId: number;
+      userId: string;
+      action: HoldemAction;
+      streetBet: number;
+      stack: number;
+      allIn: boolean;
+      pot: number;
+      auto: boolean;
+    }
+  | { kind: "STREET"; handId: number; street: HoldemStreet; board: PokerCard[] }
+  | {
+      kind: "HAND_COMPLETED";
+      handId: number;
+      board: PokerCard[];
+      pots: HoldemPot[];
+      showdown: Array<{ userId: string; cards: PokerCard[]; category: PokerHandCategory }>;
+      deltasByUser: Record<string, number>;
+      eliminatedUserIds: string[];
+    }
+  | { kind: "ORBIT_COMPLETED"; level: number; sb: number; bb: number }
+  | { kind: "DONE"; winnerUserId: string | null };
+
+export type HoldemResult = { ok: true; steps: HoldemStep[] } | { ok: false; error: string };
+
+export const HOLDEM_MIN_SB = 10;
+export const HOLDEM_ACTION_MS = 30_000;
+export const HOLDEM_NEXT_HAND_MS = 5_000;
+const seatLabels = ["P1", "P2", "P3", "P4", "P5", "P6"];
+
+// SB = max(10, round(medianStack / 200)), BB = 2 * SB.
+export const computeStartingBlinds = (stacks: number[]): { sb: number; bb: number } => {
+  const sorted = stacks.filter((s) => s > 0).sort((a, b) => a - b);
+  let median = 0;
+  if (sorted.length) {
+    const mid = Math.floor(sorted.length / 2);
+    median = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  }
+  const sb = Math.max(HOLDEM_MIN_SB, Math.round(median / 200));
+  return { sb, bb: sb * 2 };
+};
+
+const shuffled = <T>(items: T[], rng: () => number): T[] => {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(rng() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+};
+
+const nextIndex = (state: HoldemState, from: number, pred: (seat: HoldemSeat) => boolean): number => {
+  const n = state.seats.length;
+  for (let i = 1; i <= n; i += 1) {
+    const idx = (((from + i) % n) + n) % n;
+    if (pred(state.seats[idx])) return idx;
+  }
+  return -1;
+};
+
+const isAlive = (seat: HoldemSeat) => !seat.eliminated;
+const isLive = (seat: HoldemSeat) => seat.inHand && !seat.folded;
+const canAct = (seat: HoldemSeat) => isLive(seat) && !seat.allIn;
+
+const getPot = (state: HoldemState): number => state.seats.reduce((sum, seat) => sum + seat.committed, 0);
+
+// Seats are taken in join order, as the Yatzy seats are bound (bindYatzySeats).
+export const createHoldemState = (players: MatchPlayer[]): HoldemState => {
+  const seats: HoldemSeat[] = players.slice(0, seatLabels.length).map((p, i) => ({
+    userId: p.userId,
+    seat: seatLabels[i],
+    stack: Math.max(0, p.stack),
+    eliminated: p.stack <= 0,
+    inHand: false,
+    holeCards: [],
+    streetBet: 0,
+    committed: 0,
+    folded: false,
+    allIn: false,
+    hasActed: false,
+  }));
+  const { sb, bb } = computeStartingBlinds(seats.map((seat) => seat.stack));
+  return {
+    seats,
+    sb,
+    bb,
+    level: 1,
+    buttonIndex: -1,
+    handCount: 0,
+    bbPostedThisLevel: [],
+    hand: null,
+    phase: "BETWEEN_HANDS",
+    deadline: null,
+  };
+};
+
+const finishStage = (state: HoldemState): HoldemStep[] => {
+  state.phase = "DONE";
+  state.hand = null;
+  state.deadline = null;
+  const alive = state.seats.filter(isAlive);
+  return [{ kind: "DONE", winnerUserId: alive.length === 1 ? alive[0].userId : null }];
+};
+
+const commit = (seat: HoldemSeat, amount: number): number => {
+  const paid = Math.max(0, Math.min(amount, seat.stack));
+  seat.stack -= paid;
+  seat.streetBet += paid;
+  seat.committed += paid;
+  if (seat.stack === 0) seat.allIn = true;
+  return paid;
+};
+
+const startHand = (state: HoldemState, rng: () => number, now: number): HoldemStep[] => {
+  const alive = state.seats.filter(isAlive);
+  if (alive.length <= 1) return finishStage(state);
+
+  state.handCount += 1;
+  const buttonIndex = nextIndex(state, state.buttonIndex, isAlive);
+  state.buttonIndex = buttonIndex;
+  // Heads-up the button posts the small blind.
+  const sbIndex = alive.length === 2 ? buttonIndex : nextIndex(state, buttonIndex, isAlive);
+  const bbIndex = nextIndex(state, sbIndex, isAlive);
+
+  const startStacks: Record<string, number> = {};
+  for (const seat of state.seats) {
+    seat.inHand = isAlive(seat);
+    seat.holeCards = [];
+    seat.streetBet = 0;
+    seat.committed = 0;
+    seat.folded = false;
+    seat.allIn = false;
+    seat.hasActed = false;
+    if (seat.inHand) startStacks[seat.userId] = seat.stack;
+  }
+
+  const deck = shuffled(buildPokerDeck(), rng);
+  for (let round = 0; round < 2; round += 1) {
+    let idx = buttonIndex;
+    for (let i = 0; i < alive.length; i += 1) {
+      idx = nextIndex(state, idx, isAlive);
+      state.seats[idx].holeCards.push(deck.pop()!);
+    }
+  }
+
+  const sbSeat = state.seats[sbIndex];
+  const bbSeat = state.seats[bbIndex];
+  const posted: Record<string, number> = {};
+  posted[sbSeat.userId] = commit(sbSeat, state.sb);
+  posted[bbSeat.userId] = commit(bbSeat, state.bb);
+  if (!state.bbPostedThisLevel.includes(bbSeat.userId)) state.bbPostedThisLevel.push(bbSeat.userId);
+
+  state.phase = "BETTING";
+  state.hand = {
+    handId: state.handCount,
+    deck,
+    board: [],
+    street: "PREFLOP",
+    buttonIndex,
+    sbIndex,
+    bbIndex,
+    toActIndex: null,
+    currentBet: Math.max(sbSeat.streetBet, bbSeat.streetBet),
+    minRaise: state.bb,
+    startStacks,
+  };
+
+  const steps: HoldemStep[] = [
+    {
+      kind: "HAND_STARTED",
+      handId: state.handCount,
+      level: state.level,
+      sb: state.sb,
+      bb: state.bb,
+      buttonUserId: state.seats[buttonIndex].userId,
+      sbUserId: sbSeat.userId,
+      bbUserId: bbSeat.userId,
+      posted,
+      stacks: Object.fromEntries(state.seats.filter((s) => s.inHand).map((s) => [s.userId, s.stack])),
+    },
+  ];
+  for (const seat of state.seats) {
+    if (!seat.inHand) continue;
+    steps.push({ kind: "HOLE_CARDS", handId: state.handCount, userId: seat.userId, cards: seat.holeCards });
+  }
+  steps.push(...advance(state, bbIndex, now));
+  return steps;
+};
+
+const needsAction = (hand: HoldemHand) => (seat: HoldemSeat) =>
+  canAct(seat) && (!seat.hasActed || seat.streetBet < hand.currentBet);
+
+const requireAction = (state: HoldemState, index: number, now: number): HoldemStep[] => {
+  const hand = state.hand!;
+  const seat = state.seats[index];
+  hand.toActIndex = index;
+  state.deadline = now + HOLDEM_ACTION_MS;
+  const maxRaiseTo = seat.streetBet + seat.stack;
+  return [
+    {
+      kind: "ACTION_REQUIRED",
+      handId: hand.handId,
+      userId: seat.userId,
+      toCall: Math.min(hand.currentBet - seat.streetBet, seat.stack),
+      minRaiseTo: Math.min(Math.max(hand.currentBet + hand.minRaise, state.bb), maxRaiseTo),
+      maxRaiseTo,
+      deadline: state.deadline,
+    },
+  ];
+};
+
+// Moves the hand along after an action (or the blinds): next player to act,
+// next street, or the end of the hand.
+const advance = (state: HoldemState, fromIndex: number, now: number): HoldemStep[] => {
+  const hand = state.hand!;
+  const live = state.seats.filter(isLive);
+  if (live.length === 1) return completeHand(state, now);
+
+  const next = nextIndex(state, fromIndex, needsAction(hand));
+  const actors = state.seats.filter(canAct);
+  // A lone player who already covers the bet has nobody left to bet against.
+  const lone = actors.length === 1 && actors[0].streetBet >= hand.currentBet;
+  if (next !== -1 && !lone) return requireAction(state, next, now);
+
+  const steps: HoldemStep[] = [];
+  for (const seat of state.seats) {
+    seat.streetBet = 0;
+    seat.hasActed = false;
+  }
+  hand.currentBet = 0;
+  hand.minRaise = state.bb;
+  hand.toActIndex = null;
+  if (hand.street === "RIVER") return [...steps, ...completeHand(state, now)];
+
+  hand.deck.pop(); // burn
+  if (hand.street === "PREFLOP") {
+    hand.street = "FLOP";
+    hand.board.push(hand.deck.pop()!, hand.deck.pop()!, hand.deck.pop()!);
+  } else {
+    hand.street = hand.street === "FLOP" ? "TURN" : "RIVER";
+    hand.board.push(hand.deck.pop()!);
+  }
+  steps.push({ kind: "STREET", handId: hand.handId, street: hand.street, board: [...hand.board] });
+  // Post-flop the first live player left of the button starts.
+  steps.push(...advance(state, hand.buttonIndex, now));
+  return steps;
+};
+
+// Splits the committed chips into main and side pots by all-in level.
+const buildPots = (seats: HoldemSeat[]): HoldemPot[] => {
+  const contributors = seats.filter((seat) => seat.committed > 0);
+  const levels = Array.from(new Set(contributors.map((seat) => seat.committed))).sort((a, b) => a - b);
+  const pots: HoldemPot[] = [];
+  let previous = 0;
+  let carry = 0;
+  for (const level of levels) {
+    const amount =
+      contributors.reduce((sum, seat) => sum + Math.min(seat.committed, level) - Math.min(seat.committed, previous), 0) +
+      carry;
+    previous = level;
+    const eligibleUserIds = contributors.filter((seat) => isLive(seat) && seat.committed >= level).map((s) => s.userId);
+    if (!eligibleUserIds.length) {
+      carry = amount;
+      continue;
+    }
+    carry = 0;
+    const last = pots[pots.length - 1];
+    if (last && last.eligibleUserIds.join(",") === eligibleUserIds.join(",")) {
+      last.amount += amount;
+    } else {
+      pots.push({ amount, eligibleUserIds, winnerUserIds: [] });
+    }
+  }
+  if (carry && pots.length) pots[pots.length - 1].amount += carry;
+  return pots;
+};
+
+const completeHand = (state: HoldemState, now: number): HoldemStep[] => {
+  const hand = state.hand!;
+  const live = state.seats.filter(isLive);
+  const pots = buildPots(state.seats);
+  const showdown: Array<{ userId: string; cards: PokerCard[]; category: PokerHandCategory }> = [];
+  const steps: HoldemStep[] = [];
+
+  if (live.length === 1) {
+    for (const pot of pots) pot.winnerUserIds = [live[0].userId];
+  } else {
+    // advance() deals every street before calling us; this only guards odd states.
+    while (hand.board.length < 5) {
+      hand.deck.pop();
+      const count = hand.board.length ? 1 : 3;
+      for (let i = 0; i < count; i += 1) hand.board.push(hand.deck.pop()!);
+    }
+    const values = new Map(live.map((seat) => [seat.userId, evaluatePokerHand([...seat.holeCards, ...hand.board])]));
+    for (const seat of live) {
+      showdown.push({ userId: seat.userId, cards: seat.holeCards, category: values.get(seat.userId)!.category });
+    }
+    for (const pot of pots) {
+      let best: string[] = [];
+      for (const userId of pot.eligibleUserIds) {
+        if (!best.length) {
+          best = [userId];
+          continue;
+        }
+        const cmp = comparePokerHands(values.get(userId)!, values.get(best[0])!);
+        if (cmp > 0) best = [userId];
+        else if (cmp === 0) best.push(userId);
+      }
+      pot.winnerUserIds = best;
+    }
+  }
+
+  // Split pots evenly; odd chips go to the first winners left of the button.
+  const order = (userId: string) => {
+    const idx = state.seats.findIndex((seat) => seat.userId === userId);
+    return (idx - hand.buttonIndex - 1 + state.seats.length) % state.seats.length;
+  };
+  for (const pot of pots) {
+    const winners = [...pot.winnerUserIds].sort((a, b) => order(a) - order(b));
+    const share = Math.floor(pot.amount / winners.length);
+    let odd = pot.amount - share * winners.length;
+    for (const userId of winners) {
+      const seat = state.seats.find((s) => s.userId === userId)!;
+      seat.stack += share + (odd > 0 ? 1 : 0);
+      if (odd > 0) odd -= 1;
+    }
+  }
+
+  const deltasByUser: Record<string, number> = {};
+  const eliminatedUserIds: string[] = [];
+  for (const seat of state.seats) {
+    if (!seat.inHand) continue;
+    deltasByUser[seat.userId] = seat.stack - hand.startStacks[seat.userId];
+    seat.streetBet = 0;
+    seat.committed = 0;
+    seat.inHand = false;
+    if (seat.stack <= 0) {
+      seat.eliminated = true;
+      eliminatedUserIds.push(seat.userId);
+    }
+  }
+  steps.push({
+    kind: "HAND_COMPLETED",
+    handId: hand.handId,
+    board: [...hand.board],
+    pots,
+    showdown,
+    deltasByUser,
+    eliminatedUserIds,
+  });
+  state.hand = null;
+
+  const alive = state.seats.filter(isAlive);
+  if (alive.length <= 1) return [...steps, ...finishStage(state)];
+
+  // Turbo: once everyone left has posted the big blind, the blinds double.
+  if (alive.every((seat) => state.bbPostedThisLevel.includes(seat.userId))) {
+    state.level += 1;
+    state.sb *= 2;
+    state.bb *= 2;
+    state.bbPostedThisLevel = [];
+    steps.push({ kind: "ORBIT_COMPLETED", level: state.level, sb: state.sb, bb: state.bb });
+  }
+  state.phase = "BETWEEN_HANDS";
+  state.deadline = now + HOLDEM_NEXT_HAND_MS;
+  return steps;
+};
+
+export const startHoldem = (state: HoldemState, rng: () => number, now: number): HoldemStep[] =>
+  startHand(state, rng, now);
+
+const applyAction = (
+  state: HoldemState,
+  index: number,
+  action: HoldemAction,
+  amount: number | undefined,
+  now: number,
+  auto: boolean
+): HoldemResult => {
+  const hand = state.hand!;
+  const seat = state.seats[index];
+  const toCall = hand.currentBet - seat.streetBet;
+  switch (action) {
+    case "FOLD":
+      seat.folded = true;
+      break;
+    case "CHECK":
+      if (toCall > 0) return { ok: false, error: "holdem_cannot_check" };
+      break;
+    case "CALL":
+      if (toCall <= 0) return { ok: false, error: "holdem_nothing_to_call" };
+      commit(seat, toCall);
+      break;
+    case "BET":
+    case "RAISE": {
+      if (action === "BET" && hand.currentBet > 0) return { ok: false, error: "holdem_use_raise" };
+      if (action === "RAISE" && hand.currentBet === 0) return { ok: false, error: "holdem_use_bet" };
+      const target = Math.trunc(Number(amount));
+      if (!Number.isFinite(target)) return { ok: false, error: "holdem_invalid_amount" };
+      // amount is the total street bet ("raise to"), capped at all-in.
+      const maxTo = seat.streetBet + seat.stack;
+      const to = Math.min(target, maxTo);
+      const minTo = Math.max(hand.currentBet + hand.minRaise, state.bb);
+      if (to <= hand.currentBet) return { ok: false, error: "holdem_raise_too_small" };
+      if (to < minTo && to < maxTo) return { ok: false, error: "holdem_raise_too_small" };
+      const raiseSize = to - hand.currentBet;
+      commit(seat, to - seat.streetBet);
+      if (raiseSize >= hand.minRaise) hand.minRaise = raiseSize;
+      hand.currentBet = to;
+      for (const other of state.seats) {
+        if (other !== seat && canAct(other)) other.hasActed = false;
+      }
+      break;
+    }
+  }
+  seat.hasActed = true;
+  const steps: HoldemStep[] = [
+    {
+      kind: "ACTION",
+      handId: hand.handId,
+      userId: seat.userId,
+      action,
+      streetBet: seat.streetBet,
+      stack: seat.stack,
+      allIn: seat.allIn,
+      pot: getPot(state),
+      auto,
+    },
+  ];
+  steps.push(...advance(state, index, now));
+  return { ok: true, steps };
+};
+
+export const submitHoldemAction = (
+  state: HoldemState,
+  userId: string,
+  action: HoldemAction,
+  amount: number | undefined,
+  now: number
+): HoldemResult => {
+  const hand = state.hand;
+  if (state.phase !== "BETTING" || !hand || hand.toActIndex === null) return { ok: false, error: "holdem_not_betting" };
+  if (state.seats[hand.toActIndex].userId !== userId) return { ok: false, error: "holdem_not_your_turn" };
+  return applyAction(state, hand.toActIndex, action, amount, now, false);
+};
+
+// Called once the active deadline has passed: a sleeping player checks if
+// possible and folds otherwise; between hands the next hand is dealt.
+export const expireHoldemDeadline = (state: HoldemState, rng: () => number, now: number): HoldemStep[] => {
+  if (state.deadline === null || now < state.deadline) return [];
+  if (state.phase === "BETWEEN_HANDS") return startHand(state, rng, now);
+  const hand = state.hand;
+  if (state.phase !== "BETTING" || !hand || hand.toActIndex === null) return [];
+  const seat = state.seats[hand.toActIndex];
+  const action: HoldemAction = seat.streetBet >= hand.currentBet ? "CHECK" : "FOLD";
+  const res = applyAction(state, hand.toActIndex, action, undefined, now, true);
+  return res.ok ? res.steps : [];
+};
@@ -0,0 +1,251 @@
+import type { MatchPlayer } from "../shared/events";
+
+// One entry in the host's playlist. mediaId points at an uploaded Silent Disco
+// asset (served from /api/silent-disco/media/:id with range requests).
+export type MusicTrack = {
+  mediaId: string;
+  mimeType: string | null;
+  title: string;
+  artist: string;
+  clipStartMs: number;
+};
+
+export type MusicPart = "title" | "artist";
+
+export type MusicGuess = {
+  userId: string;
+  guess: string;
+  ts: number;
+  matched: MusicPart[];
+};
+
+export type MusicRound = {
+  round: number;
+  track: MusicTrack;
+  // Server time when every client should start the clip.
+  startAt: number;
+  deadline: number;
+  guesses: MusicGuess[];
+  // userId -> part -> points, filled as correct guesses come in.
+  found: Record<string, Partial<Record<MusicPart, number>>>;
+};
+
+export type MusicState = {
+  tracks: MusicTrack[];
+  userIds: string[];
+  roundsTotal: number;
+  phase: "PLAYING" | "REVEAL" | "DONE";
+  current: MusicRound | null;
+  deadline: number | null;
+};
+
+export type MusicClipView = {
+  mediaId: string;
+  url: string;
+  mimeType: string | null;
+  clipStartMs: number;
+  durationMs: number;
+};
+
+export type MusicStep =
+  | { kind: "CLIP"; round: number; roundsTotal: number; clip: MusicClipView; startAt: number; deadline: number }
+  | { kind: "GUESS"; round: number; userId: string; matched: MusicPart[]; found: MusicPart[]; points: number }
+  | {
+      kind: "RESOLVED";
+      round: number;
+      title: string;
+      artist: string;
+      pointsByUser: Record<string, number>;
+    }
+  | { kind: "DONE" };
+
+export type MusicResult = { ok: true; steps: MusicStep[] } | { ok: false; error: string };
+
+export const MUSIC_ROUNDS = 5;
+export const MUSIC_LEAD_MS = 3_000;
+export const MUSIC_CLIP_MS = 30_000;
+export const MUSIC_REVEAL_MS = 5_000;
+export const MUSIC_MAX_GUESSES = 5;
+export const MUSIC_POINTS: Record<MusicPart, number> = { title: 200, artist: 100 };
+const MUSIC_TIME_BONUS = 0.75;
+const MUSIC_MATCH_THRESHOLD = 0.8;
+
+const shuffled = <T>(items: T[], rng: () => number): T[] => {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(rng() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+};
+
+// Lowercase, no accents, no "(Remastered 2011)" or "feat. X", no punctuation,
+// no leading "the".
+export const normalizeMusicText = (value: string): string =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\(.*?\)|\[.*?\]/g, " ")
+    .replace(/\s(feat|ft|featuring)\.?\s.*$/, " ")
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .replace(/^the\s+/, "");
+
+const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i += 1) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row.push(Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+const similarity = (a: string, b: string): number => {
+  const len = Math.max(a.length, b.length);
+  if (!len) return 0;
+  return 1 - levenshtein(a, b) / len;
+};
+
+// True if the guess (or any run of its words) is close enough to the answer.
+// "queen bohemian rhapsody" matches both the artist and the title.
+export const isFuzzyMusicMatch = (guess: string, answer: string): boolean => {
+  const target = normalizeMusicText(answer);
+  const words = normalizeMusicText(guess).split(" ").filter(Boolean);
+  if (!target || !words.length) return false;
+  const targetWords = target.split(" ").length;
+  for (let size = Math.max(1, targetWords - 1); size <= Math.min(words.length, targetWords + 1); size += 1) {
+    for (let start = 0; start + size <= words.length; start += 1) {
+      const candidate = words.slice(start, start + size).join(" ");
+      if (similarity(candidate, target) >= MUSIC_MATCH_THRESHOLD) return true;
+    }
+  }
+  return false;
+};
+
+// Same shape as the trivia bonus: base + round(base * clamp(1 - t / T) * 0.75).
+export const computeMusicPoints = (part: MusicPart, elapsedMs: number, limitMs = MUSIC_CLIP_MS): number => {
+  const base = MUSIC_POINTS[part];
+  const ratio = Math.max(0, Math.min(1, 1 - elapsedMs / limitMs));
+  return base + Math.round(base * ratio * MUSIC_TIME_BONUS);
+};
+
+export const createMusicState = (params: { players: MatchPlayer[]; tracks: MusicTrack[]; rng: () => number }): MusicState => {
+  const tracks = shuffled(params.tracks, params.rng).slice(0, MUSIC_ROUNDS);
+  return {
+    tracks,
+    userIds: params.players.map((p) => p.userId),
+    roundsTotal: tracks.length,
+    phase: "PLAYING",
+    current: null,
+    deadline: null,
+  };
+};
+
+const showClip = (state: MusicState, index: number, now: number): MusicStep[] => {
+  if (index >= state.roundsTotal) {
+    state.phase = "DONE";
+    state.current = null;
+    state.deadline = null;
+    return [{ kind: "DONE" }];
+  }
+  const track = state.tracks[index];
+  const startAt = now + MUSIC_LEAD_MS;
+  state.phase = "PLAYING";
+  state.deadline = startAt + MUSIC_CLIP_MS;
+  state.current = { round: index + 1, track, startAt, deadline: state.deadline, guesses: [], found: {} };
+  return [
+    {
+      kind: "CLIP",
+      round: index + 1,
+      roundsTotal: state.roundsTotal,
+      clip: {
+        mediaId: track.mediaId,
+        url: `/api/silent-disco/media/${encodeURIComponent(track.mediaId)}`,
+        mimeType: track.mimeType,
+        clipStartMs: track.clipStartMs,
+        durationMs: MUSIC_CLIP_MS,
+      },
+      startAt,
+      deadline: state.deadline,
+    },
+  ];
+};
+
+const resolveRound = (state: MusicState, now: number): MusicStep[] => {
+  const current = state.current!;
+  const pointsByUser: Record<string, number> = {};
+  for (const [userId, parts] of Object.entries(current.found)) {
+    const total = (parts.title ?? 0) + (parts.artist ?? 0);
+    if (total > 0) pointsByUser[userId] = total;
+  }
+  state.phase = "REVEAL";
+  state.deadline = now + MUSIC_REVEAL_MS;
+  return [
+    {
+      kind: "RESOLVED",
+      round: current.round,
+      title: current.track.title,
+      artist: current.track.artist,
+      pointsByUser,
+    },
+  ];
+};
+
+export const startMusic = (state: MusicState, now: number): MusicStep[] => showClip(state, 0, now);
+
+export const submitMusicGuess = (
+  state: MusicState,
+  userId: string,
+  round: number,
+  guess: string,
+  now: number
+): MusicResult => {
+  const current = state.current;
+  if (state.phase !== "PLAYING" || !current) return { ok: false, error: "music_not_playing" };
+  if (current.round !== round) return { ok: false, error: "music_round_mismatch" };
+  if (!state.userIds.includes(userId)) return { ok: false, error: "music_player_missing" };
+  if (now < current.startAt) return { ok: false, error: "music_clip_not_started" };
+  const used = current.guesses.filter((g) => g.userId === userId).length;
+  if (used >= MUSIC_MAX_GUESSES) return { ok: false, error: "music_no_guesses_left" };
+
+  const found = current.found[userId] ?? {};
+  const matched: MusicPart[] = [];
+  let points = 0;
+  const elapsed = now - current.startAt;
+  for (const part of ["title", "artist"] as MusicPart[]) {
+    if (found[part] !== undefined) continue;
+    if (!isFuzzyMusicMatch(guess, current.track[part])) continue;
+    found[part] = computeMusicPoints(part, elapsed);
+    points += found[part]!;
+    matched.push(part);
+  }
+  current.found[userId] = found;
+  current.guesses.push({ userId, guess: guess.slice(0, 200), ts: now, matched });
+
+  const steps: MusicStep[] = [
+    { kind: "GUESS", round, userId, matched, found: Object.keys(found) as MusicPart[], points },
+  ];
+  const everyoneDone = state.userIds.every((id) => {
+    const parts = current.found[id];
+    return parts?.title !== undefined && parts?.artist !== undefined;
+  });
+  if (everyoneDone) steps.push(...resolveRound(state, now));
+  return { ok: true, steps };
+};
+
+// Called once the active deadline has passed.
+export const expireMusicDeadline = (state: MusicState, now: number): MusicStep[] => {
+  if (state.deadline === null || now < state.deadline || !state.current) return [];
+  if (state.phase === "PLAYING") return resolveRound(state, now);
+  if (state.phase === "REVEAL") return showClip(state, state.current.round, now);
+  return [];
+};
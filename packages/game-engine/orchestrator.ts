@@ -1,39 +1,284 @@
 import { isClientEventAllowed } from "../shared/guards";
-import type { ClientEvent, Match, MatchPlayer, MatchStatus, Stage } from "../shared/events";
+import type {
+  ClientEvent,
+  LedgerEntry,
+  Match,
+  MatchPlayer,
+  MatchStatus,
+  SeatExpiryAction,
+  Stage,
+  StageState,
+} from "../shared/events";
+import {
+  applyBlackjackAction,
+  createBlackjackState,
+  expireBlackjackDeadline,
+  getBlackjackRules,
+  placeBlackjackBet,
+  setBlackjackSitOut,
+  startBlackjackRound,
+  type BlackjackState,
+  type BlackjackStep,
+} from "./blackjack";
+import {
+  castChickenVote,
+  CHICKEN_START_STACK,
+  createChickenRunState,
+  expireChickenDeadline,
+  finishChickenDare,
+  pickChickenDare,
+  placeChickenBet,
+  startChickenRun,
+  type ChickenRunState,
+  type ChickenStep,
+} from "./chickenRun";
+import {
+  createHoldemState,
+  expireHoldemDeadline,
+  startHoldem,
+  submitHoldemAction,
+  type HoldemState,
+  type HoldemStep,
+} from "./holdem";
+import {
+  closeDiceBetting,
+  createDiceState,
+  isDiceSettled,
+  placeDiceBet,
+  rollSecondDie,
+  type DiceState,
+} from "./dice";
+import {
+  createMusicState,
+  expireMusicDeadline,
+  startMusic,
+  submitMusicGuess,
+  type MusicState,
+  type MusicStep,
+  type MusicTrack,
+} from "./music";
+import { computeMatchResults } from "./results";
+import { createFairSeed, type FairSeed } from "./fairness";
+import { createSeededRng } from "./rng";
+import { getStagePlan, needsStartStack, PLAN_START_STACK } from "./stagePlan";
+import {
+  closeRouletteBetting,
+  createRouletteState,
+  hasRouletteBets,
+  isRouletteSettled,
+  placeRouletteBet,
+  skipRoulette,
+  spinRoulette,
+  type RouletteState,
+} from "./roulette";
+import {
+  createTriviaState,
+  expireTriviaDeadline,
+  pickTriviaCategory,
+  startTrivia,
+  submitTriviaAnswer,
+  type TriviaPool,
+  type TriviaState,
+  type TriviaStep,
+} from "./trivia";
+import {
+  createYatzyState,
+  importYatzyScores,
+  submitYatzyScore,
+  YATZY_STACK_PER_POINT,
+  type YatzyState,
+  type YatzyStep,
+} from "./yatzy";
+
+// Seats at a table unless the host picked fewer (`match.maxPlayers`).
+export const MAX_PLAYERS = 6;
 
 export type OrchestratorContext = {
   match: Match;
   players: MatchPlayer[];
   stage: Stage;
   status: MatchStatus;
+  ledger: LedgerEntry[];
+  stageState: StageState | null;
 };
 
+// `to` marks a private event (hole cards etc.) for a single player.
+export type OrchestratorEvent = { type: string; payload: unknown; to?: string };
+
 export type OrchestratorResult =
-  | { ok: true; events: Array<{ type: string; payload: unknown }> }
+  | { ok: true; events: OrchestratorEvent[] }
   | { ok: false; error: string };
 
+export type OrchestratorOptions = {
+  rng?: () => number;
+  now?: () => number;
+  // Secret per-match seed. With it, every input draws from its own seeded RNG
+  // (see beginInput) and the match can be replayed from its event log.
+  seed?: string | null;
+  trivia?: TriviaPool;
+  music?: MusicTrack[];
+  // Share of the current stack a player may put on the dice (README: 25%).
+  diceMaxBetFraction?: number;
+  blackjackDecks?: number;
+  blackjackPenetration?: number;
+  // Yatzy score that triggers the Spux jackpot in RESULTS (README: 321).
+  yatzyHighScore?: number;
+};
+
 export class MatchOrchestrator {
   private ctx: OrchestratorContext;
+  private rng: () => number;
+  private now: () => number;
+  private seed: string | null;
+  private trivia: TriviaPool;
+  private diceMaxBetFraction: number | undefined;
+  private blackjackShoe: { decks?: number; penetration?: number };
+  private music: MusicTrack[];
+  private yatzyHighScore: number | undefined;
 
-  constructor(ctx: OrchestratorContext) {
+  constructor(ctx: OrchestratorContext, options: OrchestratorOptions = {}) {
     this.ctx = ctx;
+    this.rng = options.rng ?? Math.random;
+    this.now = options.now ?? Date.now;
+    this.seed = options.seed ?? null;
+    this.trivia = options.trivia ?? { categories: [], questions: [] };
+    this.diceMaxBetFraction = options.diceMaxBetFraction;
+    this.blackjackShoe = { decks: options.blackjackDecks, penetration: options.blackjackPenetration };
+    this.music = options.music ?? [];
+    this.yatzyHighScore = options.yatzyHighScore;
   }
 
   getContext(): OrchestratorContext {
     return this.ctx;
   }
 
+  // Called before every input (client event, deadline, match start) with the
+  // seq and server time it was persisted under. Stage code only sees this ts,
+  // and the RNG is seeded with `${seed}:${seq}`, so a replay of match_events
+  // deals the same cards, spins and dice.
+  beginInput(seq: number, ts: number): void {
+    this.now = () => ts;
+    if (this.seed !== null) this.rng = createSeededRng(`${this.seed}:${seq}`);
+  }
+
+  getMaxPlayers(): number {
+    return Math.min(MAX_PLAYERS, this.ctx.match.maxPlayers ?? MAX_PLAYERS);
+  }
+
+  // Why `userId` cannot take a new seat, or null if they can.
+  getJoinError(userId: string): string | null {
+    if (this.isPlayerInMatch(userId)) return "already_in_match";
+    if (this.ctx.status !== "CREATED") return "match_already_started";
+    if (this.ctx.players.length >= this.getMaxPlayers()) return "match_full";
+    return null;
+  }
+
+  // Lobby seats go in join order, up to getMaxPlayers(). False if nobody was
+  // added.
+  addPlayer(userId: string, isBot = false): boolean {
+    if (this.isPlayerInMatch(userId) || this.ctx.players.length >= this.getMaxPlayers()) return false;
+    this.ctx.players.push({
+      matchId: this.ctx.match.id,
+      userId,
+      seat: this.ctx.players.length + 1,
+      stack: 0,
+      isConnected: true,
+      isBot,
+    });
+    return true;
+  }
+
+  // Leaving the lobby gives the seat up; the seats after it move down.
+  removePlayer(userId: string): boolean {
+    if (this.ctx.status !== "CREATED" || !this.isPlayerInMatch(userId)) return false;
+    this.ctx.players.splice(this.ctx.players.findIndex((p) => p.userId === userId), 1);
+    this.ctx.players.forEach((p, index) => {
+      p.seat = index + 1;
+    });
+    return true;
+  }
+
+  markDisconnected(userId: string): void {
+    const player = this.ctx.players.find((p) => p.userId === userId);
+    if (player) player.isConnected = false;
+  }
+
+  // Back within the reconnect window, or later: either way the player takes
+  // the seat back from the bot. A forfeit stands.
+  markReconnected(userId: string): void {
+    const player = this.ctx.players.find((p) => p.userId === userId);
+    if (!player) return;
+    player.isConnected = true;
+    delete player.botControlled;
+  }
+
+  // The reconnect window ran out (or the player quit mid-match). A bot plays
+  // the seat from here so no stage waits on them. A FORFEIT seat is written
+  // off when the match ends; stages like HOLDEM keep their own stacks, so it
+  // cannot be taken off the table earlier.
+  expireSeat(userId: string, action: SeatExpiryAction): OrchestratorResult {
+    const player = this.ctx.players.find((p) => p.userId === userId);
+    if (!player) return { ok: false, error: "not_in_match" };
+    player.botControlled = true;
+    if (action === "FORFEIT") player.forfeited = true;
+    return { ok: true, events: [] };
+  }
+
+  // Everyone is ready: the match runs and the first stage after LOBBY starts.
+  // A plan that bets before anyone has a stack hands one out first.
+  startMatch(): OrchestratorResult {
+    if (this.ctx.status !== "CREATED") {
+      return { ok: false, error: "match_already_started" };
+    }
+    this.setStatus("RUNNING");
+    const plan = getStagePlan(this.ctx.match);
+    const events: OrchestratorEvent[] = [];
+    if (needsStartStack(plan)) {
+      const ts = this.now();
+      for (const p of this.ctx.players) {
+        events.push(
+          ...this.applyLedgerEntry({
+            matchId: this.ctx.match.id,
+            userId: p.userId,
+            stage: "LOBBY",
+            delta: PLAN_START_STACK,
+            reason: "start_stack",
+            ts,
+          })
+        );
+      }
+    }
+    const started = this.startStage(plan[1]);
+    return started.ok ? { ok: true, events: [...events, ...started.events] } : started;
+  }
+
+  // Only a match that has not started can be called off.
+  cancelMatch(): OrchestratorResult {
+    if (this.ctx.status !== "CREATED") {
+      return { ok: false, error: "match_already_started" };
+    }
+    this.setStatus("CANCELLED");
+    return { ok: true, events: [] };
+  }
+
   // Entry point for all client events
   handleClientEvent(event: ClientEvent, userId: string): OrchestratorResult {
     if (!this.isPlayerInMatch(userId)) {
       return { ok: false, error: "not_in_match" };
     }
 
-    if (!isClientEventAllowed({ event, stage: this.ctx.stage, status: this.ctx.status })) {
+    if (
+      !isClientEventAllowed({
+        event,
+        stage: this.ctx.stage,
+        status: this.ctx.status,
+        stagePlan: getStagePlan(this.ctx.match),
+      })
+    ) {
       return { ok: false, error: "event_not_allowed" };
     }
 
-    return this.routeEvent(event);
+    return this.routeEvent(event, userId);
   }
 
   // Server-side stage transitions
@@ -41,13 +286,14 @@ export class MatchOrchestrator {
     if (!this.canTransitionTo(nextStage)) {
       return { ok: false, error: "invalid_stage_transition" };
     }
+    const ts = this.now();
     this.ctx.stage = nextStage;
-    return {
-      ok: true,
-      events: [
-        { type: "STAGE_STARTED", payload: { matchId: this.ctx.match.id, stage: nextStage, ts: Date.now() } },
-      ],
-    };
+    this.ctx.stageState = { matchId: this.ctx.match.id, stage: nextStage, stateJson: null, startedAt: ts };
+    const events: OrchestratorEvent[] = [
+      { type: "STAGE_STARTED", payload: { matchId: this.ctx.match.id, stage: nextStage, ts } },
+    ];
+    events.push(...this.enterStage(nextStage));
+    return { ok: true, events };
   }
 
   completeStage(stage: Stage): OrchestratorResult {
@@ -57,66 +303,839 @@ export class MatchOrchestrator {
     return {
       ok: true,
       events: [
-        { type: "STAGE_COMPLETED", payload: { matchId: this.ctx.match.id, stage, ts: Date.now() } },
+        { type: "STAGE_COMPLETED", payload: { matchId: this.ctx.match.id, stage, ts: this.now() } },
       ],
     };
   }
 
-  private routeEvent(event: ClientEvent): OrchestratorResult {
+  // Completes the active stage and starts the one after it.
+  advanceStage(): OrchestratorResult {
+    const current = this.ctx.stage;
+    const plan = getStagePlan(this.ctx.match);
+    const next = plan[plan.indexOf(current) + 1];
+    if (!next) {
+      return { ok: false, error: "no_next_stage" };
+    }
+    const completed = this.completeStage(current);
+    if (!completed.ok) return completed;
+    const started = this.startStage(next);
+    if (!started.ok) return started;
+    return { ok: true, events: [...completed.events, ...started.events] };
+  }
+
+  // Totals fetched from the Yatzy API, by userId. The server records them in
+  // the event log first so a replay does not need the API.
+  importYatzyScores(yatzyMatchId: string, scores: Record<string, number>): OrchestratorResult {
+    const state = this.getStageData<YatzyState>("YATZY");
+    if (!state) return { ok: false, error: "stage_mismatch" };
+    const res = importYatzyScores(state, scores);
+    if (!res.ok) return res;
+    return { ok: true, events: this.yatzyEvents(res.steps, { yatzyMatchId }) };
+  }
+
+  // Question pool for the TRIVIA board. The server prepares it per match (bank +
+  // questions generated from the players' charts) before the stage starts.
+  setTriviaPool(pool: TriviaPool): void {
+    this.trivia = pool;
+  }
+
+  // Host-curated clips for the MUSIC stage, picked from uploaded Silent Disco media.
+  setMusicPlaylist(tracks: MusicTrack[]): void {
+    this.music = tracks;
+  }
+
+  // Earliest pending stage deadline (answer timers etc.), or null if the stage
+  // is only waiting on players. The server arms a timer for it.
+  getNextDeadline(): number | null {
+    if (this.ctx.status !== "RUNNING") return null;
+    switch (this.ctx.stage) {
+      case "BLACKJACK":
+        return this.getStageData<BlackjackState>("BLACKJACK")?.deadline ?? null;
+      case "ROULETTE":
+        return this.getStageData<RouletteState>("ROULETTE")?.deadline ?? null;
+      case "TRIVIA":
+        return this.getStageData<TriviaState>("TRIVIA")?.deadline ?? null;
+      case "DICE":
+        return this.getStageData<DiceState>("DICE")?.deadline ?? null;
+      case "MUSIC":
+        return this.getStageData<MusicState>("MUSIC")?.deadline ?? null;
+      case "HOLDEM":
+        return this.getStageData<HoldemState>("HOLDEM")?.deadline ?? null;
+      case "CHICKEN_RUN":
+        return this.getStageData<ChickenRunState>("CHICKEN_RUN")?.deadline ?? null;
+      default:
+        return null;
+    }
+  }
+
+  handleDeadline(): OrchestratorResult {
+    const now = this.now();
+    switch (this.ctx.stage) {
+      case "BLACKJACK": {
+        const state = this.getStageData<BlackjackState>("BLACKJACK");
+        if (!state) return { ok: true, events: [] };
+        return {
+          ok: true,
+          events: this.blackjackEvents(expireBlackjackDeadline(state, this.ctx.players, this.blackjackSeed, now)),
+        };
+      }
+      case "ROULETTE": {
+        const state = this.getStageData<RouletteState>("ROULETTE");
+        if (!state?.deadline || now < state.deadline) return { ok: true, events: [] };
+        closeRouletteBetting(state);
+        return { ok: true, events: this.resolveRoulette(state) };
+      }
+      case "TRIVIA": {
+        const state = this.getStageData<TriviaState>("TRIVIA");
+        if (!state) return { ok: true, events: [] };
+        return { ok: true, events: this.triviaEvents(expireTriviaDeadline(state, now)) };
+      }
+      case "DICE": {
+        const state = this.getStageData<DiceState>("DICE");
+        if (!state || state.deadline === null || now < state.deadline) return { ok: true, events: [] };
+        closeDiceBetting(state);
+        return { ok: true, events: this.resolveDice(state) };
+      }
+      case "MUSIC": {
+        const state = this.getStageData<MusicState>("MUSIC");
+        if (!state) return { ok: true, events: [] };
+        return { ok: true, events: this.musicEvents(expireMusicDeadline(state, now)) };
+      }
+      case "HOLDEM": {
+        const state = this.getStageData<HoldemState>("HOLDEM");
+        if (!state) return { ok: true, events: [] };
+        return { ok: true, events: this.holdemEvents(expireHoldemDeadline(state, this.rng, now)) };
+      }
+      case "CHICKEN_RUN": {
+        const state = this.getStageData<ChickenRunState>("CHICKEN_RUN");
+        if (!state) return { ok: true, events: [] };
+        return { ok: true, events: this.chickenEvents(expireChickenDeadline(state, now)) };
+      }
+      default:
+        return { ok: true, events: [] };
+    }
+  }
+
+  // Applies a ledger entry to the owning player's stack. Returns the events to
+  // broadcast, or an empty list if the player is unknown.
+  applyLedgerEntry(entry: LedgerEntry): OrchestratorEvent[] {
+    const player = this.ctx.players.find((p) => p.userId === entry.userId);
+    if (!player) return [];
+    player.stack += entry.delta;
+    this.ctx.ledger.push(entry);
+    return [
+      { type: "LEDGER_ENTRY_APPLIED", payload: { entry } },
+      { type: "STACK_UPDATED", payload: { matchId: entry.matchId, userId: entry.userId, stack: player.stack } },
+    ];
+  }
+
+  private enterStage(stage: Stage): OrchestratorEvent[] {
+    switch (stage) {
+      case "YATZY":
+        return this.enterYatzy();
+      case "BLACKJACK":
+        return this.enterBlackjack();
+      case "ROULETTE":
+        return this.enterRoulette();
+      case "TRIVIA":
+        return this.enterTrivia();
+      case "DICE":
+        return this.enterDice();
+      case "MUSIC":
+        return this.enterMusic();
+      case "HOLDEM":
+        return this.enterHoldem();
+      case "CHICKEN_RUN":
+        return this.enterChickenRun();
+      case "RESULTS":
+        return this.enterResults();
+      default:
+        return [];
+    }
+  }
+
+  private routeEvent(event: ClientEvent, userId: string): OrchestratorResult {
     switch (event.type) {
       case "MATCH_CREATE":
       case "MATCH_JOIN":
+      case "MATCH_INVITE_CREATE":
+      case "MATCH_CANCEL":
       case "MATCH_LEAVE":
       case "READY_CHECK_CONFIRM":
+      case "MUSIC_PLAYLIST_SET":
         return { ok: true, events: [] };
 
       case "YATZY_SUBMIT":
-        return { ok: true, events: [] };
+        return this.handleYatzy(event, userId);
 
       case "BJ_BET_PLACED":
       case "BJ_HAND_ACTION":
-        return { ok: true, events: [] };
+      case "BJ_SIT_OUT":
+        return this.handleBlackjack(event, userId);
 
       case "ROULETTE_BET_PLACED":
-        return { ok: true, events: [] };
+      case "ROULETTE_SKIP":
+        return this.handleRoulette(event, userId);
 
       case "TRIVIA_CATEGORY_PICKED":
       case "TRIVIA_ANSWER_SUBMITTED":
-        return { ok: true, events: [] };
+        return this.handleTrivia(event, userId);
 
       case "DICE_BET_PLACED":
-        return { ok: true, events: [] };
+        return this.handleDice(event, userId);
 
       case "MUSIC_GUESS_SUBMITTED":
-        return { ok: true, events: [] };
+        return this.handleMusic(event, userId);
 
       case "HOLDEM_ACTION_SUBMITTED":
-        return { ok: true, events: [] };
+        return this.handleHoldem(event, userId);
+
+      case "CHICKEN_DARE_PICKED":
+      case "CHICKEN_BET_PLACED":
+      case "CHICKEN_DARE_FINISHED":
+      case "CHICKEN_VOTE_CAST":
+        return this.handleChicken(event, userId);
 
       default:
         return { ok: false, error: "unhandled_event" };
     }
   }
 
-  private canTransitionTo(nextStage: Stage): boolean {
-    const order: Stage[] = [
-      "LOBBY",
-      "YATZY",
-      "BLACKJACK",
-      "ROULETTE",
-      "TRIVIA",
-      "DICE",
-      "MUSIC",
-      "HOLDEM",
-      "RESULTS",
+  private getStageData<T>(stage: Stage): T | null {
+    const stageState = this.ctx.stageState;
+    if (!stageState || stageState.stage !== stage || !stageState.stateJson) return null;
+    return stageState.stateJson as T;
+  }
+
+  private setStatus(status: MatchStatus): void {
+    this.ctx.status = status;
+    this.ctx.match.status = status;
+  }
+
+  private enterYatzy(): OrchestratorEvent[] {
+    this.ctx.stageState!.stateJson = createYatzyState(this.ctx.players);
+    return [];
+  }
+
+  private handleYatzy(event: Extract<ClientEvent, { type: "YATZY_SUBMIT" }>, userId: string): OrchestratorResult {
+    const state = this.getStageData<YatzyState>("YATZY");
+    if (!state) return { ok: false, error: "yatzy_not_open" };
+    const res = submitYatzyScore(state, userId, event.score);
+    if (!res.ok) return res;
+    return { ok: true, events: this.yatzyEvents(res.steps) };
+  }
+
+  // The score adds score * 10 to the stack, on top of anything won before.
+  private yatzyEvents(steps: YatzyStep[], imported?: { yatzyMatchId: string }): OrchestratorEvent[] {
+    const matchId = this.ctx.match.id;
+    const events: OrchestratorEvent[] = [];
+    for (const step of steps) {
+      const ts = this.now();
+      for (const p of this.ctx.players) {
+        events.push(
+          ...this.applyLedgerEntry({
+            matchId,
+            userId: p.userId,
+            stage: "YATZY",
+            delta: (step.scores[p.userId] ?? 0) * YATZY_STACK_PER_POINT,
+            reason: imported ? `yatzy_import:${imported.yatzyMatchId}` : "yatzy_submit",
+            ts,
+          })
+        );
+      }
+      if (imported) {
+        events.push({ type: "YATZY_IMPORTED", payload: { matchId, yatzyMatchId: imported.yatzyMatchId } });
+      }
+      const advanced = this.advanceStage();
+      if (advanced.ok) events.push(...advanced.events);
+    }
+    return events;
+  }
+
+  private enterBlackjack(): OrchestratorEvent[] {
+    const state = createBlackjackState({ ...this.blackjackShoe, rules: getBlackjackRules(this.ctx.match) });
+    this.ctx.stageState!.stateJson = state;
+    return this.blackjackEvents(startBlackjackRound(state, this.ctx.players, this.blackjackSeed, this.now()));
+  }
+
+  private handleBlackjack(
+    event: Extract<ClientEvent, { type: "BJ_BET_PLACED" | "BJ_HAND_ACTION" | "BJ_SIT_OUT" }>,
+    userId: string
+  ): OrchestratorResult {
+    const state = this.getStageData<BlackjackState>("BLACKJACK");
+    if (!state) return { ok: false, error: "bj_round_mismatch" };
+    const stack = this.ctx.players.find((p) => p.userId === userId)?.stack ?? 0;
+    const now = this.now();
+    const { players } = this.ctx;
+    const res =
+      event.type === "BJ_BET_PLACED"
+        ? placeBlackjackBet(state, players, userId, event, stack, this.blackjackSeed, now)
+        : event.type === "BJ_HAND_ACTION"
+          ? applyBlackjackAction(state, players, userId, event, stack, this.blackjackSeed, now)
+          : setBlackjackSitOut(state, players, userId, event.sittingOut, this.blackjackSeed, now);
+    if (!res.ok) return res;
+    return { ok: true, events: this.blackjackEvents(res.steps) };
+  }
+
+  private blackjackSeed = (shoe: number): FairSeed => createFairSeed(this.seed, `blackjack:shoe:${shoe}`);
+
+  private blackjackEvents(steps: BlackjackStep[]): OrchestratorEvent[] {
+    const matchId = this.ctx.match.id;
+    const events: OrchestratorEvent[] = [];
+    for (const step of steps) {
+      const ts = this.now();
+      switch (step.kind) {
+        case "ROUND_STARTED":
+          events.push({ type: "BJ_ROUND_STARTED", payload: { matchId, round: step.round, seedHash: step.seedHash, ts } });
+          break;
+        case "INSURANCE_OFFERED":
+          events.push({ type: "BJ_INSURANCE_OFFERED", payload: { matchId, round: step.round, ts } });
+          break;
+        case "TIMER":
+          events.push({
+            type: "BJ_TIMER",
+            payload: { matchId, round: step.round, phase: step.phase, deadlines: step.deadlines, ts },
+          });
+          break;
+        case "SIT_OUT": {
+          const { kind, ...data } = step;
+          events.push({ type: "BJ_SIT_OUT", payload: { matchId, ...data, ts } });
+          break;
+        }
+        case "SHOE_STATE":
+          events.push({ type: "BJ_SHOE_STATE", payload: { matchId, round: step.round, ...step.state, ts } });
+          break;
+        case "HAND_STATE": {
+          const { kind, ...data } = step;
+          events.push({ type: "BJ_HAND_STATE", payload: { matchId, ...data } });
+          break;
+        }
+        case "SETTLED":
+          events.push(
+            ...this.applyLedgerEntry({
+              matchId,
+              userId: step.userId,
+              stage: "BLACKJACK",
+              delta: step.delta,
+              reason: `blackjack_round_${step.round}`,
+              ts,
+            })
+          );
+          break;
+        case "ROUND_COMPLETED":
+          events.push({ type: "BJ_ROUND_COMPLETED", payload: { matchId, round: step.round, ts } });
+          break;
+        case "DONE": {
+          const advanced = this.advanceStage();
+          if (advanced.ok) events.push(...advanced.events);
+          break;
+        }
+      }
+    }
+    return events;
+  }
+
+  private enterRoulette(): OrchestratorEvent[] {
+    const state = createRouletteState(
+      this.ctx.players,
+      this.ctx.ledger,
+      createFairSeed(this.seed, "roulette"),
+      this.now()
+    );
+    this.ctx.stageState!.stateJson = state;
+    const events: OrchestratorEvent[] = [
+      {
+        type: "ROULETTE_OPEN",
+        payload: {
+          matchId: this.ctx.match.id,
+          limits: state.limits,
+          deadline: state.deadline ?? null,
+          seedHash: state.fair.seedHash,
+          ts: this.now(),
+        },
+      },
     ];
-    const currentIndex = order.indexOf(this.ctx.stage);
-    const nextIndex = order.indexOf(nextStage);
-    return nextIndex === currentIndex + 1;
+    if (isRouletteSettled(state)) {
+      events.push(...this.resolveRoulette(state));
+    }
+    return events;
+  }
+
+  private handleRoulette(
+    event: Extract<ClientEvent, { type: "ROULETTE_BET_PLACED" | "ROULETTE_SKIP" }>,
+    userId: string
+  ): OrchestratorResult {
+    const state = this.getStageData<RouletteState>("ROULETTE");
+    if (!state) return { ok: false, error: "roulette_not_open" };
+    const placed =
+      event.type === "ROULETTE_BET_PLACED"
+        ? placeRouletteBet(state, userId, event.color, event.bet)
+        : skipRoulette(state, userId);
+    if (!placed.ok) return placed;
+    if (!isRouletteSettled(state)) return { ok: true, events: [] };
+    return { ok: true, events: this.resolveRoulette(state) };
+  }
+
+  private resolveRoulette(state: RouletteState): OrchestratorEvent[] {
+    const matchId = this.ctx.match.id;
+    const events: OrchestratorEvent[] = [];
+    if (hasRouletteBets(state)) {
+      const outcomes = spinRoulette(state);
+      const spin = state.spin!;
+      const ts = this.now();
+      const { seed, seedHash } = state.fair;
+      events.push({ type: "ROULETTE_SPUN", payload: { matchId, pocket: spin.pocket, color: spin.color, seed, seedHash, ts } });
+      for (const outcome of outcomes) {
+        events.push(
+          ...this.applyLedgerEntry({
+            matchId,
+            userId: outcome.userId,
+            stage: "ROULETTE",
+            delta: outcome.delta,
+            reason: `roulette_${outcome.color.toLowerCase()}_${spin.pocket}`,
+            ts,
+          })
+        );
+      }
+      events.push({
+        type: "ROULETTE_RESOLVED",
+        payload: { matchId, pocket: spin.pocket, color: spin.color, results: outcomes, seed, seedHash, ts },
+      });
+    }
+    const advanced = this.advanceStage();
+    if (advanced.ok) events.push(...advanced.events);
+    return events;
+  }
+
+  private enterTrivia(): OrchestratorEvent[] {
+    const state = createTriviaState({ players: this.ctx.players, pool: this.trivia, rng: this.rng });
+    this.ctx.stageState!.stateJson = state;
+    return this.triviaEvents(startTrivia(state, this.now()));
+  }
+
+  private handleTrivia(
+    event: Extract<ClientEvent, { type: "TRIVIA_CATEGORY_PICKED" | "TRIVIA_ANSWER_SUBMITTED" }>,
+    userId: string
+  ): OrchestratorResult {
+    const state = this.getStageData<TriviaState>("TRIVIA");
+    if (!state) return { ok: false, error: "trivia_not_open" };
+    // Server receive time is the only clock that counts for the time bonus.
+    const now = this.now();
+    const res =
+      event.type === "TRIVIA_CATEGORY_PICKED"
+        ? pickTriviaCategory(state, userId, event.categoryId, now)
+        : submitTriviaAnswer(state, userId, event.questionId, event.answerId, now);
+    if (!res.ok) return res;
+    return { ok: true, events: this.triviaEvents(res.steps) };
+  }
+
+  private triviaEvents(steps: TriviaStep[]): OrchestratorEvent[] {
+    const matchId = this.ctx.match.id;
+    const events: OrchestratorEvent[] = [];
+    for (const step of steps) {
+      const ts = this.now();
+      const { kind, ...data } = step;
+      switch (kind) {
+        case "OPTIONS":
+          events.push({ type: "TRIVIA_CATEGORY_OPTIONS", payload: { matchId, ...data, ts } });
+          break;
+        case "SHOWN":
+          events.push({ type: "TRIVIA_QUESTION_SHOWN", payload: { matchId, ...data, ts } });
+          break;
+        case "PASSED":
+          events.push({ type: "TRIVIA_TURN_PASSED", payload: { matchId, ...data, ts } });
+          break;
+        case "RESOLVED": {
+          const resolved = step as Extract<TriviaStep, { kind: "RESOLVED" }>;
+          for (const [userId, points] of Object.entries(resolved.pointsByUser)) {
+            events.push(
+              ...this.applyLedgerEntry({
+                matchId,
+                userId,
+                stage: "TRIVIA",
+                delta: points,
+                reason: `trivia_${resolved.questionId}`,
+                ts,
+              })
+            );
+          }
+          events.push({ type: "TRIVIA_QUESTION_RESOLVED", payload: { matchId, ...data, ts } });
+          break;
+        }
+        case "DONE": {
+          const advanced = this.advanceStage();
+          if (advanced.ok) events.push(...advanced.events);
+          break;
+        }
+      }
+    }
+    return events;
+  }
+
+  private enterDice(): OrchestratorEvent[] {
+    const state = createDiceState({
+      players: this.ctx.players,
+      fair: createFairSeed(this.seed, "dice"),
+      now: this.now(),
+      maxBetFraction: this.diceMaxBetFraction,
+    });
+    this.ctx.stageState!.stateJson = state;
+    const events: OrchestratorEvent[] = [
+      {
+        type: "DICE_FIRST_ROLL",
+        payload: {
+          matchId: this.ctx.match.id,
+          value: state.firstDie,
+          maxBets: state.maxBets,
+          deadline: state.deadline,
+          seedHash: state.fair.seedHash,
+          ts: this.now(),
+        },
+      },
+    ];
+    if (isDiceSettled(state)) {
+      events.push(...this.resolveDice(state));
+    }
+    return events;
+  }
+
+  private handleDice(event: Extract<ClientEvent, { type: "DICE_BET_PLACED" }>, userId: string): OrchestratorResult {
+    const state = this.getStageData<DiceState>("DICE");
+    if (!state) return { ok: false, error: "dice_not_open" };
+    const placed = placeDiceBet(state, userId, event.choice, event.bet);
+    if (!placed.ok) return placed;
+    if (!isDiceSettled(state)) return { ok: true, events: [] };
+    return { ok: true, events: this.resolveDice(state) };
+  }
+
+  private resolveDice(state: DiceState): OrchestratorEvent[] {
+    const matchId = this.ctx.match.id;
+    const events: OrchestratorEvent[] = [];
+    if (Object.values(state.bets).some((bet) => bet !== null)) {
+      const outcomes = rollSecondDie(state);
+      const ts = this.now();
+      for (const outcome of outcomes) {
+        // A push moves nothing, so there is nothing to book.
+        if (outcome.delta === 0) continue;
+        events.push(
+          ...this.applyLedgerEntry({
+            matchId,
+            userId: outcome.userId,
+            stage: "DICE",
+            delta: outcome.delta,
+            reason: `dice_${outcome.choice.toLowerCase()}_${state.firstDie}_${state.secondDie}`,
+            ts,
+          })
+        );
+      }
+      events.push({
+        type: "DICE_ROLL_RESOLVED",
+        payload: {
+          matchId,
+          firstDie: state.firstDie,
+          secondDie: state.secondDie,
+          results: outcomes,
+          seed: state.fair.seed,
+          seedHash: state.fair.seedHash,
+          ts,
+        },
+      });
+    } else {
+      state.deadline = null;
+    }
+    const advanced = this.advanceStage();
+    if (advanced.ok) events.push(...advanced.events);
+    return events;
+  }
+
+  private enterMusic(): OrchestratorEvent[] {
+    const state = createMusicState({ players: this.ctx.players, tracks: this.music, rng: this.rng });
+    this.ctx.stageState!.stateJson = state;
+    return this.musicEvents(startMusic(state, this.now()));
+  }
+
+  private handleMusic(event: Extract<ClientEvent, { type: "MUSIC_GUESS_SUBMITTED" }>, userId: string): OrchestratorResult {
+    const state = this.getStageData<MusicState>("MUSIC");
+    if (!state) return { ok: false, error: "music_not_open" };
+    // Speed is measured against the server clock only.
+    const res = submitMusicGuess(state, userId, event.round, event.guess, this.now());
+    if (!res.ok) return res;
+    return { ok: true, events: this.musicEvents(res.steps) };
+  }
+
+  private musicEvents(steps: MusicStep[]): OrchestratorEvent[] {
+    const matchId = this.ctx.match.id;
+    const events: OrchestratorEvent[] = [];
+    for (const step of steps) {
+      const ts = this.now();
+      const { kind, ...data } = step;
+      switch (kind) {
+        case "CLIP":
+          events.push({ type: "MUSIC_CLIP_SHOWN", payload: { matchId, ...data, ts } });
+          break;
+        case "GUESS": {
+          const guess = step as Extract<MusicStep, { kind: "GUESS" }>;
+          events.push({ type: "MUSIC_GUESS_RESULT", payload: { matchId, ...data, ts }, to: guess.userId });
+          break;
+        }
+        case "RESOLVED": {
+          const resolved = step as Extract<MusicStep, { kind: "RESOLVED" }>;
+          for (const [userId, points] of Object.entries(resolved.pointsByUser)) {
+            events.push(
+              ...this.applyLedgerEntry({
+                matchId,
+                userId,
+                stage: "MUSIC",
+                delta: points,
+                reason: `music_round_${resolved.round}`,
+                ts,
+              })
+            );
+          }
+          events.push({ type: "MUSIC_ROUND_RESOLVED", payload: { matchId, ...data, ts } });
+          break;
+        }
+        case "DONE": {
+          const advanced = this.advanceStage();
+          if (advanced.ok) events.push(...advanced.events);
+          break;
+        }
+      }
+    }
+    return events;
+  }
+
+  private enterHoldem(): OrchestratorEvent[] {
+    const state = createHoldemState(this.ctx.players);
+    this.ctx.stageState!.stateJson = state;
+    return this.holdemEvents(startHoldem(state, this.rng, this.now()));
+  }
+
+  private handleHoldem(
+    event: Extract<ClientEvent, { type: "HOLDEM_ACTION_SUBMITTED" }>,
+    userId: string
+  ): OrchestratorResult {
+    const state = this.getStageData<HoldemState>("HOLDEM");
+    if (!state) return { ok: false, error: "holdem_not_open" };
+    const res = submitHoldemAction(state, userId, event.action, event.amount, this.now());
+    if (!res.ok) return res;
+    return { ok: true, events: this.holdemEvents(res.steps) };
+  }
+
+  private holdemEvents(steps: HoldemStep[]): OrchestratorEvent[] {
+    const matchId = this.ctx.match.id;
+    const events: OrchestratorEvent[] = [];
+    for (const step of steps) {
+      const ts = this.now();
+      const { kind, ...data } = step;
+      switch (kind) {
+        case "HAND_STARTED":
+          events.push({ type: "HOLDEM_HAND_STARTED", payload: { matchId, ...data, ts } });
+          break;
+        case "HOLE_CARDS": {
+          const hole = step as Extract<HoldemStep, { kind: "HOLE_CARDS" }>;
+          events.push({ type: "HOLDEM_HOLE_CARDS", payload: { matchId, ...data, ts }, to: hole.userId });
+          break;
+        }
+        case "ACTION_REQUIRED":
+          events.push({ type: "HOLDEM_ACTION_REQUIRED", payload: { matchId, ...data, ts } });
+          break;
+        case "ACTION":
+          events.push({ type: "HOLDEM_ACTION_APPLIED", payload: { matchId, ...data, ts } });
+          break;
+        case "STREET":
+          events.push({ type: "HOLDEM_STREET_DEALT", payload: { matchId, ...data, ts } });
+          break;
+        case "HAND_COMPLETED": {
+          const completed = step as Extract<HoldemStep, { kind: "HAND_COMPLETED" }>;
+          for (const [userId, delta] of Object.entries(completed.deltasByUser)) {
+            if (delta === 0) continue;
+            events.push(
+              ...this.applyLedgerEntry({
+                matchId,
+                userId,
+                stage: "HOLDEM",
+                delta,
+                reason: `holdem_hand_${completed.handId}`,
+                ts,
+              })
+            );
+          }
+          events.push({ type: "HOLDEM_HAND_COMPLETED", payload: { matchId, ...data, ts } });
+          break;
+        }
+        case "ORBIT_COMPLETED":
+          events.push({ type: "HOLDEM_ORBIT_COMPLETED", payload: { matchId, ...data, ts } });
+          break;
+        case "DONE": {
+          const advanced = this.advanceStage();
+          if (advanced.ok) events.push(...advanced.events);
+          break;
+        }
+      }
+    }
+    return events;
+  }
+
+  // Everyone starts from the same Spux stack; there is no Yatzy in this mode.
+  private enterChickenRun(): OrchestratorEvent[] {
+    const matchId = this.ctx.match.id;
+    const ts = this.now();
+    const events: OrchestratorEvent[] = [];
+    for (const p of this.ctx.players) {
+      events.push(
+        ...this.applyLedgerEntry({
+          matchId,
+          userId: p.userId,
+          stage: "CHICKEN_RUN",
+          delta: CHICKEN_START_STACK,
+          reason: "chicken_start",
+          ts,
+        })
+      );
+    }
+    const state = createChickenRunState(this.ctx.players);
+    this.ctx.stageState!.stateJson = state;
+    events.push(...this.chickenEvents(startChickenRun(state, ts)));
+    return events;
+  }
+
+  private handleChicken(
+    event: Extract<
+      ClientEvent,
+      { type: "CHICKEN_DARE_PICKED" | "CHICKEN_BET_PLACED" | "CHICKEN_DARE_FINISHED" | "CHICKEN_VOTE_CAST" }
+    >,
+    userId: string
+  ): OrchestratorResult {
+    const state = this.getStageData<ChickenRunState>("CHICKEN_RUN");
+    if (!state) return { ok: false, error: "chicken_not_open" };
+    const now = this.now();
+    let res;
+    switch (event.type) {
+      case "CHICKEN_DARE_PICKED":
+        res = pickChickenDare(state, userId, event.dareId, now);
+        break;
+      case "CHICKEN_BET_PLACED": {
+        const stack = this.ctx.players.find((p) => p.userId === userId)?.stack ?? 0;
+        res = placeChickenBet(state, userId, event.round, event.side, event.amount, stack, now);
+        break;
+      }
+      case "CHICKEN_DARE_FINISHED":
+        res = finishChickenDare(state, userId, event.round, now);
+        break;
+      case "CHICKEN_VOTE_CAST":
+        res = castChickenVote(state, userId, event.round, event.completed, now);
+        break;
+    }
+    if (!res.ok) return res;
+    return { ok: true, events: this.chickenEvents(res.steps) };
+  }
+
+  private chickenEvents(steps: ChickenStep[]): OrchestratorEvent[] {
+    const matchId = this.ctx.match.id;
+    const events: OrchestratorEvent[] = [];
+    for (const step of steps) {
+      const ts = this.now();
+      const { kind, ...data } = step;
+      switch (kind) {
+        case "ROUND_STARTED":
+          events.push({ type: "CHICKEN_ROUND_STARTED", payload: { matchId, ...data, ts } });
+          break;
+        case "DARE_CHOSEN":
+          events.push({ type: "CHICKEN_DARE_CHOSEN", payload: { matchId, ...data, ts } });
+          break;
+        case "BET":
+          events.push({ type: "CHICKEN_BET_ACCEPTED", payload: { matchId, ...data, ts } });
+          break;
+        case "PERFORMING":
+          events.push({ type: "CHICKEN_PERFORMING", payload: { matchId, ...data, ts } });
+          break;
+        case "VOTING":
+          events.push({ type: "CHICKEN_VOTING_OPEN", payload: { matchId, ...data, ts } });
+          break;
+        case "VOTE":
+          // Votes stay secret until the round settles.
+          events.push({ type: "CHICKEN_VOTE_RECORDED", payload: { matchId, ...data, ts } });
+          break;
+        case "SETTLED": {
+          const settled = step as Extract<ChickenStep, { kind: "SETTLED" }>;
+          for (const [userId, delta] of Object.entries(settled.deltasByUser)) {
+            if (delta === 0) continue;
+            events.push(
+              ...this.applyLedgerEntry({
+                matchId,
+                userId,
+                stage: "CHICKEN_RUN",
+                delta,
+                reason: `chicken_round_${settled.round}`,
+                ts,
+              })
+            );
+          }
+          if (settled.bonus > 0) {
+            events.push(
+              ...this.applyLedgerEntry({
+                matchId,
+                userId: settled.performerUserId,
+                stage: "CHICKEN_RUN",
+                delta: settled.bonus,
+                reason: `chicken_dare_${settled.dareId}`,
+                ts,
+              })
+            );
+          }
+          events.push({ type: "CHICKEN_ROUND_SETTLED", payload: { matchId, ...data, ts } });
+          break;
+        }
+        case "DONE": {
+          const advanced = this.advanceStage();
+          if (advanced.ok) events.push(...advanced.events);
+          break;
+        }
+      }
+    }
+    return events;
+  }
+
+  // Final standings from the ledger. The match is COMPLETED from here on; the
+  // server stores the results when it sees MATCH_COMPLETED.
+  private enterResults(): OrchestratorEvent[] {
+    const ts = this.now();
+    const events: OrchestratorEvent[] = [];
+    for (const player of this.ctx.players) {
+      if (!player.forfeited || player.stack === 0) continue;
+      events.push(
+        ...this.applyLedgerEntry({
+          matchId: this.ctx.match.id,
+          userId: player.userId,
+          stage: "RESULTS",
+          delta: -player.stack,
+          reason: "forfeit",
+          ts,
+        })
+      );
+    }
+    this.setStatus("COMPLETED");
+    const results = computeMatchResults({
+      match: this.ctx.match,
+      players: this.ctx.players,
+      ledger: this.ctx.ledger,
+      now: ts,
+      yatzyHighScore: this.yatzyHighScore,
+    });
+    this.ctx.stageState!.stateJson = results;
+    events.push({ type: "MATCH_COMPLETED", payload: { matchId: this.ctx.match.id, results, ts } });
+    return events;
+  }
+
+  private canTransitionTo(nextStage: Stage): boolean {
+    const plan = getStagePlan(this.ctx.match);
+    const currentIndex = plan.indexOf(this.ctx.stage);
+    const nextIndex = plan.indexOf(nextStage);
+    return currentIndex >= 0 && nextIndex === currentIndex + 1;
   }
 
   private isPlayerInMatch(userId: string): boolean {
     return this.ctx.players.some((p) => p.userId === userId);
   }
 }
-
@@ -0,0 +1,133 @@
+export type PokerCard = {
+  rank: string;
+  suit: string;
+};
+
+export type PokerHandCategory =
+  | "HIGH_CARD"
+  | "PAIR"
+  | "TWO_PAIR"
+  | "THREE_OF_A_KIND"
+  | "STRAIGHT"
+  | "FLUSH"
+  | "FULL_HOUSE"
+  | "FOUR_OF_A_KIND"
+  | "STRAIGHT_FLUSH";
+
+export type PokerHandValue = {
+  category: PokerHandCategory;
+  // [category rank, tiebreakers...], compared element by element.
+  score: number[];
+  cards: PokerCard[];
+};
+
+const categories: PokerHandCategory[] = [
+  "HIGH_CARD",
+  "PAIR",
+  "TWO_PAIR",
+  "THREE_OF_A_KIND",
+  "STRAIGHT",
+  "FLUSH",
+  "FULL_HOUSE",
+  "FOUR_OF_A_KIND",
+  "STRAIGHT_FLUSH",
+];
+
+export const pokerRanks = ["2", "3", "4", "5", "6", "7", "8", "9", "10", "J", "Q", "K", "A"] as const;
+export const pokerSuits = ["S", "H", "D", "C"] as const;
+
+export const rankValue = (rank: string): number => pokerRanks.indexOf(rank as (typeof pokerRanks)[number]) + 2;
+
+export const buildPokerDeck = (): PokerCard[] => {
+  const deck: PokerCard[] = [];
+  for (const suit of pokerSuits) {
+    for (const rank of pokerRanks) {
+      deck.push({ rank, suit });
+    }
+  }
+  return deck;
+};
+
+// Highest card of a five-card straight, or 0. The wheel (A-2-3-4-5) counts as 5.
+const straightHigh = (values: number[]): number => {
+  const unique = Array.from(new Set(values)).sort((a, b) => b - a);
+  if (unique.length !== 5) return 0;
+  if (unique[0] - unique[4] === 4) return unique[0];
+  if (unique.join(",") === "14,5,4,3,2") return 5;
+  return 0;
+};
+
+const evaluateFive = (cards: PokerCard[]): PokerHandValue => {
+  const values = cards.map((c) => rankValue(c.rank)).sort((a, b) => b - a);
+  const flush = cards.every((c) => c.suit === cards[0].suit);
+  const straight = straightHigh(values);
+  const counts = new Map<number, number>();
+  for (const v of values) counts.set(v, (counts.get(v) || 0) + 1);
+  // Groups by size first, then by rank: [[3, K], [2, 4]] for kings full of fours.
+  const groups = Array.from(counts.entries())
+    .map(([value, count]) => [count, value] as const)
+    .sort((a, b) => b[0] - a[0] || b[1] - a[1]);
+  const shape = groups.map((g) => g[0]).join("");
+  const byGroup = groups.map((g) => g[1]);
+
+  let category: PokerHandCategory;
+  let tiebreak: number[];
+  if (straight && flush) {
+    category = "STRAIGHT_FLUSH";
+    tiebreak = [straight];
+  } else if (shape === "41") {
+    category = "FOUR_OF_A_KIND";
+    tiebreak = byGroup;
+  } else if (shape === "32") {
+    category = "FULL_HOUSE";
+    tiebreak = byGroup;
+  } else if (flush) {
+    category = "FLUSH";
+    tiebreak = values;
+  } else if (straight) {
+    category = "STRAIGHT";
+    tiebreak = [straight];
+  } else if (shape === "311") {
+    category = "THREE_OF_A_KIND";
+    tiebreak = byGroup;
+  } else if (shape === "221") {
+    category = "TWO_PAIR";
+    tiebreak = byGroup;
+  } else if (shape === "2111") {
+    category = "PAIR";
+    tiebreak = byGroup;
+  } else {
+    category = "HIGH_CARD";
+    tiebreak = values;
+  }
+  return { category, score: [categories.indexOf(category), ...tiebreak], cards };
+};
+
+export const comparePokerHands = (a: PokerHandValue, b: PokerHandValue): number => {
+  const len = Math.max(a.score.length, b.score.length);
+  for (let i = 0; i < len; i += 1) {
+    const diff = (a.score[i] ?? 0) - (b.score[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+// Best five-card hand out of five to seven cards (hole cards + board).
+export const evaluatePokerHand = (cards: PokerCard[]): PokerHandValue => {
+  if (cards.length < 5) throw new Error("poker_hand_needs_five_cards");
+  let best: PokerHandValue | null = null;
+  const n = cards.length;
+  for (let a = 0; a < n - 4; a += 1) {
+    for (let b = a + 1; b < n - 3; b += 1) {
+      for (let c = b + 1; c < n - 2; c += 1) {
+        for (let d = c + 1; d < n - 1; d += 1) {
+          for (let e = d + 1; e < n; e += 1) {
+            const value = evaluateFive([cards[a], cards[b], cards[c], cards[d], cards[e]]);
+            if (!best || comparePokerHands(value, best) > 0) best = value;
+          }
+        }
+      }
+    }
+  }
+  return best!;
+};
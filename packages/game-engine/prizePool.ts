@@ -0,0 +1,46 @@
+import type { MatchStanding, PrizePayout, PrizePayoutTable } from "../shared/events";
+
+// Shares of the pot per place for TOP_3. With fewer paying players the shares
+// of the places that exist are scaled up to the whole pot.
+export const TOP_3_SHARES = [50, 30, 20];
+
+export const DEFAULT_PRIZE_PAYOUT_TABLE: PrizePayoutTable = "WINNER_TAKES_ALL";
+
+// Splits `pot` between the players who paid the buy-in, ranked by their final
+// stack. Players on equal stacks share the places they take up. Whole Spux
+// only: what rounding leaves over goes to the best ranked, one each.
+export const computePrizePayouts = (params: {
+  pot: number;
+  standings: MatchStanding[];
+  paidUserIds: string[];
+  table: PrizePayoutTable;
+}): PrizePayout[] => {
+  const ranked = params.standings
+    .filter((s) => params.paidUserIds.includes(s.userId))
+    .sort((a, b) => b.stack - a.stack);
+  if (!ranked.length || params.pot <= 0) return [];
+
+  const weights = (() => {
+    if (params.table === "PROPORTIONAL") {
+      const total = ranked.reduce((sum, s) => sum + Math.max(0, s.stack), 0);
+      return ranked.map((s) => (total > 0 ? Math.max(0, s.stack) : 1));
+    }
+    const placeShares = params.table === "TOP_3" ? TOP_3_SHARES : [1];
+    const byPosition = ranked.map((_, index) => placeShares[index] ?? 0);
+    // Ties: everyone on the same stack gets the average of their positions.
+    return ranked.map((s) => {
+      const tied = ranked.map((r, index) => (r.stack === s.stack ? index : -1)).filter((index) => index >= 0);
+      return tied.reduce((sum, index) => sum + byPosition[index], 0) / tied.length;
+    });
+  })();
+
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const amounts = weights.map((w) => Math.floor((params.pot * w) / totalWeight));
+  let left = params.pot - amounts.reduce((sum, a) => sum + a, 0);
+  for (let index = 0; left > 0; index = (index + 1) % amounts.length) {
+    if (weights[index] <= 0) continue;
+    amounts[index] += 1;
+    left -= 1;
+  }
+  return ranked.map((s, index) => ({ userId: s.userId, amount: amounts[index] })).filter((p) => p.amount > 0);
+};
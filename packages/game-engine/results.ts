@@ -0,0 +1,67 @@
+import type { LedgerEntry, Match, MatchPlayer, MatchResults, MatchStanding, SpuxPayout } from "../shared/events";
+
+// README: the all-time Yatzy high score the jackpot is measured against.
+export const YATZY_HIGH_SCORE = 321;
+
+// Highest tier only, "over" means strictly above the threshold.
+export const YATZY_SPUX_BONUSES: Array<{ over: number; amount: number }> = [
+  { over: 300, amount: 300 },
+  { over: 250, amount: 100 },
+  { over: 200, amount: 50 },
+];
+
+// The YATZY ledger entries add score * 10 to the stack.
+export const getYatzyScore = (ledger: LedgerEntry[], userId: string): number | null => {
+  const entries = ledger.filter((e) => e.userId === userId && e.stage === "YATZY");
+  if (!entries.length) return null;
+  return Math.round(entries.reduce((sum, e) => sum + e.delta, 0) / 10);
+};
+
+export const getYatzySpuxBonus = (score: number): SpuxPayout | null => {
+  const tier = YATZY_SPUX_BONUSES.find((b) => score > b.over);
+  return tier ? { reason: `yatzy_over_${tier.over}`, amount: tier.amount } : null;
+};
+
+export const computeMatchResults = (params: {
+  match: Match;
+  players: MatchPlayer[];
+  ledger: LedgerEntry[];
+  now: number;
+  yatzyHighScore?: number;
+}): MatchResults => {
+  const highScore = params.yatzyHighScore ?? YATZY_HIGH_SCORE;
+  const rows = params.players.map((p) => {
+    const byStage: MatchStanding["byStage"] = {};
+    for (const entry of params.ledger) {
+      if (entry.userId !== p.userId) continue;
+      byStage[entry.stage] = (byStage[entry.stage] ?? 0) + entry.delta;
+    }
+    const yatzyScore = getYatzyScore(params.ledger, p.userId);
+    const spux: SpuxPayout[] = [];
+    const bonus = yatzyScore === null || p.forfeited ? null : getYatzySpuxBonus(yatzyScore);
+    if (bonus) spux.push(bonus);
+    return { userId: p.userId, stack: p.stack, byStage, yatzyScore, spux };
+  });
+
+  // Jackpot: beating the high score pays as much as everyone else holds together.
+  for (const row of rows) {
+    if (row.yatzyScore === null || row.yatzyScore <= highScore) continue;
+    const others = rows.filter((r) => r.userId !== row.userId).reduce((sum, r) => sum + Math.max(0, r.stack), 0);
+    if (others > 0) row.spux.push({ reason: "yatzy_jackpot", amount: others });
+  }
+
+  const sorted = [...rows].sort((a, b) => b.stack - a.stack);
+  const standings: MatchStanding[] = sorted.map((row) => ({
+    ...row,
+    place: sorted.findIndex((r) => r.stack === row.stack) + 1,
+    spuxTotal: row.spux.reduce((sum, s) => sum + s.amount, 0),
+  }));
+
+  return {
+    matchId: params.match.id,
+    mode: params.match.mode,
+    standings,
+    yatzyHighScore: highScore,
+    completedAt: params.now,
+  };
+};
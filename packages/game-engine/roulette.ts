@@ -0,0 +1,132 @@
+import type { LedgerEntry, MatchPlayer } from "../shared/events";
+import { fairRng, type FairSeed } from "./fairness";
+
+export type RouletteBetColor = "RED" | "BLACK";
+export type RoulettePocketColor = RouletteBetColor | "GREEN";
+
+export type RouletteBet = {
+  color: RouletteBetColor;
+  bet: number;
+};
+
+export type RouletteSpin = {
+  pocket: number;
+  color: RoulettePocketColor;
+};
+
+export type RouletteOutcome = {
+  userId: string;
+  color: RouletteBetColor;
+  bet: number;
+  result: "WIN" | "LOSE";
+  delta: number;
+};
+
+export type RouletteState = {
+  // bj_profit per player, the only amount that may be risked on the wheel.
+  limits: Record<string, number>;
+  // null = skipped (nothing to risk or missed the deadline), undefined = still deciding.
+  bets: Record<string, RouletteBet | null>;
+  spin: RouletteSpin | null;
+  // Betting closes here; older states have none.
+  deadline?: number | null;
+  // Committed in ROULETTE_OPEN; the spin is draw 0.
+  fair: FairSeed;
+};
+
+export const ROULETTE_BET_MS = 30_000;
+
+// Single-zero (European) wheel.
+export const ROULETTE_POCKETS = 37;
+const redPockets = new Set([1, 3, 5, 7, 9, 12, 14, 16, 18, 19, 21, 23, 25, 27, 30, 32, 34, 36]);
+
+export const getPocketColor = (pocket: number): RoulettePocketColor => {
+  if (pocket === 0) return "GREEN";
+  return redPockets.has(pocket) ? "RED" : "BLACK";
+};
+
+// bj_profit = max(0, bj_end - bj_start), where the difference is exactly the
+// sum of the player's BLACKJACK ledger entries.
+export const computeBjProfit = (ledger: LedgerEntry[], userId: string): number => {
+  const bjDelta = ledger
+    .filter((entry) => entry.userId === userId && entry.stage === "BLACKJACK")
+    .reduce((sum, entry) => sum + entry.delta, 0);
+  return Math.max(0, bjDelta);
+};
+
+export const createRouletteState = (
+  players: MatchPlayer[],
+  ledger: LedgerEntry[],
+  fair: FairSeed,
+  now: number
+): RouletteState => {
+  const limits: Record<string, number> = {};
+  const bets: Record<string, RouletteBet | null> = {};
+  for (const p of players) {
+    const profit = Math.min(computeBjProfit(ledger, p.userId), Math.max(0, p.stack));
+    limits[p.userId] = profit;
+    // Nothing won at the table means nothing to risk: auto-skip.
+    if (profit <= 0) bets[p.userId] = null;
+  }
+  return { limits, bets, spin: null, deadline: now + ROULETTE_BET_MS, fair };
+};
+
+export const placeRouletteBet = (
+  state: RouletteState,
+  userId: string,
+  color: RouletteBetColor,
+  bet: number
+): { ok: true } | { ok: false; error: string } => {
+  if (!(userId in state.limits)) return { ok: false, error: "roulette_player_missing" };
+  if (state.spin) return { ok: false, error: "roulette_already_spun" };
+  if (userId in state.bets) return { ok: false, error: "roulette_already_decided" };
+  const amount = Math.trunc(bet);
+  if (!Number.isFinite(amount) || amount < 1) return { ok: false, error: "roulette_invalid_bet" };
+  if (amount > state.limits[userId]) return { ok: false, error: "roulette_bet_exceeds_bj_profit" };
+  state.bets[userId] = { color, bet: amount };
+  return { ok: true };
+};
+
+export const skipRoulette = (state: RouletteState, userId: string): { ok: true } | { ok: false; error: string } => {
+  if (!(userId in state.limits)) return { ok: false, error: "roulette_player_missing" };
+  if (state.spin) return { ok: false, error: "roulette_already_spun" };
+  if (userId in state.bets) return { ok: false, error: "roulette_already_decided" };
+  state.bets[userId] = null;
+  return { ok: true };
+};
+
+// Whoever has not decided by the deadline sits the spin out.
+export const closeRouletteBetting = (state: RouletteState): void => {
+  for (const userId of Object.keys(state.limits)) {
+    if (!(userId in state.bets)) state.bets[userId] = null;
+  }
+  state.deadline = null;
+};
+
+export const isRouletteSettled = (state: RouletteState): boolean =>
+  Object.keys(state.limits).every((userId) => userId in state.bets);
+
+export const hasRouletteBets = (state: RouletteState): boolean =>
+  Object.values(state.bets).some((bet) => bet !== null);
+
+export const pocketFromDraw = (draw: number): number => Math.floor(draw * ROULETTE_POCKETS) % ROULETTE_POCKETS;
+
+export const spinRoulette = (state: RouletteState): RouletteOutcome[] => {
+  const pocket = pocketFromDraw(fairRng(state.fair)());
+  state.spin = { pocket, color: getPocketColor(pocket) };
+  state.deadline = null;
+  const outcomes: RouletteOutcome[] = [];
+  for (const [userId, bet] of Object.entries(state.bets)) {
+    if (!bet) continue;
+    // Green zero: every colour bet loses.
+    const won = state.spin.color === bet.color;
+    outcomes.push({
+      userId,
+      color: bet.color,
+      bet: bet.bet,
+      result: won ? "WIN" : "LOSE",
+      delta: won ? bet.bet : -bet.bet,
+    });
+  }
+  return outcomes;
+};
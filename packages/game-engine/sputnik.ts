@@ -0,0 +1,489 @@
+import type { ClientEvent, Match, MatchPlayer, Stage, StageState } from "../shared/events";
+import {
+  BJ_MAX_BET,
+  BJ_MIN_BET,
+  canDoubleHand,
+  canSplitHand,
+  type BlackjackState,
+} from "./blackjack";
+import type { ChickenRunState } from "./chickenRun";
+import type { DiceState } from "./dice";
+import type { HoldemState } from "./holdem";
+import type { MusicState } from "./music";
+import { evaluatePokerHand, rankValue, type PokerCard } from "./pokerHand";
+import type { RouletteState } from "./roulette";
+import { TRIVIA_ANSWER_MS, type TriviaLevel, type TriviaState } from "./trivia";
+import type { YatzyState } from "./yatzy";
+
+// Sputnik is an ordinary MatchPlayer (isBot=true). Everything here only picks
+// the next ClientEvent; the server sends it through the same path as a human's.
+export const SPUTNIK_USER_ID = "bot:sputnik";
+export const SPUTNIK_DISPLAY_NAME = "Sputnik";
+
+export type SputnikPlan = {
+  // Identifies the decision (stage + round/hand + state), so the same one is
+  // never planned or sent twice.
+  key: string;
+  delayMs: number;
+  event: ClientEvent;
+};
+
+export type SputnikView = {
+  match: Match;
+  players: MatchPlayer[];
+  stage: Stage;
+  stageState: StageState | null;
+};
+
+// Chance to know the answer by trivia level (200/400/600/800).
+export const SPUTNIK_TRIVIA_ACCURACY: Record<TriviaLevel, number> = { 1: 0.85, 2: 0.7, 3: 0.55, 4: 0.4 };
+// Chance to recognise the title or the artist of a music clip.
+export const SPUTNIK_MUSIC_RECOGNITION = 0.5;
+// Sputnik never sees the dare, so it backs the performer and mostly believes them.
+export const SPUTNIK_CHICKEN_FAITH = 0.65;
+export const SPUTNIK_CHICKEN_BELIEF = 0.8;
+
+const think = (rng: () => number, minMs: number, spreadMs: number) => Math.round(minMs + rng() * spreadMs);
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Stable roll in [0, 1) for a seed, for decisions that must not be re-rolled
+// every time the server asks again (FNV-1a).
+const stableRoll = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i += 1) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+};
+
+// -1 when far ahead of the best opponent, +1 when far behind. Sputnik takes
+// more risk when trailing and tightens up when leading.
+export const computeRiskBias = (userId: string, players: MatchPlayer[]): number => {
+  const own = players.find((p) => p.userId === userId)?.stack ?? 0;
+  const best = Math.max(0, ...players.filter((p) => p.userId !== userId).map((p) => p.stack));
+  const scale = Math.max(own, best);
+  if (scale <= 0) return 0;
+  return clamp((best - own) / scale, -1, 1);
+};
+
+// ---- Yatzy -------------------------------------------------------------
+
+// Sputnik plays its Yatzy in the Yatzy app; a manual match gets a typical score.
+export const decideYatzyScore = (rng: () => number): number =>
+  Math.round(170 + (rng() + rng() + rng()) * 35);
+
+// ---- Blackjack ---------------------------------------------------------
+
+export type BlackjackDecision = "HIT" | "STAND" | "DOUBLE" | "SPLIT";
+
+const bjCardValue = (rank: string) => (rank === "A" ? 11 : ["K", "Q", "J"].includes(rank) ? 10 : Number(rank));
+
+const bjTotal = (cards: Array<{ rank: string }>): { total: number; soft: boolean } => {
+  let total = 0;
+  let aces = 0;
+  for (const card of cards) {
+    if (card.rank === "A") aces += 1;
+    total += bjCardValue(card.rank);
+  }
+  while (total > 21 && aces > 0) {
+    total -= 10;
+    aces -= 1;
+  }
+  return { total, soft: aces > 0 };
+};
+
+export const decideBlackjackBet = (
+  stack: number,
+  bias: number,
+  limits: { min: number; max: number }
+): { spots: number[]; bet: number } => {
+  if (stack < limits.min) return { spots: [], bet: limits.min };
+  const wanted = Math.round((stack * 0.04 * (1 + 0.5 * bias)) / 10) * 10;
+  const bet = clamp(wanted, limits.min, Math.min(limits.max, stack));
+  // Far behind: two hands to catch up faster.
+  const spots = bias > 0.4 && bet * 2 <= stack * 0.3 ? [3, 5] : [4];
+  return { spots, bet };
+};
+
+// Basic strategy (dealer stands on all 17s, double on any two cards), nudged by
+// the risk bias on the close calls.
+export const decideBlackjackAction = (params: {
+  cards: Array<{ rank: string }>;
+  dealerUp: { rank: string };
+  canDouble: boolean;
+  canSplit: boolean;
+  bias: number;
+}): BlackjackDecision => {
+  const { cards, canDouble, canSplit, bias } = params;
+  const up = bjCardValue(params.dealerUp.rank);
+  const { total, soft } = bjTotal(cards);
+  const double = (fallback: BlackjackDecision): BlackjackDecision => (canDouble ? "DOUBLE" : fallback);
+
+  if (canSplit && cards.length === 2 && cards[0].rank === cards[1].rank) {
+    const pair = bjCardValue(cards[0].rank);
+    const split =
+      pair === 11 ||
+      pair === 8 ||
+      (pair === 9 && up !== 7 && up < 10) ||
+      (pair === 7 && up <= 7) ||
+      (pair === 6 && up <= 6) ||
+      (pair === 4 && (up === 5 || up === 6)) ||
+      ((pair === 2 || pair === 3) && up <= 7);
+    if (split) return "SPLIT";
+  }
+
+  if (soft && total <= 21) {
+    if (total >= 19) return "STAND";
+    if (total === 18) {
+      if (up >= 3 && up <= 6) return double("STAND");
+      return up >= 9 ? "HIT" : "STAND";
+    }
+    // Leading: no soft doubles, just draw.
+    if (bias < -0.5) return "HIT";
+    if (total === 17) return up >= 3 && up <= 6 ? double("HIT") : "HIT";
+    if (total >= 15) return up >= 4 && up <= 6 ? double("HIT") : "HIT";
+    return up === 5 || up === 6 ? double("HIT") : "HIT";
+  }
+
+  if (total >= 17) return "STAND";
+  if (total >= 13) {
+    // 16 against a ten: a trailing Sputnik keeps drawing, a leading one stands.
+    if (total === 16 && up === 10 && bias < -0.5) return "STAND";
+    return up <= 6 ? "STAND" : "HIT";
+  }
+  if (total === 12) return up >= 4 && up <= 6 ? "STAND" : "HIT";
+  if (total === 11) return up <= 10 || bias > 0.5 ? double("HIT") : "HIT";
+  if (total === 10) return up <= 9 ? double("HIT") : "HIT";
+  if (total === 9) return (up >= 3 && up <= 6) || (up === 2 && bias > 0.5) ? double("HIT") : "HIT";
+  return "HIT";
+};
+
+// ---- Stage events (orchestrator stages) -----------------------------------
+
+const planYatzy = (view: SputnikView, userId: string, rng: () => number): SputnikPlan | null => {
+  const state = view.stageState?.stateJson as YatzyState | null;
+  if (!state || state.source || userId in state.submissions) return null;
+  return {
+    key: "yatzy",
+    delayMs: think(rng, 3_000, 3_000),
+    event: { type: "YATZY_SUBMIT", matchId: view.match.id, score: decideYatzyScore(rng) },
+  };
+};
+
+// Sputnik sees its own cards and the dealer's upcard, nothing more.
+const planBlackjack = (view: SputnikView, userId: string, rng: () => number, bias: number): SputnikPlan | null => {
+  const state = view.stageState?.stateJson as BlackjackState | null;
+  const round = state?.roundState;
+  const player = round?.players[userId];
+  if (!state || !round || !player) return null;
+  const matchId = view.match.id;
+  const stack = view.players.find((p) => p.userId === userId)?.stack ?? 0;
+  if (round.status === "BETTING" && !player.placedBet) {
+    const { spots, bet } = decideBlackjackBet(stack, bias, { min: BJ_MIN_BET, max: BJ_MAX_BET });
+    return {
+      key: `bj_bet_${round.round}`,
+      delayMs: think(rng, 800, 1_500),
+      event: { type: "BJ_BET_PLACED", matchId, round: round.round, spots, bet },
+    };
+  }
+  // Insurance is a bad bet without counting; Sputnik always declines.
+  const uninsured = player.hands.findIndex((h) => !h.insurance);
+  if (round.status === "INSURANCE" && uninsured !== -1) {
+    return {
+      key: `bj_ins_${round.round}_${uninsured}`,
+      delayMs: think(rng, 600, 900),
+      event: {
+        type: "BJ_HAND_ACTION",
+        matchId,
+        round: round.round,
+        spot: player.hands[uninsured].spot,
+        action: "NO_INSURANCE",
+        handIndex: uninsured,
+      },
+    };
+  }
+  const handIndex = player.hands.findIndex((h) => h.status === "ACTIVE");
+  const dealerUp = round.dealer.cards[0];
+  if (round.status !== "PLAYER_ACTION" || handIndex === -1 || !dealerUp) return null;
+  const hand = player.hands[handIndex];
+  const affordable = player.committed + hand.bet <= stack;
+  const action = decideBlackjackAction({
+    cards: hand.cards,
+    dealerUp,
+    canDouble: affordable && canDoubleHand(state.rules, hand),
+    canSplit: affordable && canSplitHand(state.rules, player, hand),
+    bias,
+  });
+  return {
+    key: `bj_${round.round}_${handIndex}_${hand.cards.length}`,
+    delayMs: think(rng, 700, 1_300),
+    event: { type: "BJ_HAND_ACTION", matchId, round: round.round, spot: hand.spot, action, handIndex },
+  };
+};
+
+const planRoulette = (view: SputnikView, userId: string, rng: () => number, bias: number): SputnikPlan | null => {
+  const state = view.stageState?.stateJson as RouletteState | null;
+  if (!state || state.spin || userId in state.bets) return null;
+  const limit = state.limits[userId] ?? 0;
+  const matchId = view.match.id;
+  const delayMs = think(rng, 1_500, 3_000);
+  // The wheel is negative EV: only a trailing Sputnik always plays.
+  if (limit < 1 || rng() > 0.6 + Math.max(0, bias) * 0.4) {
+    return { key: "roulette", delayMs, event: { type: "ROULETTE_SKIP", matchId } };
+  }
+  const bet = clamp(Math.round(limit * (0.2 + 0.3 * Math.max(0, bias))), 1, limit);
+  return {
+    key: "roulette",
+    delayMs,
+    event: { type: "ROULETTE_BET_PLACED", matchId, color: rng() < 0.5 ? "RED" : "BLACK", bet },
+  };
+};
+
+const planTrivia = (view: SputnikView, userId: string, rng: () => number): SputnikPlan | null => {
+  const state = view.stageState?.stateJson as TriviaState | null;
+  if (!state) return null;
+  const matchId = view.match.id;
+  if (state.phase === "PICKING") {
+    const picker = state.seatOrder[state.pickedCategoryIds.length % state.seatOrder.length];
+    if (picker !== userId) return null;
+    const options = state.categories.filter((c) => !state.pickedCategoryIds.includes(c.id));
+    if (!options.length) return null;
+    const pick = options[Math.floor(rng() * options.length) % options.length];
+    return {
+      key: `trivia_pick_${state.pickedCategoryIds.length}`,
+      delayMs: think(rng, 2_000, 3_000),
+      event: { type: "TRIVIA_CATEGORY_PICKED", matchId, categoryId: pick.id },
+    };
+  }
+  const current = state.current;
+  if (state.phase !== "ANSWERING" || !current || current.turnOrder[current.turn] !== userId) return null;
+  const question = state.board[current.categoryId]?.find((q) => q.id === current.questionId);
+  if (!question) return null;
+  // Harder questions: lower hit rate and a longer think, always inside the timer.
+  const knows = rng() < SPUTNIK_TRIVIA_ACCURACY[question.level];
+  const wrong = question.answers.filter((a) => a.id !== question.correctAnswerId);
+  const answer = knows || !wrong.length ? question.correctAnswerId : wrong[Math.floor(rng() * wrong.length) % wrong.length].id;
+  const delayMs = Math.min(think(rng, 1_500 + question.level * 900, 3_000), TRIVIA_ANSWER_MS - 1_500);
+  return {
+    key: `trivia_answer_${current.questionId}_${current.turn}`,
+    delayMs,
+    event: { type: "TRIVIA_ANSWER_SUBMITTED", matchId, questionId: current.questionId, answerId: answer },
+  };
+};
+
+const planDice = (view: SputnikView, userId: string, rng: () => number, bias: number): SputnikPlan | null => {
+  const state = view.stageState?.stateJson as DiceState | null;
+  if (!state || state.secondDie !== null || userId in state.bets) return null;
+  const maxBet = state.maxBets[userId] ?? 0;
+  if (maxBet < 1) return null;
+  const first = state.firstDie;
+  // P(higher) = (6 - first) / 6, P(lower) = (first - 1) / 6, the rest pushes.
+  const choice = first <= 3 ? "HIGHER" : "LOWER";
+  const edge = Math.abs(7 - 2 * first) / 6;
+  const bet = clamp(Math.round(maxBet * edge * (1 + 0.3 * bias)), 1, maxBet);
+  return {
+    key: `dice_${first}`,
+    delayMs: think(rng, 1_500, 2_500),
+    event: { type: "DICE_BET_PLACED", matchId: view.match.id, choice, bet },
+  };
+};
+
+const planMusic = (view: SputnikView, userId: string, rng: () => number, now: number): SputnikPlan | null => {
+  const state = view.stageState?.stateJson as MusicState | null;
+  const current = state?.current;
+  if (!state || state.phase !== "PLAYING" || !current) return null;
+  if (current.guesses.some((g) => g.userId === userId)) return null;
+  // Recognition is fixed per match and round, asking again gives the same answer.
+  const seed = `${view.match.id}:${current.round}`;
+  const parts = [
+    stableRoll(`${seed}:artist`) < SPUTNIK_MUSIC_RECOGNITION ? current.track.artist : "",
+    stableRoll(`${seed}:title`) < SPUTNIK_MUSIC_RECOGNITION ? current.track.title : "",
+  ].filter(Boolean);
+  if (!parts.length) return null;
+  const listenMs = think(rng, 4_000, 16_000);
+  return {
+    key: `music_${current.round}`,
+    delayMs: Math.max(0, current.startAt - now) + listenMs,
+    event: { type: "MUSIC_GUESS_SUBMITTED", matchId: view.match.id, round: current.round, guess: parts.join(" ") },
+  };
+};
+
+// ---- Chick'n Run -------------------------------------------------------
+
+const planChicken = (view: SputnikView, userId: string, rng: () => number, bias: number): SputnikPlan | null => {
+  const state = view.stageState?.stateJson as ChickenRunState | null;
+  const current = state?.current;
+  if (!state || !current || current.performerUserId === userId) return null;
+  const seed = `${view.match.id}:${current.round}`;
+  if (state.phase === "BETTING" && !(userId in current.bets)) {
+    const stack = view.players.find((p) => p.userId === userId)?.stack ?? 0;
+    const side = stableRoll(`${seed}:side`) < SPUTNIK_CHICKEN_FAITH ? "DOES_IT" : "CHICKENS_OUT";
+    const amount = clamp(Math.round(stack * (0.05 + 0.05 * bias + rng() * 0.05)), 0, stack);
+    return {
+      key: `chicken_bet_${current.round}`,
+      delayMs: think(rng, 2_000, 4_000),
+      event: { type: "CHICKEN_BET_PLACED", matchId: view.match.id, round: current.round, side, amount },
+    };
+  }
+  if (state.phase === "VOTING" && !(userId in current.votes)) {
+    return {
+      key: `chicken_vote_${current.round}`,
+      delayMs: think(rng, 1_500, 3_000),
+      event: {
+        type: "CHICKEN_VOTE_CAST",
+        matchId: view.match.id,
+        round: current.round,
+        completed: stableRoll(`${seed}:vote`) < SPUTNIK_CHICKEN_BELIEF,
+      },
+    };
+  }
+  return null;
+};
+
+// ---- Hold'em -----------------------------------------------------------
+
+export type HoldemView = {
+  holeCards: PokerCard[];
+  board: PokerCard[];
+  toCall: number;
+  currentBet: number;
+  minRaiseTo: number;
+  maxRaiseTo: number;
+  pot: number;
+  bb: number;
+  playersInHand: number;
+};
+
+export type HoldemDecision = { action: "FOLD" | "CHECK" | "CALL" | "BET" | "RAISE"; amount?: number };
+
+// Chen formula, roughly: 10+ premium, 8+ strong, 6+ playable.
+export const scoreHoleCards = (cards: PokerCard[]): number => {
+  const [a, b] = cards.map((c) => rankValue(c.rank)).sort((x, y) => y - x);
+  const points = (v: number) => (v === 14 ? 10 : v === 13 ? 8 : v === 12 ? 7 : v === 11 ? 6 : v / 2);
+  if (a === b) return Math.max(5, points(a) * 2);
+  let score = points(a);
+  if (cards[0].suit === cards[1].suit) score += 2;
+  const gap = a - b - 1;
+  score -= gap === 0 ? 0 : gap === 1 ? 1 : gap === 2 ? 2 : gap === 3 ? 4 : 5;
+  if (gap <= 1 && a < 12) score += 1;
+  return Math.ceil(score);
+};
+
+// Category the board makes on its own (pairs and sets only), so a paired
+// board does not look like Sputnik's own two pair.
+const boardCategory = (board: PokerCard[]): number => {
+  const counts = new Map<string, number>();
+  for (const card of board) counts.set(card.rank, (counts.get(card.rank) || 0) + 1);
+  const sizes = Array.from(counts.values()).sort((x, y) => y - x);
+  if (sizes[0] >= 4) return 7;
+  if (sizes[0] === 3) return sizes[1] >= 2 ? 6 : 3;
+  if (sizes[0] === 2) return sizes[1] === 2 ? 2 : 1;
+  return 0;
+};
+
+// Tight-aggressive: few hands, but played with bets and raises, with a small
+// bluff frequency so it is not fully readable.
+export const decideHoldemAction = (view: HoldemView, rng: () => number, bias: number): HoldemDecision => {
+  const raiseTo = (target: number): HoldemDecision => {
+    if (view.maxRaiseTo <= view.currentBet) return view.toCall > 0 ? { action: "CALL" } : { action: "CHECK" };
+    const amount = clamp(Math.round(target), view.minRaiseTo, view.maxRaiseTo);
+    return { action: view.currentBet > 0 ? "RAISE" : "BET", amount };
+  };
+  const checkOrFold = (): HoldemDecision => (view.toCall > 0 ? { action: "FOLD" } : { action: "CHECK" });
+  const call = (): HoldemDecision => (view.toCall > 0 ? { action: "CALL" } : { action: "CHECK" });
+  const shortHanded = view.playersInHand <= 2 ? 2 : 0;
+  const looseness = shortHanded + (bias > 0.5 ? 1 : 0);
+
+  if (!view.board.length) {
+    const score = scoreHoleCards(view.holeCards) + looseness;
+    const bigBets = view.toCall > view.bb * 4;
+    if (score >= 10) return raiseTo(Math.max(view.currentBet * 3, view.bb * 3));
+    if (score >= 8) return bigBets ? call() : raiseTo(Math.max(view.currentBet * 2.5, view.bb * 2.5));
+    if (score >= 6) return view.toCall <= view.bb ? call() : checkOrFold();
+    return checkOrFold();
+  }
+
+  const made = evaluatePokerHand([...view.holeCards, ...view.board]);
+  const category = made.score[0];
+  const own = category > boardCategory(view.board);
+  const topBoard = Math.max(...view.board.map((c) => rankValue(c.rank)));
+  const potOdds = view.toCall / Math.max(1, view.pot + view.toCall);
+
+  if (own && category >= 2) {
+    return rng() < 0.8 ? raiseTo(view.currentBet > 0 ? view.currentBet * 3 : view.pot * 0.7) : call();
+  }
+  if (own && category === 1) {
+    const pairRank = made.score[1];
+    if (pairRank >= topBoard) {
+      if (view.toCall === 0) return raiseTo(view.pot * 0.6);
+      return potOdds <= 0.4 ? call() : checkOrFold();
+    }
+    return potOdds <= 0.25 ? call() : checkOrFold();
+  }
+  // Nothing: continuation-bet now and then when checked to.
+  if (view.toCall === 0 && rng() < 0.2 + Math.max(0, bias) * 0.2) return raiseTo(view.pot * 0.5);
+  return checkOrFold();
+};
+
+const planHoldem = (view: SputnikView, userId: string, rng: () => number, bias: number): SputnikPlan | null => {
+  const state = view.stageState?.stateJson as HoldemState | null;
+  const hand = state?.hand;
+  if (!state || state.phase !== "BETTING" || !hand || hand.toActIndex === null) return null;
+  const seat = state.seats[hand.toActIndex];
+  if (seat.userId !== userId) return null;
+  const maxRaiseTo = seat.streetBet + seat.stack;
+  const decision = decideHoldemAction(
+    {
+      holeCards: seat.holeCards,
+      board: hand.board,
+      toCall: Math.min(hand.currentBet - seat.streetBet, seat.stack),
+      currentBet: hand.currentBet,
+      minRaiseTo: Math.min(Math.max(hand.currentBet + hand.minRaise, state.bb), maxRaiseTo),
+      maxRaiseTo,
+      pot: state.seats.reduce((sum, s) => sum + s.committed, 0),
+      bb: state.bb,
+      playersInHand: state.seats.filter((s) => s.inHand && !s.folded).length,
+    },
+    rng,
+    bias
+  );
+  const actions = state.seats.reduce((sum, s) => sum + (s.hasActed ? 1 : 0), 0);
+  return {
+    key: `holdem_${hand.handId}_${hand.street}_${hand.currentBet}_${actions}`,
+    delayMs: think(rng, 1_200, 2_800),
+    event: { type: "HOLDEM_ACTION_SUBMITTED", matchId: view.match.id, ...decision },
+  };
+};
+
+// Next action for Sputnik in an orchestrator-driven stage, or null if it is
+// waiting on someone else.
+export const planSputnikAction = (
+  view: SputnikView,
+  userId: string,
+  rng: () => number,
+  now: number
+): SputnikPlan | null => {
+  const bias = computeRiskBias(userId, view.players);
+  switch (view.stage) {
+    case "YATZY":
+      return planYatzy(view, userId, rng);
+    case "BLACKJACK":
+      return planBlackjack(view, userId, rng, bias);
+    case "ROULETTE":
+      return planRoulette(view, userId, rng, bias);
+    case "TRIVIA":
+      return planTrivia(view, userId, rng);
+    case "DICE":
+      return planDice(view, userId, rng, bias);
+    case "MUSIC":
+      return planMusic(view, userId, rng, now);
+    case "HOLDEM":
+      return planHoldem(view, userId, rng, bias);
+    case "CHICKEN_RUN":
+      return planChicken(view, userId, rng, bias);
+    default:
+      return null;
+  }
+};
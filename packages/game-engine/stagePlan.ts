@@ -0,0 +1,68 @@
+import type { Match, MatchMode, Stage } from "../shared/events";
+
+// Stages between LOBBY and RESULTS that the server can actually run.
+export const PLAYABLE_STAGES: Stage[] = [
+  "YATZY",
+  "BLACKJACK",
+  "ROULETTE",
+  "TRIVIA",
+  "DICE",
+  "MUSIC",
+  "HOLDEM",
+  "CHICKEN_RUN",
+];
+
+// Stages that hand out stacks, and stages that bet them. ROULETTE only risks
+// the blackjack profit, so it has a stack whenever BLACKJACK had one.
+export const STACK_SEEDING_STAGES: Stage[] = ["YATZY", "CHICKEN_RUN"];
+export const STAKE_STAGES: Stage[] = ["BLACKJACK", "DICE", "HOLDEM"];
+
+// What a plan that bets before any stage has handed out stacks starts
+// everyone on: about what an average Yatzy (200 points) gives.
+export const PLAN_START_STACK = 2000;
+
+// README: "Mellanspel A/B", short side bets between the main games.
+export const INTERMISSION_STAGES: Stage[] = ["ROULETTE", "DICE"];
+
+export const STAGE_PLAN_PRESETS: Record<MatchMode, Stage[]> = {
+  FIVE_KAMP: ["LOBBY", "YATZY", "BLACKJACK", "ROULETTE", "TRIVIA", "DICE", "MUSIC", "HOLDEM", "RESULTS"],
+  // Chick'n Run is its own betting game and skips the casino stages.
+  CHICKEN_RUN: ["LOBBY", "CHICKEN_RUN", "RESULTS"],
+  BLACKJACK_ONLY: ["LOBBY", "BLACKJACK", "RESULTS"],
+};
+
+export type StagePlanResult = { ok: true; plan: Stage[] } | { ok: false; error: string };
+
+// Host input from MATCH_CREATE: `stages` replaces the preset (LOBBY and RESULTS
+// are added around it), `intermissions: false` drops roulette and dice.
+export const buildStagePlan = (params: {
+  mode: MatchMode;
+  stages?: Stage[];
+  intermissions?: boolean;
+}): StagePlanResult => {
+  const preset = STAGE_PLAN_PRESETS[params.mode];
+  let playable = params.stages ?? preset.filter((stage) => stage !== "LOBBY" && stage !== "RESULTS");
+  if (params.intermissions === false) {
+    playable = playable.filter((stage) => !INTERMISSION_STAGES.includes(stage));
+  }
+  if (!playable.length) return { ok: false, error: "stage_plan_empty" };
+  if (playable.some((stage) => !PLAYABLE_STAGES.includes(stage))) return { ok: false, error: "stage_not_supported" };
+  if (new Set(playable).size !== playable.length) return { ok: false, error: "stage_plan_duplicate" };
+  return { ok: true, plan: ["LOBBY", ...playable, "RESULTS"] };
+};
+
+// True when a stake stage comes before the first stack-seeding one, e.g. in
+// BLACKJACK_ONLY. With an empty stack those stages would have nothing to bet.
+export const needsStartStack = (plan: Stage[]): boolean => {
+  const firstStake = plan.findIndex((stage) => STAKE_STAGES.includes(stage));
+  const firstSeed = plan.findIndex((stage) => STACK_SEEDING_STAGES.includes(stage));
+  return firstStake >= 0 && (firstSeed < 0 || firstStake < firstSeed);
+};
+
+// Matches stored before plans existed fall back to their mode's preset. Every
+// plan ends in RESULTS, where the match completes; blackjack-only plans stored
+// without it get it back, so their last stage finishing completes the match.
+export const getStagePlan = (match: Match): Stage[] => {
+  const plan = match.stagePlan ?? STAGE_PLAN_PRESETS[match.mode];
+  return plan.includes("RESULTS") ? plan : [...plan, "RESULTS"];
+};
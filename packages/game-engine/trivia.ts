@@ -0,0 +1,300 @@
+import type { MatchPlayer } from "../shared/events";
+
+export type TriviaLevel = 1 | 2 | 3 | 4;
+export type LocalizedText = { sv: string; en: string };
+
+export type TriviaCategory = {
+  id: string;
+  label: LocalizedText;
+  // Questions generated from the players' own charts; always on the board.
+  personal?: boolean;
+};
+
+export type TriviaQuestion = {
+  id: string;
+  categoryId: string;
+  level: TriviaLevel;
+  prompt: LocalizedText;
+  answers: Array<{ id: string; text: LocalizedText }>;
+  correctAnswerId: string;
+  source?: string;
+};
+
+export type TriviaPool = {
+  categories: TriviaCategory[];
+  questions: TriviaQuestion[];
+};
+
+export type TriviaPublicQuestion = Omit<TriviaQuestion, "correctAnswerId" | "source">;
+
+export type TriviaPhase = "PICKING" | "ANSWERING" | "REVEAL" | "DONE";
+
+export type TriviaAttempt = {
+  userId: string;
+  answerId: string | null;
+  correct: boolean;
+  ts: number;
+};
+
+export type TriviaCurrentQuestion = {
+  categoryId: string;
+  questionId: string;
+  value: number;
+  // Picker first, then everyone else round-robin by seat.
+  turnOrder: string[];
+  turn: number;
+  turnStartedAt: number;
+  attempts: TriviaAttempt[];
+};
+
+export type TriviaState = {
+  categories: TriviaCategory[];
+  // categoryId -> questions ordered by level (200/400/600/800).
+  board: Record<string, TriviaQuestion[]>;
+  pickedCategoryIds: string[];
+  seatOrder: string[];
+  picksTotal: number;
+  phase: TriviaPhase;
+  current: TriviaCurrentQuestion | null;
+  deadline: number | null;
+};
+
+export type TriviaStep =
+  | { kind: "OPTIONS"; pickerUserId: string; options: Array<TriviaCategory & { values: number[] }>; deadline: number }
+  | { kind: "SHOWN"; question: TriviaPublicQuestion; value: number; answeringUserId: string; deadline: number; timeLimitMs: number }
+  | { kind: "PASSED"; questionId: string; fromUserId: string; toUserId: string; reason: "WRONG" | "TIMEOUT"; deadline: number }
+  | {
+      kind: "RESOLVED";
+      questionId: string;
+      correctAnswerId: string;
+      winnerUserId: string | null;
+      pointsByUser: Record<string, number>;
+      attempts: TriviaAttempt[];
+    }
+  | { kind: "DONE" };
+
+export type TriviaResult = { ok: true; steps: TriviaStep[] } | { ok: false; error: string };
+
+export const TRIVIA_CATEGORY_COUNT = 6;
+export const TRIVIA_PICKS_PER_PLAYER = 2;
+export const TRIVIA_VALUES: Record<TriviaLevel, number> = { 1: 200, 2: 400, 3: 600, 4: 800 };
+export const TRIVIA_ANSWER_MS = 12_000;
+export const TRIVIA_PICK_MS = 30_000;
+export const TRIVIA_REVEAL_MS = 4_000;
+const TRIVIA_TIME_BONUS = 0.75;
+
+const pickRandom = <T>(items: T[], rng: () => number): T => items[Math.floor(rng() * items.length) % items.length];
+
+const shuffled = <T>(items: T[], rng: () => number): T[] => {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(rng() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+};
+
+// bonus = round(base * clamp(1 - t / T, 0, 1) * 0.75), t and T in the same unit.
+export const computeTriviaPoints = (base: number, elapsedMs: number, limitMs = TRIVIA_ANSWER_MS): number => {
+  const ratio = Math.max(0, Math.min(1, 1 - elapsedMs / limitMs));
+  return base + Math.round(base * ratio * TRIVIA_TIME_BONUS);
+};
+
+export const toPublicQuestion = (question: TriviaQuestion): TriviaPublicQuestion => {
+  const { correctAnswerId: _hidden, source: _source, ...rest } = question;
+  return rest;
+};
+
+// Builds the 6 x 4 board: one question per level for each category that has a
+// full ladder in the pool.
+export const buildTriviaBoard = (
+  categories: TriviaCategory[],
+  questions: TriviaQuestion[],
+  rng: () => number
+): { categories: TriviaCategory[]; board: Record<string, TriviaQuestion[]> } => {
+  const board: Record<string, TriviaQuestion[]> = {};
+  const usable: TriviaCategory[] = [];
+  const ordered = [
+    ...shuffled(categories.filter((category) => category.personal), rng),
+    ...shuffled(categories.filter((category) => !category.personal), rng),
+  ];
+  for (const category of ordered) {
+    if (usable.length >= TRIVIA_CATEGORY_COUNT) break;
+    const ladder: TriviaQuestion[] = [];
+    for (const level of [1, 2, 3, 4] as TriviaLevel[]) {
+      const pool = questions.filter((item) => item.categoryId === category.id && item.level === level);
+      if (!pool.length) break;
+      ladder.push(pickRandom(pool, rng));
+    }
+    if (ladder.length !== 4) continue;
+    usable.push(category);
+    board[category.id] = ladder;
+  }
+  return { categories: usable, board };
+};
+
+export const createTriviaState = (params: { players: MatchPlayer[]; pool: TriviaPool; rng: () => number }): TriviaState => {
+  const { categories, board } = buildTriviaBoard(params.pool.categories, params.pool.questions, params.rng);
+  const seatOrder = [...params.players].sort((a, b) => a.seat - b.seat).map((p) => p.userId);
+  return {
+    categories,
+    board,
+    pickedCategoryIds: [],
+    seatOrder,
+    picksTotal: Math.min(TRIVIA_PICKS_PER_PLAYER * seatOrder.length, categories.length),
+    phase: "PICKING",
+    current: null,
+    deadline: null,
+  };
+};
+
+const getPickerUserId = (state: TriviaState): string =>
+  state.seatOrder[state.pickedCategoryIds.length % state.seatOrder.length];
+
+const getQuestion = (state: TriviaState, current: TriviaCurrentQuestion): TriviaQuestion | null =>
+  state.board[current.categoryId]?.find((item) => item.id === current.questionId) ?? null;
+
+const openPicking = (state: TriviaState, now: number): TriviaStep[] => {
+  if (state.pickedCategoryIds.length >= state.picksTotal) {
+    state.phase = "DONE";
+    state.current = null;
+    state.deadline = null;
+    return [{ kind: "DONE" }];
+  }
+  state.phase = "PICKING";
+  state.current = null;
+  state.deadline = now + TRIVIA_PICK_MS;
+  const options = state.categories
+    .filter((category) => !state.pickedCategoryIds.includes(category.id))
+    .map((category) => ({
+      ...category,
+      values: state.board[category.id].map((item) => TRIVIA_VALUES[item.level]),
+    }));
+  return [{ kind: "OPTIONS", pickerUserId: getPickerUserId(state), options, deadline: state.deadline }];
+};
+
+const showQuestion = (state: TriviaState, categoryId: string, questionIndex: number, now: number): TriviaStep[] => {
+  const question = state.board[categoryId][questionIndex];
+  const picker = getPickerUserId(state);
+  const start = state.seatOrder.indexOf(picker);
+  const turnOrder = state.seatOrder.map((_, i) => state.seatOrder[(start + i) % state.seatOrder.length]);
+  state.phase = "ANSWERING";
+  state.deadline = now + TRIVIA_ANSWER_MS;
+  state.current = {
+    categoryId,
+    questionId: question.id,
+    value: TRIVIA_VALUES[question.level],
+    turnOrder,
+    turn: 0,
+    turnStartedAt: now,
+    attempts: [],
+  };
+  return [
+    {
+      kind: "SHOWN",
+      question: toPublicQuestion(question),
+      value: state.current.value,
+      answeringUserId: turnOrder[0],
+      deadline: state.deadline,
+      timeLimitMs: TRIVIA_ANSWER_MS,
+    },
+  ];
+};
+
+const resolveQuestion = (state: TriviaState, winnerUserId: string | null, points: number, now: number): TriviaStep[] => {
+  const current = state.current!;
+  const question = getQuestion(state, current)!;
+  state.phase = "REVEAL";
+  state.deadline = now + TRIVIA_REVEAL_MS;
+  return [
+    {
+      kind: "RESOLVED",
+      questionId: current.questionId,
+      correctAnswerId: question.correctAnswerId,
+      winnerUserId,
+      pointsByUser: winnerUserId ? { [winnerUserId]: points } : {},
+      attempts: current.attempts,
+    },
+  ];
+};
+
+// Miss or timeout: hand the question to the next player in line, or resolve
+// with no winner once everyone has had a go.
+const passTurn = (state: TriviaState, reason: "WRONG" | "TIMEOUT", now: number): TriviaStep[] => {
+  const current = state.current!;
+  const fromUserId = current.turnOrder[current.turn];
+  if (current.turn + 1 >= current.turnOrder.length) {
+    return resolveQuestion(state, null, 0, now);
+  }
+  current.turn += 1;
+  current.turnStartedAt = now;
+  state.deadline = now + TRIVIA_ANSWER_MS;
+  return [
+    {
+      kind: "PASSED",
+      questionId: current.questionId,
+      fromUserId,
+      toUserId: current.turnOrder[current.turn],
+      reason,
+      deadline: state.deadline,
+    },
+  ];
+};
+
+export const startTrivia = (state: TriviaState, now: number): TriviaStep[] => openPicking(state, now);
+
+export const pickTriviaCategory = (state: TriviaState, userId: string, categoryId: string, now: number): TriviaResult => {
+  if (state.phase !== "PICKING") return { ok: false, error: "trivia_not_picking" };
+  if (getPickerUserId(state) !== userId) return { ok: false, error: "trivia_not_your_pick" };
+  if (!state.board[categoryId]) return { ok: false, error: "trivia_unknown_category" };
+  if (state.pickedCategoryIds.includes(categoryId)) return { ok: false, error: "trivia_category_taken" };
+  return { ok: true, steps: showQuestion(state, categoryId, 0, now) };
+};
+
+export const submitTriviaAnswer = (
+  state: TriviaState,
+  userId: string,
+  questionId: string,
+  answerId: string,
+  now: number
+): TriviaResult => {
+  const current = state.current;
+  if (state.phase !== "ANSWERING" || !current) return { ok: false, error: "trivia_not_answering" };
+  if (current.questionId !== questionId) return { ok: false, error: "trivia_question_mismatch" };
+  if (current.turnOrder[current.turn] !== userId) return { ok: false, error: "trivia_not_your_turn" };
+  const question = getQuestion(state, current);
+  if (!question) return { ok: false, error: "trivia_question_missing" };
+  if (!question.answers.some((answer) => answer.id === answerId)) return { ok: false, error: "trivia_unknown_answer" };
+
+  const correct = question.correctAnswerId === answerId;
+  current.attempts.push({ userId, answerId, correct, ts: now });
+  if (!correct) return { ok: true, steps: passTurn(state, "WRONG", now) };
+  const points = computeTriviaPoints(current.value, now - current.turnStartedAt);
+  return { ok: true, steps: resolveQuestion(state, userId, points, now) };
+};
+
+// Called once the active deadline has passed.
+export const expireTriviaDeadline = (state: TriviaState, now: number): TriviaStep[] => {
+  if (state.deadline === null || now < state.deadline) return [];
+  if (state.phase === "PICKING") {
+    const fallback = state.categories.find((category) => !state.pickedCategoryIds.includes(category.id));
+    if (!fallback) return openPicking(state, now);
+    return showQuestion(state, fallback.id, 0, now);
+  }
+  if (state.phase === "ANSWERING" && state.current) {
+    const current = state.current;
+    current.attempts.push({ userId: current.turnOrder[current.turn], answerId: null, correct: false, ts: now });
+    return passTurn(state, "TIMEOUT", now);
+  }
+  if (state.phase === "REVEAL" && state.current) {
+    const current = state.current;
+    const ladder = state.board[current.categoryId];
+    const index = ladder.findIndex((item) => item.id === current.questionId);
+    if (index + 1 < ladder.length) {
+      return showQuestion(state, current.categoryId, index + 1, now);
+    }
+    state.pickedCategoryIds.push(current.categoryId);
+    return openPicking(state, now);
+  }
+  return [];
+};
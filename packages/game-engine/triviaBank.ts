@@ -0,0 +1,81 @@
+import { z } from "zod";
+import type { TriviaCategory, TriviaPool, TriviaQuestion } from "./trivia";
+
+export const TRIVIA_BANK_FORMAT = "chkn-trivia-bank";
+export const TRIVIA_BANK_VERSION = 1;
+
+const LocalizedTextSchema = z.object({ sv: z.string().min(1), en: z.string().min(1) });
+
+const TriviaBankCategorySchema = z.object({
+  id: z.string().min(1),
+  label: LocalizedTextSchema,
+});
+
+const TriviaBankQuestionSchema = z.object({
+  id: z.string().min(1),
+  categoryId: z.string().min(1),
+  level: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4)]),
+  prompt: LocalizedTextSchema,
+  answers: z.array(z.object({ id: z.string().min(1), text: LocalizedTextSchema })).min(2).max(6),
+  correctAnswerId: z.string().min(1),
+  source: z.string().min(1),
+});
+
+export const TriviaBankSchema = z
+  .object({
+    format: z.literal(TRIVIA_BANK_FORMAT),
+    version: z.literal(TRIVIA_BANK_VERSION),
+    id: z.string().min(1),
+    categories: z.array(TriviaBankCategorySchema),
+    questions: z.array(TriviaBankQuestionSchema),
+  })
+  .superRefine((bank, ctx) => {
+    const categoryIds = new Set<string>();
+    bank.categories.forEach((category, index) => {
+      if (categoryIds.has(category.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["categories", index, "id"], message: "duplicate category id" });
+      }
+      categoryIds.add(category.id);
+    });
+    const questionIds = new Set<string>();
+    bank.questions.forEach((question, index) => {
+      const path = ["questions", index];
+      if (questionIds.has(question.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, "id"], message: "duplicate question id" });
+      }
+      questionIds.add(question.id);
+      if (!categoryIds.has(question.categoryId)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, "categoryId"], message: "unknown category" });
+      }
+      const answerIds = question.answers.map((answer) => answer.id);
+      if (new Set(answerIds).size !== answerIds.length) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, "answers"], message: "duplicate answer id" });
+      }
+      if (!answerIds.includes(question.correctAnswerId)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, "correctAnswerId"], message: "not one of the answers" });
+      }
+    });
+  });
+
+export type TriviaBank = z.infer<typeof TriviaBankSchema>;
+
+export const parseTriviaBank = (raw: unknown): { ok: true; bank: TriviaBank } | { ok: false; error: string } => {
+  const parsed = TriviaBankSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return { ok: false, error: `${issue.path.join(".") || "bank"}: ${issue.message}` };
+  }
+  return { ok: true, bank: parsed.data };
+};
+
+// Merges banks into one pool. Later banks win on id clashes so a local bank can
+// override a shipped question or category label.
+export const mergeTriviaBanks = (banks: TriviaBank[]): TriviaPool => {
+  const categories = new Map<string, TriviaCategory>();
+  const questions = new Map<string, TriviaQuestion>();
+  for (const bank of banks) {
+    for (const category of bank.categories) categories.set(category.id, category);
+    for (const question of bank.questions) questions.set(question.id, question);
+  }
+  return { categories: Array.from(categories.values()), questions: Array.from(questions.values()) };
+};
@@ -0,0 +1,45 @@
+import type { MatchPlayer } from "../shared/events";
+
+// The Yatzy game itself is played elsewhere; this stage only collects the
+// final scores, either submitted by each player or imported from the Yatzy API.
+export type YatzyState = {
+  userIds: string[];
+  submissions: Record<string, number>;
+  source: "SUBMIT" | "IMPORT" | null;
+};
+
+export type YatzyStep = { kind: "SCORED"; scores: Record<string, number> };
+
+export type YatzyResult = { ok: true; steps: YatzyStep[] } | { ok: false; error: string };
+
+// README: the Yatzy score times ten is the starting stack for the casino stages.
+export const YATZY_STACK_PER_POINT = 10;
+
+export const createYatzyState = (players: MatchPlayer[]): YatzyState => ({
+  userIds: players.map((p) => p.userId),
+  submissions: {},
+  source: null,
+});
+
+const scored = (state: YatzyState): YatzyStep => ({
+  kind: "SCORED",
+  scores: Object.fromEntries(state.userIds.map((id) => [id, state.submissions[id] ?? 0])),
+});
+
+// A player may correct their score until the last one is in.
+export const submitYatzyScore = (state: YatzyState, userId: string, score: number): YatzyResult => {
+  if (state.source) return { ok: false, error: "yatzy_already_scored" };
+  if (!state.userIds.includes(userId)) return { ok: false, error: "yatzy_player_missing" };
+  state.submissions[userId] = score;
+  if (!state.userIds.every((id) => id in state.submissions)) return { ok: true, steps: [] };
+  state.source = "SUBMIT";
+  return { ok: true, steps: [scored(state)] };
+};
+
+// Imported totals replace whatever was submitted by hand.
+export const importYatzyScores = (state: YatzyState, scores: Record<string, number>): YatzyResult => {
+  if (state.source) return { ok: false, error: "yatzy_already_scored" };
+  state.submissions = Object.fromEntries(state.userIds.map((id) => [id, scores[id] ?? 0]));
+  state.source = "IMPORT";
+  return { ok: true, steps: [scored(state)] };
+};
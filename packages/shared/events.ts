@@ -7,19 +7,61 @@ export type Stage =
   | "DICE"
   | "MUSIC"
   | "HOLDEM"
+  | "CHICKEN_RUN"
   | "RESULTS";
 
 export type MatchMode = "CHICKEN_RUN" | "FIVE_KAMP" | "BLACKJACK_ONLY";
 
 export type MatchStatus = "CREATED" | "RUNNING" | "COMPLETED" | "CANCELLED";
 
+export type BlackjackRulesPreset = "HOUSE" | "CLASSIC" | "SIX_FIVE";
+
+export type BlackjackRules = {
+  blackjackPayout: "1:1" | "6:5" | "3:2";
+  // H17 when true, S17 otherwise.
+  dealerHitsSoft17: boolean;
+  // Dealer checks for blackjack under an ace or ten before anyone acts.
+  dealerPeek: boolean;
+  // Insurance, and even money on a blackjack, when the dealer shows an ace.
+  insurance: boolean;
+  lateSurrender: boolean;
+  // Hands one spot may end up as; 1 = no split, 2 = no re-split.
+  maxSplitHands: number;
+  doubleAfterSplit: boolean;
+  // HOUSE: 17-19 lose a tie, 20 and 21 push, a blackjack always pays.
+  // PUSH: every tie pushes, blackjack against blackjack too.
+  tieRule: "HOUSE" | "PUSH";
+};
+
 export type Match = {
   id: string;
   mode: MatchMode;
   status: MatchStatus;
   createdAt: number;
+  // LOBBY, the stages in play order, then RESULTS. Missing on matches stored
+  // before plans existed (the mode's preset applies).
+  stagePlan?: Stage[];
+  // Missing on matches stored before rulesets existed (HOUSE applies).
+  blackjackRules?: BlackjackRules;
+  // Short code to join with; missing on matches stored before invites, which
+  // anyone with the id may join.
+  inviteCode?: string;
+  // Seats at the table, Sputnik included. Missing means MAX_PLAYERS.
+  maxPlayers?: number;
+  // Spux each human pays into the prize pool at the ready-check. Missing or 0:
+  // no buy-in.
+  buyIn?: number;
+  prizePayoutTable?: PrizePayoutTable;
 };
 
+// How the prize pool is split: all to the winner, 50/30/20 to the top three,
+// or in proportion to the final stacks.
+export type PrizePayoutTable = "WINNER_TAKES_ALL" | "TOP_3" | "PROPORTIONAL";
+
+export type PrizePayout = { userId: string; amount: number };
+
+export type SeatExpiryAction = "BOT" | "FORFEIT";
+
 export type MatchPlayer = {
   matchId: string;
   userId: string;
@@ -27,6 +69,10 @@ export type MatchPlayer = {
   stack: number;
   isConnected: boolean;
   isBot: boolean;
+  // A bot plays the seat: the player's reconnect window ran out or they quit.
+  botControlled?: boolean;
+  // Written off at RESULTS (SEAT_EXPIRY_ACTION=FORFEIT), no Spux either.
+  forfeited?: boolean;
 };
 
 export type StageState = {
@@ -45,27 +91,311 @@ export type LedgerEntry = {
   ts: number;
 };
 
+export type LocalizedText = { sv: string; en: string };
+
+export type TriviaPublicQuestion = {
+  id: string;
+  categoryId: string;
+  level: 1 | 2 | 3 | 4;
+  prompt: LocalizedText;
+  answers: Array<{ id: string; text: LocalizedText }>;
+};
+
+export type PlayingCard = { rank: string; suit: string };
+
+export type HoldemAction = "FOLD" | "CHECK" | "CALL" | "BET" | "RAISE";
+
+export type ChickenDare = { id: string; icon: string; label: LocalizedText; points: number };
+
+export type ChickenBetSide = "DOES_IT" | "CHICKENS_OUT";
+
+export type ChickenOutcome = "COMPLETED" | "FAILED" | "VOID";
+
+export type SpuxPayout = { reason: string; amount: number };
+
+export type MatchStanding = {
+  userId: string;
+  // 1-based, shared on equal stacks.
+  place: number;
+  stack: number;
+  // Net ledger delta per stage (YATZY, or LOBBY for a start stack, is where stacks come from).
+  byStage: Partial<Record<Stage, number>>;
+  yatzyScore: number | null;
+  spux: SpuxPayout[];
+  spuxTotal: number;
+};
+
+export type MatchResults = {
+  matchId: string;
+  mode: MatchMode;
+  standings: MatchStanding[];
+  yatzyHighScore: number;
+  completedAt: number;
+};
+
 export type ServerEvent =
   | { type: "MATCH_CREATED"; match: Match }
-  | { type: "MATCH_JOINED"; matchId: string; userId: string }
+  | { type: "MATCH_JOINED"; matchId: string; userId: string; isBot?: boolean; inviteId?: string }
+  | { type: "MATCH_INVITE"; matchId: string; inviteCode: string | null; token: string; seats: number; expiresAt: number }
+  | { type: "PLAYER_DISCONNECTED"; matchId: string; userId: string; reconnectDeadline: number | null; ts: number }
+  | { type: "PLAYER_RECONNECTED"; matchId: string; userId: string; ts: number }
+  | { type: "PLAYER_SEAT_EXPIRED"; matchId: string; userId: string; action: SeatExpiryAction; ts: number }
   | { type: "MATCH_LEFT"; matchId: string; userId: string }
   | { type: "READY_CHECK_STARTED"; matchId: string }
   | { type: "READY_CHECK_PASSED"; matchId: string }
   | { type: "YATZY_IMPORTED"; matchId: string; yatzyMatchId: string }
-  | { type: "YATZY_MATCH_SET"; matchId: string; yatzyMatchId: string }
-  | { type: "YATZY_MATCH_CREATED"; matchId: string; yatzyMatchId: string }
+  // `seats`: Yatzy seat (P1-P6) -> userId, bound in join order.
+  | { type: "YATZY_MATCH_SET"; matchId: string; yatzyMatchId: string; seats: Record<string, string> }
+  | { type: "YATZY_MATCH_CREATED"; matchId: string; yatzyMatchId: string; seats: Record<string, string> }
   | { type: "STAGE_STARTED"; matchId: string; stage: Stage; ts: number }
   | { type: "STAGE_COMPLETED"; matchId: string; stage: Stage; ts: number }
-  | { type: "BJ_ROUND_STARTED"; matchId: string; round: number; ts: number }
+  | { type: "BJ_ROUND_STARTED"; matchId: string; round: number; seedHash: string; ts: number }
   | { type: "BJ_HAND_STATE"; matchId: string; round: number; spot: number; userId: string; state: any }
+  | { type: "BJ_INSURANCE_OFFERED"; matchId: string; round: number; ts: number }
+  | {
+      type: "BJ_TIMER";
+      matchId: string;
+      round: number;
+      phase: "BETTING" | "INSURANCE" | "PLAYER_ACTION";
+      // By userId, only for players the table is waiting for.
+      deadlines: Record<string, number>;
+      ts: number;
+    }
+  | { type: "BJ_SIT_OUT"; matchId: string; round: number; userId: string; timeouts: number; sittingOut: boolean; ts: number }
+  | {
+      type: "BJ_SHOE_STATE";
+      matchId: string;
+      round: number;
+      shoe: number;
+      decks: number;
+      totalCards: number;
+      remaining: number;
+      cutCard: number;
+      seedHash: string;
+      reshuffled: boolean;
+      revealed: { shoe: number; seed: string; seedHash: string } | null;
+      ts: number;
+    }
   | { type: "BJ_ROUND_COMPLETED"; matchId: string; round: number; ts: number }
+  | {
+      type: "ROULETTE_OPEN";
+      matchId: string;
+      limits: Record<string, number>;
+      deadline: number | null;
+      seedHash: string;
+      ts: number;
+    }
+  | {
+      type: "ROULETTE_SPUN";
+      matchId: string;
+      pocket: number;
+      color: "RED" | "BLACK" | "GREEN";
+      seed: string;
+      seedHash: string;
+      ts: number;
+    }
+  | {
+      type: "ROULETTE_RESOLVED";
+      matchId: string;
+      pocket: number;
+      color: "RED" | "BLACK" | "GREEN";
+      results: Array<{ userId: string; color: "RED" | "BLACK"; bet: number; result: "WIN" | "LOSE"; delta: number }>;
+      seed: string;
+      seedHash: string;
+      ts: number;
+    }
+  | {
+      type: "TRIVIA_CATEGORY_OPTIONS";
+      matchId: string;
+      pickerUserId: string;
+      options: Array<{ id: string; label: LocalizedText; values: number[] }>;
+      deadline: number;
+      ts: number;
+    }
+  | {
+      type: "TRIVIA_QUESTION_SHOWN";
+      matchId: string;
+      question: TriviaPublicQuestion;
+      value: number;
+      answeringUserId: string;
+      timeLimitMs: number;
+      deadline: number;
+      ts: number;
+    }
+  | {
+      type: "TRIVIA_TURN_PASSED";
+      matchId: string;
+      questionId: string;
+      fromUserId: string;
+      toUserId: string;
+      reason: "WRONG" | "TIMEOUT";
+      deadline: number;
+      ts: number;
+    }
+  | {
+      type: "TRIVIA_QUESTION_RESOLVED";
+      matchId: string;
+      questionId: string;
+      correctAnswerId: string;
+      winnerUserId: string | null;
+      pointsByUser: Record<string, number>;
+      attempts: Array<{ userId: string; answerId: string | null; correct: boolean; ts: number }>;
+      ts: number;
+    }
+  | {
+      type: "DICE_FIRST_ROLL";
+      matchId: string;
+      value: number;
+      maxBets: Record<string, number>;
+      deadline: number | null;
+      seedHash: string;
+      ts: number;
+    }
+  | {
+      type: "DICE_ROLL_RESOLVED";
+      matchId: string;
+      firstDie: number;
+      secondDie: number;
+      results: Array<{
+        userId: string;
+        choice: "HIGHER" | "LOWER";
+        bet: number;
+        result: "WIN" | "LOSE" | "PUSH";
+        delta: number;
+      }>;
+      seed: string;
+      seedHash: string;
+      ts: number;
+    }
+  | {
+      type: "HOLDEM_HAND_STARTED";
+      matchId: string;
+      handId: number;
+      level: number;
+      sb: number;
+      bb: number;
+      buttonUserId: string;
+      sbUserId: string;
+      bbUserId: string;
+      posted: Record<string, number>;
+      stacks: Record<string, number>;
+      ts: number;
+    }
+  | { type: "HOLDEM_HOLE_CARDS"; matchId: string; handId: number; userId: string; cards: PlayingCard[]; ts: number }
+  | {
+      type: "HOLDEM_ACTION_REQUIRED";
+      matchId: string;
+      handId: number;
+      userId: string;
+      toCall: number;
+      minRaiseTo: number;
+      maxRaiseTo: number;
+      deadline: number;
+      ts: number;
+    }
+  | {
+      type: "HOLDEM_ACTION_APPLIED";
+      matchId: string;
+      handId: number;
+      userId: string;
+      action: HoldemAction;
+      streetBet: number;
+      stack: number;
+      allIn: boolean;
+      pot: number;
+      auto: boolean;
+      ts: number;
+    }
+  | { type: "HOLDEM_STREET_DEALT"; matchId: string; handId: number; street: "FLOP" | "TURN" | "RIVER"; board: PlayingCard[]; ts: number }
+  | {
+      type: "HOLDEM_HAND_COMPLETED";
+      matchId: string;
+      handId: number;
+      board: PlayingCard[];
+      pots: Array<{ amount: number; eligibleUserIds: string[]; winnerUserIds: string[] }>;
+      showdown: Array<{ userId: string; cards: PlayingCard[]; category: string }>;
+      deltasByUser: Record<string, number>;
+      eliminatedUserIds: string[];
+      ts: number;
+    }
+  | { type: "HOLDEM_ORBIT_COMPLETED"; matchId: string; level: number; sb: number; bb: number; ts: number }
+  | { type: "MUSIC_PLAYLIST_UPDATED"; matchId: string; trackCount: number }
+  | {
+      type: "MUSIC_CLIP_SHOWN";
+      matchId: string;
+      round: number;
+      roundsTotal: number;
+      clip: { mediaId: string; url: string; mimeType: string | null; clipStartMs: number; durationMs: number };
+      startAt: number;
+      deadline: number;
+      ts: number;
+    }
+  | {
+      type: "MUSIC_GUESS_RESULT";
+      matchId: string;
+      round: number;
+      userId: string;
+      matched: Array<"title" | "artist">;
+      found: Array<"title" | "artist">;
+      points: number;
+      ts: number;
+    }
+  | {
+      type: "MUSIC_ROUND_RESOLVED";
+      matchId: string;
+      round: number;
+      title: string;
+      artist: string;
+      pointsByUser: Record<string, number>;
+      ts: number;
+    }
+  | {
+      type: "CHICKEN_ROUND_STARTED";
+      matchId: string;
+      round: number;
+      roundsTotal: number;
+      performerUserId: string;
+      options: ChickenDare[];
+      deadline: number;
+      ts: number;
+    }
+  | { type: "CHICKEN_DARE_CHOSEN"; matchId: string; round: number; performerUserId: string; dare: ChickenDare; deadline: number; ts: number }
+  | { type: "CHICKEN_BET_ACCEPTED"; matchId: string; round: number; userId: string; side: ChickenBetSide | null; amount: number; ts: number }
+  | { type: "CHICKEN_PERFORMING"; matchId: string; round: number; performerUserId: string; deadline: number; ts: number }
+  | { type: "CHICKEN_VOTING_OPEN"; matchId: string; round: number; deadline: number; ts: number }
+  | { type: "CHICKEN_VOTE_RECORDED"; matchId: string; round: number; userId: string; ts: number }
+  | {
+      type: "CHICKEN_ROUND_SETTLED";
+      matchId: string;
+      round: number;
+      performerUserId: string;
+      dareId: string;
+      outcome: ChickenOutcome;
+      votes: { yes: number; no: number };
+      deltasByUser: Record<string, number>;
+      bonus: number;
+      ts: number;
+    }
   | { type: "LEDGER_ENTRY_APPLIED"; entry: LedgerEntry }
   | { type: "STACK_UPDATED"; matchId: string; userId: string; stack: number }
-  | { type: "MATCH_COMPLETED"; matchId: string };
+  | { type: "MATCH_COMPLETED"; matchId: string; results: MatchResults; ts: number }
+  | { type: "MATCH_CANCELLED"; matchId: string; ts: number }
+  | { type: "MATCH_PAYOUTS"; matchId: string; pot: number; payouts: PrizePayout[]; refunded: boolean };
 
 export type ClientEvent =
-  | { type: "MATCH_CREATE"; mode: MatchMode }
-  | { type: "MATCH_JOIN"; matchId: string }
+  | {
+      type: "MATCH_CREATE";
+      mode: MatchMode;
+      stages?: Stage[];
+      intermissions?: boolean;
+      blackjackRules?: Partial<BlackjackRules> & { preset?: BlackjackRulesPreset };
+      maxPlayers?: number;
+      buyIn?: number;
+      prizePayoutTable?: PrizePayoutTable;
+    }
+  | { type: "MATCH_CANCEL"; matchId: string }
+  | { type: "MATCH_JOIN"; matchId: string; inviteCode?: string; inviteToken?: string }
+  | { type: "MATCH_INVITE_CREATE"; matchId: string; seats?: number; ttlSeconds?: number }
   | { type: "MATCH_LEAVE"; matchId: string }
   | { type: "READY_CHECK_CONFIRM"; matchId: string }
   | { type: "YATZY_SUBMIT"; matchId: string; score: number }
@@ -73,10 +403,28 @@ export type ClientEvent =
   | { type: "YATZY_MATCH_SET"; matchId: string; yatzyMatchId: string }
   | { type: "YATZY_CREATE"; matchId: string }
   | { type: "BJ_BET_PLACED"; matchId: string; round: number; spots: number[]; bet: number; sideBets?: Array<{ spot: number; choice: "UNDER" | "OVER" }> }
-  | { type: "BJ_HAND_ACTION"; matchId: string; round: number; spot: number; action: "HIT" | "STAND" | "DOUBLE" | "SPLIT"; handIndex?: number }
+  | {
+      type: "BJ_HAND_ACTION";
+      matchId: string;
+      round: number;
+      spot: number;
+      action: "HIT" | "STAND" | "DOUBLE" | "SPLIT" | "SURRENDER" | "INSURANCE" | "EVEN_MONEY" | "NO_INSURANCE";
+      handIndex?: number;
+    }
+  | { type: "BJ_SIT_OUT"; matchId: string; sittingOut: boolean }
   | { type: "ROULETTE_BET_PLACED"; matchId: string; color: "RED" | "BLACK"; bet: number }
+  | { type: "ROULETTE_SKIP"; matchId: string }
   | { type: "TRIVIA_CATEGORY_PICKED"; matchId: string; categoryId: string }
   | { type: "TRIVIA_ANSWER_SUBMITTED"; matchId: string; questionId: string; answerId: string }
   | { type: "DICE_BET_PLACED"; matchId: string; choice: "HIGHER" | "LOWER"; bet: number }
+  | {
+      type: "MUSIC_PLAYLIST_SET";
+      matchId: string;
+      tracks: Array<{ mediaId: string; title: string; artist: string; clipStartMs?: number }>;
+    }
   | { type: "MUSIC_GUESS_SUBMITTED"; matchId: string; round: number; guess: string }
-  | { type: "HOLDEM_ACTION_SUBMITTED"; matchId: string; action: "FOLD" | "CHECK" | "CALL" | "BET" | "RAISE"; amount?: number };
+  | { type: "HOLDEM_ACTION_SUBMITTED"; matchId: string; action: HoldemAction; amount?: number }
+  | { type: "CHICKEN_DARE_PICKED"; matchId: string; dareId: string }
+  | { type: "CHICKEN_BET_PLACED"; matchId: string; round: number; side: ChickenBetSide; amount: number }
+  | { type: "CHICKEN_DARE_FINISHED"; matchId: string; round: number }
+  | { type: "CHICKEN_VOTE_CAST"; matchId: string; round: number; completed: boolean };
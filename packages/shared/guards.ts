@@ -3,19 +3,20 @@ import type { ClientEvent, MatchStatus, Stage } from "./events";
 export type ClientEventType = ClientEvent["type"];
 
 export const allowedClientEventsByStage: Record<Stage, ClientEventType[]> = {
-  LOBBY: ["MATCH_CREATE", "MATCH_JOIN", "MATCH_LEAVE", "READY_CHECK_CONFIRM"],
+  LOBBY: ["MATCH_CREATE", "MATCH_JOIN", "MATCH_INVITE_CREATE", "MATCH_CANCEL", "MATCH_LEAVE", "READY_CHECK_CONFIRM", "MUSIC_PLAYLIST_SET"],
   YATZY: ["YATZY_SUBMIT", "YATZY_IMPORT", "YATZY_MATCH_SET", "YATZY_CREATE"],
-  BLACKJACK: ["BJ_BET_PLACED", "BJ_HAND_ACTION"],
-  ROULETTE: ["ROULETTE_BET_PLACED"],
+  BLACKJACK: ["BJ_BET_PLACED", "BJ_HAND_ACTION", "BJ_SIT_OUT"],
+  ROULETTE: ["ROULETTE_BET_PLACED", "ROULETTE_SKIP"],
   TRIVIA: ["TRIVIA_CATEGORY_PICKED", "TRIVIA_ANSWER_SUBMITTED"],
   DICE: ["DICE_BET_PLACED"],
   MUSIC: ["MUSIC_GUESS_SUBMITTED"],
   HOLDEM: ["HOLDEM_ACTION_SUBMITTED"],
+  CHICKEN_RUN: ["CHICKEN_DARE_PICKED", "CHICKEN_BET_PLACED", "CHICKEN_DARE_FINISHED", "CHICKEN_VOTE_CAST"],
   RESULTS: [],
 };
 
 export const allowedClientEventsByStatus: Record<MatchStatus, ClientEventType[]> = {
-  CREATED: ["MATCH_CREATE", "MATCH_JOIN", "MATCH_LEAVE", "READY_CHECK_CONFIRM"],
+  CREATED: ["MATCH_CREATE", "MATCH_JOIN", "MATCH_INVITE_CREATE", "MATCH_CANCEL", "MATCH_LEAVE", "READY_CHECK_CONFIRM", "MUSIC_PLAYLIST_SET"],
   RUNNING: [
     "YATZY_SUBMIT",
     "YATZY_IMPORT",
@@ -23,23 +24,32 @@ export const allowedClientEventsByStatus: Record<MatchStatus, ClientEventType[]>
     "YATZY_CREATE",
     "BJ_BET_PLACED",
     "BJ_HAND_ACTION",
+    "BJ_SIT_OUT",
     "ROULETTE_BET_PLACED",
+    "ROULETTE_SKIP",
     "TRIVIA_CATEGORY_PICKED",
     "TRIVIA_ANSWER_SUBMITTED",
     "DICE_BET_PLACED",
     "MUSIC_GUESS_SUBMITTED",
     "HOLDEM_ACTION_SUBMITTED",
+    "CHICKEN_DARE_PICKED",
+    "CHICKEN_BET_PLACED",
+    "CHICKEN_DARE_FINISHED",
+    "CHICKEN_VOTE_CAST",
   ],
   COMPLETED: [],
   CANCELLED: [],
 };
 
+// `stagePlan` is the match's own plan; a stage outside it never accepts events.
 export const isClientEventAllowed = (params: {
   event: ClientEvent;
   stage: Stage;
   status: MatchStatus;
+  stagePlan?: Stage[];
 }): boolean => {
-  const { event, stage, status } = params;
+  const { event, stage, status, stagePlan } = params;
+  if (stagePlan && !stagePlan.includes(stage)) return false;
   const byStage = allowedClientEventsByStage[stage].includes(event.type);
   const byStatus = allowedClientEventsByStatus[status].includes(event.type);
   return byStage && byStatus;
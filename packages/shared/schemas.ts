@@ -9,19 +9,41 @@ export const StageSchema = z.enum([
   "DICE",
   "MUSIC",
   "HOLDEM",
+  "CHICKEN_RUN",
   "RESULTS",
 ]);
 
 export const MatchModeSchema = z.enum(["CHICKEN_RUN", "FIVE_KAMP", "BLACKJACK_ONLY"]);
 export const MatchStatusSchema = z.enum(["CREATED", "RUNNING", "COMPLETED", "CANCELLED"]);
 
+export const BlackjackRulesPresetSchema = z.enum(["HOUSE", "CLASSIC", "SIX_FIVE"]);
+
+export const BlackjackRulesSchema = z.object({
+  blackjackPayout: z.enum(["1:1", "6:5", "3:2"]),
+  dealerHitsSoft17: z.boolean(),
+  dealerPeek: z.boolean(),
+  insurance: z.boolean(),
+  lateSurrender: z.boolean(),
+  maxSplitHands: z.number().int().min(1).max(4),
+  doubleAfterSplit: z.boolean(),
+  tieRule: z.enum(["HOUSE", "PUSH"]),
+});
+
 export const MatchSchema = z.object({
   id: z.string(),
   mode: MatchModeSchema,
   status: MatchStatusSchema,
   createdAt: z.number(),
+  stagePlan: z.array(StageSchema).optional(),
+  blackjackRules: BlackjackRulesSchema.optional(),
+  inviteCode: z.string().optional(),
+  maxPlayers: z.number().int().optional(),
+  buyIn: z.number().int().optional(),
+  prizePayoutTable: z.enum(["WINNER_TAKES_ALL", "TOP_3", "PROPORTIONAL"]).optional(),
 });
 
+export const PrizePayoutSchema = z.object({ userId: z.string(), amount: z.number().int() });
+
 export const MatchPlayerSchema = z.object({
   matchId: z.string(),
   userId: z.string(),
@@ -29,6 +51,8 @@ export const MatchPlayerSchema = z.object({
   stack: z.number().int(),
   isConnected: z.boolean(),
   isBot: z.boolean(),
+  botControlled: z.boolean().optional(),
+  forfeited: z.boolean().optional(),
 });
 
 export const StageStateSchema = z.object({
@@ -47,28 +71,466 @@ export const LedgerEntrySchema = z.object({
   ts: z.number(),
 });
 
+export const LocalizedTextSchema = z.object({ sv: z.string(), en: z.string() });
+
+export const TriviaPublicQuestionSchema = z.object({
+  id: z.string(),
+  categoryId: z.string(),
+  level: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4)]),
+  prompt: LocalizedTextSchema,
+  answers: z.array(z.object({ id: z.string(), text: LocalizedTextSchema })).min(2),
+});
+
+export const RoulettePocketColorSchema = z.enum(["RED", "BLACK", "GREEN"]);
+
+export const PlayingCardSchema = z.object({ rank: z.string(), suit: z.string() });
+
+export const MusicPartSchema = z.enum(["title", "artist"]);
+
+export const HoldemActionSchema = z.enum(["FOLD", "CHECK", "CALL", "BET", "RAISE"]);
+
+export const ChickenDareSchema = z.object({
+  id: z.string(),
+  icon: z.string(),
+  label: LocalizedTextSchema,
+  points: z.number().int(),
+});
+
+export const ChickenBetSideSchema = z.enum(["DOES_IT", "CHICKENS_OUT"]);
+
+export const ChickenOutcomeSchema = z.enum(["COMPLETED", "FAILED", "VOID"]);
+
+export const SpuxPayoutSchema = z.object({ reason: z.string(), amount: z.number().int() });
+
+export const MatchStandingSchema = z.object({
+  userId: z.string(),
+  place: z.number().int().min(1),
+  stack: z.number().int(),
+  byStage: z.record(z.number().int()),
+  yatzyScore: z.number().int().nullable(),
+  spux: z.array(SpuxPayoutSchema),
+  spuxTotal: z.number().int(),
+});
+
+export const MatchResultsSchema = z.object({
+  matchId: z.string(),
+  mode: MatchModeSchema,
+  standings: z.array(MatchStandingSchema),
+  yatzyHighScore: z.number().int(),
+  completedAt: z.number(),
+});
+
 export const ServerEventSchema = z.discriminatedUnion("type", [
   z.object({ type: z.literal("MATCH_CREATED"), match: MatchSchema }),
-  z.object({ type: z.literal("MATCH_JOINED"), matchId: z.string(), userId: z.string() }),
+  z.object({
+    type: z.literal("MATCH_JOINED"),
+    matchId: z.string(),
+    userId: z.string(),
+    isBot: z.boolean().optional(),
+    inviteId: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("MATCH_INVITE"),
+    matchId: z.string(),
+    inviteCode: z.string().nullable(),
+    token: z.string(),
+    seats: z.number().int(),
+    expiresAt: z.number(),
+  }),
+  z.object({
+    type: z.literal("PLAYER_DISCONNECTED"),
+    matchId: z.string(),
+    userId: z.string(),
+    reconnectDeadline: z.number().nullable(),
+    ts: z.number(),
+  }),
+  z.object({ type: z.literal("PLAYER_RECONNECTED"), matchId: z.string(), userId: z.string(), ts: z.number() }),
+  z.object({
+    type: z.literal("PLAYER_SEAT_EXPIRED"),
+    matchId: z.string(),
+    userId: z.string(),
+    action: z.enum(["BOT", "FORFEIT"]),
+    ts: z.number(),
+  }),
   z.object({ type: z.literal("MATCH_LEFT"), matchId: z.string(), userId: z.string() }),
   z.object({ type: z.literal("READY_CHECK_STARTED"), matchId: z.string() }),
   z.object({ type: z.literal("READY_CHECK_PASSED"), matchId: z.string() }),
   z.object({ type: z.literal("YATZY_IMPORTED"), matchId: z.string(), yatzyMatchId: z.string() }),
-  z.object({ type: z.literal("YATZY_MATCH_SET"), matchId: z.string(), yatzyMatchId: z.string() }),
-  z.object({ type: z.literal("YATZY_MATCH_CREATED"), matchId: z.string(), yatzyMatchId: z.string() }),
+  z.object({
+    type: z.literal("YATZY_MATCH_SET"),
+    matchId: z.string(),
+    yatzyMatchId: z.string(),
+    seats: z.record(z.string()),
+  }),
+  z.object({
+    type: z.literal("YATZY_MATCH_CREATED"),
+    matchId: z.string(),
+    yatzyMatchId: z.string(),
+    seats: z.record(z.string()),
+  }),
   z.object({ type: z.literal("STAGE_STARTED"), matchId: z.string(), stage: StageSchema, ts: z.number() }),
   z.object({ type: z.literal("STAGE_COMPLETED"), matchId: z.string(), stage: StageSchema, ts: z.number() }),
-  z.object({ type: z.literal("BJ_ROUND_STARTED"), matchId: z.string(), round: z.number().int(), ts: z.number() }),
+  z.object({
+    type: z.literal("BJ_ROUND_STARTED"),
+    matchId: z.string(),
+    round: z.number().int(),
+    seedHash: z.string(),
+    ts: z.number(),
+  }),
   z.object({ type: z.literal("BJ_HAND_STATE"), matchId: z.string(), round: z.number().int(), spot: z.number().int(), userId: z.string(), state: z.unknown() }),
+  z.object({ type: z.literal("BJ_INSURANCE_OFFERED"), matchId: z.string(), round: z.number().int(), ts: z.number() }),
+  z.object({
+    type: z.literal("BJ_TIMER"),
+    matchId: z.string(),
+    round: z.number().int(),
+    phase: z.enum(["BETTING", "INSURANCE", "PLAYER_ACTION"]),
+    deadlines: z.record(z.number()),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("BJ_SIT_OUT"),
+    matchId: z.string(),
+    round: z.number().int(),
+    userId: z.string(),
+    timeouts: z.number().int(),
+    sittingOut: z.boolean(),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("BJ_SHOE_STATE"),
+    matchId: z.string(),
+    round: z.number().int(),
+    shoe: z.number().int(),
+    decks: z.number().int().min(1).max(8),
+    totalCards: z.number().int(),
+    remaining: z.number().int(),
+    cutCard: z.number().int(),
+    seedHash: z.string(),
+    reshuffled: z.boolean(),
+    revealed: z.object({ shoe: z.number().int(), seed: z.string(), seedHash: z.string() }).nullable(),
+    ts: z.number(),
+  }),
   z.object({ type: z.literal("BJ_ROUND_COMPLETED"), matchId: z.string(), round: z.number().int(), ts: z.number() }),
+  z.object({
+    type: z.literal("ROULETTE_OPEN"),
+    matchId: z.string(),
+    limits: z.record(z.number().int()),
+    deadline: z.number().nullable(),
+    seedHash: z.string(),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("ROULETTE_SPUN"),
+    matchId: z.string(),
+    pocket: z.number().int().min(0).max(36),
+    color: RoulettePocketColorSchema,
+    seed: z.string(),
+    seedHash: z.string(),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("ROULETTE_RESOLVED"),
+    matchId: z.string(),
+    pocket: z.number().int().min(0).max(36),
+    color: RoulettePocketColorSchema,
+    results: z.array(
+      z.object({
+        userId: z.string(),
+        color: z.enum(["RED", "BLACK"]),
+        bet: z.number().int(),
+        result: z.enum(["WIN", "LOSE"]),
+        delta: z.number().int(),
+      })
+    ),
+    seed: z.string(),
+    seedHash: z.string(),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("TRIVIA_CATEGORY_OPTIONS"),
+    matchId: z.string(),
+    pickerUserId: z.string(),
+    options: z.array(z.object({ id: z.string(), label: LocalizedTextSchema, values: z.array(z.number().int()) })),
+    deadline: z.number(),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("TRIVIA_QUESTION_SHOWN"),
+    matchId: z.string(),
+    question: TriviaPublicQuestionSchema,
+    value: z.number().int(),
+    answeringUserId: z.string(),
+    timeLimitMs: z.number().int(),
+    deadline: z.number(),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("TRIVIA_TURN_PASSED"),
+    matchId: z.string(),
+    questionId: z.string(),
+    fromUserId: z.string(),
+    toUserId: z.string(),
+    reason: z.enum(["WRONG", "TIMEOUT"]),
+    deadline: z.number(),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("TRIVIA_QUESTION_RESOLVED"),
+    matchId: z.string(),
+    questionId: z.string(),
+    correctAnswerId: z.string(),
+    winnerUserId: z.string().nullable(),
+    pointsByUser: z.record(z.number().int()),
+    attempts: z.array(
+      z.object({ userId: z.string(), answerId: z.string().nullable(), correct: z.boolean(), ts: z.number() })
+    ),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("DICE_FIRST_ROLL"),
+    matchId: z.string(),
+    value: z.number().int().min(1).max(6),
+    maxBets: z.record(z.number().int()),
+    deadline: z.number().nullable(),
+    seedHash: z.string(),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("DICE_ROLL_RESOLVED"),
+    matchId: z.string(),
+    firstDie: z.number().int().min(1).max(6),
+    secondDie: z.number().int().min(1).max(6),
+    results: z.array(
+      z.object({
+        userId: z.string(),
+        choice: z.enum(["HIGHER", "LOWER"]),
+        bet: z.number().int(),
+        result: z.enum(["WIN", "LOSE", "PUSH"]),
+        delta: z.number().int(),
+      })
+    ),
+    seed: z.string(),
+    seedHash: z.string(),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("HOLDEM_HAND_STARTED"),
+    matchId: z.string(),
+    handId: z.number().int(),
+    level: z.number().int(),
+    sb: z.number().int(),
+    bb: z.number().int(),
+    buttonUserId: z.string(),
+    sbUserId: z.string(),
+    bbUserId: z.string(),
+    posted: z.record(z.number().int()),
+    stacks: z.record(z.number().int()),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("HOLDEM_HOLE_CARDS"),
+    matchId: z.string(),
+    handId: z.number().int(),
+    userId: z.string(),
+    cards: z.array(PlayingCardSchema).length(2),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("HOLDEM_ACTION_REQUIRED"),
+    matchId: z.string(),
+    handId: z.number().int(),
+    userId: z.string(),
+    toCall: z.number().int(),
+    minRaiseTo: z.number().int(),
+    maxRaiseTo: z.number().int(),
+    deadline: z.number(),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("HOLDEM_ACTION_APPLIED"),
+    matchId: z.string(),
+    handId: z.number().int(),
+    userId: z.string(),
+    action: HoldemActionSchema,
+    streetBet: z.number().int(),
+    stack: z.number().int(),
+    allIn: z.boolean(),
+    pot: z.number().int(),
+    auto: z.boolean(),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("HOLDEM_STREET_DEALT"),
+    matchId: z.string(),
+    handId: z.number().int(),
+    street: z.enum(["FLOP", "TURN", "RIVER"]),
+    board: z.array(PlayingCardSchema).max(5),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("HOLDEM_HAND_COMPLETED"),
+    matchId: z.string(),
+    handId: z.number().int(),
+    board: z.array(PlayingCardSchema).max(5),
+    pots: z.array(
+      z.object({ amount: z.number().int(), eligibleUserIds: z.array(z.string()), winnerUserIds: z.array(z.string()) })
+    ),
+    showdown: z.array(z.object({ userId: z.string(), cards: z.array(PlayingCardSchema), category: z.string() })),
+    deltasByUser: z.record(z.number().int()),
+    eliminatedUserIds: z.array(z.string()),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("HOLDEM_ORBIT_COMPLETED"),
+    matchId: z.string(),
+    level: z.number().int(),
+    sb: z.number().int(),
+    bb: z.number().int(),
+    ts: z.number(),
+  }),
+  z.object({ type: z.literal("MUSIC_PLAYLIST_UPDATED"), matchId: z.string(), trackCount: z.number().int().min(0) }),
+  z.object({
+    type: z.literal("MUSIC_CLIP_SHOWN"),
+    matchId: z.string(),
+    round: z.number().int().min(1).max(5),
+    roundsTotal: z.number().int().min(1).max(5),
+    clip: z.object({
+      mediaId: z.string(),
+      url: z.string(),
+      mimeType: z.string().nullable(),
+      clipStartMs: z.number().int().min(0),
+      durationMs: z.number().int(),
+    }),
+    startAt: z.number(),
+    deadline: z.number(),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("MUSIC_GUESS_RESULT"),
+    matchId: z.string(),
+    round: z.number().int().min(1).max(5),
+    userId: z.string(),
+    matched: z.array(MusicPartSchema),
+    found: z.array(MusicPartSchema),
+    points: z.number().int(),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("MUSIC_ROUND_RESOLVED"),
+    matchId: z.string(),
+    round: z.number().int().min(1).max(5),
+    title: z.string(),
+    artist: z.string(),
+    pointsByUser: z.record(z.number().int()),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("CHICKEN_ROUND_STARTED"),
+    matchId: z.string(),
+    round: z.number().int().min(1),
+    roundsTotal: z.number().int().min(1),
+    performerUserId: z.string(),
+    options: z.array(ChickenDareSchema).min(1),
+    deadline: z.number(),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("CHICKEN_DARE_CHOSEN"),
+    matchId: z.string(),
+    round: z.number().int().min(1),
+    performerUserId: z.string(),
+    dare: ChickenDareSchema,
+    deadline: z.number(),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("CHICKEN_BET_ACCEPTED"),
+    matchId: z.string(),
+    round: z.number().int().min(1),
+    userId: z.string(),
+    side: ChickenBetSideSchema.nullable(),
+    amount: z.number().int().min(0),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("CHICKEN_PERFORMING"),
+    matchId: z.string(),
+    round: z.number().int().min(1),
+    performerUserId: z.string(),
+    deadline: z.number(),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("CHICKEN_VOTING_OPEN"),
+    matchId: z.string(),
+    round: z.number().int().min(1),
+    deadline: z.number(),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("CHICKEN_VOTE_RECORDED"),
+    matchId: z.string(),
+    round: z.number().int().min(1),
+    userId: z.string(),
+    ts: z.number(),
+  }),
+  z.object({
+    type: z.literal("CHICKEN_ROUND_SETTLED"),
+    matchId: z.string(),
+    round: z.number().int().min(1),
+    performerUserId: z.string(),
+    dareId: z.string(),
+    outcome: ChickenOutcomeSchema,
+    votes: z.object({ yes: z.number().int().min(0), no: z.number().int().min(0) }),
+    deltasByUser: z.record(z.number().int()),
+    bonus: z.number().int().min(0),
+    ts: z.number(),
+  }),
   z.object({ type: z.literal("LEDGER_ENTRY_APPLIED"), entry: LedgerEntrySchema }),
   z.object({ type: z.literal("STACK_UPDATED"), matchId: z.string(), userId: z.string(), stack: z.number().int() }),
-  z.object({ type: z.literal("MATCH_COMPLETED"), matchId: z.string() }),
+  z.object({ type: z.literal("MATCH_COMPLETED"), matchId: z.string(), results: MatchResultsSchema, ts: z.number() }),
+  z.object({ type: z.literal("MATCH_CANCELLED"), matchId: z.string(), ts: z.number() }),
+  z.object({
+    type: z.literal("MATCH_PAYOUTS"),
+    matchId: z.string(),
+    pot: z.number().int(),
+    payouts: z.array(PrizePayoutSchema),
+    refunded: z.boolean(),
+  }),
 ]);
 
 export const ClientEventSchema = z.discriminatedUnion("type", [
-  z.object({ type: z.literal("MATCH_CREATE"), mode: MatchModeSchema }),
-  z.object({ type: z.literal("MATCH_JOIN"), matchId: z.string() }),
+  z.object({
+    type: z.literal("MATCH_CREATE"),
+    mode: MatchModeSchema,
+    // Host-custom play order (without LOBBY/RESULTS), replaces the mode's preset.
+    stages: z.array(StageSchema).min(1).max(12).optional(),
+    intermissions: z.boolean().optional(),
+    // A preset, optionally with single rules overridden.
+    blackjackRules: BlackjackRulesSchema.partial()
+      .extend({ preset: BlackjackRulesPresetSchema.optional() })
+      .strict()
+      .optional(),
+    // Sputnik takes a seat too when a lone human readies up.
+    maxPlayers: z.number().int().min(2).max(6).optional(),
+    buyIn: z.number().int().min(0).max(1_000_000).optional(),
+    prizePayoutTable: z.enum(["WINNER_TAKES_ALL", "TOP_3", "PROPORTIONAL"]).optional(),
+  }),
+  // Host only, before the match starts. Every buy-in goes back.
+  z.object({ type: z.literal("MATCH_CANCEL"), matchId: z.string() }),
+  z.object({
+    type: z.literal("MATCH_JOIN"),
+    matchId: z.string(),
+    inviteCode: z.string().max(16).optional(),
+    inviteToken: z.string().max(2048).optional(),
+  }),
+  // Host only: a signed invite link for `seats` players (default: the free seats).
+  z.object({
+    type: z.literal("MATCH_INVITE_CREATE"),
+    matchId: z.string(),
+    seats: z.number().int().min(1).max(6).optional(),
+    ttlSeconds: z.number().int().min(60).max(7 * 24 * 60 * 60).optional(),
+  }),
   z.object({ type: z.literal("MATCH_LEAVE"), matchId: z.string() }),
   z.object({ type: z.literal("READY_CHECK_CONFIRM"), matchId: z.string() }),
   z.object({ type: z.literal("YATZY_SUBMIT"), matchId: z.string(), score: z.number().int().min(0) }),
@@ -88,15 +550,17 @@ export const ClientEventSchema = z.discriminatedUnion("type", [
     matchId: z.string(),
     round: z.number().int().min(1).max(10),
     spot: z.number().int().min(1).max(7),
-    action: z.enum(["HIT", "STAND", "DOUBLE", "SPLIT"]),
+    action: z.enum(["HIT", "STAND", "DOUBLE", "SPLIT", "SURRENDER", "INSURANCE", "EVEN_MONEY", "NO_INSURANCE"]),
     handIndex: z.number().int().min(0).max(13).optional(),
   }),
+  z.object({ type: z.literal("BJ_SIT_OUT"), matchId: z.string(), sittingOut: z.boolean() }),
   z.object({
     type: z.literal("ROULETTE_BET_PLACED"),
     matchId: z.string(),
     color: z.enum(["RED", "BLACK"]),
     bet: z.number().int().min(1),
   }),
+  z.object({ type: z.literal("ROULETTE_SKIP"), matchId: z.string() }),
   z.object({
     type: z.literal("TRIVIA_CATEGORY_PICKED"),
     matchId: z.string(),
@@ -114,18 +578,48 @@ export const ClientEventSchema = z.discriminatedUnion("type", [
     choice: z.enum(["HIGHER", "LOWER"]),
     bet: z.number().int().min(1),
   }),
+  z.object({
+    type: z.literal("MUSIC_PLAYLIST_SET"),
+    matchId: z.string(),
+    tracks: z
+      .array(
+        z.object({
+          mediaId: z.string().min(1),
+          title: z.string().trim().min(1).max(140),
+          artist: z.string().trim().min(1).max(140),
+          clipStartMs: z.number().int().min(0).optional(),
+        })
+      )
+      .max(50),
+  }),
   z.object({
     type: z.literal("MUSIC_GUESS_SUBMITTED"),
     matchId: z.string(),
     round: z.number().int().min(1).max(5),
-    guess: z.string().min(1),
+    guess: z.string().min(1).max(200),
   }),
   z.object({
     type: z.literal("HOLDEM_ACTION_SUBMITTED"),
     matchId: z.string(),
-    action: z.enum(["FOLD", "CHECK", "CALL", "BET", "RAISE"]),
+    action: HoldemActionSchema,
     amount: z.number().int().min(1).optional(),
   }),
+  z.object({ type: z.literal("CHICKEN_DARE_PICKED"), matchId: z.string(), dareId: z.string().min(1) }),
+  z.object({
+    type: z.literal("CHICKEN_BET_PLACED"),
+    matchId: z.string(),
+    round: z.number().int().min(1),
+    side: ChickenBetSideSchema,
+    // 0 passes on the dare.
+    amount: z.number().int().min(0),
+  }),
+  z.object({ type: z.literal("CHICKEN_DARE_FINISHED"), matchId: z.string(), round: z.number().int().min(1) }),
+  z.object({
+    type: z.literal("CHICKEN_VOTE_CAST"),
+    matchId: z.string(),
+    round: z.number().int().min(1),
+    completed: z.boolean(),
+  }),
 ]);
 
 export type ServerEvent = z.infer<typeof ServerEventSchema>;